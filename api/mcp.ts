@@ -7,6 +7,9 @@ import { existsSync, copyFileSync, rmSync, readFileSync, statSync } from 'fs';
 import { createHash } from 'crypto';
 
 import { registerTools } from '../src/tools/registry.js';
+import { registerResources } from '../src/resources/registry.js';
+import { registerPrompts } from '../src/prompts/registry.js';
+import { registerCompletions } from '../src/completions/registry.js';
 import type { AboutContext } from '../src/tools/about.js';
 
 const PKG_PATH = join(process.cwd(), 'package.json');
@@ -88,10 +91,13 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     // if already connected ("use a separate Protocol instance per connection")
     const server = new Server(
       { name: 'swedish-legal-citations', version: pkgVersion },
-      { capabilities: { tools: {} } }
+      { capabilities: { tools: {}, resources: {}, prompts: {}, completions: {} } }
     );
 
     registerTools(server, database, getAboutContext());
+    registerResources(server, database);
+    registerPrompts(server, database);
+    registerCompletions(server, database);
 
     const transport = new StreamableHTTPServerTransport({
       sessionIdGenerator: undefined,
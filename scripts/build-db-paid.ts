@@ -19,6 +19,7 @@ import Database from 'better-sqlite3';
 import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
+import { splitJudgment } from '../src/parsers/judgment-parser.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -43,6 +44,14 @@ CREATE TABLE IF NOT EXISTS case_law_full (
 CREATE INDEX IF NOT EXISTS idx_case_law_full_case
   ON case_law_full(case_law_id);
 
+-- FTS5 over the parts of full judgments (rowid = case_law_full.id).
+-- The reasoning is split out of full_text, so rows are written by
+-- indexCaseLawFull rather than by triggers.
+CREATE VIRTUAL TABLE IF NOT EXISTS case_law_full_fts USING fts5(
+  headnotes, reasoning, dissents, full_text,
+  tokenize='unicode61'
+);
+
 -- Extended preparatory works with full-text (paid tier)
 CREATE TABLE IF NOT EXISTS preparatory_works_full (
   id INTEGER PRIMARY KEY,
@@ -82,6 +91,35 @@ CREATE VIRTUAL TABLE IF NOT EXISTS agency_guidance_fts USING fts5(
 );
 `;
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Full-text case law index
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Rebuild case_law_full_fts from case_law_full, one row per judgment split into its parts. */
+function indexCaseLawFull(db: Database.Database): number {
+  const rows = db.prepare(
+    'SELECT id, full_text, headnotes, dissenting_opinions FROM case_law_full'
+  ).all() as { id: number; full_text: string; headnotes: string | null; dissenting_opinions: string | null }[];
+
+  const insert = db.prepare(
+    'INSERT INTO case_law_full_fts (rowid, headnotes, reasoning, dissents, full_text) VALUES (?, ?, ?, ?, ?)'
+  );
+  db.transaction(() => {
+    db.exec('DELETE FROM case_law_full_fts');
+    for (const row of rows) {
+      const sections = splitJudgment(row.full_text, row);
+      insert.run(
+        row.id,
+        sections.headnotes,
+        sections.reasoning,
+        sections.dissents.map(opinion => opinion.text).join('\n\n') || null,
+        row.full_text
+      );
+    }
+  })();
+  return rows.length;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Build
 // ─────────────────────────────────────────────────────────────────────────────
@@ -146,6 +184,9 @@ function buildPaidTier(): void {
     console.log(`    ${table}: ${row.c} rows`);
   }
 
+  const indexed = indexCaseLawFull(db);
+  console.log(`    case_law_full_fts: ${indexed} judgments indexed`);
+
   // Update metadata to professional tier
   const upsertMeta = db.prepare(`
     INSERT INTO db_metadata (key, value) VALUES (?, ?)
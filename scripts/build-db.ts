@@ -4,19 +4,41 @@
  *
  * Builds the SQLite database from seed JSON files in data/seed/.
  *
- * Usage: npm run build:db
+ * Usage: npm run build:db [-- --no-vectors]
+ *
+ * --no-vectors skips training the LSA vector index used by semantic and
+ * hybrid search; the vector tables are then left empty.
  */
 
 import Database from 'better-sqlite3';
 import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
+import { compoundSearchTerms } from '../src/utils/compound-splitter.js';
+import { seedThesaurus } from '../src/utils/thesaurus.js';
+import { buildVectorIndex } from '../src/utils/vector-index.js';
+import { extractCrossReferences } from '../src/parsers/cross-ref-extractor.js';
+import {
+  extractProvisionChanges,
+  parseAmendmentScope,
+  type AmendmentReference,
+  type RegisterChangeType,
+} from '../src/parsers/amendment-parser.js';
+import {
+  parseTransitionalText,
+  splitTransitionalText,
+  type TransitionalProvision,
+} from '../src/parsers/transitional-provision-parser.js';
+import { outlineProvisionStructure } from '../src/parsers/provision-structure-parser.js';
+import { deriveChapterOutline } from '../src/parsers/riksdagen-provision-parser.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 const SEED_DIR = path.resolve(__dirname, '../data/seed');
+const AMENDMENTS_DIR = path.join(SEED_DIR, 'amendments');
 const DB_PATH = path.resolve(__dirname, '../data/database.db');
+const BUILD_VECTORS = !process.argv.includes('--no-vectors');
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Seed file types
@@ -38,6 +60,8 @@ interface DocumentSeed {
   definitions?: DefinitionSeed[];
   preparatory_works?: PrepWorkSeed[];
   case_law?: CaseLawSeed;
+  transitional_provisions?: TransitionalProvisionSeed[];
+  chapters?: ChapterSeed[];
 }
 
 interface ProvisionSeed {
@@ -62,6 +86,22 @@ interface ProvisionVersionSeed {
   valid_to?: string;
 }
 
+interface TransitionalProvisionSeed {
+  amending_sfs: string;
+  content: string;
+  in_force_date?: string;
+  provision_refs?: string[];
+  keeps_old_wording?: boolean;
+}
+
+interface ChapterSeed {
+  chapter: string;
+  title?: string;
+  part?: string;
+  part_title?: string;
+  repealed_by?: string;
+}
+
 interface DefinitionSeed {
   term: string;
   term_en?: string;
@@ -92,6 +132,22 @@ interface CrossRefSeed {
   ref_type: string;
 }
 
+/** One file in data/seed/amendments/: the register entries of one statute */
+interface AmendmentRegisterSeed {
+  document_id: string;
+  amendments: Array<{
+    amending_sfs: string;
+    title?: string;
+    published_date?: string;
+    in_force_date?: string;
+    /** Register scope ("Omfattning"), e.g. "ändr. 2 kap. 1 §; ny 2 kap. 4 a §" */
+    scope?: string;
+    proposition?: string;
+    committee_report?: string;
+    riksdag_communication?: string;
+  }>;
+}
+
 interface ProvisionDedupStats {
   duplicate_refs: number;
   conflicting_duplicates: number;
@@ -173,35 +229,38 @@ CREATE TABLE legal_provisions (
   title TEXT,
   content TEXT NOT NULL,
   metadata TEXT,
+  search_terms TEXT,
   UNIQUE(document_id, provision_ref)
 );
 
 CREATE INDEX idx_provisions_doc ON legal_provisions(document_id);
 CREATE INDEX idx_provisions_chapter ON legal_provisions(document_id, chapter);
 
--- FTS5 for provision search
+-- FTS5 for provision search. search_terms holds the stemmed parts of compound
+-- words (src/utils/compound-splitter.ts) so "arbetsgivarens ansvar" also
+-- finds "arbetsgivaransvaret"; the same column exists on the other FTS sources.
 CREATE VIRTUAL TABLE provisions_fts USING fts5(
-  content, title,
+  content, title, search_terms,
   content='legal_provisions',
   content_rowid='id',
   tokenize='unicode61'
 );
 
 CREATE TRIGGER provisions_ai AFTER INSERT ON legal_provisions BEGIN
-  INSERT INTO provisions_fts(rowid, content, title)
-  VALUES (new.id, new.content, new.title);
+  INSERT INTO provisions_fts(rowid, content, title, search_terms)
+  VALUES (new.id, new.content, new.title, new.search_terms);
 END;
 
 CREATE TRIGGER provisions_ad AFTER DELETE ON legal_provisions BEGIN
-  INSERT INTO provisions_fts(provisions_fts, rowid, content, title)
-  VALUES ('delete', old.id, old.content, old.title);
+  INSERT INTO provisions_fts(provisions_fts, rowid, content, title, search_terms)
+  VALUES ('delete', old.id, old.content, old.title, old.search_terms);
 END;
 
 CREATE TRIGGER provisions_au AFTER UPDATE ON legal_provisions BEGIN
-  INSERT INTO provisions_fts(provisions_fts, rowid, content, title)
-  VALUES ('delete', old.id, old.content, old.title);
-  INSERT INTO provisions_fts(rowid, content, title)
-  VALUES (new.id, new.content, new.title);
+  INSERT INTO provisions_fts(provisions_fts, rowid, content, title, search_terms)
+  VALUES ('delete', old.id, old.content, old.title, old.search_terms);
+  INSERT INTO provisions_fts(rowid, content, title, search_terms)
+  VALUES (new.id, new.content, new.title, new.search_terms);
 END;
 
 -- Historical provision versions for date-aware lookups
@@ -214,6 +273,7 @@ CREATE TABLE legal_provision_versions (
   title TEXT,
   content TEXT NOT NULL,
   metadata TEXT,
+  search_terms TEXT,
   valid_from TEXT,
   valid_to TEXT
 );
@@ -224,27 +284,27 @@ CREATE INDEX idx_provision_versions_window
   ON legal_provision_versions(valid_from, valid_to);
 
 CREATE VIRTUAL TABLE provision_versions_fts USING fts5(
-  content, title,
+  content, title, search_terms,
   content='legal_provision_versions',
   content_rowid='id',
   tokenize='unicode61'
 );
 
 CREATE TRIGGER provision_versions_ai AFTER INSERT ON legal_provision_versions BEGIN
-  INSERT INTO provision_versions_fts(rowid, content, title)
-  VALUES (new.id, new.content, new.title);
+  INSERT INTO provision_versions_fts(rowid, content, title, search_terms)
+  VALUES (new.id, new.content, new.title, new.search_terms);
 END;
 
 CREATE TRIGGER provision_versions_ad AFTER DELETE ON legal_provision_versions BEGIN
-  INSERT INTO provision_versions_fts(provision_versions_fts, rowid, content, title)
-  VALUES ('delete', old.id, old.content, old.title);
+  INSERT INTO provision_versions_fts(provision_versions_fts, rowid, content, title, search_terms)
+  VALUES ('delete', old.id, old.content, old.title, old.search_terms);
 END;
 
 CREATE TRIGGER provision_versions_au AFTER UPDATE ON legal_provision_versions BEGIN
-  INSERT INTO provision_versions_fts(provision_versions_fts, rowid, content, title)
-  VALUES ('delete', old.id, old.content, old.title);
-  INSERT INTO provision_versions_fts(rowid, content, title)
-  VALUES (new.id, new.content, new.title);
+  INSERT INTO provision_versions_fts(provision_versions_fts, rowid, content, title, search_terms)
+  VALUES ('delete', old.id, old.content, old.title, old.search_terms);
+  INSERT INTO provision_versions_fts(rowid, content, title, search_terms)
+  VALUES (new.id, new.content, new.title, new.search_terms);
 END;
 
 -- Case law metadata
@@ -255,32 +315,33 @@ CREATE TABLE case_law (
   case_number TEXT,
   decision_date TEXT,
   summary TEXT,
-  keywords TEXT
+  keywords TEXT,
+  search_terms TEXT
 );
 
 -- FTS5 for case law search
 CREATE VIRTUAL TABLE case_law_fts USING fts5(
-  summary, keywords,
+  summary, keywords, search_terms,
   content='case_law',
   content_rowid='id',
   tokenize='unicode61'
 );
 
 CREATE TRIGGER case_law_ai AFTER INSERT ON case_law BEGIN
-  INSERT INTO case_law_fts(rowid, summary, keywords)
-  VALUES (new.id, new.summary, new.keywords);
+  INSERT INTO case_law_fts(rowid, summary, keywords, search_terms)
+  VALUES (new.id, new.summary, new.keywords, new.search_terms);
 END;
 
 CREATE TRIGGER case_law_ad AFTER DELETE ON case_law BEGIN
-  INSERT INTO case_law_fts(case_law_fts, rowid, summary, keywords)
-  VALUES ('delete', old.id, old.summary, old.keywords);
+  INSERT INTO case_law_fts(case_law_fts, rowid, summary, keywords, search_terms)
+  VALUES ('delete', old.id, old.summary, old.keywords, old.search_terms);
 END;
 
 CREATE TRIGGER case_law_au AFTER UPDATE ON case_law BEGIN
-  INSERT INTO case_law_fts(case_law_fts, rowid, summary, keywords)
-  VALUES ('delete', old.id, old.summary, old.keywords);
-  INSERT INTO case_law_fts(rowid, summary, keywords)
-  VALUES (new.id, new.summary, new.keywords);
+  INSERT INTO case_law_fts(case_law_fts, rowid, summary, keywords, search_terms)
+  VALUES ('delete', old.id, old.summary, old.keywords, old.search_terms);
+  INSERT INTO case_law_fts(rowid, summary, keywords, search_terms)
+  VALUES (new.id, new.summary, new.keywords, new.search_terms);
 END;
 
 -- Preparatory works (forarbeten) linking statutes to bills/SOUs
@@ -289,34 +350,35 @@ CREATE TABLE preparatory_works (
   statute_id TEXT NOT NULL REFERENCES legal_documents(id),
   prep_document_id TEXT NOT NULL REFERENCES legal_documents(id),
   title TEXT,
-  summary TEXT
+  summary TEXT,
+  search_terms TEXT
 );
 
 CREATE INDEX idx_prep_statute ON preparatory_works(statute_id);
 
 -- FTS5 for preparatory works search
 CREATE VIRTUAL TABLE prep_works_fts USING fts5(
-  title, summary,
+  title, summary, search_terms,
   content='preparatory_works',
   content_rowid='id',
   tokenize='unicode61'
 );
 
 CREATE TRIGGER prep_works_ai AFTER INSERT ON preparatory_works BEGIN
-  INSERT INTO prep_works_fts(rowid, title, summary)
-  VALUES (new.id, new.title, new.summary);
+  INSERT INTO prep_works_fts(rowid, title, summary, search_terms)
+  VALUES (new.id, new.title, new.summary, new.search_terms);
 END;
 
 CREATE TRIGGER prep_works_ad AFTER DELETE ON preparatory_works BEGIN
-  INSERT INTO prep_works_fts(prep_works_fts, rowid, title, summary)
-  VALUES ('delete', old.id, old.title, old.summary);
+  INSERT INTO prep_works_fts(prep_works_fts, rowid, title, summary, search_terms)
+  VALUES ('delete', old.id, old.title, old.summary, old.search_terms);
 END;
 
 CREATE TRIGGER prep_works_au AFTER UPDATE ON preparatory_works BEGIN
-  INSERT INTO prep_works_fts(prep_works_fts, rowid, title, summary)
-  VALUES ('delete', old.id, old.title, old.summary);
-  INSERT INTO prep_works_fts(rowid, title, summary)
-  VALUES (new.id, new.title, new.summary);
+  INSERT INTO prep_works_fts(prep_works_fts, rowid, title, summary, search_terms)
+  VALUES ('delete', old.id, old.title, old.summary, old.search_terms);
+  INSERT INTO prep_works_fts(rowid, title, summary, search_terms)
+  VALUES (new.id, new.title, new.summary, new.search_terms);
 END;
 
 -- Cross-references between provisions/documents
@@ -333,6 +395,67 @@ CREATE TABLE cross_references (
 CREATE INDEX idx_xref_source ON cross_references(source_document_id);
 CREATE INDEX idx_xref_target ON cross_references(target_document_id);
 
+-- SFS amendment register (författningsregister): each amending SFS of a
+-- statute and the provisions it changed. source is 'register' for entries
+-- from data/seed/amendments, 'provision_text' for entries derived from
+-- "Lag (YYYY:NNN)." markers in provision text.
+CREATE TABLE sfs_amendments (
+  id INTEGER PRIMARY KEY,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  amending_sfs TEXT NOT NULL,
+  title TEXT,
+  published_date TEXT,
+  in_force_date TEXT,
+  proposition TEXT,
+  committee_report TEXT,
+  riksdag_communication TEXT,
+  source TEXT NOT NULL DEFAULT 'register'
+    CHECK(source IN ('register', 'provision_text')),
+  UNIQUE(document_id, amending_sfs)
+);
+
+CREATE INDEX idx_sfs_amendments_amending ON sfs_amendments(amending_sfs);
+
+CREATE TABLE sfs_amendment_provisions (
+  id INTEGER PRIMARY KEY,
+  amendment_id INTEGER NOT NULL REFERENCES sfs_amendments(id),
+  provision_ref TEXT NOT NULL,
+  change_type TEXT NOT NULL CHECK(change_type IN ('ändr.', 'ny', 'upph.')),
+  UNIQUE(amendment_id, provision_ref, change_type)
+);
+
+CREATE INDEX idx_sfs_amendment_provisions_ref ON sfs_amendment_provisions(provision_ref);
+
+-- Transitional provisions (övergångsbestämmelser), one row per act: the
+-- statute's own rules (amending_sfs = document_id) and those of each amending
+-- act. provision_refs is a JSON array of the provisions the rules mention;
+-- keeps_old_wording is 1 when they keep earlier wording applicable.
+CREATE TABLE transitional_provisions (
+  id INTEGER PRIMARY KEY,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  amending_sfs TEXT NOT NULL,
+  content TEXT NOT NULL,
+  in_force_date TEXT,
+  provision_refs TEXT NOT NULL DEFAULT '[]',
+  keeps_old_wording INTEGER NOT NULL DEFAULT 0,
+  UNIQUE(document_id, amending_sfs)
+);
+
+CREATE INDEX idx_transitional_provisions_amending ON transitional_provisions(amending_sfs);
+
+-- Chapter headings and the avdelningar (parts) that group them, in document
+-- order. repealed_by is set when the chapter heading is a repeal notice.
+CREATE TABLE statute_chapters (
+  id INTEGER PRIMARY KEY,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  chapter TEXT NOT NULL,
+  title TEXT,
+  part TEXT,
+  part_title TEXT,
+  repealed_by TEXT,
+  UNIQUE(document_id, chapter)
+);
+
 -- Legal term definitions
 CREATE TABLE definitions (
   id INTEGER PRIMARY KEY,
@@ -369,6 +492,37 @@ CREATE TRIGGER definitions_au AFTER UPDATE ON definitions BEGIN
   VALUES (new.id, new.term, new.definition);
 END;
 
+-- Legal thesaurus for query expansion (abbreviations, synonyms, broader/narrower
+-- terms). Seeded after load from short names, definitions and a curated list;
+-- term_key holds the stemmed term for lookups (see src/utils/thesaurus.ts).
+CREATE TABLE thesaurus (
+  id INTEGER PRIMARY KEY,
+  term TEXT NOT NULL,
+  term_key TEXT NOT NULL,
+  related_term TEXT NOT NULL,
+  relation TEXT NOT NULL CHECK(relation IN ('abbreviation', 'synonym', 'broader', 'narrower')),
+  document_id TEXT REFERENCES legal_documents(id),
+  source TEXT NOT NULL CHECK(source IN ('short_name', 'definition', 'curated')),
+  UNIQUE(term_key, related_term, relation)
+);
+
+CREATE INDEX idx_thesaurus_key ON thesaurus(term_key, relation);
+
+-- Optional vector index for semantic search (see src/utils/vector-index.ts).
+-- vector_terms holds the LSA term vectors and IDF weights needed to embed a
+-- query; provision_vectors one unit vector per provision. Both stay empty when
+-- the database is built with --no-vectors.
+CREATE TABLE vector_terms (
+  term TEXT PRIMARY KEY,
+  idf REAL NOT NULL,
+  vector BLOB NOT NULL
+);
+
+CREATE TABLE provision_vectors (
+  provision_id INTEGER PRIMARY KEY REFERENCES legal_provisions(id),
+  vector BLOB NOT NULL
+);
+
 -- =============================================================================
 -- EU REFERENCES SCHEMA
 -- =============================================================================
@@ -520,6 +674,11 @@ function normalizeWhitespace(text: string): string {
   return text.replace(/\s+/g, ' ').trim();
 }
 
+/** Seed metadata with the provision's stycke and punkt outline added */
+function provisionMetadata(provision: ProvisionSeed): string {
+  return JSON.stringify({ ...provision.metadata, structure: outlineProvisionStructure(provision.content) });
+}
+
 function extractRepealDateFromDescription(description: string | undefined): string | undefined {
   if (!description) {
     return undefined;
@@ -618,6 +777,26 @@ function dedupeProvisions(provisions: ProvisionSeed[]): { deduped: ProvisionSeed
   };
 }
 
+/**
+ * Move transitional provisions that ingestion flattened into provision text
+ * out of the provisions. Returns the cleaned provisions and the parsed blocks.
+ */
+function separateTransitionalProvisions<T extends ProvisionSeed>(
+  provisions: T[],
+  lastProvisionRef: string | undefined
+): { provisions: T[]; transitional: TransitionalProvision[] } {
+  const transitional: TransitionalProvision[] = [];
+  const cleaned = provisions.map(provision => {
+    const split = splitTransitionalText(provision.content, {
+      lastProvision: provision.provision_ref === lastProvisionRef,
+    });
+    if (split.transitional === null) return provision;
+    transitional.push(...parseTransitionalText(split.transitional));
+    return { ...provision, content: split.text };
+  });
+  return { provisions: cleaned, transitional };
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Build
 // ─────────────────────────────────────────────────────────────────────────────
@@ -647,25 +826,25 @@ function buildDatabase(): void {
   `);
 
   const insertProvision = db.prepare(`
-    INSERT INTO legal_provisions (document_id, provision_ref, chapter, section, title, content, metadata)
-    VALUES (?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO legal_provisions (document_id, provision_ref, chapter, section, title, content, metadata, search_terms)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
   `);
 
   const insertProvisionVersion = db.prepare(`
     INSERT INTO legal_provision_versions (
-      document_id, provision_ref, chapter, section, title, content, metadata, valid_from, valid_to
+      document_id, provision_ref, chapter, section, title, content, metadata, search_terms, valid_from, valid_to
     )
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
 
   const insertCaseLaw = db.prepare(`
-    INSERT INTO case_law (document_id, court, case_number, decision_date, summary, keywords)
-    VALUES (?, ?, ?, ?, ?, ?)
+    INSERT INTO case_law (document_id, court, case_number, decision_date, summary, keywords, search_terms)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
   `);
 
   const insertPrepWork = db.prepare(`
-    INSERT INTO preparatory_works (statute_id, prep_document_id, title, summary)
-    VALUES (?, ?, ?, ?)
+    INSERT INTO preparatory_works (statute_id, prep_document_id, title, summary, search_terms)
+    VALUES (?, ?, ?, ?, ?)
   `);
 
   const insertDefinition = db.prepare(`
@@ -678,6 +857,18 @@ function buildDatabase(): void {
     VALUES (?, ?, ?, ?, ?)
   `);
 
+  const insertTransitional = db.prepare(`
+    INSERT OR IGNORE INTO transitional_provisions (
+      document_id, amending_sfs, content, in_force_date, provision_refs, keeps_old_wording
+    )
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+
+  const insertChapter = db.prepare(`
+    INSERT OR IGNORE INTO statute_chapters (document_id, chapter, title, part, part_title, repealed_by)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+
   const insertEUDocument = db.prepare(`
     INSERT INTO eu_documents (
       id, type, year, number, community, celex_number,
@@ -716,6 +907,9 @@ function buildDatabase(): void {
   let totalProvisions = 0;
   let totalProvisionVersions = 0;
   let totalDefs = 0;
+  let totalTransitional = 0;
+  let totalChapters = 0;
+  let totalDerivedChapters = 0;
   let totalDuplicateRefs = 0;
   let totalConflictingDuplicates = 0;
   const pendingPrepWorks: PendingPrepWork[] = [];
@@ -748,9 +942,15 @@ function buildDatabase(): void {
 
       const documentWindow = deriveDocumentValidityWindow(seed);
       const versionCandidates = seed.provision_versions ?? deduped;
-      const { deduped: dedupedVersions } = dedupeProvisions(versionCandidates);
-      const currentProvisions = deduped.length > 0
-        ? deduped
+      const versionProvisions = dedupeProvisions(versionCandidates).deduped;
+      // Statute-level transitional provisions end the statute's last provision
+      const orderedProvisions = deduped.length > 0 ? deduped : versionProvisions;
+      const lastProvisionRef = orderedProvisions[orderedProvisions.length - 1]?.provision_ref;
+      const separatedVersions = separateTransitionalProvisions(versionProvisions, lastProvisionRef);
+      const dedupedVersions = separatedVersions.provisions;
+      const separated = separateTransitionalProvisions(deduped, lastProvisionRef);
+      const currentProvisions = separated.provisions.length > 0
+        ? separated.provisions
         : selectLatestProvisionVersions(dedupedVersions);
 
       for (const prov of currentProvisions) {
@@ -758,7 +958,8 @@ function buildDatabase(): void {
         insertProvision.run(
           seed.id, prov.provision_ref, prov.chapter ?? null,
           prov.section, prov.title ?? null, prov.content,
-          prov.metadata ? JSON.stringify(prov.metadata) : null
+          provisionMetadata(prov),
+          compoundSearchTerms(prov.title, prov.content)
         );
         totalProvisions++;
       }
@@ -771,13 +972,42 @@ function buildDatabase(): void {
           version.section,
           version.title ?? null,
           version.content,
-          version.metadata ? JSON.stringify(version.metadata) : null,
+          provisionMetadata(version),
+          compoundSearchTerms(version.title, version.content),
           version.valid_from ?? documentWindow.validFrom,
           version.valid_to ?? documentWindow.validTo
         );
         totalProvisionVersions++;
       }
 
+      // Seeded transitional provisions take precedence over those found in
+      // provision text; the first block of each act wins.
+      const transitionalBlocks = [
+        ...(seed.transitional_provisions ?? []),
+        ...separated.transitional,
+        ...separatedVersions.transitional,
+      ];
+      for (const block of transitionalBlocks) {
+        const { changes } = insertTransitional.run(
+          seed.id, block.amending_sfs ?? seed.id, block.content,
+          block.in_force_date ?? null, JSON.stringify(block.provision_refs ?? []),
+          block.keeps_old_wording ? 1 : 0
+        );
+        totalTransitional += changes;
+      }
+
+      // Seeds ingested before chapters were captured: the avdelningar can
+      // still be recovered from the provision text.
+      const chapters = seed.chapters ?? deriveChapterOutline(currentProvisions);
+      for (const chapter of chapters) {
+        insertChapter.run(
+          seed.id, chapter.chapter, chapter.title ?? null,
+          chapter.part ?? null, chapter.part_title ?? null, chapter.repealed_by ?? null
+        );
+        totalChapters++;
+        if (!seed.chapters) totalDerivedChapters++;
+      }
+
       for (const def of seed.definitions ?? []) {
         insertDefinition.run(
           seed.id, def.term, def.term_en ?? null,
@@ -792,7 +1022,8 @@ function buildDatabase(): void {
           seed.case_law.case_number ?? null,
           seed.case_law.decision_date ?? null,
           seed.case_law.summary ?? null,
-          seed.case_law.keywords ?? null
+          seed.case_law.keywords ?? null,
+          compoundSearchTerms(seed.case_law.summary, seed.case_law.keywords)
         );
       }
 
@@ -848,7 +1079,10 @@ function buildDatabase(): void {
     }
 
     for (const pw of pendingPrepWorks) {
-      insertPrepWork.run(pw.statute_id, pw.prep_document_id, pw.title, pw.summary ?? null);
+      insertPrepWork.run(
+        pw.statute_id, pw.prep_document_id, pw.title, pw.summary ?? null,
+        compoundSearchTerms(pw.title, pw.summary)
+      );
     }
 
     // Load cross-references file if it exists
@@ -865,6 +1099,128 @@ function buildDatabase(): void {
       console.log(`  Loaded ${xrefs.length} cross-references`);
     }
 
+    // Extract references from provision text: "(2018:218)" links to another
+    // statute, "3 kap. 5 §" to a provision in the same statute. Targets that
+    // are not in the database are skipped.
+    const knownXrefs = new Set(
+      (db.prepare(`
+        SELECT source_document_id, source_provision_ref, target_document_id, target_provision_ref
+        FROM cross_references
+      `).all() as CrossRefSeed[]).map(xref =>
+        `${xref.source_document_id}|${xref.source_provision_ref ?? ''}|${xref.target_document_id}|${xref.target_provision_ref ?? ''}`
+      )
+    );
+    const documentIds = new Set(
+      (db.prepare('SELECT id FROM legal_documents').all() as { id: string }[]).map(row => row.id)
+    );
+    const provisionKeys = new Set(
+      (db.prepare('SELECT document_id, provision_ref FROM legal_provisions').all() as
+        { document_id: string; provision_ref: string }[]).map(row => `${row.document_id}|${row.provision_ref}`)
+    );
+    let extractedXrefs = 0;
+    const provisionTexts = db.prepare('SELECT document_id, provision_ref, content FROM legal_provisions').all() as
+      { document_id: string; provision_ref: string; content: string }[];
+    for (const provision of provisionTexts) {
+      for (const ref of extractCrossReferences(provision.content)) {
+        const targetDocument = ref.target_sfs ?? provision.document_id;
+        const targetProvision = ref.target_provision_ref ?? null;
+        if (!documentIds.has(targetDocument)) continue;
+        if (targetProvision && !provisionKeys.has(`${targetDocument}|${targetProvision}`)) continue;
+        if (targetDocument === provision.document_id && (!targetProvision || targetProvision === provision.provision_ref)) continue;
+
+        const key = `${provision.document_id}|${provision.provision_ref}|${targetDocument}|${targetProvision ?? ''}`;
+        if (knownXrefs.has(key)) continue;
+        knownXrefs.add(key);
+        insertCrossRef.run(provision.document_id, provision.provision_ref, targetDocument, targetProvision, 'references');
+        extractedXrefs++;
+      }
+    }
+    console.log(`  Extracted ${extractedXrefs} cross-references from provision text`);
+
+    // Load the SFS amendment register from data/seed/amendments/, then derive
+    // entries from "Lag (YYYY:NNN)." markers for amendments it does not cover.
+    const insertAmendment = db.prepare(`
+      INSERT INTO sfs_amendments (
+        document_id, amending_sfs, title, published_date, in_force_date,
+        proposition, committee_report, riksdag_communication, source
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertAmendmentProvision = db.prepare(`
+      INSERT OR IGNORE INTO sfs_amendment_provisions (amendment_id, provision_ref, change_type)
+      VALUES (?, ?, ?)
+    `);
+    const amendmentIds = new Map<string, number>();
+    let registerEntries = 0;
+    if (fs.existsSync(AMENDMENTS_DIR)) {
+      const registerFiles = fs.readdirSync(AMENDMENTS_DIR).filter(f => f.endsWith('.json')).sort();
+      for (const file of registerFiles) {
+        const register = JSON.parse(fs.readFileSync(path.join(AMENDMENTS_DIR, file), 'utf-8')) as AmendmentRegisterSeed;
+        if (!documentIds.has(register.document_id)) {
+          console.log(`    WARNING: amendment register ${file} is for unknown statute ${register.document_id}`);
+          continue;
+        }
+        for (const entry of register.amendments) {
+          const key = `${register.document_id}|${entry.amending_sfs}`;
+          if (amendmentIds.has(key)) continue;
+          const { lastInsertRowid } = insertAmendment.run(
+            register.document_id, entry.amending_sfs, entry.title ?? null,
+            entry.published_date ?? null, entry.in_force_date ?? null,
+            entry.proposition ?? null, entry.committee_report ?? null,
+            entry.riksdag_communication ?? null, 'register'
+          );
+          amendmentIds.set(key, Number(lastInsertRowid));
+          for (const change of parseAmendmentScope(entry.scope ?? '')) {
+            insertAmendmentProvision.run(lastInsertRowid, change.provision_ref, change.change_type);
+          }
+          registerEntries++;
+        }
+      }
+    }
+
+    const registerChangeTypes: Partial<Record<AmendmentReference['amendment_type'], RegisterChangeType>> = {
+      'ändrad': 'ändr.',
+      'ny_lydelse': 'ändr.',
+      'införd': 'ny',
+      'upphävd': 'upph.',
+    };
+    const registerKeys = new Set(amendmentIds.keys());
+    let derivedEntries = 0;
+    for (const provision of provisionTexts) {
+      for (const ref of extractProvisionChanges(provision.content)) {
+        const changeType = registerChangeTypes[ref.amendment_type];
+        const key = `${provision.document_id}|${ref.amended_by_sfs}`;
+        if (!changeType || registerKeys.has(key) || ref.amended_by_sfs === provision.document_id) continue;
+        let amendmentId = amendmentIds.get(key);
+        if (amendmentId === undefined) {
+          amendmentId = Number(insertAmendment.run(
+            provision.document_id, ref.amended_by_sfs, null, null, null, null, null, null, 'provision_text'
+          ).lastInsertRowid);
+          amendmentIds.set(key, amendmentId);
+          derivedEntries++;
+        }
+        insertAmendmentProvision.run(amendmentId, provision.provision_ref, changeType);
+      }
+    }
+    console.log(`  Loaded ${registerEntries} amendment register entries, derived ${derivedEntries} from provision text`);
+
+    // The in-force date the register lacks is stated in the amending act's
+    // transitional provisions ("Denna lag träder i kraft den 1 januari 2022.").
+    const datedAmendments = db.prepare(`
+      UPDATE sfs_amendments
+      SET in_force_date = (
+        SELECT MIN(tp.in_force_date) FROM transitional_provisions tp
+        WHERE tp.document_id = sfs_amendments.document_id
+          AND tp.amending_sfs = sfs_amendments.amending_sfs
+      )
+      WHERE in_force_date IS NULL AND EXISTS (
+        SELECT 1 FROM transitional_provisions tp
+        WHERE tp.document_id = sfs_amendments.document_id
+          AND tp.amending_sfs = sfs_amendments.amending_sfs
+          AND tp.in_force_date IS NOT NULL
+      )
+    `).run().changes;
+    console.log(`  Dated ${datedAmendments} amendments from their transitional provisions`);
+
     // Load EU references file if it exists
     const euRefsPath = path.join(SEED_DIR, 'eu-references.json');
     if (fs.existsSync(euRefsPath)) {
@@ -1101,11 +1457,26 @@ function buildDatabase(): void {
 
   loadAll();
 
+  const thesaurusEntries = db.transaction(() => seedThesaurus(db))();
+  console.log(`  Seeded ${thesaurusEntries} thesaurus entries`);
+
+  let vectorDimensions = 0;
+  if (BUILD_VECTORS) {
+    vectorDimensions = db.transaction(() => buildVectorIndex(db))();
+    console.log(`  Built vector index (${vectorDimensions} dimensions)`);
+  } else {
+    console.log('  Skipped vector index (--no-vectors)');
+  }
+
   // Write build metadata
   const insertMeta = db.prepare('INSERT INTO db_metadata (key, value) VALUES (?, ?)');
   const writeMeta = db.transaction(() => {
     insertMeta.run('tier', 'free');
-    insertMeta.run('schema_version', '2');
+    insertMeta.run('schema_version', '8');
+    if (vectorDimensions > 0) {
+      insertMeta.run('vector_model', 'lsa-tfidf');
+      insertMeta.run('vector_dimensions', String(vectorDimensions));
+    }
     insertMeta.run('built_at', new Date().toISOString());
     insertMeta.run('builder', 'build-db.ts');
   });
@@ -1120,7 +1491,9 @@ function buildDatabase(): void {
   const size = fs.statSync(DB_PATH).size;
   console.log(
     `\nBuild complete: ${totalDocs} documents, ${totalProvisions} provisions, ` +
-    `${totalProvisionVersions} provision versions, ${totalDefs} definitions`
+    `${totalProvisionVersions} provision versions, ${totalDefs} definitions, ` +
+    `${totalTransitional} transitional provision blocks, ${totalChapters} outlined chapters ` +
+    `(${totalDerivedChapters} derived from provision text)`
   );
   if (totalDuplicateRefs > 0) {
     console.log(
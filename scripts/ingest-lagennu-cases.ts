@@ -22,6 +22,7 @@ import * as path from 'path';
 import { fileURLToPath, pathToFileURL } from 'url';
 import Database from 'better-sqlite3';
 import { JSDOM } from 'jsdom';
+import { compoundSearchTerms } from '../src/utils/compound-splitter.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -411,7 +412,7 @@ function insertOrUpdateCase(
       db.prepare(`
         UPDATE case_law
         SET court = ?, case_number = ?, decision_date = ?,
-            summary = ?, keywords = ?
+            summary = ?, keywords = ?, search_terms = ?
         WHERE document_id = ?
       `).run(
         metadata.court,
@@ -419,6 +420,7 @@ function insertOrUpdateCase(
         metadata.decision_date,
         metadata.summary_snippet,
         metadata.keywords,
+        compoundSearchTerms(metadata.summary_snippet, metadata.keywords),
         metadata.document_id
       );
 
@@ -445,7 +447,8 @@ function insertOrUpdateCase(
         metadata.case_number,
         metadata.decision_date,
         metadata.summary_snippet,
-        metadata.keywords
+        metadata.keywords,
+        compoundSearchTerms(metadata.summary_snippet, metadata.keywords)
       );
 
       result.inserted = true;
@@ -510,14 +513,15 @@ async function ingestCaseLaw(limit?: number): Promise<void> {
 
   const insertCase = db.prepare(`
     INSERT INTO case_law
-      (document_id, court, case_number, decision_date, summary, keywords)
-    VALUES (?, ?, ?, ?, ?, ?)
+      (document_id, court, case_number, decision_date, summary, keywords, search_terms)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
     ON CONFLICT(document_id) DO UPDATE SET
       court = excluded.court,
       case_number = excluded.case_number,
       decision_date = excluded.decision_date,
       summary = excluded.summary,
-      keywords = excluded.keywords
+      keywords = excluded.keywords,
+      search_terms = excluded.search_terms
   `);
 
   const stats: IngestionStats = {
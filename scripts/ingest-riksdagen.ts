@@ -162,6 +162,8 @@ interface SeedOutput {
   provisions?: ProvisionOutput[];
   definitions?: DefinitionOutput[];
   preparatory_works?: PrepWorkOutput[];
+  transitional_provisions?: TransitionalOutput[];
+  chapters?: ChapterOutput[];
 }
 
 interface ProvisionOutput {
@@ -178,6 +180,22 @@ interface DefinitionOutput {
   source_provision?: string;
 }
 
+interface TransitionalOutput {
+  amending_sfs: string;
+  content: string;
+  in_force_date?: string;
+  provision_refs: string[];
+  keeps_old_wording: boolean;
+}
+
+interface ChapterOutput {
+  chapter: string;
+  title?: string;
+  part?: string;
+  part_title?: string;
+  repealed_by?: string;
+}
+
 interface PrepWorkOutput {
   prep_document_id: string;
   title: string;
@@ -460,6 +478,18 @@ export async function ingest(sfsNumber: string, outputPath: string, options?: In
       `suppressed section candidates=${parseResult.diagnostics.suppressed_section_candidates}`
     );
   }
+  const transitionalProvisions: TransitionalOutput[] = parseResult.transitional_provisions.map(block => ({
+    ...block,
+    amending_sfs: block.amending_sfs ?? requestedSfs,
+  }));
+  if (transitionalProvisions.length > 0) {
+    log(`  Found ${transitionalProvisions.length} transitional provision blocks`);
+  }
+  const chapters: ChapterOutput[] = parseResult.chapters;
+  if (chapters.length > 0) {
+    const parts = new Set(chapters.map(chapter => chapter.part).filter(Boolean));
+    log(`  Found ${chapters.length} chapters in ${parts.size} avdelningar`);
+  }
   if (deduped.duplicateRefs > 0) {
     log(
       `  De-duplicated ${deduped.duplicateRefs} duplicate refs ` +
@@ -498,6 +528,8 @@ export async function ingest(sfsNumber: string, outputPath: string, options?: In
       : undefined,
     provisions: provisions.length > 0 ? provisions : undefined,
     preparatory_works: KNOWN_PREPARATORY_WORKS[requestedSfs],
+    transitional_provisions: transitionalProvisions.length > 0 ? transitionalProvisions : undefined,
+    chapters: chapters.length > 0 ? chapters : undefined,
   };
 
   // Step 5: Write output
@@ -6,6 +6,7 @@
 
 import Database from 'better-sqlite3';
 import { JSDOM } from 'jsdom';
+import { compoundSearchTerms } from '../../src/utils/compound-splitter.js';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Configuration
@@ -333,7 +334,7 @@ export function insertOrUpdateCase(
       db.prepare(`
         UPDATE case_law
         SET court = ?, case_number = ?, decision_date = ?,
-            summary = ?, keywords = ?
+            summary = ?, keywords = ?, search_terms = ?
         WHERE document_id = ?
       `).run(
         metadata.court,
@@ -341,6 +342,7 @@ export function insertOrUpdateCase(
         metadata.decision_date,
         metadata.summary_snippet,
         metadata.keywords,
+        compoundSearchTerms(metadata.summary_snippet, metadata.keywords),
         metadata.document_id
       );
 
@@ -366,7 +368,8 @@ export function insertOrUpdateCase(
         metadata.case_number,
         metadata.decision_date,
         metadata.summary_snippet,
-        metadata.keywords
+        metadata.keywords,
+        compoundSearchTerms(metadata.summary_snippet, metadata.keywords)
       );
 
       result.inserted = true;
@@ -336,14 +336,15 @@ async function syncCaseLaw(options: SyncOptions): Promise<SyncReport> {
 
       const insertCase = db.prepare(`
         INSERT INTO case_law
-          (document_id, court, case_number, decision_date, summary, keywords)
-        VALUES (?, ?, ?, ?, ?, ?)
+          (document_id, court, case_number, decision_date, summary, keywords, search_terms)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
         ON CONFLICT(document_id) DO UPDATE SET
           court = excluded.court,
           case_number = excluded.case_number,
           decision_date = excluded.decision_date,
           summary = excluded.summary,
-          keywords = excluded.keywords
+          keywords = excluded.keywords,
+          search_terms = excluded.search_terms
       `);
 
       // Process cases in batches
@@ -0,0 +1,315 @@
+/**
+ * Bibliography records for cited documents, for reference managers:
+ * CSL-JSON, BibTeX (biblatex @legislation / @jurisdiction / @report) and RIS.
+ *
+ * Records are built from legal_documents, case_law and preparatory_works
+ * (and eu_documents for EU acts): title, issuing or decision date, court
+ * and case number. The url is the link_citations target: the stored url,
+ * else a canonical one. A pinpoint in the citation (section, page, article)
+ * is kept as the record's section or page.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import type { ParsedCitation } from '../types/index.js';
+import { formatCitation } from './formatter.js';
+import { citationUrl } from './linker.js';
+import { findDocument } from './validator.js';
+
+export type ExportFormat = 'csl-json' | 'bibtex' | 'ris';
+
+export type BibliographyKind = 'statute' | 'bill' | 'sou' | 'ds' | 'case' | 'eu_act';
+
+/** A cited document with the bibliographic data the database holds */
+export interface BibliographyEntry {
+  /** Citation key, e.g. "SFS2018_218", "NJA2020s45" */
+  key: string;
+  kind: BibliographyKind;
+  title: string;
+  /** Official number as cited: "SFS 2018:218", "Prop. 2017/18:105", "T 1234-19" */
+  number: string;
+  /** YYYY-MM-DD, or null when unknown */
+  issued: string | null;
+  url: string | null;
+  /** Issuing body: Riksdagen, Regeringen, the court, or the EU */
+  authority: string;
+  /** Series or reporter: "Svensk författningssamling", "NJA" */
+  container: string | null;
+  /** Provision or article pinpoint: "3 kap. 5 §", "artikel 6.1 c" */
+  section?: string;
+  page?: string;
+  /** Statutes a bill or report prepared (preparatory_works) */
+  prepares?: string[];
+  language: 'sv' | 'en';
+}
+
+interface DocumentRow {
+  id: string;
+  title: string;
+  issued_date: string | null;
+}
+
+const SERIES: Record<'statute' | 'bill' | 'sou' | 'ds', { container: string; authority: string }> = {
+  statute: { container: 'Svensk författningssamling', authority: 'Sveriges riksdag' },
+  bill: { container: 'Regeringens propositioner', authority: 'Regeringen' },
+  sou: { container: 'Statens offentliga utredningar', authority: 'Regeringskansliet' },
+  ds: { container: 'Departementsserien', authority: 'Regeringskansliet' },
+};
+
+/** Reporter series and the court whose decisions it reports */
+const REPORTERS: Record<string, { title: string; court: string }> = {
+  NJA: { title: 'Nytt juridiskt arkiv', court: 'Högsta domstolen' },
+  'NJA II': { title: 'Nytt juridiskt arkiv, avd. II', court: 'Högsta domstolen' },
+  HFD: { title: 'Högsta förvaltningsdomstolens årsbok', court: 'Högsta förvaltningsdomstolen' },
+  RÅ: { title: 'Regeringsrättens årsbok', court: 'Regeringsrätten' },
+  AD: { title: 'Arbetsdomstolens domar', court: 'Arbetsdomstolen' },
+  RH: { title: 'Rättsfall från hovrätterna', court: 'Hovrätt' },
+  MÖD: { title: 'Miljööverdomstolens avgöranden', court: 'Mark- och miljööverdomstolen' },
+  PMÖD: { title: 'Patent- och marknadsöverdomstolens avgöranden', court: 'Patent- och marknadsöverdomstolen' },
+  MIG: { title: 'Migrationsöverdomstolens avgöranden', court: 'Migrationsöverdomstolen' },
+  MD: { title: 'Marknadsdomstolens avgöranden', court: 'Marknadsdomstolen' },
+};
+
+/** case_law.court codes spelled out */
+const COURT_NAMES: Record<string, string> = {
+  HD: 'Högsta domstolen',
+  HFD: 'Högsta förvaltningsdomstolen',
+  RR: 'Regeringsrätten',
+  AD: 'Arbetsdomstolen',
+  MD: 'Marknadsdomstolen',
+  MÖD: 'Mark- och miljööverdomstolen',
+  PMÖD: 'Patent- och marknadsöverdomstolen',
+  MIG: 'Migrationsöverdomstolen',
+};
+
+function citationKey(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[.\s]+/g, '')
+    .replace(/[^A-Za-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Bibliography entry of a parsed citation, or null when the document is not
+ * in the database or is of a kind without records (bet., rskr., Dir.).
+ */
+export function loadBibliographyEntry(db: Database, parsed: ParsedCitation): BibliographyEntry | null {
+  switch (parsed.type) {
+    case 'statute':
+    case 'bill':
+    case 'sou':
+    case 'ds':
+      return documentEntry(db, parsed, parsed.type);
+    case 'case_law':
+      return caseEntry(db, parsed);
+    case 'eu_act':
+      return euEntry(db, parsed);
+    default:
+      return null;
+  }
+}
+
+function documentEntry(db: Database, parsed: ParsedCitation, kind: 'statute' | 'bill' | 'sou' | 'ds'): BibliographyEntry | null {
+  const doc = db.prepare(
+    'SELECT id, title, issued_date FROM legal_documents WHERE id = ? AND type = ?'
+  ).get(parsed.document_id, kind) as DocumentRow | undefined;
+  if (!doc) return null;
+
+  const number = formatCitation({ ...parsed, chapter: undefined, section: undefined, section_end: undefined, stycke: undefined, punkt: undefined, page: undefined });
+  const entry: BibliographyEntry = {
+    key: citationKey(number),
+    kind,
+    title: doc.title,
+    number,
+    issued: doc.issued_date,
+    url: citationUrl(db, parsed).url,
+    ...SERIES[kind],
+    language: 'sv',
+  };
+  if (kind === 'statute' && parsed.section) {
+    entry.section = formatCitation(parsed, 'pinpoint');
+  }
+  if (parsed.page) {
+    entry.page = parsed.page;
+  }
+  if (kind !== 'statute') {
+    const statutes = db.prepare(
+      'SELECT DISTINCT statute_id FROM preparatory_works WHERE prep_document_id = ? ORDER BY statute_id'
+    ).all(doc.id) as { statute_id: string }[];
+    if (statutes.length > 0) {
+      entry.prepares = statutes.map(row => row.statute_id);
+    }
+  }
+  return entry;
+}
+
+function caseEntry(db: Database, parsed: ParsedCitation): BibliographyEntry | null {
+  const doc = findDocument(db, parsed);
+  if (!doc) return null;
+  const row = db.prepare(`
+    SELECT ld.issued_date, cl.court, cl.case_number, cl.decision_date
+    FROM legal_documents ld
+    LEFT JOIN case_law cl ON cl.document_id = ld.id
+    WHERE ld.id = ?
+  `).get(doc.id) as { issued_date: string | null; court: string | null; case_number: string | null; decision_date: string | null };
+
+  const reference = formatCitation(parsed);
+  const reporter = parsed.document_id.replace(/\s+\d{4}$/, '');
+  return {
+    key: citationKey(reference),
+    kind: 'case',
+    title: doc.title,
+    number: row.case_number ?? reference,
+    issued: row.decision_date ?? row.issued_date,
+    url: citationUrl(db, parsed).url,
+    authority: (row.court && (COURT_NAMES[row.court] ?? row.court)) ?? REPORTERS[reporter]?.court ?? reporter,
+    container: REPORTERS[reporter]?.title ?? null,
+    ...(parsed.page && { page: parsed.page }),
+    language: 'sv',
+  };
+}
+
+function euEntry(db: Database, parsed: ParsedCitation): BibliographyEntry | null {
+  const row = db.prepare(`
+    SELECT id, celex_number, title, title_sv, adoption_date FROM eu_documents
+    WHERE id = ? OR celex_number = ?
+    ORDER BY id = ? DESC
+    LIMIT 1
+  `).get(parsed.document_id, parsed.celex ?? parsed.document_id, parsed.document_id) as {
+    id: string; celex_number: string | null; title: string | null; title_sv: string | null; adoption_date: string | null;
+  } | undefined;
+  if (!row) return null;
+
+  const designation = formatCitation({ ...parsed, article: undefined });
+  return {
+    key: citationKey(row.celex_number ? `CELEX${row.celex_number}` : row.id),
+    kind: 'eu_act',
+    title: row.title_sv ?? row.title ?? designation,
+    number: row.celex_number ? `CELEX ${row.celex_number}` : designation,
+    issued: row.adoption_date,
+    url: citationUrl(db, parsed).url,
+    authority: 'Europeiska unionen',
+    container: null,
+    ...(parsed.article && { section: `artikel ${parsed.article}` }),
+    language: 'sv',
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CSL-JSON
+// ─────────────────────────────────────────────────────────────────────────────
+
+const CSL_TYPES: Record<BibliographyKind, string> = {
+  statute: 'legislation',
+  bill: 'bill',
+  sou: 'report',
+  ds: 'report',
+  case: 'legal_case',
+  eu_act: 'legislation',
+};
+
+function dateParts(date: string): { 'date-parts': number[][] } {
+  return { 'date-parts': [date.split('-').map(Number)] };
+}
+
+export function toCslJson(entries: BibliographyEntry[]): Record<string, unknown>[] {
+  return entries.map(entry => ({
+    id: entry.key,
+    type: CSL_TYPES[entry.kind],
+    title: entry.title,
+    number: entry.number,
+    authority: entry.authority,
+    ...(entry.container && {
+      [entry.kind === 'sou' || entry.kind === 'ds' ? 'collection-title' : 'container-title']: entry.container,
+    }),
+    ...(entry.issued && { issued: dateParts(entry.issued) }),
+    ...(entry.url && { URL: entry.url }),
+    ...(entry.section && { section: entry.section }),
+    ...(entry.page && { page: entry.page }),
+    ...(entry.prepares && { note: `Förarbete till SFS ${entry.prepares.join(', SFS ')}` }),
+    language: entry.language,
+    jurisdiction: entry.kind === 'eu_act' ? 'eu' : 'se',
+  }));
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// BibTeX (biblatex)
+// ─────────────────────────────────────────────────────────────────────────────
+
+const BIBTEX_TYPES: Record<BibliographyKind, string> = {
+  statute: 'legislation',
+  bill: 'report',
+  sou: 'report',
+  ds: 'report',
+  case: 'jurisdiction',
+  eu_act: 'legislation',
+};
+
+function escapeBibtex(value: string): string {
+  return value.replace(/[\\{}&%$#_]/g, char => (char === '\\' ? '\\textbackslash{}' : `\\${char}`));
+}
+
+/** url is read verbatim, so only its braces, which would end the field, need encoding */
+function escapeBibtexUrl(url: string): string {
+  return url.replace(/\{/g, '%7B').replace(/\}/g, '%7D');
+}
+
+export function toBibtex(entries: BibliographyEntry[]): string {
+  return entries.map(entry => {
+    const fields: Array<[string, string | null | undefined]> = [
+      ['title', entry.title],
+      ['number', entry.number],
+      [entry.kind === 'case' ? 'institution' : 'organization', entry.authority],
+      [entry.kind === 'case' ? 'journaltitle' : 'series', entry.container],
+      ['date', entry.issued],
+      ['pages', entry.page],
+      ['section', entry.section],
+      ['url', entry.url],
+      ['note', entry.prepares && `Förarbete till SFS ${entry.prepares.join(', SFS ')}`],
+      ['langid', entry.language === 'sv' ? 'swedish' : 'english'],
+    ];
+    const body = fields
+      .filter((field): field is [string, string] => !!field[1])
+      .map(([name, value]) => `  ${name} = {${name === 'url' ? escapeBibtexUrl(value) : escapeBibtex(value)}}`)
+      .join(',\n');
+    return `@${BIBTEX_TYPES[entry.kind]}{${entry.key},\n${body}\n}`;
+  }).join('\n\n');
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// RIS
+// ─────────────────────────────────────────────────────────────────────────────
+
+const RIS_TYPES: Record<BibliographyKind, string> = {
+  statute: 'STAT',
+  bill: 'BILL',
+  sou: 'GOVDOC',
+  ds: 'GOVDOC',
+  case: 'CASE',
+  eu_act: 'STAT',
+};
+
+export function toRis(entries: BibliographyEntry[]): string {
+  return entries.map(entry => {
+    const tags: Array<[string, string | null | undefined]> = [
+      ['TY', RIS_TYPES[entry.kind]],
+      ['ID', entry.key],
+      ['TI', entry.title],
+      ['M1', entry.number],
+      ['PB', entry.authority],
+      ['T2', entry.container],
+      ['PY', entry.issued?.slice(0, 4)],
+      ['DA', entry.issued && `${entry.issued.replace(/-/g, '/')}/`],
+      ['SE', entry.section],
+      ['SP', entry.page],
+      ['UR', entry.url],
+      ['N1', entry.prepares && `Förarbete till SFS ${entry.prepares.join(', SFS ')}`],
+      ['LA', entry.language],
+    ];
+    const lines = tags
+      .filter((tag): tag is [string, string] => !!tag[1])
+      .map(([tag, value]) => `${tag}  - ${value}`);
+    return [...lines, 'ER  - '].join('\n');
+  }).join('\n\n');
+}
@@ -0,0 +1,223 @@
+/**
+ * Find legal citations in free text (plain text or Markdown).
+ *
+ * Recognised references:
+ *   - 3 kap. 5 § första stycket dataskyddslagen (2018:218), lag (2018:218)
+ *   - SFS 2018:218 3 kap. 5 §, 2018:218 3:5, SFS 2018:218
+ *   - 3 kap. 5 § dataskyddslagen, 5 § PUL (statute named, not numbered)
+ *   - 5 § (no statute; reported so the caller can flag it)
+ *   - prop. 2017/18:105 s. 45, SOU 2017:39, Ds 2022:10, bet. 2017/18:KU21,
+ *     rskr. 2017/18:224, Dir. 2021:45
+ *   - NJA 2020 s. 45, HFD 2019 ref. 12, MÖD 2019:3, ECLI:SE:HDO:2020:45
+ *   - artikel 6.1 c i förordning (EU) 2016/679, direktiv 95/46/EG, CELEX 32016R0679
+ *
+ * Each match is reported with its character span and a citation string that
+ * parseCitation accepts. Where matches overlap, the one starting first wins,
+ * then the longest.
+ */
+
+import { parseSubdivision, SUBDIVISION_SOURCE } from '../parsers/provision-structure-parser.js';
+
+export interface ExtractedCitation {
+  /** Offset of the first character of the citation in the text */
+  start: number;
+  /** Offset just past the last character */
+  end: number;
+  /** The citation as written */
+  text: string;
+  /**
+   * Citation string for parseCitation; absent when the statute is named
+   * (statute_name) or not given at all
+   */
+  citation?: string;
+  /** Provision part of the citation ("3 kap. 5 § första stycket") */
+  provision?: string;
+  /** Statute named after the provision ("dataskyddslagen", "PUL"), to be resolved by the caller */
+  statute_name?: string;
+  /** Wording the text says it cites, e.g. "i dess lydelse före SFS 2020:1010" */
+  wording?: CitedWording;
+}
+
+/**
+ * before: the wording before `amending_sfs` came into force; according_to:
+ * the wording given by `amending_sfs`; earlier: an unspecified earlier wording.
+ */
+export interface CitedWording {
+  text: string;
+  relation: 'before' | 'according_to' | 'earlier';
+  amending_sfs?: string;
+}
+
+/** Not preceded by a letter or digit */
+const START = '(?<![\\p{L}\\p{N}])';
+/** Not followed by a letter or digit */
+const END = '(?![\\p{L}\\p{N}])';
+
+/** [3 kap.] 5 [a] § or 5–7 §§ */
+const PROVISION_SOURCE = '(?:\\d+\\s*kap\\.\\s*)?\\d+(?:\\s*[a-z])?(?:\\s*[–-]\\s*\\d+(?:\\s*[a-z])?)?\\s*§§?';
+const SFS_SOURCE = '\\d{4}:\\d+';
+/** Text between a provision and the SFS number of its statute, within one sentence */
+const GAP_SOURCE = '(?:[^().;\\n§]|\\.(?!\\s+\\p{Lu})){0,100}?';
+/** "dataskyddslagen", "offentlighets- och sekretesslagen", "lag", or an abbreviation ("BrB", "PUL") */
+const STATUTE_NAME_SOURCE =
+  '(?!(?:lagen|balken|förordningen)(?![\\p{L}\\p{N}]))' +
+  '(?:(?:\\p{L}+-\\s+och\\s+)?\\p{L}[\\p{L}-]*(?:balken|lagen|lag|förordningen|ordningen|formen)' +
+  '|(?=\\p{Lu}\\p{Ll}*\\p{Lu})\\p{L}{2,6})';
+const PAGE_SOURCE = '(?:\\s+s\\.\\s*\\d+(?:\\s*ff?\\.)?)?';
+
+const EU_ACT_SOURCE =
+  '(?:(?:Europaparlamentets\\s+och\\s+rådets|rådets|kommissionens)\\s+(?:(?:delegerade|genomförande)\\s*)?)?' +
+  '(?:förordning|direktiv)\\s+(?:\\((?:EU|EG|EEG|Euratom)\\)\\s+)?(?:nr\\s+)?' +
+  '\\d{2,4}\\/\\d{1,4}(?:\\/(?:EU|EG|EEG|Euratom))?';
+const ARTICLE_SOURCE = '(?:artikel|art\\.)\\s+\\d+(?:\\.\\d+)*(?:\\s*\\.?\\s*[a-z](?![\\p{L}\\p{N}]))?';
+
+type Builder = (match: RegExpExecArray) => Omit<ExtractedCitation, 'start' | 'end' | 'text'>;
+
+interface Scanner {
+  pattern: RegExp;
+  build: Builder;
+  /** Extend the span over a stycke/punkt pinpoint after the match */
+  subdivision?: boolean;
+}
+
+const asWritten: Builder = match => ({ citation: match[0] });
+
+const SCANNERS: Scanner[] = [
+  // 3 kap. 5 § [första stycket] dataskyddslagen (2018:218)
+  {
+    pattern: new RegExp(`${START}(${PROVISION_SOURCE})(${GAP_SOURCE})\\((?:SFS\\s+)?(${SFS_SOURCE})\\)`, 'giu'),
+    build: match => {
+      const subdivision = parseSubdivision(match[2].trim());
+      const provision = subdivision ? `${match[1]} ${match[2].trim().slice(0, subdivision.length)}` : match[1];
+      return { citation: `${match[3]} ${provision}`, provision };
+    },
+  },
+  // SFS 2018:218 3 kap. 5 §, 2018:218 3:5 (a letter after 3:5 is a section letter, except the word "i")
+  {
+    pattern: new RegExp(`${START}(?:SFS\\s+)?${SFS_SOURCE}\\s+${PROVISION_SOURCE}`, 'giu'),
+    build: asWritten,
+    subdivision: true,
+  },
+  {
+    pattern: new RegExp(`${START}(?:SFS\\s+)?${SFS_SOURCE}\\s+\\d+:\\d+(?:\\s*[a-hj-z]${END})?(?:\\s*[–-]\\s*\\d+${END})?${END}`, 'giu'),
+    build: asWritten,
+    subdivision: true,
+  },
+  // SFS 2018:218, (2018:218)
+  {
+    pattern: new RegExp(`${START}SFS\\s+(${SFS_SOURCE})${END}|\\((${SFS_SOURCE})\\)`, 'giu'),
+    build: match => ({ citation: `SFS ${match[1] ?? match[2]}` }),
+  },
+  // 3 kap. 5 § dataskyddslagen, 5 § PUL
+  {
+    pattern: new RegExp(
+      `${START}(${PROVISION_SOURCE}(?:\\s+${SUBDIVISION_SOURCE})?)\\s+(?<name>${STATUTE_NAME_SOURCE})${END}`,
+      'gu'
+    ),
+    build: match => ({ provision: match[1], statute_name: match.groups!.name }),
+  },
+  // 5 § with no statute
+  {
+    pattern: new RegExp(`${START}${PROVISION_SOURCE}`, 'giu'),
+    build: match => ({ provision: match[0] }),
+    subdivision: true,
+  },
+  // Preparatory works and riksdag documents
+  { pattern: new RegExp(`${START}prop\\.\\s*\\d{4}\\/\\d{2}:\\d+${PAGE_SOURCE}`, 'giu'), build: asWritten },
+  { pattern: new RegExp(`${START}(?:SOU|Ds)\\s+${SFS_SOURCE}${PAGE_SOURCE}`, 'gu'), build: asWritten },
+  { pattern: new RegExp(`${START}bet\\.\\s*\\d{4}\\/\\d{2}:\\p{L}{1,4}\\d+`, 'giu'), build: asWritten },
+  { pattern: new RegExp(`${START}rskr\\.\\s*\\d{4}\\/\\d{2}:\\d+`, 'giu'), build: asWritten },
+  { pattern: new RegExp(`${START}Dir\\.\\s*${SFS_SOURCE}`, 'gu'), build: asWritten },
+  // Case law
+  {
+    pattern: new RegExp(
+      `${START}(?:NJA(?:\\s+II)?\\s+\\d{4}\\s+s\\.\\s*\\d+|(?:HFD|RÅ)\\s+\\d{4}\\s+ref\\.\\s*\\d+` +
+      `|(?:AD|MD|MIG)\\s+\\d{4}\\s+(?:nr|ref\\.?)\\s*\\d+|(?:RH|MÖD|PMÖD|MIG|MD|AD|HFD)\\s+\\d{4}:\\d+(?![\\d:]))`,
+      'gu'
+    ),
+    build: asWritten,
+  },
+  { pattern: /ECLI:[A-Z]{2}:[A-Z0-9.]{1,7}:\d{4}:[A-Z0-9]+(?:\.[A-Z0-9]+)*/g, build: asWritten },
+  // EU acts
+  {
+    pattern: new RegExp(`${START}(?:${ARTICLE_SOURCE}\\s+i\\s+)?${EU_ACT_SOURCE}(?:\\s*,?\\s*${ARTICLE_SOURCE})?`, 'giu'),
+    build: asWritten,
+  },
+  { pattern: new RegExp(`${START}CELEX:?\\s*3\\d{4}[RL]\\d{4}(?:\\s*,?\\s*${ARTICLE_SOURCE})?`, 'giu'), build: asWritten },
+];
+
+/** "i dess lydelse före SFS 2020:1010", "(i sin lydelse enligt 2018:1248)", "i äldre lydelse" */
+const WORDING_PATTERN = new RegExp(
+  '^[\\s,]*\\(?\\s*i\\s+(?:dess|sin|den)\\s+(?:(äldre|tidigare|ursprungliga)\\s+)?lydelse' +
+  `(?:\\s+(före|enligt)\\s+(?:SFS\\s+|lag(?:en)?\\s+\\(?)?(${SFS_SOURCE})\\)?)?` +
+  '|^[\\s,]*\\(?\\s*i\\s+(äldre|tidigare|ursprunglig)\\s+lydelse',
+  'iu'
+);
+
+/**
+ * Statute title between a citation and its wording qualifier: "lagen (1982:80)
+ * om anställningsskydd i dess lydelse enligt SFS 1993:1496"
+ */
+const TITLE_BEFORE_WORDING_PATTERN = new RegExp(
+  '^\\s+(?:om|med)\\s+[^().;\\n§]{1,150}?(?=[\\s,]*\\(?\\s*i\\s+' +
+  '(?:(?:dess|sin|den)\\s+(?:(?:äldre|tidigare|ursprungliga)\\s+)?|(?:äldre|tidigare|ursprunglig)\\s+)lydelse)',
+  'iu'
+);
+
+/**
+ * The wording qualifier at the start of `after`, possibly after the statute
+ * title, and its length including leading space and title
+ */
+function citedWording(after: string): { wording: CitedWording; length: number } | undefined {
+  const title = after.match(TITLE_BEFORE_WORDING_PATTERN)?.[0] ?? '';
+  const match = after.slice(title.length).match(WORDING_PATTERN);
+  if (!match) return undefined;
+  const length = title.length + match[0].length;
+  const text = match[0].replace(/^[\s,(]+/, '');
+  if (match[2]) {
+    const relation = match[2].toLowerCase() === 'före' ? 'before' : 'according_to';
+    return { wording: { text, relation, amending_sfs: match[3] }, length };
+  }
+  if (match[1] || match[4]) {
+    return { wording: { text, relation: 'earlier' }, length };
+  }
+  return undefined;
+}
+
+/**
+ * Find every citation in `text`, in order of appearance.
+ */
+export function extractCitations(text: string): ExtractedCitation[] {
+  const candidates: ExtractedCitation[] = [];
+  for (const scanner of SCANNERS) {
+    const pattern = new RegExp(scanner.pattern.source, scanner.pattern.flags);
+    for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+      let end = match.index + match[0].length;
+      const built = scanner.build(match);
+      if (scanner.subdivision) {
+        const rest = text.slice(end);
+        const subdivision = parseSubdivision(rest.trimStart());
+        if (subdivision && /^\s+/.test(rest)) {
+          const extra = rest.length - rest.trimStart().length + subdivision.length;
+          const withSubdivision = text.slice(match.index, end + extra);
+          end += extra;
+          if (built.citation) built.citation = withSubdivision;
+          if (built.provision && !built.citation) built.provision = withSubdivision;
+        }
+      }
+      candidates.push({ start: match.index, end, text: text.slice(match.index, end), ...built });
+    }
+  }
+
+  candidates.sort((a, b) => a.start - b.start || b.end - a.end);
+  const citations: ExtractedCitation[] = [];
+  let lastEnd = 0;
+  for (const candidate of candidates) {
+    if (candidate.start < lastEnd) continue;
+    // The amending act named in a wording qualifier is part of the qualifier, not a citation of its own
+    const qualifier = citedWording(text.slice(candidate.end, candidate.end + 250));
+    citations.push(qualifier ? { ...candidate, wording: qualifier.wording } : candidate);
+    lastEnd = candidate.end + (qualifier?.length ?? 0);
+  }
+  return citations;
+}
@@ -3,6 +3,8 @@
  */
 
 import type { ParsedCitation, CitationFormat } from '../types/index.js';
+import { subdivisionLabel } from '../parsers/provision-structure-parser.js';
+import { parseEUActId } from './parser.js';
 
 /**
  * Format a parsed citation into a standard Swedish citation string.
@@ -11,6 +13,13 @@ import type { ParsedCitation, CitationFormat } from '../types/index.js';
  *   - full:     "SFS 2018:218 3 kap. 5 §" or "Prop. 2017/18:105"
  *   - short:    "2018:218 3:5" or "Prop. 2017/18:105"
  *   - pinpoint: "3 kap. 5 §" (provision only, requires chapter/section)
+ *
+ * A stycke or punkt follows the section in every format:
+ * "SFS 2018:218 3 kap. 5 § första stycket 2", "2018:218 3:5 första stycket 2".
+ * A section range is "5–7 §§" ("3:5–7" in short form).
+ *
+ * EU acts: full "förordning (EU) 2016/679 artikel 6.1 c", short
+ * "CELEX 32016R0679 art. 6.1 c", pinpoint "artikel 6.1 c".
  */
 export function formatCitation(citation: ParsedCitation, format: CitationFormat = 'full'): string {
   if (!citation.valid) {
@@ -21,51 +30,99 @@ export function formatCitation(citation: ParsedCitation, format: CitationFormat
     case 'statute':
       return formatStatute(citation, format);
     case 'bill':
-      return `Prop. ${citation.document_id}`;
+      return withPage(`Prop. ${citation.document_id}`, citation);
     case 'sou':
-      return `SOU ${citation.document_id}`;
+      return withPage(`SOU ${citation.document_id}`, citation);
     case 'ds':
-      return `Ds ${citation.document_id}`;
+      return withPage(`Ds ${citation.document_id}`, citation);
+    case 'committee_report':
+      return withPage(`bet. ${citation.document_id}`, citation);
+    case 'riksdag_communication':
+      return `rskr. ${citation.document_id}`;
+    case 'committee_directive':
+      return `Dir. ${citation.document_id}`;
     case 'case_law':
       return formatCaseLaw(citation);
+    case 'eu_act':
+      return formatEUAct(citation, format);
     default:
       return citation.raw;
   }
 }
 
 function formatStatute(citation: ParsedCitation, format: CitationFormat): string {
-  const { document_id, chapter, section } = citation;
+  const { document_id, chapter, section, section_end } = citation;
+  const subdivision = section ? subdivisionLabel(citation) : '';
+  const withSubdivision = (text: string) => (subdivision ? `${text} ${subdivision}` : text);
+  const sections = section_end ? `${section}–${section_end} §§` : `${section} §`;
 
   if (format === 'pinpoint') {
-    if (chapter && section) return `${chapter} kap. ${section} §`;
-    if (section) return `${section} §`;
+    if (chapter && section) return withSubdivision(`${chapter} kap. ${sections}`);
+    if (section) return withSubdivision(sections);
     return document_id;
   }
 
   if (format === 'short') {
-    if (chapter && section) return `${document_id} ${chapter}:${section}`;
-    if (section) return `${document_id} ${section} §`;
+    if (chapter && section) return withSubdivision(`${document_id} ${chapter}:${section}${section_end ? `–${section_end}` : ''}`);
+    if (section) return withSubdivision(`${document_id} ${sections}`);
     return document_id;
   }
 
   // full format
   let result = `SFS ${document_id}`;
   if (chapter) result += ` ${chapter} kap.`;
-  if (section) result += ` ${section} §`;
-  return result;
+  if (section) result += ` ${sections}`;
+  return withSubdivision(result);
+}
+
+function withPage(text: string, citation: ParsedCitation): string {
+  return citation.page ? `${text} s. ${citation.page}` : text;
 }
 
 function formatCaseLaw(citation: ParsedCitation): string {
-  const parts = [citation.document_id];
+  if (!citation.page) {
+    return citation.document_id;
+  }
 
   // Determine the correct connector based on court
-  if (citation.document_id.startsWith('NJA')) {
-    if (citation.page) parts.push(`s. ${citation.page}`);
-  } else {
-    if (citation.page) parts.push(`ref. ${citation.page}`);
+  const court = citation.document_id.split(' ')[0];
+  switch (court) {
+    case 'NJA':
+      return `${citation.document_id} s. ${citation.page}`;
+    case 'AD':
+      return `${citation.document_id} nr ${citation.page}`;
+    case 'RH':
+    case 'MÖD':
+    case 'PMÖD':
+    case 'MIG':
+    case 'MD':
+      return `${citation.document_id}:${citation.page}`;
+    default:
+      return `${citation.document_id} ref. ${citation.page}`;
   }
+}
+
+function formatEUAct(citation: ParsedCitation, format: CitationFormat): string {
+  const act = parseEUActId(citation.document_id);
 
-  return parts.join(' ');
+  if (format === 'pinpoint' && citation.article) {
+    return `artikel ${citation.article}`;
+  }
+  if (format === 'short' || !act) {
+    const celex = `CELEX ${citation.celex ?? act?.celex ?? citation.document_id}`;
+    return citation.article ? `${celex} art. ${citation.article}` : celex;
+  }
+
+  const community = citation.community ?? 'EU';
+  let result: string;
+  if (act.type === 'regulation') {
+    // "förordning (EG) nr 765/2008" until 2015, "förordning (EU) 2016/679" after
+    result = `förordning (${community}) ${act.year < 2015 ? 'nr ' : ''}${act.written}`;
+  } else {
+    // "direktiv 95/46/EG" until 2015, "direktiv (EU) 2016/680" after
+    result = act.year < 2015 ? `direktiv ${act.written}/${community}` : `direktiv (${community}) ${act.written}`;
+  }
+  return citation.article ? `${result} artikel ${citation.article}` : result;
 }
 
 /**
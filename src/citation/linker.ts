@@ -0,0 +1,166 @@
+/**
+ * Turn the citations in a text into links.
+ *
+ * Targets, preferring the url stored in the database:
+ *   - statutes: riksdagen.se (legal_documents.url, else the SFS page)
+ *   - case law: legal_documents.url (lagen.nu), else lagen.nu/dom/...;
+ *     ECLI through EUR-Lex (EU) or the e-Justice ECLI search (national)
+ *   - preparatory works: legal_documents.url
+ *   - EU acts: eu_documents.url_eur_lex, else EUR-Lex by CELEX number
+ *
+ * Citations without a target (bare provisions, unknown statutes, riksdag
+ * documents without a url) are listed but left as plain text.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import type { CitationType, ParsedCitation } from '../types/index.js';
+import { resolveStatuteName } from '../utils/statute-id.js';
+import { extractCitations } from './extractor.js';
+import { formatCitation } from './formatter.js';
+import { parseCitation } from './parser.js';
+import { findDocument } from './validator.js';
+
+export type LinkFormat = 'markdown' | 'html' | 'json';
+
+export interface CitationLink {
+  start: number;
+  end: number;
+  text: string;
+  /** Citation in full form; null when the statute is not identified */
+  citation: string | null;
+  type: CitationType | null;
+  url: string | null;
+  /** database: a url stored for the document; canonical: built from the citation */
+  url_source: 'database' | 'canonical' | null;
+}
+
+export interface LinkedText {
+  /** Text with links; absent for the json format */
+  output?: string;
+  links: CitationLink[];
+}
+
+const RIKSDAGEN_SFS_URL = 'https://www.riksdagen.se/sv/dokument-och-lagar/dokument/svensk-forfattningssamling/sfs-';
+const LAGEN_NU_CASE_URL = 'https://lagen.nu/dom/';
+const EUR_LEX_CELEX_URL = 'https://eur-lex.europa.eu/legal-content/SV/TXT/?uri=CELEX:';
+const EUR_LEX_ECLI_URL = 'https://eur-lex.europa.eu/legal-content/SV/TXT/?uri=ecli:';
+const E_JUSTICE_ECLI_URL = 'https://e-justice.europa.eu/ecli/';
+
+/** Stored urls are only used when they are a single well-formed http(s) url */
+const USABLE_URL_PATTERN = /^https?:\/\/[^\s"<>]+$/;
+
+function storedUrl(url: string | null | undefined): string | null {
+  return url && USABLE_URL_PATTERN.test(url) ? url : null;
+}
+
+/** lagen.nu path of a case: "nja/2020s45", "hfd/2019:12", "mod/2019:3" */
+function lagenNuCasePath(parsed: ParsedCitation): string | null {
+  const [court, year] = parsed.document_id.split(' ');
+  if (!parsed.page || !year || parsed.document_id.startsWith('NJA II')) return null;
+  const code = court.toLowerCase().replace(/å/g, 'a').replace(/ö/g, 'o');
+  return court === 'NJA' ? `${code}/${year}s${parsed.page}` : `${code}/${year}:${parsed.page}`;
+}
+
+function canonicalUrl(parsed: ParsedCitation): string | null {
+  switch (parsed.type) {
+    case 'statute':
+      return `${RIKSDAGEN_SFS_URL}${parsed.document_id.replace(':', '-')}`;
+    case 'case_law': {
+      if (parsed.document_id.startsWith('ECLI:')) {
+        return parsed.document_id.startsWith('ECLI:EU:')
+          ? `${EUR_LEX_ECLI_URL}${parsed.document_id}`
+          : `${E_JUSTICE_ECLI_URL}${parsed.document_id}`;
+      }
+      const path = lagenNuCasePath(parsed);
+      return path ? `${LAGEN_NU_CASE_URL}${path}` : null;
+    }
+    case 'eu_act':
+      return parsed.celex ? `${EUR_LEX_CELEX_URL}${parsed.celex}` : null;
+    default:
+      return null;
+  }
+}
+
+/** Link target of a parsed citation: the stored url of the document, else a canonical one. */
+export function citationUrl(db: Database, parsed: ParsedCitation): Pick<CitationLink, 'url' | 'url_source'> {
+  let url: string | null = null;
+  if (parsed.type === 'eu_act') {
+    const row = db.prepare(
+      'SELECT url_eur_lex FROM eu_documents WHERE id = ? OR celex_number = ? ORDER BY id = ? DESC LIMIT 1'
+    ).get(parsed.document_id, parsed.celex ?? parsed.document_id, parsed.document_id) as
+      { url_eur_lex: string | null } | undefined;
+    url = storedUrl(row?.url_eur_lex);
+  } else if (parsed.type !== 'committee_report' && parsed.type !== 'riksdag_communication'
+    && parsed.type !== 'committee_directive') {
+    url = storedUrl(findDocument(db, parsed)?.url);
+  }
+  if (url) {
+    return { url, url_source: 'database' };
+  }
+  const canonical = canonicalUrl(parsed);
+  return { url: canonical, url_source: canonical ? 'canonical' : null };
+}
+
+/** Spans of existing Markdown links and code, where no links are added */
+const MARKDOWN_SKIP_PATTERN = /\[[^\]\n]*\]\([^)\n]*\)|`[^`\n]*`|<https?:\/\/[^>\s]*>/g;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function renderLink(link: CitationLink, format: LinkFormat): string {
+  if (format === 'html') {
+    const title = link.citation ? ` title="${escapeHtml(link.citation)}"` : '';
+    return `<a href="${escapeHtml(link.url!)}" class="legal-citation"${title}>${escapeHtml(link.text)}</a>`;
+  }
+  const url = link.url!.replace(/\(/g, '%28').replace(/\)/g, '%29');
+  return `[${link.text.replace(/[[\]]/g, '\\$&')}](${url})`;
+}
+
+/**
+ * Find the citations in `text` and return it with each citation that has a
+ * target as a Markdown link or HTML anchor, or (json) the citation spans only.
+ * Plain text is expected; in HTML output the rest of the text is escaped.
+ * In Markdown output, citations inside existing links and code are skipped.
+ */
+export function linkCitations(db: Database, text: string, format: LinkFormat = 'markdown'): LinkedText {
+  const skipped = format === 'markdown'
+    ? Array.from(text.matchAll(MARKDOWN_SKIP_PATTERN), match => [match.index!, match.index! + match[0].length])
+    : [];
+
+  const links: CitationLink[] = [];
+  for (const found of extractCitations(text)) {
+    if (skipped.some(([start, end]) => found.start < end && found.end > start)) continue;
+
+    const documentId = found.statute_name ? resolveStatuteName(db, found.statute_name) : null;
+    const citation = found.citation ?? (documentId ? `${documentId} ${found.provision}` : undefined);
+    const parsed = citation ? parseCitation(citation) : undefined;
+    links.push({
+      start: found.start,
+      end: found.end,
+      text: found.text,
+      citation: parsed?.valid ? formatCitation(parsed) : null,
+      type: parsed?.valid ? parsed.type : null,
+      ...(parsed?.valid ? citationUrl(db, parsed) : { url: null, url_source: null }),
+    });
+  }
+
+  if (format === 'json') {
+    return { links };
+  }
+
+  const escape = format === 'html' ? escapeHtml : (segment: string) => segment;
+  let output = '';
+  let position = 0;
+  for (const link of links) {
+    if (!link.url) continue;
+    output += escape(text.slice(position, link.start)) + renderLink(link, format);
+    position = link.end;
+  }
+  output += escape(text.slice(position));
+  return { output, links };
+}
@@ -4,36 +4,82 @@
  * Supported formats:
  *   - SFS 2018:218
  *   - SFS 2018:218 3 kap. 5 §
+ *   - SFS 2018:218 3 kap. 5 § första stycket 2
+ *   - SFS 2018:218 3 kap. 5–7 §§
  *   - 2018:218 3 kap. 5 §
- *   - Prop. 2017/18:105
- *   - SOU 2023:45
- *   - Ds 2022:10
- *   - NJA 2020 s. 45
- *   - HFD 2019 ref. 12
+ *   - Prop. 2017/18:105 [s. 45]
+ *   - SOU 2023:45, Ds 2022:10, Dir. 2021:45
+ *   - bet. 2017/18:KU21, rskr. 2017/18:224
+ *   - NJA 2020 s. 45, NJA II 1915 s. 123
+ *   - HFD 2019 ref. 12, RÅ 2010 ref. 5, AD 2021 nr 5
+ *   - RH 2015:12, MÖD 2019:3, PMÖD 2018:5, MIG 2017:7
+ *   - ECLI:SE:HDO:2020:45
+ *   - förordning (EU) 2016/679 artikel 6.1 c, direktiv 95/46/EG
+ *   - CELEX 32016R0679
  */
 
-import type { ParsedCitation, DocumentType } from '../types/index.js';
+import type { ParsedCitation, CitationType, EUCommunity } from '../types/index.js';
+import { parseSubdivision } from '../parsers/provision-structure-parser.js';
 
-/** SFS statute pattern: SFS 2018:218 [3 kap.] [5 [a] §] or short form [3:5] */
-const SFS_PATTERN = /^(?:SFS\s+)?(\d{4}:\d+)\s*(?:(\d+)\s*kap\.\s*)?(?:(\d+\s*[a-z]?)\s*§)?/i;
-/** Short form statute pattern: 2018:218 3:5 */
-const SFS_SHORT_PATTERN = /^(?:SFS\s+)?(\d{4}:\d+)\s+(\d+):(\d+\s*[a-z]?)\s*$/i;
-/** Provision-first statute pattern: 3 kap. 5 § lag (2018:218) */
-const SFS_PROVISION_FIRST_PATTERN = /^(?:(\d+)\s*kap\.\s*)?(\d+\s*[a-z]?)\s*§\s+.+\((\d{4}:\d+)\)\s*$/iu;
+/** Section, or section range "5–7 §§" */
+const SECTION_SOURCE = '(\\d+\\s*[a-z]?)(?:\\s*[–-]\\s*(\\d+\\s*[a-z]?))?\\s*§§?';
 
-/** Proposition pattern: Prop. 2017/18:105 */
-const PROP_PATTERN = /^Prop\.\s*(\d{4}\/\d{2}:\d+)/i;
+/** SFS statute pattern: SFS 2018:218 [3 kap.] [5 [a] §] [5–7 §§] */
+const SFS_PATTERN = new RegExp(`^(?:SFS\\s+)?(\\d{4}:\\d+)\\s*(?:(\\d+)\\s*kap\\.\\s*)?(?:${SECTION_SOURCE})?`, 'i');
+/** Short form statute pattern: 2018:218 3:5 [första stycket 2], 2018:218 3:5–7 */
+const SFS_SHORT_PATTERN = /^(?:SFS\s+)?(\d{4}:\d+)\s+(\d+):(\d+(?:\s*[a-z](?!\p{L}))?)(?:\s*[–-]\s*(\d+(?:\s*[a-z](?!\p{L}))?))?(?:\s+(.+?))?\s*$/iu;
+/** Provision-first statute pattern: 3 kap. 5 § [första stycket 2] lag (2018:218) */
+const SFS_PROVISION_FIRST_PATTERN = new RegExp(`^(?:(\\d+)\\s*kap\\.\\s*)?${SECTION_SOURCE}\\s+(.+)\\((\\d{4}:\\d+)\\)\\s*$`, 'iu');
 
-/** SOU pattern: SOU 2023:45 */
-const SOU_PATTERN = /^SOU\s+(\d{4}:\d+)/i;
+/** Page pinpoint after a preparatory work: "s. 45", "s. 45 f." */
+const PAGE_SOURCE = '(?:\\s+s\\.\\s*(\\d+(?:\\s*ff?\\.)?))?';
 
-/** Ds pattern: Ds 2022:10 */
-const DS_PATTERN = /^Ds\s+(\d{4}:\d+)/i;
+/** Proposition pattern: Prop. 2017/18:105 [s. 45] */
+const PROP_PATTERN = new RegExp(`^Prop\\.\\s*(\\d{4}\\/\\d{2}:\\d+)${PAGE_SOURCE}`, 'i');
 
-/** Case law patterns: NJA 2020 s. 45, HFD 2019 ref. 12 */
-const CASE_NJA_PATTERN = /^(NJA)\s+(\d{4})\s+s\.\s*(\d+)/i;
-const CASE_HFD_PATTERN = /^(HFD)\s+(\d{4})\s+ref\.\s*(\d+)/i;
+/** SOU pattern: SOU 2023:45 [s. 120] */
+const SOU_PATTERN = new RegExp(`^SOU\\s+(\\d{4}:\\d+)${PAGE_SOURCE}`, 'i');
+
+/** Ds pattern: Ds 2022:10 [s. 12] */
+const DS_PATTERN = new RegExp(`^Ds\\s+(\\d{4}:\\d+)${PAGE_SOURCE}`, 'i');
+
+/** Committee report pattern: bet. 2017/18:KU21 */
+const BET_PATTERN = new RegExp(`^bet(?:\\.|änkande)\\s*(\\d{4}\\/\\d{2}:\\p{L}{1,4}\\d+)${PAGE_SOURCE}`, 'iu');
+
+/** Riksdag communication pattern: rskr. 2017/18:224 */
+const RSKR_PATTERN = /^rskr\.\s*(\d{4}\/\d{2}:\d+)/i;
+
+/** Committee directive pattern: Dir. 2021:45 */
+const DIR_PATTERN = /^Dir\.\s*(\d{4}:\d+)/i;
+
+/** Case law patterns: NJA 2020 s. 45, HFD 2019 ref. 12, MÖD 2019:3 */
+const CASE_NJA_PATTERN = /^(NJA(?:\s+II)?)\s+(\d{4})\s+s\.\s*(\d+)/i;
+const CASE_HFD_PATTERN = /^(HFD|RÅ)\s+(\d{4})\s+ref\.\s*(\d+)/iu;
 const CASE_GENERIC_PATTERN = /^(AD|MD|MIG)\s+(\d{4})\s+(?:nr|ref\.?)\s*(\d+)/i;
+const CASE_YEAR_NUMBER_PATTERN = /^(RH|MÖD|PMÖD|MIG|MD|AD|HFD)\s+(\d{4}):(\d+)(?![\d:])/iu;
+
+/** ECLI: ECLI:SE:HDO:2020:45, ECLI:EU:C:2014:317 */
+const ECLI_PATTERN = /^ECLI:([A-Z]{2}):([A-Z0-9.]{1,7}):(\d{4}):([A-Z0-9.]{1,25})$/i;
+
+/** EU article pinpoint: "artikel 6.1 c", "art. 83.4" */
+const ARTICLE_SOURCE = '(?:artikel|art\\.)\\s+(\\d+(?:\\.\\d+)*(?:\\s*\\.?\\s*[a-z](?![\\p{L}\\p{N}]))?)';
+
+/** CELEX number of a regulation or directive: CELEX 32016R0679 [art. 6.1 c] */
+const CELEX_ACT_PATTERN = new RegExp(`^(?:CELEX:?\\s*)?3(\\d{4})([RL])(\\d{4})(?:\\s*,?\\s*${ARTICLE_SOURCE})?\\s*$`, 'iu');
+/** Any other CELEX number (case law, decisions, treaties), prefix required */
+const CELEX_OTHER_PATTERN = /^CELEX:?\s*([0-9][0-9]{4}[A-Z]{1,2}[0-9]{4}(?:\(\d+\))?)\s*$/i;
+
+/**
+ * EU act: [Europaparlamentets och rådets] förordning (EU) 2016/679,
+ * förordning (EG) nr 765/2008, direktiv 95/46/EG, direktiv (EU) 2016/680
+ */
+const EU_ACT_SOURCE =
+  '(?:(?:Europaparlamentets\\s+och\\s+rådets|rådets|kommissionens)\\s+(?:(?:delegerade|genomförande)\\s*)?)?' +
+  '(förordning|direktiv)\\s+(?:\\((EU|EG|EEG|Euratom)\\)\\s+)?(?:nr\\s+)?' +
+  '(\\d{2,4})\\/(\\d{1,4})(?:\\/(EU|EG|EEG|Euratom))?';
+const EU_ACT_PATTERN = new RegExp(`^${EU_ACT_SOURCE}(?:\\s*,?\\s*${ARTICLE_SOURCE})?\\s*$`, 'iu');
+/** Article first: artikel 6.1 c i förordning (EU) 2016/679 */
+const EU_ARTICLE_FIRST_PATTERN = new RegExp(`^${ARTICLE_SOURCE}\\s+i\\s+${EU_ACT_SOURCE}\\s*$`, 'iu');
 
 /**
  * Parse a Swedish legal citation string.
@@ -48,68 +94,76 @@ export function parseCitation(citation: string): ParsedCitation {
     return { raw: citation, type: 'statute', document_id: '', valid: false, error: 'Empty citation' };
   }
 
-  // Try proposition first (starts with "Prop.")
-  const propMatch = trimmed.match(PROP_PATTERN);
-  if (propMatch) {
-    return {
-      raw: citation,
-      type: 'bill',
-      document_id: propMatch[1],
-      valid: true,
-    };
-  }
-
-  // Try SOU
-  const souMatch = trimmed.match(SOU_PATTERN);
-  if (souMatch) {
-    return {
-      raw: citation,
-      type: 'sou',
-      document_id: souMatch[1],
-      valid: true,
-    };
-  }
-
-  // Try Ds
-  const dsMatch = trimmed.match(DS_PATTERN);
-  if (dsMatch) {
-    return {
-      raw: citation,
-      type: 'ds',
-      document_id: dsMatch[1],
-      valid: true,
-    };
+  // Try preparatory works and riksdag documents first (fixed prefixes)
+  const preparatory: Array<[RegExp, CitationType]> = [
+    [PROP_PATTERN, 'bill'],
+    [SOU_PATTERN, 'sou'],
+    [DS_PATTERN, 'ds'],
+    [BET_PATTERN, 'committee_report'],
+    [RSKR_PATTERN, 'riksdag_communication'],
+    [DIR_PATTERN, 'committee_directive'],
+  ];
+  for (const [pattern, type] of preparatory) {
+    const match = trimmed.match(pattern);
+    if (match) {
+      const result: ParsedCitation = {
+        raw: citation,
+        type,
+        document_id: match[1],
+        valid: true,
+      };
+      if (match[2]) {
+        result.page = match[2].replace(/\s+/g, ' ');
+      }
+      return result;
+    }
   }
 
   // Try case law patterns
-  for (const pattern of [CASE_NJA_PATTERN, CASE_HFD_PATTERN, CASE_GENERIC_PATTERN]) {
+  for (const pattern of [CASE_NJA_PATTERN, CASE_HFD_PATTERN, CASE_GENERIC_PATTERN, CASE_YEAR_NUMBER_PATTERN]) {
     const caseMatch = trimmed.match(pattern);
     if (caseMatch) {
       return {
         raw: citation,
         type: 'case_law',
-        document_id: `${caseMatch[1].toUpperCase()} ${caseMatch[2]}`,
+        document_id: `${caseMatch[1].toUpperCase().replace(/\s+/g, ' ')} ${caseMatch[2]}`,
         page: caseMatch[3],
         valid: true,
       };
     }
   }
 
+  const ecliMatch = trimmed.match(ECLI_PATTERN);
+  if (ecliMatch) {
+    return {
+      raw: citation,
+      type: 'case_law',
+      document_id: trimmed.toUpperCase(),
+      valid: true,
+    };
+  }
+
+  const euAct = parseEUAct(trimmed);
+  if (euAct) {
+    return { raw: citation, ...euAct };
+  }
+
   // Try provision-first statute form (3 kap. 5 § lag (2018:218))
   const provisionFirstMatch = trimmed.match(SFS_PROVISION_FIRST_PATTERN);
-  if (provisionFirstMatch && provisionFirstMatch[3]) {
+  if (provisionFirstMatch && provisionFirstMatch[5]) {
     const result: ParsedCitation = {
       raw: citation,
       type: 'statute',
-      document_id: provisionFirstMatch[3],
+      document_id: provisionFirstMatch[5],
       valid: true,
     };
 
     if (provisionFirstMatch[1]) {
       result.chapter = provisionFirstMatch[1];
     }
-    if (provisionFirstMatch[2]) {
-      result.section = provisionFirstMatch[2].replace(/\s+/g, ' ').trim();
+    addSection(result, provisionFirstMatch[2], provisionFirstMatch[3]);
+    if (!result.section_end) {
+      addSubdivision(result, provisionFirstMatch[4]);
     }
 
     return result;
@@ -117,15 +171,19 @@ export function parseCitation(citation: string): ParsedCitation {
 
   // Try SFS statute short form first (2018:218 3:5)
   const sfsShortMatch = trimmed.match(SFS_SHORT_PATTERN);
-  if (sfsShortMatch && sfsShortMatch[1]) {
-    return {
+  const shortRest = sfsShortMatch?.[5];
+  const shortSubdivision = shortRest && !sfsShortMatch?.[4] ? parseSubdivision(shortRest) : null;
+  if (sfsShortMatch && sfsShortMatch[1] && (!shortRest || shortSubdivision?.length === shortRest.length)) {
+    const result: ParsedCitation = {
       raw: citation,
       type: 'statute',
       document_id: sfsShortMatch[1],
       chapter: sfsShortMatch[2],
-      section: sfsShortMatch[3].replace(/\s+/g, ' ').trim(),
       valid: true,
     };
+    addSection(result, sfsShortMatch[3], sfsShortMatch[4]);
+    addSubdivision(result, shortRest);
+    return result;
   }
 
   // Try SFS statute long form (with or without "SFS" prefix)
@@ -142,7 +200,10 @@ export function parseCitation(citation: string): ParsedCitation {
       result.chapter = sfsMatch[2];
     }
     if (sfsMatch[3]) {
-      result.section = sfsMatch[3].replace(/\s+/g, ' ').trim();
+      addSection(result, sfsMatch[3], sfsMatch[4]);
+      if (!result.section_end) {
+        addSubdivision(result, trimmed.slice(sfsMatch[0].length));
+      }
     }
 
     return result;
@@ -157,17 +218,150 @@ export function parseCitation(citation: string): ParsedCitation {
   };
 }
 
+/** Set the section, or the first and last section of a range */
+function addSection(result: ParsedCitation, section: string, sectionEnd: string | undefined): void {
+  result.section = section.replace(/\s+/g, ' ').trim();
+  if (sectionEnd) {
+    result.section_end = sectionEnd.replace(/\s+/g, ' ').trim();
+  }
+}
+
+/** Add the stycke and punkt of a subdivision at the start of `rest` ("första stycket 2 ...") */
+function addSubdivision(result: ParsedCitation, rest: string | undefined): void {
+  const subdivision = rest ? parseSubdivision(rest.trim()) : null;
+  if (subdivision?.stycke !== undefined) {
+    result.stycke = subdivision.stycke;
+  }
+  if (subdivision?.punkt !== undefined) {
+    result.punkt = subdivision.punkt;
+  }
+}
+
 /**
  * Detect the document type from a citation string without full parsing.
  */
-export function detectDocumentType(citation: string): DocumentType | null {
+export function detectDocumentType(citation: string): CitationType | null {
   const trimmed = citation.trim();
   const lower = trimmed.toLowerCase();
   if (lower.startsWith('prop.')) return 'bill';
   if (lower.startsWith('sou ')) return 'sou';
   if (lower.startsWith('ds ')) return 'ds';
-  if (/^(nja|hfd|ad|md|mig)\s/i.test(lower)) return 'case_law';
+  if (/^bet(?:\.|änkande)/.test(lower)) return 'committee_report';
+  if (lower.startsWith('rskr.')) return 'riksdag_communication';
+  if (lower.startsWith('dir.')) return 'committee_directive';
+  if (/^(nja|hfd|rå|ad|md|mig|rh|möd|pmöd)\s/iu.test(lower) || lower.startsWith('ecli:')) return 'case_law';
+  if (parseEUAct(trimmed) || CELEX_OTHER_PATTERN.test(trimmed)) return 'eu_act';
   if (/^(?:sfs\s+)?\d{4}:\d+/i.test(trimmed)) return 'statute';
   if (SFS_PROVISION_FIRST_PATTERN.test(trimmed)) return 'statute';
   return null;
 }
+
+const EU_TYPE_CODES = { R: 'regulation', L: 'directive' } as const;
+
+const EU_COMMUNITIES: EUCommunity[] = ['EU', 'EG', 'EEG', 'Euratom'];
+
+/** Regulations are numbered year first from 2015 ("2016/679"), number first before ("765/2008") */
+const YEAR_FIRST_REGULATIONS_FROM = 2015;
+
+function fullYear(year: number): number {
+  if (year >= 100) return year;
+  return year < 50 ? 2000 + year : 1900 + year;
+}
+
+/** Community of an act adopted in `year`: EEG before Maastricht, EG before Lisbon, then EU */
+function communityOf(year: number): EUCommunity {
+  if (year < 1993) return 'EEG';
+  return year < 2010 ? 'EG' : 'EU';
+}
+
+function normalizeArticle(article: string): string {
+  return article.replace(/\s*\.?\s*([a-z])$/i, ' $1').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * An EU regulation or directive, identified the way eu_documents is keyed:
+ * "regulation:2016/679", "regulation:765/2008", "directive:95/46".
+ */
+export interface EUActNumber {
+  type: 'regulation' | 'directive';
+  year: number;
+  number: number;
+  /** Year and number in citation order, e.g. "765/2008" */
+  written: string;
+  celex: string;
+}
+
+/** Year and number of an EU act from its eu_documents id ("regulation:765/2008") */
+export function parseEUActId(documentId: string): EUActNumber | null {
+  const match = documentId.match(/^(regulation|directive):(\d{2,4})\/(\d{1,4})$/);
+  if (!match) return null;
+  const type = match[1] as EUActNumber['type'];
+  const [first, second] = [Number(match[2]), Number(match[3])];
+  const yearFirst = type === 'directive' || (match[2].length === 4 && first >= YEAR_FIRST_REGULATIONS_FROM);
+  const year = fullYear(yearFirst ? first : second);
+  const number = yearFirst ? second : first;
+  return {
+    type,
+    year,
+    number,
+    written: `${match[2]}/${match[3]}`,
+    celex: `3${year}${type === 'directive' ? 'L' : 'R'}${String(number).padStart(4, '0')}`,
+  };
+}
+
+/** eu_documents id of an act, written the way the act is cited */
+function euActId(type: EUActNumber['type'], year: number, number: number): string {
+  if (type === 'directive') {
+    return `directive:${year < 2000 ? String(year).slice(2) : year}/${number}`;
+  }
+  return year >= YEAR_FIRST_REGULATIONS_FROM
+    ? `regulation:${year}/${number}`
+    : `regulation:${number}/${year < 2000 ? String(year).slice(2) : year}`;
+}
+
+function parseEUAct(text: string): Omit<ParsedCitation, 'raw'> | null {
+  const celexMatch = text.match(CELEX_ACT_PATTERN);
+  if (celexMatch) {
+    const type = EU_TYPE_CODES[celexMatch[2].toUpperCase() as keyof typeof EU_TYPE_CODES];
+    const year = Number(celexMatch[1]);
+    const number = Number(celexMatch[3]);
+    return {
+      type: 'eu_act',
+      document_id: euActId(type, year, number),
+      celex: `3${celexMatch[1]}${celexMatch[2].toUpperCase()}${celexMatch[3]}`,
+      community: communityOf(year),
+      ...(celexMatch[4] && { article: normalizeArticle(celexMatch[4]) }),
+      valid: true,
+    };
+  }
+
+  const otherCelex = text.match(CELEX_OTHER_PATTERN);
+  if (otherCelex) {
+    const celex = otherCelex[1].toUpperCase();
+    return { type: 'eu_act', document_id: celex, celex, valid: true };
+  }
+
+  const actMatch = text.match(EU_ACT_PATTERN);
+  const articleFirstMatch = actMatch ? null : text.match(EU_ARTICLE_FIRST_PATTERN);
+  if (!actMatch && !articleFirstMatch) {
+    return null;
+  }
+  // Both patterns capture: act kind, community before, first number, second number, community after, article
+  const [kind, communityBefore, first, second, communityAfter, article] = actMatch
+    ? actMatch.slice(1, 7)
+    : [...articleFirstMatch!.slice(2, 7), articleFirstMatch![1]];
+  const type = kind.toLowerCase() === 'direktiv' ? 'directive' : 'regulation';
+  const parsed = parseEUActId(`${type}:${Number(first)}/${Number(second)}`);
+  if (!parsed) {
+    return null;
+  }
+  const cited = (communityBefore ?? communityAfter)?.toLowerCase();
+  return {
+    type: 'eu_act',
+    document_id: `${type}:${parsed.written}`,
+    celex: parsed.celex,
+    community: EU_COMMUNITIES.find(community => community.toLowerCase() === cited) ?? communityOf(parsed.year),
+    ...(article && { article: normalizeArticle(article) }),
+    valid: true,
+  };
+}
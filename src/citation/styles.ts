@@ -0,0 +1,289 @@
+/**
+ * Citation style profiles beyond the standard full/short/pinpoint formats.
+ *
+ *   academic    3 kap. 5 § lagen (2018:218) med kompletterande bestämmelser till EU:s dataskyddsförordning
+ *               prop. 2017/18:105 Ny dataskyddslag, s. 45
+ *   government  3 kap. 5 § dataskyddslagen (2018:218); prop. 2017/18:105 s. 45; dir. 2021:45
+ *   english     Chapter 3, Section 5 of the Act with supplementary provisions to the EU GDPR (SFS 2018:218)
+ *               Government Bill 2017/18:105 New Data Protection Act, p. 45
+ *   oscola      Lag (2018:218) med kompletterande bestämmelser … [Act with supplementary provisions …] ch 3, s 5
+ *               Prop 2017/18:105 Ny dataskyddslag [New Data Protection Act] 45
+ *
+ * Titles come from the database (legal_documents, eu_documents); without
+ * them each style falls back to the SFS number or act designation.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import type { CitationStyle, ParsedCitation } from '../types/index.js';
+import { COLLOQUIAL_NAMES } from '../utils/statute-id.js';
+import { formatCitation } from './formatter.js';
+import { parseEUActId } from './parser.js';
+
+/** Titles of the cited document; for EU acts `title` is the Swedish title */
+export interface CitationStyleContext {
+  title?: string | null;
+  title_en?: string | null;
+}
+
+/** Load the titles a style needs for `citation`. */
+export function loadCitationStyleContext(db: Database, citation: ParsedCitation): CitationStyleContext {
+  switch (citation.type) {
+    case 'statute':
+    case 'bill':
+    case 'sou':
+    case 'ds':
+      return (db.prepare(
+        'SELECT title, title_en FROM legal_documents WHERE id = ? AND type = ?'
+      ).get(citation.document_id, citation.type) as CitationStyleContext | undefined) ?? {};
+    case 'eu_act': {
+      const row = db.prepare(
+        'SELECT title, title_sv FROM eu_documents WHERE id = ? OR celex_number = ? ORDER BY id = ? DESC LIMIT 1'
+      ).get(citation.document_id, citation.celex ?? citation.document_id, citation.document_id) as
+        { title: string | null; title_sv: string | null } | undefined;
+      return row ? { title: row.title_sv, title_en: row.title } : {};
+    }
+    default:
+      return {};
+  }
+}
+
+const ENGLISH_ORDINALS = [
+  'first', 'second', 'third', 'fourth', 'fifth', 'sixth',
+  'seventh', 'eighth', 'ninth', 'tenth', 'eleventh', 'twelfth',
+];
+
+const ENGLISH_COURTS: Record<string, string> = {
+  NJA: 'Supreme Court',
+  'NJA II': 'Supreme Court',
+  HFD: 'Supreme Administrative Court',
+  RÅ: 'Supreme Administrative Court',
+  AD: 'Labour Court',
+  MD: 'Market Court',
+  MIG: 'Migration Court of Appeal',
+  MÖD: 'Land and Environment Court of Appeal',
+  PMÖD: 'Patent and Market Court of Appeal',
+  RH: 'Court of Appeal',
+};
+
+const ENGLISH_COMMUNITIES: Record<string, string> = { EU: 'EU', EG: 'EC', EEG: 'EEC', Euratom: 'Euratom' };
+
+/** Statute title split into its first word and the rest: "Lag (2018:218) om …" → ["Lag", "om …"] */
+function splitStatuteTitle(title: string): [string, string] {
+  const match = title.match(/^(\S+)(?:\s+\(\d{4}:\d+\))?\s*(.*)$/)!;
+  return [match[1], match[2]];
+}
+
+/** Definite form of a statute noun: "lag" → "lagen", "brottsbalk" → "brottsbalken", "stadga" → "stadgan" */
+function definiteForm(word: string): string {
+  if (!/(lag|balk|förordning|ordning|form|stadga|kungörelse|instruktion)$/.test(word)) return word;
+  return /[aeiouyåäö]$/.test(word) ? `${word}n` : `${word}en`;
+}
+
+/** "lagen (2018:218) med kompletterande …", "brottsbalken (1962:700)" */
+function swedishStatuteName(documentId: string, title: string): string {
+  const [first, rest] = splitStatuteTitle(title);
+  return [`${definiteForm(first.toLowerCase())} (${documentId})`, rest].filter(Boolean).join(' ');
+}
+
+/** Statute name with the SFS number after its first word: "Lag (2018:218) med …" */
+function officialStatuteTitle(documentId: string, title: string): string {
+  const [first, rest] = splitStatuteTitle(title);
+  return [`${first} (${documentId})`, rest].filter(Boolean).join(' ');
+}
+
+/** Colloquial name of a statute, if it has one ("dataskyddslagen") */
+function colloquialName(documentId: string): string | undefined {
+  return Object.entries(COLLOQUIAL_NAMES).find(([, id]) => id === documentId)?.[0];
+}
+
+/** Title of a report without its designation: "Proposition 2017/18:105 Ny dataskyddslag" → "Ny dataskyddslag" */
+function reportTitle(title: string | null | undefined): string | undefined {
+  const stripped = title?.replace(/^(?:Proposition|Prop\.|SOU|Ds)\s+[\d/:]+:?\s*/i, '').trim();
+  return stripped || undefined;
+}
+
+/** "6.1 c" → "6(1)(c)" */
+function englishArticle(article: string): string {
+  const [numbers, point] = article.split(' ');
+  const [first, ...rest] = numbers.split('.');
+  return `${first}${rest.map(part => `(${part})`).join('')}${point ? `(${point})` : ''}`;
+}
+
+/** "Regulation (EU) 2016/679", "Regulation (EC) No 765/2008", "Directive 95/46/EC" */
+function englishEUAct(citation: ParsedCitation): string {
+  const act = parseEUActId(citation.document_id);
+  if (!act) return `CELEX ${citation.celex ?? citation.document_id}`;
+  const community = ENGLISH_COMMUNITIES[citation.community ?? 'EU'];
+  if (act.type === 'regulation') {
+    return `Regulation (${community}) ${act.year < 2015 ? 'No ' : ''}${act.written}`;
+  }
+  return act.year < 2015 ? `Directive ${act.written}/${community}` : `Directive (${community}) ${act.written}`;
+}
+
+function englishSubdivision(citation: ParsedCitation): string {
+  const parts: string[] = [];
+  if (citation.stycke !== undefined) {
+    parts.push(`${ENGLISH_ORDINALS[citation.stycke - 1] ?? `${citation.stycke}th`} paragraph`);
+  }
+  if (citation.punkt !== undefined) {
+    parts.push(`point ${citation.punkt}`);
+  }
+  return parts.join(', ');
+}
+
+function withPage(text: string, page: string | undefined, label: string): string {
+  return page ? `${text}, ${label}${page}` : text;
+}
+
+function academic(citation: ParsedCitation, context: CitationStyleContext): string {
+  switch (citation.type) {
+    case 'statute': {
+      const name = context.title ? swedishStatuteName(citation.document_id, context.title) : `SFS ${citation.document_id}`;
+      return citation.section ? `${formatCitation(citation, 'pinpoint')} ${name}` : name;
+    }
+    case 'bill':
+    case 'sou':
+    case 'ds': {
+      const designation = formatCitation({ ...citation, page: undefined }).replace(/^Prop\./, 'prop.');
+      const title = reportTitle(context.title);
+      return withPage(title ? `${designation} ${title}` : designation, citation.page, 's. ');
+    }
+    case 'eu_act':
+      return swedishEUAct(citation, context.title ?? formatCitation({ ...citation, article: undefined }));
+    default:
+      return formatCitation(citation);
+  }
+}
+
+/** "artikel 6.1 c i förordning (EU) 2016/679 …" */
+function swedishEUAct(citation: ParsedCitation, act: string): string {
+  return citation.article ? `artikel ${citation.article} i ${act}` : act;
+}
+
+function government(citation: ParsedCitation, context: CitationStyleContext): string {
+  switch (citation.type) {
+    case 'statute': {
+      const colloquial = colloquialName(citation.document_id);
+      const name = colloquial
+        ? `${colloquial} (${citation.document_id})`
+        : context.title ? swedishStatuteName(citation.document_id, context.title) : `SFS ${citation.document_id}`;
+      return citation.section ? `${formatCitation(citation, 'pinpoint')} ${name}` : name;
+    }
+    case 'bill':
+      return formatCitation(citation).replace(/^Prop\./, 'prop.');
+    case 'committee_directive':
+      return `dir. ${citation.document_id}`;
+    case 'eu_act': {
+      // The designation part of the Swedish title: "Europaparlamentets och rådets förordning (EU) 2016/679"
+      const designation = context.title?.match(/^.*?\d{2,4}\/\d{1,4}(?:\/[A-Za-z]+)?/)?.[0];
+      return swedishEUAct(citation, designation ?? formatCitation({ ...citation, article: undefined }));
+    }
+    default:
+      return formatCitation(citation);
+  }
+}
+
+function english(citation: ParsedCitation, context: CitationStyleContext): string {
+  const title = context.title_en?.trim();
+  switch (citation.type) {
+    case 'statute': {
+      const name = title
+        ? `the ${title.replace(/^the\s+/i, '')} (SFS ${citation.document_id})`
+        : `SFS ${citation.document_id}${context.title ? ` (${context.title})` : ''}`;
+      if (!citation.section) return name;
+      const sections = citation.section_end
+        ? `Sections ${citation.section}–${citation.section_end}`
+        : `Section ${citation.section}`;
+      const pinpoint = [citation.chapter && `Chapter ${citation.chapter}`, sections, englishSubdivision(citation)]
+        .filter(Boolean)
+        .join(', ');
+      return `${pinpoint} of ${name}`;
+    }
+    case 'bill':
+      return withPage(`Government Bill ${citation.document_id}${title ? ` ${title}` : ''}`, citation.page, 'p. ');
+    case 'sou':
+      return withPage(`Swedish Government Official Report SOU ${citation.document_id}${title ? ` ${title}` : ''}`, citation.page, 'p. ');
+    case 'ds':
+      return withPage(`Ministry Publication Ds ${citation.document_id}${title ? ` ${title}` : ''}`, citation.page, 'p. ');
+    case 'committee_report':
+      return withPage(`Riksdag Committee Report ${citation.document_id}`, citation.page, 'p. ');
+    case 'riksdag_communication':
+      return `Riksdag Communication ${citation.document_id}`;
+    case 'committee_directive':
+      return `Committee Terms of Reference Dir. ${citation.document_id}`;
+    case 'case_law': {
+      const court = ENGLISH_COURTS[citation.document_id.replace(/\s+\d{4}$/, '')];
+      const reference = formatCitation(citation).replace(/ s\. /, ' p. ');
+      return court ? `${reference} (${court})` : reference;
+    }
+    case 'eu_act': {
+      const act = englishEUAct(citation);
+      return citation.article ? `Article ${englishArticle(citation.article)} of ${act}` : act;
+    }
+    default:
+      return formatCitation(citation);
+  }
+}
+
+function oscola(citation: ParsedCitation, context: CitationStyleContext): string {
+  const translation = context.title_en?.trim() ? ` [${context.title_en.trim()}]` : '';
+  switch (citation.type) {
+    case 'statute': {
+      const name = context.title
+        ? `${officialStatuteTitle(citation.document_id, context.title)}${translation}`
+        : `SFS ${citation.document_id}${translation}`;
+      if (!citation.section) return name;
+      const sections = citation.section_end
+        ? `ss ${citation.section}–${citation.section_end}`
+        : `s ${citation.section}`;
+      const pinpoint = [
+        citation.chapter && `ch ${citation.chapter}`,
+        sections,
+        citation.stycke !== undefined && `para ${citation.stycke}`,
+        citation.punkt !== undefined && `pt ${citation.punkt}`,
+      ].filter(Boolean).join(', ');
+      return `${name} ${pinpoint}`;
+    }
+    case 'bill':
+    case 'sou':
+    case 'ds': {
+      const designation = formatCitation({ ...citation, page: undefined }).replace(/\./g, '');
+      const title = reportTitle(context.title);
+      return [designation, title && `${title}${translation}`, citation.page?.replace(/\./g, '')]
+        .filter(Boolean)
+        .join(' ');
+    }
+    case 'case_law': {
+      const court = ENGLISH_COURTS[citation.document_id.replace(/\s+\d{4}$/, '')];
+      const reference = formatCitation(citation).replace(/\./g, '');
+      return court ? `${reference} (${court} of Sweden)` : reference;
+    }
+    case 'eu_act': {
+      const act = context.title_en?.trim() || englishEUAct(citation);
+      return citation.article ? `${act}, art ${englishArticle(citation.article)}` : act;
+    }
+    default:
+      return formatCitation(citation).replace(/\./g, '');
+  }
+}
+
+const STYLES: Record<Exclude<CitationStyle, 'standard'>, (citation: ParsedCitation, context: CitationStyleContext) => string> = {
+  academic,
+  government,
+  english,
+  oscola,
+};
+
+/**
+ * Format a parsed citation in a style profile; `standard` is the full format.
+ */
+export function formatCitationInStyle(
+  citation: ParsedCitation,
+  style: CitationStyle,
+  context: CitationStyleContext = {}
+): string {
+  if (!citation.valid) {
+    return citation.raw;
+  }
+  return style === 'standard' ? formatCitation(citation) : STYLES[style](citation, context);
+}
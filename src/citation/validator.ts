@@ -8,15 +8,27 @@
 import type { Database } from '@ansvar/mcp-sqlite';
 import type { ValidationResult, ParsedCitation, DocumentStatus } from '../types/index.js';
 import { parseCitation } from './parser.js';
+import { formatCitation } from './formatter.js';
+import { extractSubdivision, hasStyckeBreaks, subdivisionLabel } from '../parsers/provision-structure-parser.js';
+import { hasAmendmentRegister } from '../tools/get-amendment-history.js';
 
 interface DocumentRow {
   id: string;
   title: string;
   status: string;
+  url: string | null;
 }
 
 interface ProvisionRow {
   id: number;
+  content: string;
+}
+
+interface EUDocumentRow {
+  id: string;
+  title: string | null;
+  title_sv: string | null;
+  in_force: number | null;
 }
 
 /**
@@ -45,12 +57,26 @@ export function validateCitation(db: Database, citation: string): ValidationResu
  * Validate a pre-parsed citation against the database.
  */
 export function validateParsedCitation(db: Database, parsed: ParsedCitation): ValidationResult {
+  switch (parsed.type) {
+    case 'eu_act':
+      return validateEUAct(db, parsed);
+    case 'committee_report':
+    case 'riksdag_communication':
+      return validateRiksdagDocument(db, parsed);
+    case 'committee_directive':
+      return {
+        citation: parsed,
+        document_exists: false,
+        provision_exists: false,
+        verifiable: false,
+        warnings: [`Committee directives (Dir.) are not in the database; "${formatCitation(parsed)}" cannot be verified`],
+      };
+  }
+
   const warnings: string[] = [];
 
   // Check document existence
-  const doc = db.prepare(
-    'SELECT id, title, status FROM legal_documents WHERE id = ?'
-  ).get(parsed.document_id) as DocumentRow | undefined;
+  const doc = findDocument(db, parsed);
 
   if (!doc) {
     return {
@@ -68,24 +94,42 @@ export function validateParsedCitation(db: Database, parsed: ParsedCitation): Va
     warnings.push(`Document "${parsed.document_id}" has been repealed (upphävd)`);
   } else if (status === 'amended') {
     warnings.push(`Document "${parsed.document_id}" has been amended since ingestion`);
+  } else if (status === 'not_yet_in_force') {
+    warnings.push(`Document "${parsed.document_id}" has not yet entered into force`);
   }
 
   // Check provision existence if chapter/section specified
   let provisionExists = false;
-  if (parsed.type === 'statute' && (parsed.chapter || parsed.section)) {
+  if (parsed.type === 'statute' && parsed.section_end) {
+    // Section range: both ends must exist
+    const refs = [parsed.section!, parsed.section_end].map(section => (parsed.chapter ? `${parsed.chapter}:${section}` : section));
+    const missing = refs.filter(ref => !db.prepare(
+      'SELECT id FROM legal_provisions WHERE document_id = ? AND provision_ref = ?'
+    ).get(doc.id, ref));
+    provisionExists = missing.length === 0;
+    for (const ref of missing) {
+      warnings.push(`Provision "${ref}" not found in document "${parsed.document_id}"`);
+    }
+  } else if (parsed.type === 'statute' && (parsed.chapter || parsed.section)) {
     const provisionRef = parsed.chapter && parsed.section
       ? `${parsed.chapter}:${parsed.section}`
       : parsed.section || '';
 
     if (provisionRef) {
       const prov = db.prepare(
-        'SELECT id FROM legal_provisions WHERE document_id = ? AND provision_ref = ?'
+        'SELECT id, content FROM legal_provisions WHERE document_id = ? AND provision_ref = ?'
       ).get(parsed.document_id, provisionRef) as ProvisionRow | undefined;
 
       provisionExists = !!prov;
 
       if (!provisionExists) {
         warnings.push(`Provision "${provisionRef}" not found in document "${parsed.document_id}"`);
+      } else if (parsed.stycke && !hasStyckeBreaks(prov!.content)) {
+        // The stored text has no stycke breaks to count, so the pinpoint can't be checked either way
+        warnings.push(`Provision "${provisionRef}" of document "${parsed.document_id}" is stored without stycke breaks; "${subdivisionLabel(parsed)}" was not verified`);
+      } else if ((parsed.stycke || parsed.punkt) && !extractSubdivision(prov!.content, parsed)) {
+        provisionExists = false;
+        warnings.push(`"${subdivisionLabel(parsed)}" not found in provision "${provisionRef}" of document "${parsed.document_id}"`);
       }
     }
   } else {
@@ -102,3 +146,121 @@ export function validateParsedCitation(db: Database, parsed: ParsedCitation): Va
     warnings,
   };
 }
+
+/**
+ * Ids a cited case may be stored under: "NJA 2020 s. 45", "NJA_2020_s45",
+ * "NJA-2020:45" and, in older data, the bare "NJA 2020".
+ */
+export function caseLawIdCandidates(parsed: ParsedCitation): string[] {
+  if (!parsed.page) {
+    return [parsed.document_id];
+  }
+  const formatted = formatCitation(parsed);
+  const [court, year] = parsed.document_id.split(' ');
+  return [
+    formatted,
+    formatted.replace(/\.\s*/g, '').replace(/\s+/g, '_'),
+    `${court}-${year}:${parsed.page}`,
+    parsed.document_id,
+  ];
+}
+
+/**
+ * Look up the cited document. Case law is stored under differing ids
+ * (see caseLawIdCandidates), so every form is tried, then the title.
+ */
+export function findDocument(db: Database, parsed: ParsedCitation): DocumentRow | undefined {
+  const byId = db.prepare('SELECT id, title, status, url FROM legal_documents WHERE id = ?');
+  if (parsed.type !== 'case_law' || !parsed.page) {
+    return byId.get(parsed.document_id) as DocumentRow | undefined;
+  }
+
+  const formatted = formatCitation(parsed);
+  for (const id of caseLawIdCandidates(parsed)) {
+    const doc = byId.get(id) as DocumentRow | undefined;
+    if (doc) return doc;
+  }
+  return db.prepare(
+    "SELECT id, title, status, url FROM legal_documents WHERE type = 'case_law' AND title = ? LIMIT 1"
+  ).get(formatted) as DocumentRow | undefined;
+}
+
+/** EU acts are checked against eu_documents; article texts are not stored, so articles cannot be checked. */
+function validateEUAct(db: Database, parsed: ParsedCitation): ValidationResult {
+  const doc = db.prepare(`
+    SELECT id, title, title_sv, in_force FROM eu_documents
+    WHERE id = ? OR celex_number = ?
+    ORDER BY id = ? DESC
+    LIMIT 1
+  `).get(parsed.document_id, parsed.celex ?? parsed.document_id, parsed.document_id) as EUDocumentRow | undefined;
+
+  const cited = formatCitation({ ...parsed, article: undefined });
+  if (!doc) {
+    return {
+      citation: parsed,
+      document_exists: false,
+      provision_exists: false,
+      warnings: [`EU act "${cited}" not found in database`],
+    };
+  }
+
+  const warnings: string[] = [];
+  const inForce = doc.in_force !== 0;
+  if (!inForce) {
+    warnings.push(`EU act "${cited}" is no longer in force`);
+  }
+  if (parsed.article) {
+    warnings.push(`Article ${parsed.article} not verified: EU act texts are not in the database`);
+  }
+  return {
+    citation: parsed,
+    document_exists: true,
+    provision_exists: true,
+    status: inForce ? 'in_force' : 'repealed',
+    document_title: doc.title_sv ?? doc.title ?? undefined,
+    warnings,
+  };
+}
+
+/**
+ * Committee reports and riksdag communications are known from the amendment
+ * register (sfs_amendments). A register without any of them, or no register
+ * at all, can't rule a citation out.
+ */
+function validateRiksdagDocument(db: Database, parsed: ParsedCitation): ValidationResult {
+  const column = parsed.type === 'committee_report' ? 'committee_report' : 'riksdag_communication';
+  const cited = formatCitation({ ...parsed, page: undefined });
+  const recorded = hasAmendmentRegister(db) && !!db.prepare(
+    `SELECT 1 FROM sfs_amendments WHERE ${column} IS NOT NULL LIMIT 1`
+  ).get();
+  if (!recorded) {
+    return {
+      citation: parsed,
+      document_exists: false,
+      provision_exists: false,
+      verifiable: false,
+      warnings: [`The amendment register in this database records no ${parsed.type === 'committee_report' ? 'committee reports' : 'riksdag communications'}; "${cited}" cannot be verified`],
+    };
+  }
+
+  const row = db.prepare(`
+    SELECT 1 AS found FROM sfs_amendments
+    WHERE ${column} = ? COLLATE NOCASE OR ${column} = ? COLLATE NOCASE
+    LIMIT 1
+  `).get(parsed.document_id, cited) as { found: number } | undefined;
+
+  if (!row) {
+    return {
+      citation: parsed,
+      document_exists: false,
+      provision_exists: false,
+      warnings: [`"${cited}" not found in the amendment register`],
+    };
+  }
+  return {
+    citation: parsed,
+    document_exists: true,
+    provision_exists: true,
+    warnings: [],
+  };
+}
@@ -0,0 +1,163 @@
+/**
+ * Completion registry for Swedish Legal Citation MCP Server.
+ * Shared between stdio (index.ts) and HTTP (http-server.ts, api/mcp.ts) entry points.
+ *
+ * Implements `completion/complete` for prompt and resource template arguments:
+ *   - document_id   — statutes by SFS number, title, short name and colloquial name
+ *                     (court decisions for the case://{document_id} template)
+ *   - provision_ref — provisions of the document chosen in the same request
+ *   - court         — court codes present in case_law
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CompleteRequest,
+  CompleteRequestSchema,
+  CompleteResult,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { Database } from '@ansvar/mcp-sqlite';
+import { COLLOQUIAL_NAMES, resolveDocumentId } from '../utils/statute-id.js';
+
+/** The MCP spec caps a completion response at 100 values. */
+const MAX_VALUES = 100;
+
+interface StatuteRow {
+  id: string;
+  title: string;
+  short_name: string | null;
+}
+
+function completionResult(values: string[]): CompleteResult {
+  return {
+    completion: {
+      values: values.slice(0, MAX_VALUES),
+      hasMore: values.length > MAX_VALUES,
+    },
+  };
+}
+
+/** Escape LIKE wildcards so a typed "%" or "_" matches literally; pair with ESCAPE '\\'. */
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+/**
+ * Statute suggestions as "<SFS number> — <name>". The name is the colloquial
+ * name or short name the user typed when there is one, otherwise the title.
+ * resolveDocumentId accepts these labelled values as-is.
+ */
+function completeStatute(db: Database, value: string): string[] {
+  const query = value.trim().toLowerCase();
+  const pattern = escapeLike(query);
+  const suggestions = new Map<string, string>();
+
+  const colloquial = Object.entries(COLLOQUIAL_NAMES)
+    .filter(([name]) => name.includes(query))
+    .sort(([a], [b]) => Number(!a.startsWith(query)) - Number(!b.startsWith(query)) || a.localeCompare(b, 'sv'));
+  const exists = db.prepare("SELECT 1 FROM legal_documents WHERE id = ? AND type = 'statute'");
+  for (const [name, id] of colloquial) {
+    if (!suggestions.has(id) && exists.get(id)) {
+      suggestions.set(id, name);
+    }
+  }
+
+  const rows = db.prepare(`
+    SELECT id, title, short_name
+    FROM legal_documents
+    WHERE type = 'statute'
+      AND (id LIKE ? ESCAPE '\\' OR short_name LIKE ? ESCAPE '\\' OR title LIKE ? ESCAPE '\\')
+    ORDER BY
+      CASE WHEN id LIKE ? ESCAPE '\\' THEN 0 WHEN short_name LIKE ? ESCAPE '\\' THEN 1 ELSE 2 END,
+      title
+    LIMIT ?
+  `).all(`${pattern}%`, `%${pattern}%`, `%${pattern}%`, `${pattern}%`, `${pattern}%`, MAX_VALUES + 1) as StatuteRow[];
+
+  for (const row of rows) {
+    if (suggestions.has(row.id)) continue;
+    const shortNameMatches = row.short_name && row.short_name.toLowerCase().includes(query);
+    suggestions.set(row.id, shortNameMatches ? row.short_name! : row.title);
+  }
+
+  return [...suggestions].map(([id, label]) => `${id} — ${label}`);
+}
+
+function completeCase(db: Database, value: string): string[] {
+  const rows = db.prepare(`
+    SELECT document_id
+    FROM case_law
+    WHERE document_id LIKE ? ESCAPE '\\'
+    ORDER BY decision_date DESC, document_id
+    LIMIT ?
+  `).all(`%${escapeLike(value.trim())}%`, MAX_VALUES + 1) as { document_id: string }[];
+  return rows.map(r => r.document_id);
+}
+
+/**
+ * Turn a partially typed provision reference into a canonical prefix:
+ * "3 kap." → "3:", "3 kap. 5" → "3:5", "5 a §" → "5 a".
+ */
+function provisionRefPrefix(value: string): string {
+  const trimmed = value.trim().replace(/\s*§$/, '');
+  const chaptered = trimmed.match(/^(\d+\s*[a-z]?)\s*kap\.?\s*(.*)$/i);
+  if (chaptered) {
+    return `${chaptered[1].trim()}:${chaptered[2].trim()}`;
+  }
+  return trimmed;
+}
+
+function completeProvisionRef(db: Database, value: string, documentId: string | undefined): string[] {
+  if (!documentId) return [];
+  const resolved = resolveDocumentId(db, documentId);
+  if (!resolved) return [];
+
+  const rows = db.prepare(`
+    SELECT provision_ref
+    FROM legal_provisions
+    WHERE document_id = ? AND provision_ref LIKE ? ESCAPE '\\'
+    ORDER BY CAST(chapter AS INTEGER), CAST(section AS INTEGER), section
+    LIMIT ?
+  `).all(resolved, `${escapeLike(provisionRefPrefix(value))}%`, MAX_VALUES + 1) as { provision_ref: string }[];
+  return rows.map(r => r.provision_ref);
+}
+
+function completeCourt(db: Database, value: string): string[] {
+  const rows = db.prepare(`
+    SELECT DISTINCT court
+    FROM case_law
+    WHERE court LIKE ? ESCAPE '\\'
+    ORDER BY court
+  `).all(`${escapeLike(value.trim())}%`) as { court: string }[];
+  return rows.map(r => r.court);
+}
+
+/**
+ * Complete one argument of a prompt or resource template. Arguments that have
+ * no completion source return an empty list rather than an error.
+ */
+export function complete(db: Database, params: CompleteRequest['params']): CompleteResult {
+  const { ref, argument } = params;
+  const context = params.context?.arguments ?? {};
+
+  switch (argument.name) {
+    case 'document_id':
+      if (ref.type === 'ref/resource' && ref.uri.startsWith('case://')) {
+        return completionResult(completeCase(db, argument.value));
+      }
+      return completionResult(completeStatute(db, argument.value));
+    case 'provision_ref':
+      return completionResult(completeProvisionRef(db, argument.value, context.document_id));
+    case 'court':
+      return completionResult(completeCourt(db, argument.value));
+    default:
+      return completionResult([]);
+  }
+}
+
+export function registerCompletions(
+  server: Server,
+  db: Database,
+): void {
+  server.setRequestHandler(CompleteRequestSchema, async (request) => {
+    return complete(db, request.params);
+  });
+}
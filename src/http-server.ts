@@ -16,6 +16,9 @@ import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
 import Database from '@ansvar/mcp-sqlite';
 import { registerTools } from './tools/registry.js';
+import { registerResources } from './resources/registry.js';
+import { registerPrompts } from './prompts/registry.js';
+import { registerCompletions } from './completions/registry.js';
 import { detectCapabilities, readDbMetadata } from './capabilities.js';
 import type { AboutContext } from './tools/about.js';
 
@@ -60,9 +63,12 @@ async function main() {
   function createMCPServer(): Server {
     const server = new Server(
       { name: SERVER_NAME, version: pkgVersion },
-      { capabilities: { tools: {} } },
+      { capabilities: { tools: {}, resources: {}, prompts: {}, completions: {} } },
     );
     registerTools(server, db, aboutContext);
+    registerResources(server, db);
+    registerPrompts(server, db);
+    registerCompletions(server, db);
     return server;
   }
 
@@ -46,6 +46,9 @@ const INTRODUCED_PATTERN = /[Ii]nförd\s+genom\s+lag\s*\((\d{4}:\d+)\)/gu;
 /** Has been repealed: "Har upphävts genom lag (YYYY:NNN)" */
 const HAS_REPEALED_PATTERN = /[Hh]ar\s+upphävts\s+genom\s+lag\s*\((\d{4}:\d+)\)/gu;
 
+/** Text that is only a repeal notice: "Har upphävts genom lag (YYYY:NNN)." */
+const REPEAL_NOTICE_PATTERN = /^(?:[Hh]ar\s+(?:upphävts|upphört\s+att\s+gälla)|[Uu]pphävd)\s+genom\s+(?:lag|förordning)\s*\((\d{4}:\d+)\)/u;
+
 /** Force of law date: "Träder i kraft (date)" - for transitional provisions */
 const FORCE_PATTERN = /[Tt]räder\s+i\s+kraft/u;
 
@@ -127,6 +130,45 @@ export function extractAmendmentReferences(content: string): AmendmentReference[
   return amendments;
 }
 
+/** Amendment marker anywhere in the text: "Lag (YYYY:NNN)." */
+const MARKER_PATTERN = /Lag\s*\((\d{4}:\d+)\)\./gu;
+
+/**
+ * Amendments that changed the provision itself.
+ *
+ * Unlike extractAmendmentReferences, this also finds "Lag (YYYY:NNN)."
+ * markers that consolidated text runs into the next heading or the
+ * transitional provisions, and ignores repeal notes and force-of-law
+ * references inside transitional text. A repeal or introduction only counts
+ * when the provision consists of the notice ("Har upphävts genom lag ...").
+ */
+export function extractProvisionChanges(content: string): AmendmentReference[] {
+  const text = content.trim();
+  const changes = extractAmendmentReferences(text).filter(ref =>
+    ref.position === 'suffix' || (ref.position === 'inline' && text.startsWith(ref.raw_text))
+  );
+
+  for (const match of text.matchAll(MARKER_PATTERN)) {
+    if (changes.some(change => change.amended_by_sfs === match[1])) continue;
+    changes.push({
+      amended_by_sfs: match[1],
+      amendment_type: 'ändrad',
+      position: 'inline',
+      raw_text: match[0],
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * The repealing act when a provision or chapter heading consists of a repeal
+ * notice ("Har upphävts genom lag (2010:900)."), otherwise null.
+ */
+export function parseRepealNotice(text: string): string | null {
+  return text.trim().match(REPEAL_NOTICE_PATTERN)?.[1] ?? null;
+}
+
 /**
  * Parse amendment references from all provisions in a statute.
  */
@@ -272,6 +314,70 @@ export function parseAmendingStatute(text: string): AmendmentSection[] {
   return sections;
 }
 
+/** Change types used in the SFS register (författningsregister) */
+export type RegisterChangeType = 'ändr.' | 'ny' | 'upph.';
+
+export interface RegisterChange {
+  /** Affected provision, e.g., "3:1" or "5 a" */
+  provision_ref: string;
+  change_type: RegisterChangeType;
+}
+
+const REGISTER_KEYWORDS: Record<string, RegisterChangeType> = {
+  'ändr.': 'ändr.',
+  'ny': 'ny',
+  'nya': 'ny',
+  'upph.': 'upph.',
+};
+
+/**
+ * Parse the scope ("Omfattning") of an SFS register entry into the
+ * provisions it changed.
+ *
+ * Example:
+ *   "ändr. 2 kap. 1, 3 §§; ny 2 kap. 4 a §; upph. 5 §"
+ *   → 2:1 and 2:3 ändr., 2:4 a ny, 5 upph.
+ *
+ * Headings ("rubr."), whole chapters and anything else that does not name a
+ * section are skipped. Plain numeric ranges ("1–3 §§") are expanded.
+ */
+export function parseAmendmentScope(scope: string): RegisterChange[] {
+  const changes: RegisterChange[] = [];
+  const seen = new Set<string>();
+
+  for (const part of scope.split(';')) {
+    const keywordMatch = part.trim().match(/^(ändr\.|nya|ny|upph\.)\s+(.*)$/iu);
+    if (!keywordMatch) continue;
+    const changeType = REGISTER_KEYWORDS[keywordMatch[1].toLowerCase()];
+
+    let chapter: string | undefined;
+    for (const rawItem of keywordMatch[2].split(',')) {
+      const item = rawItem.replace(/§+/g, '').trim();
+      if (!item || /rubr/iu.test(item)) continue;
+
+      const itemMatch = item.match(/^(?:(\d+\s*[a-z]?)\s*kap\.\s*)?(\d+(?:\s*[a-z]\b)?)?(?:\s*[-–]\s*(\d+))?$/u);
+      if (!itemMatch) continue;
+      if (itemMatch[1]) chapter = itemMatch[1].replace(/\s+/g, ' ').trim();
+      if (!itemMatch[2]) continue;
+
+      const first = itemMatch[2].replace(/\s+/g, ' ');
+      const sections = itemMatch[3] && /^\d+$/.test(first)
+        ? Array.from({ length: Math.max(Number(itemMatch[3]) - Number(first) + 1, 1) }, (_, i) => String(Number(first) + i))
+        : [first];
+
+      for (const section of sections) {
+        const provisionRef = chapter ? `${chapter}:${section}` : section;
+        const key = `${changeType}|${provisionRef}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        changes.push({ provision_ref: provisionRef, change_type: changeType });
+      }
+    }
+  }
+
+  return changes;
+}
+
 /**
  * Validate that an SFS number has correct format.
  */
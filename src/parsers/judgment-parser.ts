@@ -0,0 +1,161 @@
+/**
+ * Split the full text of a Swedish judgment into its parts: the ruling
+ * (domslut), the court's reasoning (domskäl) and dissenting opinions
+ * (skiljaktiga meningar).
+ *
+ * Judgments mark their parts with heading lines, in either order:
+ *
+ *   HD:   DOMSLUT … DOMSKÄL … Domen har meddelats av: …
+ *         Justitierådet X är skiljaktig och anför följande. …
+ *   HFD:  Bakgrund … Skälen för avgörandet …
+ *         Högsta förvaltningsdomstolens avgörande …
+ *         I avgörandet deltog … Justitierådet Y var skiljaktig …
+ *
+ * Published reports (NJA, HFD) also reproduce the lower courts' judgments,
+ * each with its own domskäl; the last reasoning section is the deciding
+ * court's. Text without line breaks yields no sections.
+ */
+
+export interface DissentingOpinion {
+  /** Who dissents, as written: "Justitierådet Anna Svensson" */
+  judges: string | null;
+  text: string;
+}
+
+export interface JudgmentSections {
+  /** Headnotes (rättsfallsreferatets rubrik and sammanfattning), when stored */
+  headnotes: string | null;
+  /** The ruling of the deciding court */
+  ruling: string | null;
+  /** The reasoning of the deciding court */
+  reasoning: string | null;
+  dissents: DissentingOpinion[];
+}
+
+/** Columns of case_law_full stored next to full_text */
+export interface StoredJudgmentParts {
+  headnotes?: string | null;
+  dissenting_opinions?: string | null;
+}
+
+type SectionKind = 'ruling' | 'reasoning' | 'dissent' | 'closing' | 'other';
+
+const RULING_HEADING_PATTERN =
+  /^(?:domslut|beslutsformulering|(?:högsta (?:förvaltnings)?domstolens|hd:s|hfd:s|regeringsrättens) (?:domslut|avgörande|beslut))$/iu;
+
+const REASONING_HEADING_PATTERN =
+  /^(?:domskäl|skäl|beslutsskäl|skälen för (?:avgörandet|beslutet|domen)|(?:högsta (?:förvaltnings)?domstolens|hd:s|hfd:s|regeringsrättens|domstolens) (?:domskäl|skäl|bedömning))$/iu;
+
+/** Courts heading their part of a published report: "Tingsrätten", "HovR:s dom" */
+const COURT_HEADING_PATTERN =
+  /^(?:tingsrätten|hovrätten|kammarrätten|förvaltningsrätten|migrationsdomstolen|mark- och miljödomstolen|högsta domstolen|högsta förvaltningsdomstolen|tr|hovr|kr|fr|hd|hfd)(?::s| ?s)? ?(?:dom|beslut)?$/iu;
+
+const DISSENT_HEADING_PATTERN = /^skiljaktiga? mening(?:ar)?$/iu;
+
+/** Opening line of an opinion: "Justitierådet X och Y är skiljaktiga och anför …" */
+const DISSENT_START_PATTERN = /^([^.\n]{1,150}?)\s+(?:är|var)\s+skiljaktiga?\b/u;
+
+/** Signature lines after the court's decision */
+const CLOSING_PATTERN =
+  /^(?:(?:domen|beslutet|avgörandet) (?:har )?meddela(?:ts|des) av|i (?:avgörandet|målets avgörande) (?:har )?delt(?:og|agit)|föredragande\b)/iu;
+
+/** A bare "Skäl" inside an opinion is the dissenter's own reasons */
+const OPINION_SUBHEADING_PATTERN = /^(?:skäl|bedömning)$/iu;
+
+function headingText(line: string): string {
+  return line.trim().replace(/[:.]$/u, '').replace(/\s+/gu, ' ');
+}
+
+function classifyLine(line: string): SectionKind | null {
+  const heading = headingText(line);
+  if (RULING_HEADING_PATTERN.test(heading)) return 'ruling';
+  if (REASONING_HEADING_PATTERN.test(heading)) return 'reasoning';
+  if (COURT_HEADING_PATTERN.test(heading)) return 'other';
+  if (DISSENT_HEADING_PATTERN.test(heading) || DISSENT_START_PATTERN.test(line.trim())) return 'dissent';
+  if (CLOSING_PATTERN.test(line.trim())) return 'closing';
+  return null;
+}
+
+interface Section {
+  kind: SectionKind;
+  /** The line that opened the section */
+  heading: string;
+  lines: string[];
+}
+
+function splitSections(text: string): Section[] {
+  const sections: Section[] = [{ kind: 'other', heading: '', lines: [] }];
+  for (const line of text.split(/\r?\n/u)) {
+    const kind = classifyLine(line);
+    const inOpinion = sections[sections.length - 1].kind === 'dissent' && OPINION_SUBHEADING_PATTERN.test(headingText(line));
+    if (kind && !inOpinion) {
+      sections.push({ kind, heading: line.trim(), lines: [] });
+    } else {
+      sections[sections.length - 1].lines.push(line);
+    }
+  }
+  return sections;
+}
+
+function sectionBody(section: Section): string | null {
+  const body = section.lines.join('\n').trim();
+  return body.length > 0 ? body : null;
+}
+
+/** An opinion's text starts with its opening line; a "Skiljaktig mening" heading is dropped */
+function dissentFrom(section: Section): DissentingOpinion | null {
+  const opening = section.heading.match(DISSENT_START_PATTERN);
+  const text = opening
+    ? [section.heading, ...section.lines].join('\n').trim()
+    : sectionBody(section);
+  if (!text) return null;
+  const judges = opening?.[1] ?? text.match(DISSENT_START_PATTERN)?.[1] ?? null;
+  return { judges: judges?.trim() ?? null, text };
+}
+
+/** Split stored dissenting opinions into one entry per opinion. */
+function splitDissents(text: string): DissentingOpinion[] {
+  const sections = splitSections(text);
+  const opinions: DissentingOpinion[] = [];
+  const preamble = sectionBody(sections[0]);
+  if (preamble) {
+    opinions.push({ judges: preamble.match(DISSENT_START_PATTERN)?.[1]?.trim() ?? null, text: preamble });
+  }
+  for (const section of sections.slice(1)) {
+    const opinion = dissentFrom(section);
+    if (opinion && section.kind === 'dissent') {
+      opinions.push(opinion);
+    } else if (opinion && opinions.length > 0) {
+      opinions[opinions.length - 1].text += `\n${section.heading}\n${opinion.text}`;
+    }
+  }
+  return opinions;
+}
+
+/**
+ * Split a judgment into headnotes, ruling, reasoning and dissents. Stored
+ * headnotes and dissenting opinions take precedence over what is found in
+ * the full text.
+ */
+export function splitJudgment(fullText: string, stored: StoredJudgmentParts = {}): JudgmentSections {
+  const sections = splitSections(fullText);
+  const last = (kind: SectionKind) => [...sections].reverse().find(section => section.kind === kind && sectionBody(section));
+
+  const ruling = last('ruling');
+  const reasoning = last('reasoning');
+  // Dissents in the lower courts' judgments come before the deciding court's reasoning
+  const decidingCourtStart = reasoning ? sections.indexOf(reasoning) : 0;
+  const dissents = stored.dissenting_opinions?.trim()
+    ? splitDissents(stored.dissenting_opinions)
+    : sections
+      .filter((section, index) => section.kind === 'dissent' && index > decidingCourtStart)
+      .map(dissentFrom)
+      .filter((opinion): opinion is DissentingOpinion => opinion !== null);
+
+  return {
+    headnotes: stored.headnotes?.trim() || null,
+    ruling: ruling ? sectionBody(ruling) : null,
+    reasoning: reasoning ? sectionBody(reasoning) : null,
+    dissents,
+  };
+}
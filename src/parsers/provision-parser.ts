@@ -5,8 +5,17 @@
  *   - Chaptered statutes: "3 kap. 5 §" → provision_ref "3:5"
  *   - Flat statutes: "5 §" → provision_ref "5"
  *   - Special numbering: "5 a §" → provision_ref "5 a"
+ *   - Transitional provisions: text after "Övergångsbestämmelser" (up to any
+ *     appendix) is not part of any provision; parseStatuteTransitionalProvisions
+ *     returns it
  */
 
+import {
+  findTransitionalLines,
+  parseTransitionalLines,
+  type TransitionalProvision,
+} from './transitional-provision-parser.js';
+
 /** Parsed provision from raw statute text */
 export interface ParsedProvision {
   provision_ref: string;
@@ -32,7 +41,11 @@ const RUBRIK_PATTERN = /^[A-ZÅÄÖ][a-zåäöé]+(?: [a-zåäöé]+)*$/;
  * @returns Array of parsed provisions
  */
 export function parseStatuteText(text: string): ParsedProvision[] {
-  const lines = text.split('\n').map(l => l.trim()).filter(l => l.length > 0);
+  const allLines = text.split('\n').map(l => l.trim()).filter(l => l.length > 0);
+  const transitional = findTransitionalLines(allLines);
+  const lines = transitional
+    ? [...allLines.slice(0, transitional.start), ...allLines.slice(transitional.end)]
+    : allLines;
   const provisions: ParsedProvision[] = [];
 
   let currentChapter: string | undefined;
@@ -96,6 +109,14 @@ export function parseStatuteText(text: string): ParsedProvision[] {
   return provisions;
 }
 
+/**
+ * Parse the transitional provisions (övergångsbestämmelser) of a statute,
+ * one entry per act.
+ */
+export function parseStatuteTransitionalProvisions(text: string): TransitionalProvision[] {
+  return parseTransitionalLines(text.split('\n'));
+}
+
 /**
  * Detect if a statute uses chapters (chaptered) or not (flat).
  */
@@ -0,0 +1,263 @@
+/**
+ * Parse the internal structure of a provision: paragraphs (stycken) and
+ * numbered points (punkter).
+ *
+ *   Känsliga personuppgifter får behandlas om behandlingen är nödvändig för
+ *   1. förebyggande hälso- och sjukvård,          ← första stycket 1
+ *   2. medicinska diagnoser.                       ← första stycket 2
+ *   Behandling enligt första stycket får ske ...   ← andra stycket
+ *
+ * Text with line breaks is split into stycken at the breaks. Consolidated
+ * text in the database has none, so stycken are then approximated by
+ * sentences: a stycke ends where a sentence ends and the next starts with an
+ * upper-case letter, except inside a list of points. Such segments are
+ * sentences, not stycken, and are never addressed as stycken.
+ */
+
+export interface ParsedPunkt {
+  number: number;
+  /** Text of the point, without its number */
+  text: string;
+}
+
+export interface ParsedStycke {
+  number: number;
+  /** Full text of the stycke, points included */
+  text: string;
+  /** Text before the first point; the whole text when there are no points */
+  intro: string;
+  punkter: ParsedPunkt[];
+}
+
+export interface ProvisionStructure {
+  /** 'lines' when split at line breaks, 'sentences' when approximated */
+  segmentation: 'lines' | 'sentences';
+  stycken: ParsedStycke[];
+}
+
+export const STYCKE_ORDINALS = [
+  'första', 'andra', 'tredje', 'fjärde', 'femte', 'sjätte',
+  'sjunde', 'åttonde', 'nionde', 'tionde', 'elfte', 'tolfte',
+];
+
+/** "första stycket" for 1; "13:e stycket" beyond the ordinal words */
+export function styckeLabel(stycke: number, punkt?: number): string {
+  const ordinal = STYCKE_ORDINALS[stycke - 1] ?? `${stycke}:e`;
+  return punkt === undefined ? `${ordinal} stycket` : `${ordinal} stycket ${punkt}`;
+}
+
+/**
+ * "mening 2" or "mening 2 punkt 3" — for text without stycke breaks, where
+ * the segments are sentences rather than stycken.
+ */
+export function sentenceLabel(sentence: number, punkt?: number): string {
+  return punkt === undefined ? `mening ${sentence}` : `mening ${sentence} punkt ${punkt}`;
+}
+
+/** Point marker: "1. " followed by a lower-case word, at the start or after whitespace or a colon */
+const PUNKT_MARKER_PATTERN = /(?<=^|[\s:])(\d+)\.\s+(?=[a-zåäö])/gu;
+
+/** Sentence end followed by an upper-case letter */
+const SENTENCE_BOUNDARY_PATTERN = /(?<=[.!?])\s+(?=[A-ZÅÄÖ])/gu;
+
+/** Abbreviations that end with a period without ending the sentence */
+const ABBREVIATION_PATTERN = /(?:^|\s)(?:kap|m\.m|t\.ex|bl\.a|s\.k|o\.d|dvs|resp|jfr|st|p|f|ff|prop|bet|rskr|nr|art)\.$/u;
+
+function endsWithAbbreviation(text: string, index: number): boolean {
+  return ABBREVIATION_PATTERN.test(text.slice(Math.max(0, index - 12), index));
+}
+
+interface ListSpan {
+  start: number;
+  end: number;
+  markers: Array<{ number: number; index: number; length: number }>;
+}
+
+/** Runs of point markers numbered 1, 2, 3 …; each list ends at the first sentence boundary after its last marker. */
+function findLists(text: string): ListSpan[] {
+  const markers = Array.from(text.matchAll(PUNKT_MARKER_PATTERN)).map(match => ({
+    number: Number(match[1]),
+    index: match.index!,
+    length: match[0].length,
+  }));
+
+  const lists: ListSpan[] = [];
+  for (let i = 0; i < markers.length; i++) {
+    if (markers[i].number !== 1) continue;
+    const run = [markers[i]];
+    for (let j = i + 1; j < markers.length && markers[j].number === run.length + 1; j++) {
+      run.push(markers[j]);
+    }
+    if (run.length < 2) continue;
+
+    const last = run[run.length - 1];
+    const boundary = new RegExp(SENTENCE_BOUNDARY_PATTERN.source, 'gu');
+    boundary.lastIndex = last.index + last.length;
+    let end = text.length;
+    for (let match = boundary.exec(text); match; match = boundary.exec(text)) {
+      if (!endsWithAbbreviation(text, match.index)) {
+        end = match.index;
+        break;
+      }
+    }
+    lists.push({ start: run[0].index, end, markers: run });
+    i += run.length - 1;
+  }
+  return lists;
+}
+
+function parseStycke(text: string, number: number): ParsedStycke {
+  const list = findLists(text)[0];
+  if (!list) {
+    return { number, text, intro: text, punkter: [] };
+  }
+  const punkter = list.markers.map((marker, i) => ({
+    number: marker.number,
+    text: text.slice(marker.index + marker.length, list.markers[i + 1]?.index ?? list.end).trim(),
+  }));
+  return { number, text, intro: text.slice(0, list.start).trim(), punkter };
+}
+
+/** Split text into stycken at sentence boundaries outside lists of points. */
+function splitSentences(text: string): string[] {
+  const lists = findLists(text);
+  const segments: string[] = [];
+  let start = 0;
+  for (const match of text.matchAll(SENTENCE_BOUNDARY_PATTERN)) {
+    const index = match.index!;
+    if (lists.some(list => index > list.start && index < list.end)) continue;
+    if (endsWithAbbreviation(text, index)) continue;
+    segments.push(text.slice(start, index).trim());
+    start = index + match[0].length;
+  }
+  segments.push(text.slice(start).trim());
+  return segments.filter(Boolean);
+}
+
+export function parseProvisionStructure(content: string): ProvisionStructure {
+  const lines = content.split(/\n+/).map(line => line.replace(/\s+/g, ' ').trim()).filter(Boolean);
+  const segmentation = lines.length > 1 ? 'lines' : 'sentences';
+  const texts = segmentation === 'lines' ? lines : splitSentences(lines[0] ?? '');
+  return {
+    segmentation,
+    stycken: texts.map((text, i) => parseStycke(text, i + 1)),
+  };
+}
+
+/** Stycke and punkt counts of a provision, as stored in legal_provisions.metadata */
+export interface ProvisionStructureOutline {
+  segmentation: ProvisionStructure['segmentation'];
+  stycken: Array<{ stycke: number; punkter: number }>;
+}
+
+export function outlineProvisionStructure(content: string): ProvisionStructureOutline {
+  const structure = parseProvisionStructure(content);
+  return {
+    segmentation: structure.segmentation,
+    stycken: structure.stycken.map(stycke => ({ stycke: stycke.number, punkter: stycke.punkter.length })),
+  };
+}
+
+/** A pinpoint below section level: "första stycket 2" is stycke 1, punkt 2 */
+export interface ProvisionSubdivision {
+  stycke?: number;
+  punkt?: number;
+}
+
+/**
+ * "första stycket", "andra st. 3", "1 st. 2 p.", "3:e stycket punkt 4",
+ * "punkten 2", "2 p."; a bare number is a punkt only after a stycke.
+ */
+export const SUBDIVISION_SOURCE =
+  `(?:(${STYCKE_ORDINALS.join('|')}|\\d+(?::[ae])?)\\s+st(?:ycket|\\.)` +
+  '(?:\\s+(?:p(?:unkt(?:en)?|\\.)\\s*)?(\\d+)(?:\\s*p\\.)?)?' +
+  '|punkt(?:en)?\\s+(\\d+)|(\\d+)\\s*p\\.)(?![\\p{L}\\p{N}])';
+
+const SUBDIVISION_PATTERN = new RegExp(`^${SUBDIVISION_SOURCE}`, 'iu');
+const TRAILING_SUBDIVISION_PATTERN = new RegExp(`\\s+${SUBDIVISION_SOURCE}\\s*$`, 'iu');
+
+function toSubdivision(match: RegExpMatchArray): ProvisionSubdivision {
+  const subdivision: ProvisionSubdivision = {};
+  if (match[1]) {
+    const ordinal = STYCKE_ORDINALS.indexOf(match[1].toLowerCase());
+    subdivision.stycke = ordinal >= 0 ? ordinal + 1 : parseInt(match[1], 10);
+  }
+  const punkt = match[2] ?? match[3] ?? match[4];
+  if (punkt) {
+    subdivision.punkt = Number(punkt);
+  }
+  return subdivision;
+}
+
+/** Parse a subdivision at the start of `text`, e.g. the rest of a citation after "5 §". */
+export function parseSubdivision(text: string): (ProvisionSubdivision & { length: number }) | null {
+  const match = text.match(SUBDIVISION_PATTERN);
+  return match ? { ...toSubdivision(match), length: match[0].length } : null;
+}
+
+/** Split a trailing subdivision off a provision reference: "3 kap. 5 § första stycket 2" → "3 kap. 5 §" */
+export function splitProvisionSubdivision(ref: string): ProvisionSubdivision & { ref: string } {
+  const match = ref.match(TRAILING_SUBDIVISION_PATTERN);
+  if (!match) {
+    return { ref };
+  }
+  return { ref: ref.slice(0, match.index).trim(), ...toSubdivision(match) };
+}
+
+/** "första stycket 2", or "2 p." for a punkt without a stycke */
+export function subdivisionLabel(subdivision: ProvisionSubdivision): string {
+  if (subdivision.stycke !== undefined) {
+    return styckeLabel(subdivision.stycke, subdivision.punkt);
+  }
+  return subdivision.punkt !== undefined ? `${subdivision.punkt} p.` : '';
+}
+
+/** True when the text has line breaks, so that its stycken can be counted. */
+export function hasStyckeBreaks(content: string): boolean {
+  return parseProvisionStructure(content).segmentation === 'lines';
+}
+
+export interface SubdivisionText {
+  /** Absent for a punkt in text without stycke breaks */
+  stycke?: number;
+  punkt?: number;
+  /** Label with the stycke resolved, e.g. "första stycket 2"; "2 p." without stycke breaks */
+  label: string;
+  text: string;
+}
+
+/**
+ * Text of one stycke or punkt of a provision. A punkt without a stycke is
+ * looked up in the first stycke that has a point with that number. Text
+ * without stycke breaks yields no stycke (see hasStyckeBreaks), and a punkt
+ * in it is returned without one.
+ */
+export function extractSubdivision(content: string, subdivision: ProvisionSubdivision): SubdivisionText | null {
+  const { segmentation, stycken } = parseProvisionStructure(content);
+  if (segmentation === 'sentences') {
+    if (subdivision.stycke !== undefined) {
+      return null;
+    }
+    const punkt = stycken.flatMap(s => s.punkter).find(p => p.number === subdivision.punkt);
+    return punkt ? { punkt: punkt.number, label: subdivisionLabel({ punkt: punkt.number }), text: punkt.text } : null;
+  }
+  const stycke = subdivision.stycke !== undefined
+    ? stycken.find(s => s.number === subdivision.stycke)
+    : stycken.find(s => s.punkter.some(p => p.number === subdivision.punkt));
+  if (!stycke) {
+    return null;
+  }
+  if (subdivision.punkt === undefined) {
+    return { stycke: stycke.number, label: styckeLabel(stycke.number), text: stycke.text };
+  }
+  const punkt = stycke.punkter.find(p => p.number === subdivision.punkt);
+  if (!punkt) {
+    return null;
+  }
+  return {
+    stycke: stycke.number,
+    punkt: punkt.number,
+    label: styckeLabel(stycke.number, punkt.number),
+    text: punkt.text,
+  };
+}
@@ -3,9 +3,20 @@
  *
  * Riksdagen text contains line-break artifacts and occasional table-of-contents
  * fragments. This parser uses conservative chapter activation and section
- * monotonicity checks to avoid mislabeling provisions.
+ * monotonicity checks to avoid mislabeling provisions. Transitional provisions
+ * (övergångsbestämmelser) after the closing heading are returned separately
+ * instead of being appended to the last provision. Chapter headings and the
+ * avdelningar (parts) that group chapters are returned as the statute's
+ * outline.
  */
 
+import { parseRepealNotice } from './amendment-parser.js';
+import {
+  findTransitionalLines,
+  parseTransitionalLines,
+  type TransitionalProvision,
+} from './transitional-provision-parser.js';
+
 export interface RiksdagenProvision {
   provision_ref: string;
   chapter?: string;
@@ -14,6 +25,17 @@ export interface RiksdagenProvision {
   content: string;
 }
 
+export interface RiksdagenChapter {
+  chapter: string;
+  /** Chapter heading, e.g. "Mål och tillämpningsområde" */
+  title?: string;
+  /** Avdelning (part) containing the chapter, e.g. "Första avdelningen" */
+  part?: string;
+  part_title?: string;
+  /** Repealing act when the chapter heading is a repeal notice */
+  repealed_by?: string;
+}
+
 export interface RiksdagenParseDiagnostics {
   ignored_chapter_markers: number;
   suppressed_section_candidates: number;
@@ -21,12 +43,43 @@ export interface RiksdagenParseDiagnostics {
 
 export interface RiksdagenParseResult {
   provisions: RiksdagenProvision[];
+  transitional_provisions: TransitionalProvision[];
+  /** Chapters in document order; empty for statutes without chapters */
+  chapters: RiksdagenChapter[];
   diagnostics: RiksdagenParseDiagnostics;
 }
 
 const CHAPTER_PATTERN = /^(\d+)\s*kap\.\s*(.*)$/u;
 const SECTION_PATTERN = /^(\d+\s*[a-z]?)\s*§\s*(.*)$/iu;
+/** Avdelning headings: "Första avdelningen Allmänna bestämmelser", "FÖRSTA AVDELNINGEN" */
+const ORDINAL_PART_PATTERN = /^((?:första|andra|tredje|fjärde|femte|sjätte|sjunde|åttonde|nionde|tionde|elfte|tolfte)\s+avdelningen)(?![\p{L}\p{N}])\.?\s*(.*)$/iu;
+/** Lettered or numbered avdelningar: "Avd. A Övergripande bestämmelser", "AVDELNING B" */
+const LETTERED_PART_PATTERN = /^((?:Avd\.|AVD\.|Avdelning|AVDELNING)\s+(?:[A-ZÅÄÖ]|\d+|[IVX]+))(?![\p{L}\p{N}])\.?\s*(.*)$/u;
 const LAW_NOTE_PATTERN = /^Lag \(\d{4}:\d+\)\.?$/u;
+/**
+ * An avdelning heading left at the end of a chapter's last section by an
+ * earlier parse: "… Lag (2021:1014). ANDRA AVDELNINGEN Om brotten". Only
+ * upper-case labels, so that references such as "avdelning IV i direktivet"
+ * don't match.
+ */
+const TRAILING_PART_PATTERN = /(?<=[.:;)]\s)((?:FÖRSTA|ANDRA|TREDJE|FJÄRDE|FEMTE|SJÄTTE|SJUNDE|ÅTTONDE|NIONDE|TIONDE|ELFTE|TOLFTE)\s+AVDELNINGEN|(?:AVD\.|AVDELNING)\s+(?:[A-ZÅÄÖ]|\d+|[IVX]+))(?![\p{L}\p{N}])\.?\s*([^\n]{0,150})$/u;
+
+/** "FÖRSTA AVDELNINGEN" → "Första avdelningen"; "AVD. A" → "Avd. A" */
+function normalizePartLabel(label: string): string {
+  const words = label.replace(/\s+/g, ' ').trim().split(' ');
+  const first = words[0].charAt(0).toUpperCase() + words[0].slice(1).toLowerCase();
+  const rest = words.slice(1).map(word => (/^(?:avdelningen|avdelning)$/iu.test(word) ? word.toLowerCase() : word));
+  return [first, ...rest].join(' ');
+}
+
+/** The avdelning before "Andra avdelningen", "Avd. II" or "Avdelning B" */
+function precedingPartLabel(label: string): string | undefined {
+  if (label === 'Andra avdelningen') return 'Första avdelningen';
+  const numbered = label.match(/^(.+\s)(II|2|B)$/u);
+  if (!numbered) return undefined;
+  const first: Record<string, string> = { II: 'I', 2: '1', B: 'A' };
+  return numbered[1] + first[numbered[2]];
+}
 
 function normalizeSectionRef(section: string): string {
   return section.replace(/\s+/g, ' ').trim().toLowerCase();
@@ -83,6 +136,20 @@ export function parseRiksdagenProvisions(text: string): RiksdagenParseResult {
 
   let currentChapter: string | undefined;
   let pendingChapter: string | undefined;
+  let pendingChapterTitle: string | undefined;
+
+  const chapters: RiksdagenChapter[] = [];
+  const seenChapters = new Set<string>();
+  let currentPart: { part: string; part_title?: string } | undefined;
+  let awaitingPartTitle = false;
+
+  function addChapter(chapter: RiksdagenChapter): void {
+    if (seenChapters.has(chapter.chapter)) {
+      return;
+    }
+    seenChapters.add(chapter.chapter);
+    chapters.push({ ...chapter, ...currentPart });
+  }
 
   let currentSection: string | undefined;
   let currentTitle: string | undefined;
@@ -122,16 +189,48 @@ export function parseRiksdagenProvisions(text: string): RiksdagenParseResult {
     currentContent.length = 0;
   }
 
-  for (const rawLine of lines) {
+  const transitional = findTransitionalLines(lines);
+  const provisionLines = transitional
+    ? [...lines.slice(0, transitional.start), ...lines.slice(transitional.end)]
+    : lines;
+
+  for (const rawLine of provisionLines) {
     const line = rawLine.trim();
     if (!line) {
       continue;
     }
 
+    const partMatch = line.match(ORDINAL_PART_PATTERN) ?? line.match(LETTERED_PART_PATTERN);
+    if (partMatch) {
+      flushCurrentSection();
+      currentPart = { part: normalizePartLabel(partMatch[1]) };
+      if (partMatch[2].trim()) {
+        currentPart.part_title = partMatch[2].trim();
+      }
+      awaitingPartTitle = !currentPart.part_title;
+      pendingTitle = undefined;
+      continue;
+    }
+
+    if (awaitingPartTitle && currentPart && !currentSection && isLikelyTitle(line)) {
+      currentPart.part_title = line;
+      awaitingPartTitle = false;
+      continue;
+    }
+
     const chapterMatch = line.match(CHAPTER_PATTERN);
     if (chapterMatch) {
       flushCurrentSection();
-      pendingChapter = chapterMatch[1];
+      awaitingPartTitle = false;
+      const heading = chapterMatch[2].trim();
+      const repealedBy = parseRepealNotice(heading);
+      if (repealedBy) {
+        addChapter({ chapter: chapterMatch[1], repealed_by: repealedBy });
+        pendingChapter = undefined;
+      } else {
+        pendingChapter = chapterMatch[1];
+        pendingChapterTitle = heading || undefined;
+      }
       pendingTitle = undefined;
       continue;
     }
@@ -210,6 +309,9 @@ export function parseRiksdagenProvisions(text: string): RiksdagenParseResult {
       pendingTitle = undefined;
       flushCurrentSection();
 
+      if (chapterActivated && chapterForSection) {
+        addChapter({ chapter: chapterForSection, title: pendingChapterTitle });
+      }
       currentChapter = chapterForSection;
       currentSection = normalizedSection;
       currentTitle = titleForSection;
@@ -237,5 +339,44 @@ export function parseRiksdagenProvisions(text: string): RiksdagenParseResult {
 
   flushCurrentSection();
 
-  return { provisions, diagnostics };
+  return {
+    provisions,
+    transitional_provisions: parseTransitionalLines(lines),
+    chapters,
+    diagnostics,
+  };
+}
+
+/**
+ * Avdelningar of a statute from provisions already split into chapters,
+ * for seeds ingested without their outline. The chapter headings themselves
+ * are lost with such seeds, but avdelning headings survive at the end of the
+ * last section before the avdelning. Chapters before the second avdelning
+ * belong to the first. Returns no chapters when no avdelning is found.
+ */
+export function deriveChapterOutline(
+  provisions: Array<{ chapter?: string | null; content: string }>
+): RiksdagenChapter[] {
+  const chapters: RiksdagenChapter[] = [];
+  let currentPart: { part: string; part_title?: string } | undefined;
+  let found = false;
+  provisions.forEach((provision, i) => {
+    if (!provision.chapter) return;
+    if (chapters[chapters.length - 1]?.chapter !== provision.chapter) {
+      chapters.push({ chapter: provision.chapter, ...currentPart });
+    }
+    const next = provisions[i + 1];
+    if (!next || next.chapter === provision.chapter) return;
+    const match = provision.content.match(TRAILING_PART_PATTERN);
+    if (!match) return;
+    const part = normalizePartLabel(match[1]);
+    const title = match[2].trim();
+    const preceding = precedingPartLabel(part);
+    if (!found && preceding) {
+      for (const chapter of chapters) chapter.part = preceding;
+    }
+    currentPart = { part, ...(title && { part_title: title }) };
+    found = true;
+  });
+  return found ? chapters : [];
 }
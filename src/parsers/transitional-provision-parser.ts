@@ -0,0 +1,175 @@
+/**
+ * Parse transitional provisions (övergångsbestämmelser) from Swedish statute
+ * text.
+ *
+ * Consolidated statutes end with an "Övergångsbestämmelser" heading followed
+ * by one block per act: the statute's own rules and those of each amending
+ * act, each introduced by the act's SFS number:
+ *
+ *   Övergångsbestämmelser
+ *   2018:218
+ *   1. Denna lag träder i kraft den 25 maj 2018.
+ *   2. Genom lagen upphävs personuppgiftslagen (1998:204).
+ *   2018:1248
+ *   Denna lag träder i kraft den 1 augusti 2018.
+ *
+ * In ingested seed data the block often ends up flattened into the content of
+ * the last provision; splitTransitionalText separates it again.
+ */
+
+import { extractEffectiveDate } from './amendment-parser.js';
+
+export interface TransitionalProvision {
+  /** SFS number heading the block: the statute itself or an amending act; null when the block has none */
+  amending_sfs: string | null;
+  /** Text of the rules */
+  content: string;
+  /** Date the act enters into force, when the rules state it (ISO format) */
+  in_force_date?: string;
+  /** Provisions the rules mention, e.g. "1:4" or "10" */
+  provision_refs: string[];
+  /** True when the rules keep earlier wording or a repealed act applicable */
+  keeps_old_wording: boolean;
+}
+
+/** Heading line: "Övergångsbestämmelser" (or the singular) */
+export const TRANSITIONAL_HEADING_PATTERN = /^Övergångsbestämmelser?$/u;
+
+/** The heading inside flattened text, followed by an SFS block header */
+const FLATTENED_HEADING_PATTERN = /(?:^|\s)Övergångsbestämmelser?\s+(?=\d{4}:\d+\s)/u;
+
+/**
+ * The heading followed directly by numbered points, after a sentence. Treaties
+ * incorporated as law have their own "Artikel 27 Övergångsbestämmelser 1. …",
+ * so this form is only trusted at the end of a statute.
+ */
+const NUMBERED_HEADING_PATTERN = /(?:^|(?<=[.:;)]\s))Övergångsbestämmelser?\s+(?=1\.\s)/u;
+
+/** Article heading ("Artikel 28 Ikraftträdande"): treaty text, not transitional rules */
+const ARTICLE_HEADING_PATTERN = /(?:^|\s)Artikel\s+\d+\s+[A-ZÅÄÖ]/u;
+
+/** Appendix heading ("Bilaga", "Bilaga 1", "Bilagor") that ends the transitional provisions */
+const APPENDIX_PATTERN = /(?:^|(?<=[.:;)]\s))Bilag(?:a|or)\b/u;
+
+/** Block header: an SFS number on its own, at the start or after a sentence */
+const BLOCK_HEADER_PATTERN = /(?:^|(?<=[.:;)]\s))(\d{4}:\d+)\s+(?=\d+\.\s|[A-ZÅÄÖ])/gu;
+
+/** Provisions mentioned in the rules: "1 kap. 4 §", "3, 8 och 23 §§" */
+const PROVISION_MENTION_PATTERN = /(?:(\d+(?:\s*[a-z](?![a-zåäö]))?)\s*kap\.\s*)?((?:\d+(?:\s*[a-z](?![a-zåäö]))?\s*(?:,|och)\s*)*\d+(?:\s*[a-z](?![a-zåäö]))?)\s*§/gu;
+
+/** Phrases that keep earlier wording or a repealed act applicable */
+const OLD_WORDING_PATTERN = /äldre\s+(?:bestämmelser|föreskrifter|lydelse)|(?:gäller|tillämpas)\s+(?:dock\s+)?fortfarande|den\s+upphävda\s+(?:lagen|förordningen|balken)/iu;
+
+export interface SplitTransitionalOptions {
+  /**
+   * The content is the statute's last provision, where a heading followed by
+   * numbered points ("Övergångsbestämmelser 1. Denna lag träder i kraft …")
+   * is accepted without an SFS block header
+   */
+  lastProvision?: boolean;
+}
+
+/** A numbered-points heading that runs to the end of the text or an appendix, not into treaty articles */
+function findNumberedHeading(content: string): RegExpExecArray | null {
+  const match = NUMBERED_HEADING_PATTERN.exec(content);
+  if (!match) return null;
+  const rest = content.slice(match.index + match[0].length);
+  const appendix = APPENDIX_PATTERN.exec(rest);
+  return ARTICLE_HEADING_PATTERN.test(appendix ? rest.slice(0, appendix.index) : rest) ? null : match;
+}
+
+/**
+ * Split flattened text into the provision text and the transitional text
+ * after an "Övergångsbestämmelser" heading. Only a heading followed by an SFS
+ * block header counts, or in the last provision one followed by numbered
+ * points; transitional is null otherwise. Appendices after the transitional
+ * provisions stay in text.
+ */
+export function splitTransitionalText(
+  content: string,
+  options: SplitTransitionalOptions = {}
+): { text: string; transitional: string | null } {
+  const match = FLATTENED_HEADING_PATTERN.exec(content)
+    ?? (options.lastProvision ? findNumberedHeading(content) : null);
+  if (!match) {
+    return { text: content, transitional: null };
+  }
+  const rest = content.slice(match.index + match[0].length);
+  const appendix = APPENDIX_PATTERN.exec(rest);
+  const before = content.slice(0, match.index).trim();
+  return {
+    text: appendix ? `${before} ${rest.slice(appendix.index)}`.trim() : before,
+    transitional: (appendix ? rest.slice(0, appendix.index) : rest).trim(),
+  };
+}
+
+/**
+ * Split transitional text (without its heading) into one block per act.
+ * Text before the first SFS header becomes a block with amending_sfs null;
+ * an appendix heading ends the text.
+ */
+export function parseTransitionalText(text: string): TransitionalProvision[] {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  const appendix = APPENDIX_PATTERN.exec(normalized);
+  const flattened = appendix ? normalized.slice(0, appendix.index).trim() : normalized;
+  if (!flattened) return [];
+
+  const headers = Array.from(flattened.matchAll(BLOCK_HEADER_PATTERN));
+  const blocks: Array<{ sfs: string | null; content: string }> = [];
+
+  const leading = flattened.slice(0, headers[0]?.index ?? flattened.length).trim();
+  if (leading) {
+    blocks.push({ sfs: null, content: leading });
+  }
+  headers.forEach((header, i) => {
+    const start = header.index! + header[0].length;
+    const end = headers[i + 1]?.index ?? flattened.length;
+    const content = flattened.slice(start, end).trim();
+    if (content) {
+      blocks.push({ sfs: header[1], content });
+    }
+  });
+
+  return blocks.map(block => ({
+    amending_sfs: block.sfs,
+    content: block.content,
+    in_force_date: extractEffectiveDate(block.content) ?? undefined,
+    provision_refs: mentionedProvisions(block.content),
+    keeps_old_wording: OLD_WORDING_PATTERN.test(block.content),
+  }));
+}
+
+function mentionedProvisions(text: string): string[] {
+  const refs: string[] = [];
+  for (const match of text.matchAll(PROVISION_MENTION_PATTERN)) {
+    const chapter = match[1]?.replace(/\s+/g, ' ').trim();
+    for (const part of match[2].split(/,|och/u)) {
+      const section = part.replace(/\s+/g, ' ').trim();
+      const ref = chapter ? `${chapter}:${section}` : section;
+      if (section && !refs.includes(ref)) refs.push(ref);
+    }
+  }
+  return refs;
+}
+
+/**
+ * Line range [start, end) of the transitional provisions in line-based
+ * statute text: from the "Övergångsbestämmelser" heading line up to an
+ * appendix heading or the end. null when there is no heading.
+ */
+export function findTransitionalLines(lines: string[]): { start: number; end: number } | null {
+  const start = lines.findIndex(line => TRANSITIONAL_HEADING_PATTERN.test(line.trim()));
+  if (start === -1) return null;
+  const appendix = lines.findIndex((line, i) => i > start && APPENDIX_PATTERN.test(line.trim()));
+  return { start, end: appendix === -1 ? lines.length : appendix };
+}
+
+/**
+ * Parse the transitional provisions from line-based statute text: the lines
+ * after the "Övergångsbestämmelser" heading.
+ */
+export function parseTransitionalLines(lines: string[]): TransitionalProvision[] {
+  const range = findTransitionalLines(lines);
+  if (!range) return [];
+  return parseTransitionalText(lines.slice(range.start + 1, range.end).join(' '));
+}
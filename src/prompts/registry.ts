@@ -0,0 +1,291 @@
+/**
+ * Prompt registry for Swedish Legal Citation MCP Server.
+ * Shared between stdio (index.ts) and HTTP (http-server.ts, api/mcp.ts) entry points.
+ *
+ * Prompts are canned research workflows. Each one expands its arguments into a
+ * message sequence that tells the model which tools to call, in which order,
+ * and how to report the result — so every client gets the same orchestration.
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ErrorCode,
+  GetPromptRequestSchema,
+  GetPromptResult,
+  ListPromptsRequestSchema,
+  McpError,
+  Prompt,
+  PromptMessage,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { Database } from '@ansvar/mcp-sqlite';
+import { resolveDocumentId, normalizeProvisionRef } from '../utils/statute-id.js';
+import { readResource } from '../resources/registry.js';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const GDPR_EU_DOCUMENT_ID = 'regulation:2016/679';
+
+const DOCUMENT_ID_ARGUMENT = {
+  name: 'document_id',
+  description: 'SFS number (e.g., "2018:218") or statute name (e.g., "dataskyddslagen")',
+  required: true,
+};
+
+const PROVISION_REF_ARGUMENT = {
+  name: 'provision_ref',
+  description: 'Provision reference: canonical "3:5" or Swedish "3 kap. 5 §"',
+  required: true,
+};
+
+export const PROMPTS: Prompt[] = [
+  {
+    name: 'analyse_provision',
+    description:
+      'Analyse a Swedish statute provision together with its preparatory works (förarbeten) ' +
+      'and case law (praxis). Produces a structured memo with verified citations.',
+    arguments: [
+      DOCUMENT_ID_ARGUMENT,
+      PROVISION_REF_ARGUMENT,
+      { name: 'date', description: 'Analyse the provision as it read on this date (YYYY-MM-DD). Defaults to today.', required: false },
+      { name: 'court', description: 'Also search case law from one court (e.g., "HD", "HFD", "AD")', required: false },
+    ],
+  },
+  {
+    name: 'gdpr_implementation_check',
+    description:
+      'Check how a Swedish statute (or one of its provisions) relates to the GDPR (EU 2016/679): ' +
+      'EU basis, implemented articles, supplementary national rules and reference validity.',
+    arguments: [
+      DOCUMENT_ID_ARGUMENT,
+      { ...PROVISION_REF_ARGUMENT, description: 'Optional provision to focus on (e.g., "2:1")', required: false },
+    ],
+  },
+  {
+    name: 'compare_provision_dates',
+    description:
+      'Compare the wording of a Swedish statute provision on two dates, explain what changed ' +
+      'and find the amendment and preparatory works behind the change.',
+    arguments: [
+      DOCUMENT_ID_ARGUMENT,
+      PROVISION_REF_ARGUMENT,
+      { name: 'date', description: 'Earlier date (YYYY-MM-DD)', required: true },
+      { name: 'compare_date', description: 'Later date (YYYY-MM-DD). Defaults to today.', required: false },
+    ],
+  },
+];
+
+interface StatuteContext {
+  document_id: string;
+  title: string;
+  provision_ref?: string;
+}
+
+function invalidParams(message: string): McpError {
+  return new McpError(ErrorCode.InvalidParams, message);
+}
+
+function requireArgument(args: Record<string, string>, name: string): string {
+  const value = args[name]?.trim();
+  if (!value) {
+    throw invalidParams(`Missing required argument "${name}"`);
+  }
+  return value;
+}
+
+function optionalDate(args: Record<string, string>, name: string): string | undefined {
+  const value = args[name]?.trim();
+  if (!value) return undefined;
+  if (!ISO_DATE.test(value)) {
+    throw invalidParams(`Argument "${name}" must be an ISO date (YYYY-MM-DD), got "${value}"`);
+  }
+  return value;
+}
+
+function resolveStatute(db: Database, args: Record<string, string>, provisionRequired: boolean): StatuteContext {
+  const rawDocumentId = requireArgument(args, 'document_id');
+  const documentId = resolveDocumentId(db, rawDocumentId);
+  if (!documentId) {
+    throw invalidParams(`Statute "${rawDocumentId}" not found`);
+  }
+
+  const { title } = db.prepare('SELECT title FROM legal_documents WHERE id = ?')
+    .get(documentId) as { title: string };
+
+  const rawProvisionRef = provisionRequired
+    ? requireArgument(args, 'provision_ref')
+    : args.provision_ref?.trim();
+
+  return {
+    document_id: documentId,
+    title,
+    provision_ref: rawProvisionRef ? normalizeProvisionRef(rawProvisionRef) : undefined,
+  };
+}
+
+/** Render a tool call step as `name` with its JSON arguments, dropping unset keys. */
+function toolCall(name: string, args: Record<string, unknown>): string {
+  const defined = Object.fromEntries(Object.entries(args).filter(([, v]) => v !== undefined));
+  return `\`${name}\` ${JSON.stringify(defined)}`;
+}
+
+function numbered(steps: string[]): string {
+  return steps.map((step, i) => `${i + 1}. ${step}`).join('\n');
+}
+
+function provisionLabel(ctx: StatuteContext): string {
+  return `${ctx.title} (SFS ${ctx.document_id}) ${ctx.provision_ref}`;
+}
+
+/** Attach the current provision text so the model starts from the source, not from memory. */
+function provisionResourceMessage(db: Database, ctx: StatuteContext): PromptMessage {
+  const uri = `sfs://${ctx.document_id}/${encodeURIComponent(ctx.provision_ref!)}`;
+  return {
+    role: 'user',
+    content: { type: 'resource', resource: readResource(db, uri) },
+  };
+}
+
+function textMessage(text: string): PromptMessage {
+  return { role: 'user', content: { type: 'text', text } };
+}
+
+const CITATION_RULES =
+  'Cite only sources returned by the tools. Verify every citation you write with `validate_citation` ' +
+  'and say so explicitly when a tool returns no data instead of filling the gap from memory.';
+
+function analyseProvision(db: Database, args: Record<string, string>): GetPromptResult {
+  const ctx = resolveStatute(db, args, true);
+  const date = optionalDate(args, 'date');
+  const label = provisionLabel(ctx);
+
+  const steps = [
+    `Fetch the provision text: ${toolCall('get_provision', { document_id: ctx.document_id, provision_ref: ctx.provision_ref, as_of_date: date })}`,
+    `Confirm it is in force: ${toolCall('check_currency', { document_id: ctx.document_id, provision_ref: ctx.provision_ref, as_of_date: date })}`,
+    `Collect the förarbeten: ${toolCall('get_preparatory_works', { document_id: ctx.document_id })}`,
+    `Collect praxis and related provisions: ${toolCall('build_legal_stance', { query: `${ctx.title} ${ctx.provision_ref}`, document_id: ctx.document_id, as_of_date: date })}`,
+  ];
+  const court = args.court?.trim();
+  if (court) {
+    steps.push(`Collect praxis from ${court}: ${toolCall('search_case_law', { query: ctx.title, court })}`);
+  }
+
+  return {
+    description: `Analyse ${label} with förarbeten and praxis`,
+    messages: [
+      provisionResourceMessage(db, ctx),
+      textMessage(
+        `Analyse ${label}${date ? ` as it read on ${date}` : ''}.\n\n` +
+        `Call these tools in order:\n${numbered(steps)}\n\n` +
+        'Then write a memo with the sections: Lydelse (wording), Syfte enligt förarbetena (purpose per the ' +
+        'preparatory works), Praxis (case law, newest first), and Tolkning (your reading of the provision, ' +
+        'with open questions).\n\n' +
+        CITATION_RULES,
+      ),
+    ],
+  };
+}
+
+function gdprImplementationCheck(db: Database, args: Record<string, string>): GetPromptResult {
+  const ctx = resolveStatute(db, args, false);
+  const target = ctx.provision_ref ? provisionLabel(ctx) : `${ctx.title} (SFS ${ctx.document_id})`;
+
+  const steps = [
+    `Find the statute's EU basis: ${toolCall('get_eu_basis', { sfs_number: ctx.document_id, include_articles: true })}`,
+  ];
+  if (ctx.provision_ref) {
+    steps.push(`Find the provision's EU basis: ${toolCall('get_provision_eu_basis', { sfs_number: ctx.document_id, provision_ref: ctx.provision_ref })}`);
+  }
+  steps.push(
+    `Check the GDPR references: ${toolCall('validate_eu_compliance', { sfs_number: ctx.document_id, provision_ref: ctx.provision_ref, eu_document_id: GDPR_EU_DOCUMENT_ID })}`,
+    `List the other Swedish implementing statutes: ${toolCall('get_swedish_implementations', { eu_document_id: GDPR_EU_DOCUMENT_ID, in_force_only: true })}`,
+    `Collect the förarbeten: ${toolCall('get_preparatory_works', { document_id: ctx.document_id })}`,
+    `Collect case law on the national rules: ${toolCall('build_legal_stance', { query: `dataskyddsförordningen ${ctx.title}`, document_id: ctx.document_id })}`,
+  );
+
+  const messages: PromptMessage[] = [];
+  if (ctx.provision_ref) {
+    messages.push(provisionResourceMessage(db, ctx));
+  }
+  messages.push(
+    textMessage(
+      `Check how ${target} implements or supplements the GDPR (Regulation (EU) 2016/679).\n\n` +
+      `Call these tools in order:\n${numbered(steps)}\n\n` +
+      'Then report: which GDPR articles are implemented or supplemented (and by which provisions), ' +
+      'which opening clauses (e.g., Articles 6.2, 9.2, 23, 85–89) Sweden uses, references that are ' +
+      'invalid or point to repealed rules, and any gaps worth a closer look. Note that ' +
+      '`validate_eu_compliance` checks reference validity, not substantive compliance.\n\n' +
+      CITATION_RULES,
+    ),
+  );
+
+  return {
+    description: `GDPR implementation check for ${target}`,
+    messages,
+  };
+}
+
+function compareProvisionDates(db: Database, args: Record<string, string>): GetPromptResult {
+  const ctx = resolveStatute(db, args, true);
+  const date = optionalDate(args, 'date');
+  if (!date) {
+    throw invalidParams('Missing required argument "date"');
+  }
+  const compareDate = optionalDate(args, 'compare_date') ?? new Date().toISOString().slice(0, 10);
+  if (compareDate <= date) {
+    throw invalidParams(`Argument "compare_date" (${compareDate}) must be after "date" (${date})`);
+  }
+  const label = provisionLabel(ctx);
+
+  const steps = [
+    `Fetch the earlier wording: ${toolCall('get_provision_at_date', { sfs: ctx.document_id, provision_ref: ctx.provision_ref, date })}`,
+    `Fetch the later wording: ${toolCall('get_provision_at_date', { sfs: ctx.document_id, provision_ref: ctx.provision_ref, date: compareDate, include_amendments: true })}`,
+    `Get the diff: ${toolCall('diff_provision', { document_id: ctx.document_id, provision_ref: ctx.provision_ref, from_date: date, to_date: compareDate })}. ` +
+      'If it returns a premium notice, compare the two wordings from steps 1 and 2 yourself.',
+    `Find the reasons for the change: ${toolCall('get_preparatory_works', { document_id: ctx.document_id })}`,
+  ];
+
+  return {
+    description: `Compare ${label} on ${date} and ${compareDate}`,
+    messages: [
+      provisionResourceMessage(db, ctx),
+      textMessage(
+        `Compare ${label} as it read on ${date} with how it reads on ${compareDate}.\n\n` +
+        `Call these tools in order:\n${numbered(steps)}\n\n` +
+        'Then report: the two wordings side by side, each change and whether it is substantive or editorial, ' +
+        'the amending SFS and in-force date of each change, and what the preparatory works say about why.\n\n' +
+        CITATION_RULES,
+      ),
+    ],
+  };
+}
+
+const PROMPT_BUILDERS = new Map<string, (db: Database, args: Record<string, string>) => GetPromptResult>([
+  ['analyse_provision', analyseProvision],
+  ['gdpr_implementation_check', gdprImplementationCheck],
+  ['compare_provision_dates', compareProvisionDates],
+]);
+
+/**
+ * Expand a prompt by name. Throws McpError(InvalidParams) for unknown prompts,
+ * missing arguments, malformed dates and statutes that are not in the database.
+ */
+export function getPrompt(db: Database, name: string, args: Record<string, string> = {}): GetPromptResult {
+  const build = PROMPT_BUILDERS.get(name);
+  if (!build) {
+    throw invalidParams(`Unknown prompt: ${name}`);
+  }
+  return build(db, args);
+}
+
+export function registerPrompts(
+  server: Server,
+  db: Database,
+): void {
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts: PROMPTS };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    return getPrompt(db, request.params.name, request.params.arguments);
+  });
+}
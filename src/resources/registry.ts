@@ -0,0 +1,333 @@
+/**
+ * Resource registry for Swedish Legal Citation MCP Server.
+ * Shared between stdio (index.ts) and HTTP (http-server.ts, api/mcp.ts) entry points.
+ *
+ * Static resources:
+ *   - case-law-stats://swedish-law-mcp/metadata
+ *
+ * Resource templates (attach statutes and cases as context documents):
+ *   - sfs://{document_id}                   — whole statute
+ *   - sfs://{document_id}/{provision_ref}   — single provision
+ *   - case://{document_id}                  — court decision
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  Resource,
+  ResourceTemplate,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { Database } from '@ansvar/mcp-sqlite';
+import { resolveDocumentId, normalizeProvisionRef } from '../utils/statute-id.js';
+
+const CASE_LAW_STATS_URI = 'case-law-stats://swedish-law-mcp/metadata';
+
+const SFS_URI_PATTERN = /^sfs:\/\/([^/]+)(?:\/(.+))?$/;
+const CASE_URI_PATTERN = /^case:\/\/(.+)$/;
+
+const CASE_LAW_SOURCE = {
+  name: 'lagen.nu',
+  url: 'https://lagen.nu',
+  license: 'Creative Commons Attribution',
+  attribution: 'Case law from lagen.nu, licensed CC-BY Domstolsverket',
+};
+
+export interface ResourceContent {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+export const RESOURCES: Resource[] = [
+  {
+    uri: CASE_LAW_STATS_URI,
+    name: 'Case Law Statistics',
+    description: 'Metadata about case law data freshness and coverage',
+    mimeType: 'application/json',
+  },
+];
+
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: 'sfs://{document_id}',
+    name: 'Swedish statute',
+    description: 'Full text of a Swedish statute by SFS number (e.g., sfs://2018:218) or statute name (e.g., sfs://dataskyddslagen).',
+    mimeType: 'text/markdown',
+  },
+  {
+    uriTemplate: 'sfs://{document_id}/{provision_ref}',
+    name: 'Swedish statute provision',
+    description: 'A single provision of a Swedish statute (e.g., sfs://2018:218/3:5 or sfs://1998:204/5%20a).',
+    mimeType: 'text/markdown',
+  },
+  {
+    uriTemplate: 'case://{document_id}',
+    name: 'Swedish court decision',
+    description: 'Summary and metadata of a Swedish court decision (e.g., case://NJA%202020).',
+    mimeType: 'text/markdown',
+  },
+];
+
+interface DocumentRow {
+  id: string;
+  title: string;
+  short_name: string | null;
+  status: string;
+  issued_date: string | null;
+  in_force_date: string | null;
+  url: string | null;
+}
+
+interface ProvisionRow {
+  provision_ref: string;
+  chapter: string | null;
+  section: string;
+  title: string | null;
+  content: string;
+}
+
+interface CaseRow {
+  document_id: string;
+  title: string | null;
+  court: string;
+  case_number: string | null;
+  decision_date: string | null;
+  summary: string | null;
+  keywords: string | null;
+  url: string | null;
+}
+
+function errorContent(uri: string, message: string): ResourceContent {
+  return { uri, mimeType: 'text/plain', text: `Error: ${message}` };
+}
+
+function provisionHeading(row: ProvisionRow): string {
+  const label = row.chapter ? `${row.chapter} kap. ${row.section} §` : `${row.section} §`;
+  return row.title ? `${label} ${row.title}` : label;
+}
+
+function documentHeader(doc: DocumentRow): string[] {
+  const lines = [`# ${doc.title} (SFS ${doc.id})`, ''];
+  if (doc.short_name) lines.push(`- Short name: ${doc.short_name}`);
+  lines.push(`- Status: ${doc.status}`);
+  if (doc.issued_date) lines.push(`- Issued: ${doc.issued_date}`);
+  if (doc.in_force_date) lines.push(`- In force: ${doc.in_force_date}`);
+  if (doc.url) lines.push(`- Source: ${doc.url}`);
+  lines.push('');
+  return lines;
+}
+
+function readCaseLawStats(db: Database, uri: string): ResourceContent {
+  try {
+    // Check if sync metadata table exists
+    const tableExists = db.prepare(`
+      SELECT name FROM sqlite_master
+      WHERE type='table' AND name='case_law_sync_metadata'
+    `).get();
+
+    if (!tableExists) {
+      return {
+        uri,
+        mimeType: 'application/json',
+        text: JSON.stringify(
+          {
+            status: 'no_data',
+            message: 'No case law data has been synced yet. Run npm run sync:cases to fetch case law from lagen.nu.',
+            last_sync_date: null,
+            last_decision_date: null,
+            total_cases: 0,
+            cases_by_court: {},
+            source: CASE_LAW_SOURCE,
+            update_frequency: 'weekly',
+            coverage: '1993-present (varies by court)',
+          },
+          null,
+          2
+        ),
+      };
+    }
+
+    // Get sync metadata
+    const syncMeta = db.prepare(`
+      SELECT last_sync_date, last_decision_date, cases_count, source
+      FROM case_law_sync_metadata
+      WHERE id = 1
+    `).get() as
+      | { last_sync_date: string; last_decision_date: string | null; cases_count: number; source: string }
+      | undefined;
+
+    // Get total case count
+    const totalRow = db.prepare('SELECT COUNT(*) as count FROM case_law').get() as { count: number };
+
+    // Get cases by court
+    const courtCounts = db.prepare(`
+      SELECT court, COUNT(*) as count
+      FROM case_law
+      GROUP BY court
+      ORDER BY count DESC
+    `).all() as { court: string; count: number }[];
+
+    const casesByCourt: Record<string, number> = {};
+    for (const row of courtCounts) {
+      casesByCourt[row.court] = row.count;
+    }
+
+    const stats = {
+      last_sync_date: syncMeta?.last_sync_date || new Date().toISOString(),
+      last_decision_date: syncMeta?.last_decision_date || null,
+      total_cases: totalRow.count,
+      cases_by_court: casesByCourt,
+      source: { ...CASE_LAW_SOURCE, name: syncMeta?.source || CASE_LAW_SOURCE.name },
+      update_frequency: 'weekly',
+      coverage: '1993-present (varies by court)',
+    };
+
+    return { uri, mimeType: 'application/json', text: JSON.stringify(stats, null, 2) };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      uri,
+      mimeType: 'application/json',
+      text: JSON.stringify({ error: `Failed to read case law stats: ${message}` }, null, 2),
+    };
+  }
+}
+
+function readStatute(db: Database, uri: string, rawDocumentId: string, rawProvisionRef?: string): ResourceContent {
+  const documentId = resolveDocumentId(db, rawDocumentId);
+  if (!documentId) {
+    return errorContent(uri, `Statute "${rawDocumentId}" not found`);
+  }
+
+  const doc = db.prepare(`
+    SELECT id, title, short_name, status, issued_date, in_force_date, url
+    FROM legal_documents
+    WHERE id = ?
+  `).get(documentId) as DocumentRow;
+
+  if (rawProvisionRef) {
+    const provisionRef = normalizeProvisionRef(rawProvisionRef);
+    const row = db.prepare(`
+      SELECT provision_ref, chapter, section, title, content
+      FROM legal_provisions
+      WHERE document_id = ? AND provision_ref = ?
+    `).get(documentId, provisionRef) as ProvisionRow | undefined;
+
+    if (!row) {
+      return errorContent(uri, `Provision "${provisionRef}" not found in SFS ${documentId}`);
+    }
+
+    const lines = documentHeader(doc);
+    lines.push(`## ${provisionHeading(row)}`, '', row.content);
+    return { uri, mimeType: 'text/markdown', text: lines.join('\n') };
+  }
+
+  const rows = db.prepare(`
+    SELECT provision_ref, chapter, section, title, content
+    FROM legal_provisions
+    WHERE document_id = ?
+    ORDER BY id
+  `).all(documentId) as ProvisionRow[];
+
+  const lines = documentHeader(doc);
+  let currentChapter: string | null = null;
+  for (const row of rows) {
+    if (row.chapter && row.chapter !== currentChapter) {
+      currentChapter = row.chapter;
+      lines.push(`## ${row.chapter} kap.`, '');
+    }
+    lines.push(`### ${provisionHeading(row)}`, '', row.content, '');
+  }
+
+  return { uri, mimeType: 'text/markdown', text: lines.join('\n').trimEnd() };
+}
+
+function readCase(db: Database, uri: string, documentId: string): ResourceContent {
+  const row = db.prepare(`
+    SELECT
+      cl.document_id,
+      ld.title,
+      cl.court,
+      cl.case_number,
+      cl.decision_date,
+      cl.summary,
+      cl.keywords,
+      ld.url
+    FROM case_law cl
+    LEFT JOIN legal_documents ld ON ld.id = cl.document_id
+    WHERE cl.document_id = ?
+  `).get(documentId) as CaseRow | undefined;
+
+  if (!row) {
+    return errorContent(uri, `Case "${documentId}" not found`);
+  }
+
+  const lines = [`# ${row.title ?? row.document_id}`, ''];
+  lines.push(`- Court: ${row.court}`);
+  if (row.case_number) lines.push(`- Case number: ${row.case_number}`);
+  if (row.decision_date) lines.push(`- Decided: ${row.decision_date}`);
+  if (row.keywords) lines.push(`- Keywords: ${row.keywords}`);
+  lines.push(`- Source: ${row.url ?? CASE_LAW_SOURCE.url} (${CASE_LAW_SOURCE.attribution})`, '');
+  if (row.summary) lines.push('## Summary', '', row.summary);
+
+  return { uri, mimeType: 'text/markdown', text: lines.join('\n').trimEnd() };
+}
+
+/** Percent-decoded URI segment, or null for a malformed escape ("%E0") */
+function decodeSegment(segment: string): string | null {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read a resource by URI. Unknown URIs, malformed URIs and missing documents
+ * yield a text/plain error content rather than throwing.
+ */
+export function readResource(db: Database, uri: string): ResourceContent {
+  if (uri === CASE_LAW_STATS_URI) {
+    return readCaseLawStats(db, uri);
+  }
+
+  const sfsMatch = uri.match(SFS_URI_PATTERN);
+  if (sfsMatch) {
+    const sfs = decodeSegment(sfsMatch[1]);
+    const provisionRef = sfsMatch[2] ? decodeSegment(sfsMatch[2]) : undefined;
+    if (sfs === null || provisionRef === null) {
+      return errorContent(uri, `Malformed resource URI "${uri}"`);
+    }
+    return readStatute(db, uri, sfs, provisionRef);
+  }
+
+  const caseMatch = uri.match(CASE_URI_PATTERN);
+  if (caseMatch) {
+    const caseId = decodeSegment(caseMatch[1]);
+    if (caseId === null) {
+      return errorContent(uri, `Malformed resource URI "${uri}"`);
+    }
+    return readCase(db, uri, caseId);
+  }
+
+  return errorContent(uri, `Unknown resource URI "${uri}"`);
+}
+
+export function registerResources(
+  server: Server,
+  db: Database,
+): void {
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return { resources: RESOURCES };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates: RESOURCE_TEMPLATES };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    return { contents: [readResource(db, request.params.uri)] };
+  });
+}
@@ -0,0 +1,357 @@
+/**
+ * analyze_amendment_impact — What else is affected when provisions change.
+ *
+ * Starts from the provisions an amending SFS changed (from the amendment
+ * register and the "Lag (YYYY:NNN)." markers parsed by amendment-parser.ts)
+ * or from a single provision, and collects what depends on them: provisions
+ * and case law that refer to them, definitions they contain and the EU acts
+ * linked to them. Results are grouped by the statute that needs review.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import {
+  extractProvisionChanges,
+  normalizeSfsNumber,
+  type AmendmentReference,
+  type RegisterChangeType,
+} from '../parsers/amendment-parser.js';
+import { resolveDocumentId, normalizeProvisionRef } from '../utils/statute-id.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { traverseReferences, type CrossReferenceType } from './get-cross-references.js';
+import { hasAmendmentRegister } from './get-amendment-history.js';
+
+export interface AnalyzeAmendmentImpactInput {
+  /** Amending SFS number, e.g. "2021:1174" */
+  amending_sfs?: string;
+  /** Statute of a single changed provision (instead of amending_sfs) */
+  document_id?: string;
+  provision_ref?: string;
+  /** Steps to follow references back from the changed provisions (default 1) */
+  depth?: number;
+}
+
+export type ImpactSeverity = 'high' | 'medium' | 'low';
+
+export interface ChangedProvision {
+  provision_ref: string;
+  title: string | null;
+  /** How the amending SFS changed it; null when analysing a single provision */
+  change_type: AmendmentReference['amendment_type'] | null;
+}
+
+export interface ReferencingProvision {
+  provision_ref: string | null;
+  title: string | null;
+  ref_type: CrossReferenceType;
+  /** The changed provision this reference leads to */
+  changed_document_id: string;
+  changed_provision_ref: string;
+  /** 1 for direct references, n for references reached in n steps */
+  depth: number;
+}
+
+export interface CitingCase {
+  document_id: string;
+  title: string | null;
+  court: string | null;
+  decision_date: string | null;
+  cited_provision_ref: string;
+  depth: number;
+}
+
+export interface AffectedDefinition {
+  term: string;
+  term_en: string | null;
+  source_provision: string;
+}
+
+export interface AffectedEUReference {
+  provision_ref: string;
+  eu_document_id: string;
+  eu_document_title: string | null;
+  eu_article: string | null;
+  reference_type: string;
+  is_primary_implementation: boolean;
+}
+
+export interface StatuteImpact {
+  document_id: string;
+  document_title: string | null;
+  severity: ImpactSeverity;
+  /** Why the severity was chosen */
+  severity_reasons: string[];
+  changed_provisions: ChangedProvision[];
+  referencing_provisions: ReferencingProvision[];
+  case_law: CitingCase[];
+  definitions: AffectedDefinition[];
+  eu_references: AffectedEUReference[];
+}
+
+export interface AnalyzeAmendmentImpactResult {
+  amending_sfs: string | null;
+  statutes: StatuteImpact[];
+  /** True when reference traversal stopped at the edge limit */
+  truncated: boolean;
+}
+
+const MAX_DEPTH = 3;
+
+/** Reference types that make a provision depend on another; amendment links do not. */
+const DEPENDENCY_REF_TYPES: CrossReferenceType[] = ['references', 'implements', 'see_also'];
+
+const SEVERITY_ORDER: Record<ImpactSeverity, number> = { high: 0, medium: 1, low: 2 };
+
+interface ChangedNode extends ChangedProvision {
+  document_id: string;
+}
+
+const REGISTER_AMENDMENT_TYPES: Record<RegisterChangeType, AmendmentReference['amendment_type']> = {
+  'ändr.': 'ändrad',
+  'ny': 'införd',
+  'upph.': 'upphävd',
+};
+
+/** Provisions the amendment register or amendment markers say `sfs` changed. */
+function provisionsChangedBy(db: Database, sfs: string): ChangedNode[] {
+  const changed: ChangedNode[] = [];
+  if (hasAmendmentRegister(db)) {
+    const registered = db.prepare(`
+      SELECT a.document_id, p.provision_ref, lp.title, p.change_type
+      FROM sfs_amendments a
+      JOIN sfs_amendment_provisions p ON p.amendment_id = a.id
+      LEFT JOIN legal_provisions lp ON lp.document_id = a.document_id AND lp.provision_ref = p.provision_ref
+      WHERE a.amending_sfs = ?
+      ORDER BY a.document_id, p.id
+    `).all(sfs) as { document_id: string; provision_ref: string; title: string | null; change_type: RegisterChangeType }[];
+    for (const row of registered) {
+      changed.push({ ...row, change_type: REGISTER_AMENDMENT_TYPES[row.change_type] });
+    }
+  }
+  const known = new Set(changed.map(node => `${node.document_id}::${node.provision_ref}`));
+
+  const rows = db.prepare(`
+    SELECT document_id, provision_ref, title, content
+    FROM legal_provisions
+    WHERE content LIKE ? AND document_id != ?
+    ORDER BY document_id, id
+  `).all(`%${sfs}%`, sfs) as { document_id: string; provision_ref: string; title: string | null; content: string }[];
+
+  for (const row of rows) {
+    if (known.has(`${row.document_id}::${row.provision_ref}`)) continue;
+    const change = extractProvisionChanges(row.content).find(ref => ref.amended_by_sfs === sfs);
+    if (!change) continue;
+    changed.push({
+      document_id: row.document_id,
+      provision_ref: row.provision_ref,
+      title: row.title,
+      change_type: change.amendment_type,
+    });
+  }
+  return changed;
+}
+
+export async function analyzeAmendmentImpact(
+  db: Database,
+  input: AnalyzeAmendmentImpactInput
+): Promise<ToolResponse<AnalyzeAmendmentImpactResult | null>> {
+  let amendingSfs: string | null = null;
+  let changed: ChangedNode[];
+
+  if (input.amending_sfs) {
+    amendingSfs = normalizeSfsNumber(input.amending_sfs);
+    if (!amendingSfs) {
+      throw new Error(`Invalid SFS number "${input.amending_sfs}". Use the format YYYY:NNN.`);
+    }
+    changed = provisionsChangedBy(db, amendingSfs);
+    if (changed.length === 0) {
+      return {
+        results: { amending_sfs: amendingSfs, statutes: [], truncated: false },
+        _meta: {
+          ...generateResponseMetadata(db),
+          note: `No provisions in the database are marked as changed by SFS ${amendingSfs}`,
+        },
+      };
+    }
+  } else if (input.document_id && input.provision_ref) {
+    const documentId = resolveDocumentId(db, input.document_id);
+    const provisionRef = normalizeProvisionRef(input.provision_ref);
+    const provision = documentId
+      ? db.prepare(
+        'SELECT title FROM legal_provisions WHERE document_id = ? AND provision_ref = ?'
+      ).get(documentId, provisionRef) as { title: string | null } | undefined
+      : undefined;
+    if (!documentId || !provision) {
+      return {
+        results: null,
+        _meta: {
+          ...generateResponseMetadata(db),
+          note: documentId
+            ? `Provision ${provisionRef} not found in ${documentId}`
+            : `No document found matching "${input.document_id}"`,
+        },
+      };
+    }
+    changed = [{ document_id: documentId, provision_ref: provisionRef, title: provision.title, change_type: null }];
+  } else {
+    throw new Error('Either amending_sfs or document_id and provision_ref are required');
+  }
+
+  const depth = Math.min(Math.max(Math.trunc(input.depth ?? 1), 1), MAX_DEPTH);
+  const groups = new Map<string, StatuteImpact>();
+  const groupFor = (documentId: string): StatuteImpact => {
+    let group = groups.get(documentId);
+    if (!group) {
+      group = {
+        document_id: documentId,
+        document_title: null,
+        severity: 'low',
+        severity_reasons: [],
+        changed_provisions: [],
+        referencing_provisions: [],
+        case_law: [],
+        definitions: [],
+        eu_references: [],
+      };
+      groups.set(documentId, group);
+    }
+    return group;
+  };
+
+  const changedKeys = new Set(changed.map(node => `${node.document_id}::${node.provision_ref}`));
+  const getDocumentType = db.prepare('SELECT type FROM legal_documents WHERE id = ?');
+  const getCase = db.prepare('SELECT court, decision_date FROM case_law WHERE document_id = ?');
+  const getDefinitions = db.prepare(`
+    SELECT term, term_en, source_provision
+    FROM definitions
+    WHERE document_id = ? AND source_provision = ?
+    ORDER BY term
+  `);
+  const getEUReferences = db.prepare(`
+    SELECT er.eu_document_id, ed.title as eu_document_title, er.eu_article,
+           er.reference_type, er.is_primary_implementation
+    FROM eu_references er
+    JOIN legal_provisions lp ON lp.id = er.provision_id
+    LEFT JOIN eu_documents ed ON ed.id = er.eu_document_id
+    WHERE lp.document_id = ? AND lp.provision_ref = ?
+    ORDER BY er.id
+  `);
+
+  let truncated = false;
+  for (const node of changed) {
+    const group = groupFor(node.document_id);
+    group.changed_provisions.push({ provision_ref: node.provision_ref, title: node.title, change_type: node.change_type });
+
+    for (const definition of getDefinitions.all(node.document_id, node.provision_ref) as AffectedDefinition[]) {
+      group.definitions.push(definition);
+    }
+
+    const euRows = getEUReferences.all(node.document_id, node.provision_ref) as (Omit<AffectedEUReference, 'provision_ref' | 'is_primary_implementation'> & { is_primary_implementation: number })[];
+    for (const row of euRows) {
+      group.eu_references.push({ ...row, provision_ref: node.provision_ref, is_primary_implementation: row.is_primary_implementation === 1 });
+    }
+
+    const incoming = traverseReferences(
+      db,
+      { document_id: node.document_id, provision_ref: node.provision_ref },
+      'incoming',
+      depth,
+      DEPENDENCY_REF_TYPES,
+    );
+    truncated ||= incoming.truncated;
+
+    for (const edge of incoming.edges) {
+      if (changedKeys.has(`${edge.source_document_id}::${edge.source_provision_ref}`)) continue;
+
+      const sourceType = (getDocumentType.get(edge.source_document_id) as { type: string } | undefined)?.type;
+      if (sourceType === 'case_law') {
+        if (group.case_law.some(c => c.document_id === edge.source_document_id && c.cited_provision_ref === node.provision_ref)) continue;
+        const details = getCase.get(edge.source_document_id) as { court: string; decision_date: string | null } | undefined;
+        group.case_law.push({
+          document_id: edge.source_document_id,
+          title: edge.source_document_title,
+          court: details?.court ?? null,
+          decision_date: details?.decision_date ?? null,
+          cited_provision_ref: node.provision_ref,
+          depth: edge.depth,
+        });
+        continue;
+      }
+
+      const referencing = groupFor(edge.source_document_id);
+      referencing.document_title ??= edge.source_document_title;
+      const duplicate = referencing.referencing_provisions.some(ref =>
+        ref.provision_ref === edge.source_provision_ref
+        && ref.changed_document_id === node.document_id
+        && ref.changed_provision_ref === node.provision_ref
+      );
+      if (duplicate) continue;
+      referencing.referencing_provisions.push({
+        provision_ref: edge.source_provision_ref,
+        title: edge.source_provision_title,
+        ref_type: edge.ref_type,
+        changed_document_id: node.document_id,
+        changed_provision_ref: node.provision_ref,
+        depth: edge.depth,
+      });
+    }
+  }
+
+  const getTitle = db.prepare('SELECT title FROM legal_documents WHERE id = ?');
+  for (const group of groups.values()) {
+    group.document_title ??= (getTitle.get(group.document_id) as { title: string } | undefined)?.title ?? null;
+    assessSeverity(group);
+  }
+
+  const statutes = [...groups.values()].sort((a, b) =>
+    SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]
+    || b.changed_provisions.length - a.changed_provisions.length
+    || a.document_id.localeCompare(b.document_id)
+  );
+
+  return {
+    results: { amending_sfs: amendingSfs, statutes, truncated },
+    _meta: generateResponseMetadata(db),
+  };
+}
+
+/**
+ * Severity hint: high when changed provisions carry definitions, EU links or
+ * are repealed; medium for other changes and direct references to them; low
+ * when a statute is only reached through other references.
+ */
+function assessSeverity(group: StatuteImpact): void {
+  const reasons: string[] = [];
+  if (group.changed_provisions.some(p => p.change_type === 'upphävd')) {
+    reasons.push('Provisions repealed');
+  }
+  if (group.definitions.length > 0) {
+    reasons.push(`Changed provisions define ${group.definitions.length} term(s)`);
+  }
+  if (group.eu_references.length > 0) {
+    reasons.push(`Changed provisions are linked to EU law (${[...new Set(group.eu_references.map(r => r.eu_document_id))].join(', ')})`);
+  }
+  if (reasons.length > 0) {
+    group.severity = 'high';
+    group.severity_reasons = reasons;
+    return;
+  }
+
+  const direct = group.referencing_provisions.filter(ref => ref.depth === 1).length;
+  if (group.changed_provisions.length > 0) {
+    reasons.push(`${group.changed_provisions.length} provision(s) changed`);
+  }
+  if (group.case_law.length > 0) {
+    reasons.push(`Cited in ${group.case_law.length} case(s)`);
+  }
+  if (direct > 0) {
+    reasons.push(`${direct} provision(s) refer directly to changed provisions`);
+  }
+  if (reasons.length > 0) {
+    group.severity = 'medium';
+    group.severity_reasons = reasons;
+    return;
+  }
+
+  group.severity = 'low';
+  group.severity_reasons = [`${group.referencing_provisions.length} provision(s) refer to changed provisions indirectly`];
+}
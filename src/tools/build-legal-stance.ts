@@ -9,7 +9,15 @@ import type { Database } from '@ansvar/mcp-sqlite';
 import { buildFtsQueryVariants } from '../utils/fts-query.js';
 import { normalizeAsOfDate } from '../utils/as-of-date.js';
 import { resolveDocumentId } from '../utils/statute-id.js';
-import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { expandQuery, type QueryExpansion } from '../utils/thesaurus.js';
+import {
+  hasVectorIndex,
+  semanticProvisionSearch,
+  NO_VECTOR_INDEX_NOTE,
+  type SearchMode,
+} from '../utils/vector-index.js';
+import { reciprocalRankFusion } from '../utils/rank-fusion.js';
+import { generateResponseMetadata, queryStrategyMetadata, type ToolResponse } from '../utils/metadata.js';
 
 export interface BuildLegalStanceInput {
   query: string;
@@ -18,6 +26,8 @@ export interface BuildLegalStanceInput {
   include_preparatory_works?: boolean;
   as_of_date?: string;
   limit?: number;
+  /** Ranking for statute provisions: lexical (default), semantic or hybrid */
+  mode?: SearchMode;
 }
 
 interface ProvisionHit {
@@ -59,13 +69,24 @@ const DEFAULT_LIMIT = 5;
 const MAX_LIMIT = 20;
 const MIN_FALLBACK_TOKEN_HITS = 2;
 
-function extractQueryTokens(query: string): string[] {
-  return (query.normalize('NFC').match(/[\p{L}\p{N}_]+/gu) ?? [])
+/**
+ * Query tokens for the fallback coverage check, each with the words it was
+ * expanded to: a hit that says "avskedande" covers the token "uppsägning".
+ */
+function extractQueryTokens(query: string, expansions: QueryExpansion[]): string[][] {
+  const tokens = (query.normalize('NFC').match(/[\p{L}\p{N}_]+/gu) ?? [])
     .map(token => token.toLowerCase())
     .filter(token => token.length > 1);
+
+  return tokens.map(token => {
+    const alternatives = expansions
+      .filter(expansion => expansion.term.toLowerCase().split(/\s+/).includes(token))
+      .flatMap(expansion => expansion.expanded_to.map(term => term.toLowerCase()));
+    return [token, ...alternatives];
+  });
 }
 
-function hasMinimumTokenCoverage(text: string, tokens: string[]): boolean {
+function hasMinimumTokenCoverage(text: string, tokens: string[][]): boolean {
   if (tokens.length <= 1) {
     return true;
   }
@@ -74,8 +95,8 @@ function hasMinimumTokenCoverage(text: string, tokens: string[]): boolean {
   const haystack = text.toLowerCase();
   let hits = 0;
 
-  for (const token of tokens) {
-    if (haystack.includes(token)) {
+  for (const alternatives of tokens) {
+    if (alternatives.some(token => haystack.includes(token))) {
       hits += 1;
       if (hits >= minHits) {
         return true;
@@ -100,11 +121,13 @@ export async function buildLegalStance(
   const limit = Math.min(Math.max(input.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
   // Fetch extra rows to account for deduplication
   const fetchLimit = limit * 2;
-  const queryVariants = buildFtsQueryVariants(input.query);
-  const queryTokens = extractQueryTokens(input.query);
+  const queryVariants = buildFtsQueryVariants(input.query, expandQuery(db, input.query));
+  const queryTokens = extractQueryTokens(input.query, queryVariants.expansions ?? []);
   const includeCaseLaw = input.include_case_law !== false;
   const includePrepWorks = input.include_preparatory_works !== false;
   const asOfDate = normalizeAsOfDate(input.as_of_date);
+  const requestedMode = input.mode ?? 'lexical';
+  const mode = requestedMode !== 'lexical' && !hasVectorIndex(db) ? 'lexical' : requestedMode;
   let usedFallback = false;
 
   // Resolve document_id from title if provided
@@ -196,10 +219,37 @@ export async function buildLegalStance(
     const bound = [ftsQuery, ...provParams];
     return db.prepare(provSql).all(...bound) as ProvisionHit[];
   };
-  let provisions = runProvisionQuery(queryVariants.primary);
-  if (provisions.length === 0 && queryVariants.fallback) {
-    provisions = runProvisionQuery(queryVariants.fallback);
-    if (provisions.length > 0) usedFallback = true;
+  const runLexicalProvisions = (): ProvisionHit[] => {
+    let hits = runProvisionQuery(queryVariants.primary);
+    if (hits.length === 0 && queryVariants.fallback) {
+      hits = runProvisionQuery(queryVariants.fallback);
+      if (hits.length > 0) usedFallback = true;
+    }
+    return hits;
+  };
+
+  let provisions: ProvisionHit[];
+  if (mode === 'lexical') {
+    provisions = runLexicalProvisions();
+  } else {
+    const semantic: ProvisionHit[] = semanticProvisionSearch(db, input.query, {
+      documentId: resolvedDocId,
+      asOfDate,
+      limit: fetchLimit,
+    }).map(row => ({
+      document_id: row.document_id,
+      document_title: row.document_title,
+      provision_ref: row.provision_ref,
+      title: row.title,
+      snippet: row.snippet,
+      relevance: row.relevance,
+    }));
+    provisions = mode === 'semantic'
+      ? semantic
+      : reciprocalRankFusion(
+        [runLexicalProvisions(), semantic],
+        hit => `${hit.document_id}::${hit.provision_ref}`,
+      ).map(({ item, score }) => ({ ...item, relevance: -score }));
   }
   provisions = deduplicateProvisions(provisions, limit);
 
@@ -282,7 +332,8 @@ export async function buildLegalStance(
     },
     _meta: {
       ...generateResponseMetadata(db),
-      ...(usedFallback ? { query_strategy: 'broadened' } : {}),
+      ...queryStrategyMetadata(usedFallback, queryVariants.expansions, mode),
+      ...(mode !== requestedMode ? { note: NO_VECTOR_INDEX_NOTE } : {}),
     },
   };
 }
@@ -5,6 +5,8 @@
 import type { Database } from '@ansvar/mcp-sqlite';
 import { extractRepealDateFromDescription, normalizeAsOfDate } from '../utils/as-of-date.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { normalizeProvisionRef } from '../utils/statute-id.js';
+import { oldWordingWarnings } from './get-transitional-provisions.js';
 
 export interface CheckCurrencyInput {
   document_id: string;
@@ -115,6 +117,12 @@ export async function checkCurrency(
     if (!provisionExists) {
       warnings.push(`Provision "${input.provision_ref}" not found in this document`);
     }
+
+    if (provisionExists) {
+      warnings.push(...oldWordingWarnings(
+        db, doc.id, normalizeProvisionRef(input.provision_ref), asOfDate ?? new Date().toISOString().slice(0, 10)
+      ));
+    }
   }
 
   // Get case law statistics if the sync metadata table exists
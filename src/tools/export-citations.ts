@@ -0,0 +1,83 @@
+/**
+ * export_citations — Bibliography records for a list of citations, in
+ * CSL-JSON, BibTeX (biblatex) or RIS, for import into a reference manager.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import {
+  loadBibliographyEntry,
+  toBibtex,
+  toCslJson,
+  toRis,
+  type BibliographyEntry,
+  type ExportFormat,
+} from '../citation/export.js';
+import { formatCitation } from '../citation/formatter.js';
+import { parseCitation } from '../citation/parser.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export interface ExportCitationsInput {
+  citations: string[];
+  /** csl-json (default), bibtex or ris */
+  format?: ExportFormat;
+}
+
+export interface NotExportedCitation {
+  citation: string;
+  reason: string;
+}
+
+export interface ExportCitationsResult {
+  format: ExportFormat;
+  /** File content: a CSL-JSON array, a .bib file or a .ris file */
+  output: string;
+  exported: number;
+  not_exported: NotExportedCitation[];
+}
+
+const FORMATS: ExportFormat[] = ['csl-json', 'bibtex', 'ris'];
+
+export async function exportCitations(
+  db: Database,
+  input: ExportCitationsInput
+): Promise<ToolResponse<ExportCitationsResult>> {
+  if (!Array.isArray(input.citations) || input.citations.length === 0) {
+    throw new Error('citations is required');
+  }
+  const format = input.format ?? 'csl-json';
+  if (!FORMATS.includes(format)) {
+    throw new Error(`format must be one of: ${FORMATS.join(', ')}`);
+  }
+
+  const entries: BibliographyEntry[] = [];
+  const notExported: NotExportedCitation[] = [];
+  for (const citation of input.citations) {
+    const parsed = parseCitation(citation);
+    if (!parsed.valid) {
+      notExported.push({ citation, reason: parsed.error ?? 'Invalid citation format' });
+      continue;
+    }
+    const entry = loadBibliographyEntry(db, parsed);
+    if (!entry) {
+      notExported.push({ citation, reason: `"${formatCitation(parsed)}" not found in the database` });
+    } else if (!entries.some(existing => existing.key === entry.key)) {
+      entries.push(entry);
+    }
+  }
+
+  const output = format === 'bibtex'
+    ? toBibtex(entries)
+    : format === 'ris'
+      ? toRis(entries)
+      : JSON.stringify(toCslJson(entries), null, 2);
+
+  return {
+    results: {
+      format,
+      output,
+      exported: entries.length,
+      not_exported: notExported,
+    },
+    _meta: generateResponseMetadata(db),
+  };
+}
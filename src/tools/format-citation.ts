@@ -1,15 +1,20 @@
 /**
- * format_citation — Format a Swedish legal citation per standard conventions.
+ * format_citation — Format a Swedish legal citation per standard conventions,
+ * or in a style profile (academic, government, English, OSCOLA).
  */
 
+import type { Database } from '@ansvar/mcp-sqlite';
 import { parseCitation } from '../citation/parser.js';
 import { formatCitation } from '../citation/formatter.js';
-import type { CitationFormat } from '../types/index.js';
+import { formatCitationInStyle, loadCitationStyleContext } from '../citation/styles.js';
+import type { CitationFormat, CitationStyle } from '../types/index.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
 
 export interface FormatCitationInput {
   citation: string;
   format?: CitationFormat;
+  /** Style profile; `format` applies to the standard style only */
+  style?: CitationStyle;
 }
 
 export interface FormatCitationResult {
@@ -17,18 +22,28 @@ export interface FormatCitationResult {
   formatted: string;
   type: string;
   valid: boolean;
+  style?: CitationStyle;
   error?: string;
 }
 
+const STYLES: CitationStyle[] = ['standard', 'academic', 'government', 'english', 'oscola'];
+
+/**
+ * Styles other than standard use document titles, read from `db` when given.
+ */
 export async function formatCitationTool(
-  input: FormatCitationInput
+  input: FormatCitationInput,
+  db?: Database
 ): Promise<ToolResponse<FormatCitationResult>> {
   if (!input.citation || input.citation.trim().length === 0) {
     return {
       results: { input: '', formatted: '', type: 'unknown', valid: false, error: 'Empty citation' },
-      _meta: generateResponseMetadata()
+      _meta: generateResponseMetadata(db)
     };
   }
+  if (input.style && !STYLES.includes(input.style)) {
+    throw new Error(`style must be one of: ${STYLES.join(', ')}`);
+  }
 
   const parsed = parseCitation(input.citation);
 
@@ -41,11 +56,14 @@ export async function formatCitationTool(
         valid: false,
         error: parsed.error,
       },
-      _meta: generateResponseMetadata()
+      _meta: generateResponseMetadata(db)
     };
   }
 
-  const formatted = formatCitation(parsed, input.format ?? 'full');
+  const style = input.style ?? 'standard';
+  const formatted = style === 'standard'
+    ? formatCitation(parsed, input.format ?? 'full')
+    : formatCitationInStyle(parsed, style, db ? loadCitationStyleContext(db, parsed) : {});
 
   return {
     results: {
@@ -53,7 +71,8 @@ export async function formatCitationTool(
       formatted,
       type: parsed.type,
       valid: true,
+      ...(input.style && { style }),
     },
-    _meta: generateResponseMetadata()
+    _meta: generateResponseMetadata(db)
   };
 }
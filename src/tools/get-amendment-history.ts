@@ -0,0 +1,134 @@
+/**
+ * get_amendment_history — The amendment chain of a statute or provision from
+ * the SFS amendment register (sfs_amendments).
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import type { RegisterChangeType } from '../parsers/amendment-parser.js';
+import { resolveDocumentId, normalizeProvisionRef } from '../utils/statute-id.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export interface GetAmendmentHistoryInput {
+  document_id: string;
+  /** Only amendments that changed this provision */
+  provision_ref?: string;
+}
+
+export interface AmendmentChange {
+  provision_ref: string;
+  change_type: RegisterChangeType;
+}
+
+export interface AmendmentHistoryEntry {
+  amending_sfs: string;
+  title: string | null;
+  published_date: string | null;
+  in_force_date: string | null;
+  /** Changed provisions; all of them, also when filtering by provision_ref */
+  changes: AmendmentChange[];
+  proposition: string | null;
+  committee_report: string | null;
+  riksdag_communication: string | null;
+  /** 'register' for register entries, 'provision_text' when derived from "Lag (YYYY:NNN)." markers */
+  source: 'register' | 'provision_text';
+}
+
+export interface AmendmentHistoryResult {
+  document_id: string;
+  document_title: string;
+  provision_ref: string | null;
+  amendments: AmendmentHistoryEntry[];
+}
+
+/** Whether the database has the amendment register (schema version 6+). */
+export function hasAmendmentRegister(db: Database): boolean {
+  const row = db.prepare(
+    "SELECT name FROM sqlite_master WHERE type='table' AND name='sfs_amendments'"
+  ).get();
+  return !!row;
+}
+
+/** Chronological order of SFS numbers: by year, then number. */
+export function compareSfsNumbers(a: string, b: string): number {
+  const [yearA, numberA] = a.split(':').map(Number);
+  const [yearB, numberB] = b.split(':').map(Number);
+  return (yearA - yearB) || (numberA - numberB) || a.localeCompare(b);
+}
+
+export async function getAmendmentHistory(
+  db: Database,
+  input: GetAmendmentHistoryInput
+): Promise<ToolResponse<AmendmentHistoryResult | null>> {
+  if (!input.document_id) {
+    throw new Error('document_id is required');
+  }
+
+  const documentId = resolveDocumentId(db, input.document_id);
+  if (!documentId) {
+    return {
+      results: null,
+      _meta: {
+        ...generateResponseMetadata(db),
+        note: `No document found matching "${input.document_id}"`,
+      },
+    };
+  }
+
+  const document = db.prepare('SELECT title FROM legal_documents WHERE id = ?').get(documentId) as { title: string };
+  const provisionRef = input.provision_ref ? normalizeProvisionRef(input.provision_ref) : null;
+  const result: AmendmentHistoryResult = {
+    document_id: documentId,
+    document_title: document.title,
+    provision_ref: provisionRef,
+    amendments: [],
+  };
+
+  if (!hasAmendmentRegister(db)) {
+    return {
+      results: result,
+      _meta: {
+        ...generateResponseMetadata(db),
+        note: 'This database has no amendment register. Rebuild it with the current build script.',
+      },
+    };
+  }
+
+  let sql = `
+    SELECT id, amending_sfs, title, published_date, in_force_date,
+           proposition, committee_report, riksdag_communication, source
+    FROM sfs_amendments a
+    WHERE document_id = ?
+  `;
+  const params: string[] = [documentId];
+  if (provisionRef) {
+    sql += ' AND EXISTS (SELECT 1 FROM sfs_amendment_provisions p WHERE p.amendment_id = a.id AND p.provision_ref = ?)';
+    params.push(provisionRef);
+  }
+
+  const rows = db.prepare(sql).all(...params) as (Omit<AmendmentHistoryEntry, 'changes'> & { id: number })[];
+  const getChanges = db.prepare(`
+    SELECT provision_ref, change_type
+    FROM sfs_amendment_provisions
+    WHERE amendment_id = ?
+    ORDER BY id
+  `);
+
+  result.amendments = rows
+    .sort((a, b) => compareSfsNumbers(a.amending_sfs, b.amending_sfs))
+    .map(({ id, ...row }) => ({
+      amending_sfs: row.amending_sfs,
+      title: row.title,
+      published_date: row.published_date,
+      in_force_date: row.in_force_date,
+      changes: getChanges.all(id) as AmendmentChange[],
+      proposition: row.proposition,
+      committee_report: row.committee_report,
+      riksdag_communication: row.riksdag_communication,
+      source: row.source,
+    }));
+
+  return {
+    results: result,
+    _meta: generateResponseMetadata(db),
+  };
+}
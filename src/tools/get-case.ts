@@ -0,0 +1,156 @@
+/**
+ * get_case — Retrieve a court decision, with the full judgment split into
+ * headnotes, ruling, reasoning and dissenting opinions where the database
+ * holds the full text (case_law_full, professional tier).
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import { parseCitation } from '../citation/parser.js';
+import { caseLawIdCandidates, findDocument } from '../citation/validator.js';
+import { splitJudgment, type DissentingOpinion } from '../parsers/judgment-parser.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export interface GetCaseInput {
+  /** "NJA 2020 s. 45", "HFD 2019 ref. 12", the stored id, or the case number ("T 1234-19") */
+  case_id: string;
+  /** Include the unsplit text of the judgment (default false) */
+  include_full_text?: boolean;
+}
+
+export interface CaseResult {
+  document_id: string;
+  title: string;
+  court: string;
+  case_number: string | null;
+  decision_date: string | null;
+  summary: string | null;
+  keywords: string | null;
+  url: string | null;
+  full_text_available: boolean;
+  headnotes?: string | null;
+  ruling?: string | null;
+  reasoning?: string | null;
+  dissents?: DissentingOpinion[];
+  full_text?: string;
+  _meta: {
+    source: string;
+    attribution: string;
+  };
+}
+
+interface CaseRow {
+  id: number;
+  document_id: string;
+  title: string;
+  court: string;
+  case_number: string | null;
+  decision_date: string | null;
+  summary: string | null;
+  keywords: string | null;
+  url: string | null;
+}
+
+const CASE_COLUMNS = `
+  cl.id, cl.document_id, COALESCE(ld.title, cl.case_number, cl.document_id) as title,
+  cl.court, cl.case_number, cl.decision_date, cl.summary, cl.keywords, ld.url
+`;
+
+/** True when the database has full judgments (the professional-tier case_law_full table). */
+export function hasFullCaseLaw(db: Database): boolean {
+  const row = db.prepare(
+    "SELECT name FROM sqlite_master WHERE type='table' AND name='case_law_full'"
+  ).get();
+  return !!row;
+}
+
+/** Find a case by stored id, case number or citation. */
+function findCase(db: Database, caseId: string): CaseRow | undefined {
+  const byId = db.prepare(`
+    SELECT ${CASE_COLUMNS}
+    FROM case_law cl
+    LEFT JOIN legal_documents ld ON ld.id = cl.document_id
+    WHERE cl.document_id = ?
+  `);
+  const direct = (byId.get(caseId) ?? db.prepare(`
+    SELECT ${CASE_COLUMNS}
+    FROM case_law cl
+    LEFT JOIN legal_documents ld ON ld.id = cl.document_id
+    WHERE cl.case_number = ? COLLATE NOCASE
+    LIMIT 1
+  `).get(caseId)) as CaseRow | undefined;
+  if (direct) return direct;
+
+  const parsed = parseCitation(caseId);
+  if (!parsed.valid || parsed.type !== 'case_law') return undefined;
+  const ids = [findDocument(db, parsed)?.id, ...caseLawIdCandidates(parsed)];
+  for (const id of ids) {
+    const row = id ? byId.get(id) as CaseRow | undefined : undefined;
+    if (row) return row;
+  }
+  return undefined;
+}
+
+export async function getCase(
+  db: Database,
+  input: GetCaseInput
+): Promise<ToolResponse<CaseResult | null>> {
+  if (!input.case_id || input.case_id.trim().length === 0) {
+    throw new Error('case_id is required');
+  }
+
+  const row = findCase(db, input.case_id.trim());
+  if (!row) {
+    return {
+      results: null,
+      _meta: {
+        ...generateResponseMetadata(db),
+        note: `No case found matching "${input.case_id}"`,
+      },
+    };
+  }
+
+  const { id, ...metadata } = row;
+  const result: CaseResult = {
+    ...metadata,
+    full_text_available: false,
+    _meta: {
+      source: 'lagen.nu',
+      attribution: 'Data from lagen.nu, licensed CC-BY Domstolsverket',
+    },
+  };
+
+  const full = hasFullCaseLaw(db)
+    ? db.prepare(
+      'SELECT full_text, headnotes, dissenting_opinions FROM case_law_full WHERE case_law_id = ?'
+    ).get(id) as { full_text: string; headnotes: string | null; dissenting_opinions: string | null } | undefined
+    : undefined;
+  if (!full) {
+    return {
+      results: result,
+      _meta: {
+        ...generateResponseMetadata(db),
+        note: hasFullCaseLaw(db)
+          ? `The full text of ${row.title} is not in the database; summary only`
+          : 'This database has no full-text judgments; summary only',
+      },
+    };
+  }
+
+  const sections = splitJudgment(full.full_text, full);
+  const missing = (['ruling', 'reasoning'] as const).filter(part => !sections[part]);
+
+  return {
+    results: {
+      ...result,
+      full_text_available: true,
+      ...sections,
+      ...(input.include_full_text === true && { full_text: full.full_text }),
+    },
+    _meta: {
+      ...generateResponseMetadata(db),
+      ...(missing.length > 0 && {
+        note: `No ${missing.join(' or ')} section found in the judgment text`,
+      }),
+    },
+  };
+}
@@ -0,0 +1,190 @@
+/**
+ * get_cross_references — Outgoing and incoming references of a statute or
+ * provision, optionally followed N steps through the reference graph.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import { resolveDocumentId, normalizeProvisionRef } from '../utils/statute-id.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export type CrossReferenceType = 'references' | 'amended_by' | 'implements' | 'see_also';
+
+export type CrossReferenceDirection = 'outgoing' | 'incoming' | 'both';
+
+export interface GetCrossReferencesInput {
+  document_id: string;
+  provision_ref?: string;
+  direction?: CrossReferenceDirection;
+  ref_types?: CrossReferenceType[];
+  /** Steps to follow through the graph (default 1) */
+  depth?: number;
+}
+
+export interface CrossReferenceEdge {
+  source_document_id: string;
+  source_document_title: string | null;
+  source_provision_ref: string | null;
+  source_provision_title: string | null;
+  target_document_id: string;
+  target_document_title: string | null;
+  target_provision_ref: string | null;
+  target_provision_title: string | null;
+  ref_type: CrossReferenceType;
+  /** 1 for direct references, n for references reached in n steps */
+  depth: number;
+}
+
+export interface GetCrossReferencesResult {
+  document_id: string;
+  document_title: string;
+  provision_ref: string | null;
+  outgoing: CrossReferenceEdge[];
+  incoming: CrossReferenceEdge[];
+  /** True when traversal stopped at the edge limit */
+  truncated: boolean;
+}
+
+const MAX_DEPTH = 5;
+const MAX_EDGES = 500;
+
+/** A statute (provision_ref null) or a provision in the reference graph. */
+export interface GraphNode {
+  document_id: string;
+  provision_ref: string | null;
+}
+
+const EDGE_COLUMNS = `
+  cr.source_document_id,
+  sd.title as source_document_title,
+  cr.source_provision_ref,
+  sp.title as source_provision_title,
+  cr.target_document_id,
+  td.title as target_document_title,
+  cr.target_provision_ref,
+  tp.title as target_provision_title,
+  cr.ref_type
+`;
+
+const EDGE_JOINS = `
+  LEFT JOIN legal_documents sd ON sd.id = cr.source_document_id
+  LEFT JOIN legal_provisions sp ON sp.document_id = cr.source_document_id AND sp.provision_ref = cr.source_provision_ref
+  LEFT JOIN legal_documents td ON td.id = cr.target_document_id
+  LEFT JOIN legal_provisions tp ON tp.document_id = cr.target_document_id AND tp.provision_ref = cr.target_provision_ref
+`;
+
+/**
+ * Direct references from (`outgoing`) or to (`incoming`) a node. A statute
+ * node matches all its provisions; a provision node only itself.
+ */
+export function directReferences(
+  db: Database,
+  node: GraphNode,
+  direction: Exclude<CrossReferenceDirection, 'both'>,
+  refTypes?: CrossReferenceType[],
+): Omit<CrossReferenceEdge, 'depth'>[] {
+  const side = direction === 'outgoing' ? 'source' : 'target';
+  let sql = `
+    SELECT ${EDGE_COLUMNS}
+    FROM cross_references cr
+    ${EDGE_JOINS}
+    WHERE cr.${side}_document_id = ?
+  `;
+  const params: string[] = [node.document_id];
+
+  if (node.provision_ref) {
+    sql += ` AND cr.${side}_provision_ref = ?`;
+    params.push(node.provision_ref);
+  }
+
+  if (refTypes && refTypes.length > 0) {
+    sql += ` AND cr.ref_type IN (${refTypes.map(() => '?').join(', ')})`;
+    params.push(...refTypes);
+  }
+
+  sql += ' ORDER BY cr.id';
+  return db.prepare(sql).all(...params) as Omit<CrossReferenceEdge, 'depth'>[];
+}
+
+const nodeKey = (node: GraphNode) => `${node.document_id}::${node.provision_ref ?? ''}`;
+
+/** Breadth-first traversal in one direction, up to `depth` steps and `maxEdges` edges. */
+export function traverseReferences(
+  db: Database,
+  start: GraphNode,
+  direction: Exclude<CrossReferenceDirection, 'both'>,
+  depth: number,
+  refTypes?: CrossReferenceType[],
+  maxEdges: number = MAX_EDGES,
+): { edges: CrossReferenceEdge[]; truncated: boolean } {
+  const edges: CrossReferenceEdge[] = [];
+  const visited = new Set([nodeKey(start)]);
+  let frontier: GraphNode[] = [start];
+
+  for (let level = 1; level <= depth && frontier.length > 0; level++) {
+    const next: GraphNode[] = [];
+    for (const node of frontier) {
+      for (const edge of directReferences(db, node, direction, refTypes)) {
+        if (edges.length >= maxEdges) {
+          return { edges, truncated: true };
+        }
+        edges.push({ ...edge, depth: level });
+
+        const reached: GraphNode = direction === 'outgoing'
+          ? { document_id: edge.target_document_id, provision_ref: edge.target_provision_ref }
+          : { document_id: edge.source_document_id, provision_ref: edge.source_provision_ref };
+        if (!visited.has(nodeKey(reached))) {
+          visited.add(nodeKey(reached));
+          next.push(reached);
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  return { edges, truncated: false };
+}
+
+export async function getCrossReferences(
+  db: Database,
+  input: GetCrossReferencesInput
+): Promise<ToolResponse<GetCrossReferencesResult | null>> {
+  if (!input.document_id) {
+    throw new Error('document_id is required');
+  }
+
+  const documentId = resolveDocumentId(db, input.document_id);
+  if (!documentId) {
+    return {
+      results: null,
+      _meta: {
+        ...generateResponseMetadata(db),
+        note: `No document found matching "${input.document_id}"`,
+      },
+    };
+  }
+
+  const document = db.prepare('SELECT title FROM legal_documents WHERE id = ?').get(documentId) as { title: string };
+  const provisionRef = input.provision_ref ? normalizeProvisionRef(input.provision_ref) : null;
+  const direction = input.direction ?? 'both';
+  const depth = Math.min(Math.max(Math.trunc(input.depth ?? 1), 1), MAX_DEPTH);
+  const start: GraphNode = { document_id: documentId, provision_ref: provisionRef };
+
+  const outgoing = direction === 'incoming'
+    ? { edges: [], truncated: false }
+    : traverseReferences(db, start, 'outgoing', depth, input.ref_types);
+  const incoming = direction === 'outgoing'
+    ? { edges: [], truncated: false }
+    : traverseReferences(db, start, 'incoming', depth, input.ref_types);
+
+  return {
+    results: {
+      document_id: documentId,
+      document_title: document.title,
+      provision_ref: provisionRef,
+      outgoing: outgoing.edges,
+      incoming: incoming.edges,
+      truncated: outgoing.truncated || incoming.truncated,
+    },
+    _meta: generateResponseMetadata(db),
+  };
+}
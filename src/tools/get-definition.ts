@@ -0,0 +1,65 @@
+/**
+ * get_definition — Look up the statutory definition of a legal term.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import {
+  definitionConflicts,
+  findDefinitions,
+  type DefinitionConflict,
+  type DefinitionEntry,
+} from '../utils/definitions.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export interface GetDefinitionInput {
+  term: string;
+  /** Statute the question concerns; its own definition ranks first */
+  document_id?: string;
+}
+
+export interface GetDefinitionResult {
+  term: string;
+  /** The governing definition: the best-ranked one */
+  definition: DefinitionEntry | null;
+  /** Every definition of the term, ranked by statute scope */
+  definitions: DefinitionEntry[];
+  /** Statutes that define the term differently from the governing definition */
+  conflicts: DefinitionConflict[];
+}
+
+export async function getDefinition(
+  db: Database,
+  input: GetDefinitionInput
+): Promise<ToolResponse<GetDefinitionResult>> {
+  if (!input.term || input.term.trim().length === 0) {
+    throw new Error('term is required');
+  }
+
+  let contextId: string | undefined;
+  if (input.document_id) {
+    const resolved = resolveDocumentId(db, input.document_id);
+    if (!resolved) {
+      return {
+        results: { term: input.term, definition: null, definitions: [], conflicts: [] },
+        _meta: {
+          ...generateResponseMetadata(db),
+          note: `No document found matching "${input.document_id}"`,
+        },
+      };
+    }
+    contextId = resolved;
+  }
+
+  const definitions = findDefinitions(db, input.term, contextId);
+
+  return {
+    results: {
+      term: input.term,
+      definition: definitions[0] ?? null,
+      definitions,
+      conflicts: definitionConflicts(definitions),
+    },
+    _meta: generateResponseMetadata(db),
+  };
+}
@@ -8,6 +8,9 @@
  */
 
 import type { Database } from '@ansvar/mcp-sqlite';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { hasAmendmentRegister } from './get-amendment-history.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
 
 export interface GetProvisionAtDateParams {
   /** SFS number of statute, e.g., "2018:218" */
@@ -66,16 +69,87 @@ export interface AmendmentRecord {
   change_summary?: string;
 }
 
+export interface GetStatuteAtDateParams {
+  /** SFS number of statute, e.g., "2018:218" */
+  sfs: string;
+
+  /** ISO date (YYYY-MM-DD) to query, e.g., "2020-06-15" */
+  date: string;
+
+  /** Skip this many provisions (default 0) */
+  offset?: number;
+
+  /** Page size (default and max 100) */
+  limit?: number;
+
+  /** Stop a page before its text exceeds roughly this many tokens */
+  max_tokens?: number;
+}
+
+export interface StatuteSnapshot {
+  /** SFS number of statute */
+  sfs: string;
+
+  /** Statute title (null if the statute is not in the database) */
+  title: string | null;
+
+  /** ISO date the snapshot was taken at */
+  date: string;
+
+  /** One page of provisions as they read on the date, in statute order */
+  provisions: ProvisionVersion[];
+
+  /** Number of provisions in force on the date, across all pages */
+  total_provisions: number;
+
+  /** Provisions enacted but not yet in force on the date */
+  not_yet_in_force: string[];
+}
+
+/**
+ * Tool input: provision_ref is optional. Without it, the tool returns a
+ * full statute snapshot instead of a single provision.
+ */
+export type GetProvisionAtDateToolInput =
+  Omit<GetProvisionAtDateParams, 'provision_ref'> &
+  Pick<GetStatuteAtDateParams, 'offset' | 'limit' | 'max_tokens'> &
+  { provision_ref?: string };
+
+const MAX_PAGE_SIZE = 100;
+
+function estimateTokens(provision: ProvisionVersion): number {
+  return Math.ceil((provision.content.length + (provision.title?.length ?? 0)) / 4);
+}
+
+function assertIsoDate(date: string): void {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    throw new InvalidDateError(date);
+  }
+}
+
+/** Register amendments of a provision that took effect in (after, until]. */
+const AMENDMENTS_QUERY = `
+  SELECT
+    a.amending_sfs as amended_by_sfs,
+    a.in_force_date as amendment_date,
+    p.change_type as amendment_type,
+    a.title as change_summary
+  FROM sfs_amendments a
+  JOIN sfs_amendment_provisions p ON p.amendment_id = a.id
+  WHERE a.document_id = ?
+    AND p.provision_ref = ?
+    AND a.in_force_date > ?
+    AND a.in_force_date <= ?
+  ORDER BY a.in_force_date
+`;
+
 export function getProvisionAtDate(
   db: Database,
   params: GetProvisionAtDateParams
 ): ProvisionVersion {
   const { sfs, provision_ref, date, include_amendments = false } = params;
 
-  // Validate date format
-  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
-    throw new Error(`Invalid date format: ${date}. Expected YYYY-MM-DD.`);
-  }
+  assertIsoDate(date);
 
   // Query for provision version valid at the specified date
   const query = `
@@ -161,25 +235,16 @@ export function getProvisionAtDate(
     status,
   };
 
-  // Include amendment history if requested
-  if (include_amendments) {
-    const amendmentsQuery = `
-      SELECT
-        amended_by_sfs,
-        amendment_date,
-        amendment_type,
-        change_summary
-      FROM statute_amendments
-      WHERE target_document_id = ?
-        AND target_provision_ref = ?
-        AND amendment_date > ?
-      ORDER BY amendment_date
-    `;
-
-    const amendments = db.prepare(amendmentsQuery).all(
+  // Include amendment history if requested (empty when the database has
+  // no amendment register)
+  if (include_amendments && !hasAmendmentRegister(db)) {
+    result.amendments = [];
+  } else if (include_amendments) {
+    const amendments = db.prepare(AMENDMENTS_QUERY).all(
       sfs,
       provision_ref,
-      row.valid_from ?? '1900-01-01'
+      row.valid_from ?? '1900-01-01',
+      '9999-12-31'
     ) as AmendmentRecord[];
 
     result.amendments = amendments;
@@ -188,7 +253,155 @@ export function getProvisionAtDate(
   return result;
 }
 
-export const toolDefinition = {
+/**
+ * Get the provisions of a statute as they read on a specific date.
+ *
+ * Picks the version valid on the date for each provision_ref in
+ * legal_provision_versions, one page at a time. Provisions whose first
+ * version starts after the date are listed in not_yet_in_force rather
+ * than returned.
+ */
+export function getStatuteAtDate(
+  db: Database,
+  params: GetStatuteAtDateParams
+): StatuteSnapshot {
+  const { sfs, date } = params;
+
+  assertIsoDate(date);
+
+  const offset = Math.max(0, Math.floor(params.offset ?? 0));
+  const limit = Math.min(Math.max(1, Math.floor(params.limit ?? MAX_PAGE_SIZE)), MAX_PAGE_SIZE);
+
+  const doc = db.prepare(
+    'SELECT title FROM legal_documents WHERE id = ?'
+  ).get(sfs) as { title: string } | undefined;
+
+  const rankedVersions = `
+    WITH ranked_versions AS (
+      SELECT
+        id,
+        provision_ref,
+        chapter,
+        section,
+        title,
+        content,
+        valid_from,
+        valid_to,
+        row_number() OVER (
+          PARTITION BY provision_ref
+          ORDER BY COALESCE(valid_from, '0000-01-01') DESC, id DESC
+        ) as version_rank
+      FROM legal_provision_versions
+      WHERE document_id = ?
+        AND (valid_from IS NULL OR valid_from <= ?)
+        AND (valid_to IS NULL OR valid_to > ?)
+    )
+  `;
+
+  const { total } = db.prepare(`
+    ${rankedVersions}
+    SELECT COUNT(*) as total FROM ranked_versions WHERE version_rank = 1
+  `).get(sfs, date, date) as { total: number };
+
+  const rows = db.prepare(`
+    ${rankedVersions}
+    SELECT provision_ref, chapter, section, title, content, valid_from, valid_to
+    FROM ranked_versions
+    WHERE version_rank = 1
+    ORDER BY CAST(chapter AS INTEGER), CAST(section AS INTEGER), section, id
+    LIMIT ? OFFSET ?
+  `).all(sfs, date, date, limit, offset) as Array<{
+    provision_ref: string;
+    chapter: string | null;
+    section: string;
+    title: string | null;
+    content: string;
+    valid_from: string | null;
+    valid_to: string | null;
+  }>;
+
+  const future = db.prepare(`
+    SELECT provision_ref
+    FROM legal_provision_versions
+    WHERE document_id = ?
+    GROUP BY provision_ref
+    HAVING MIN(valid_from) > ?
+    ORDER BY MIN(valid_from), provision_ref
+  `).all(sfs, date) as Array<{ provision_ref: string }>;
+
+  const provisions: ProvisionVersion[] = [];
+  let tokens = 0;
+  for (const row of rows) {
+    const provision: ProvisionVersion = {
+      provision_ref: row.provision_ref,
+      chapter: row.chapter ?? undefined,
+      section: row.section,
+      title: row.title ?? undefined,
+      content: row.content,
+      valid_from: row.valid_from,
+      valid_to: row.valid_to,
+      status: row.valid_to === null ? 'current' : 'historical',
+    };
+    const cost = estimateTokens(provision);
+    // Always return at least one provision, however long
+    if (params.max_tokens && provisions.length > 0 && tokens + cost > params.max_tokens) break;
+    provisions.push(provision);
+    tokens += cost;
+  }
+
+  return {
+    sfs,
+    title: doc?.title ?? null,
+    date,
+    provisions,
+    total_provisions: total,
+    not_yet_in_force: future.map(f => f.provision_ref),
+  };
+}
+
+/**
+ * Tool entry point: single provision when provision_ref is given,
+ * otherwise one page of a statute snapshot.
+ */
+export async function getProvisionAtDateTool(
+  db: Database,
+  input: GetProvisionAtDateToolInput
+): Promise<ToolResponse<ProvisionVersion | StatuteSnapshot>> {
+  if (input.provision_ref) {
+    return {
+      results: getProvisionAtDate(db, { ...input, provision_ref: input.provision_ref }),
+      _meta: generateResponseMetadata(db),
+    };
+  }
+
+  const snapshot = getStatuteAtDate(db, {
+    sfs: input.sfs,
+    date: input.date,
+    offset: input.offset,
+    limit: input.limit,
+    max_tokens: input.max_tokens,
+  });
+  const offset = Math.max(0, Math.floor(input.offset ?? 0));
+  const next = offset + snapshot.provisions.length;
+  const truncated = next < snapshot.total_provisions;
+  return {
+    results: snapshot,
+    ...(truncated && {
+      _truncated: true,
+      _hint: `Returned provisions ${offset + 1}–${next} of ${snapshot.total_provisions}. Pass offset ${next} for the next page, or use provision_ref to retrieve a specific provision.`,
+    }),
+    _pagination: {
+      offset,
+      returned: snapshot.provisions.length,
+      total: snapshot.total_provisions,
+      next_offset: truncated ? next : null,
+      estimated_tokens: snapshot.provisions.reduce((sum, p) => sum + estimateTokens(p), 0),
+    },
+    _meta: generateResponseMetadata(db),
+  };
+}
+
+export const toolDefinition: Tool = {
   name: 'get_provision_at_date',
   description: `
 Retrieve Swedish statute provision text as it read on a specific date (time-travel query).
@@ -205,6 +418,9 @@ Supports:
 - Historical versions (any date in the past)
 - Current version (today's date)
 - Future provisions (enacted but not yet in force)
+- Full statute snapshots: omit provision_ref to get every provision of the
+  statute as it read on the date (e.g., "the whole of LAS on the day of dismissal"),
+  100 provisions per page; follow _pagination.next_offset for the rest
 
 Returns the complete provision text, validity dates, and optionally the
 amendment history showing what changed after the queried date.
@@ -220,7 +436,7 @@ amendment history showing what changed after the queried date.
       },
       provision_ref: {
         type: 'string',
-        description: 'Provision reference (e.g., "1:3" or "5")',
+        description: 'Provision reference (e.g., "1:3" or "5"). Omit to return the whole statute as of the date.',
       },
       date: {
         type: 'string',
@@ -232,8 +448,26 @@ amendment history showing what changed after the queried date.
         description: 'Include amendment history after this date (default: false)',
         default: false,
       },
+      offset: {
+        type: 'number',
+        description: 'Without provision_ref: skip this many provisions. Use _pagination.next_offset for the next page.',
+        default: 0,
+        minimum: 0,
+      },
+      limit: {
+        type: 'number',
+        description: 'Without provision_ref: page size.',
+        default: 100,
+        minimum: 1,
+        maximum: 100,
+      },
+      max_tokens: {
+        type: 'number',
+        description: 'Without provision_ref: end the page before its text exceeds about this many tokens (at least one provision is returned).',
+        minimum: 1,
+      },
     },
-    required: ['sfs', 'provision_ref', 'date'],
+    required: ['sfs', 'date'],
   },
 };
 
@@ -315,26 +549,9 @@ export function diffProvisionDates(
   const changed = version1.content !== version2.content;
 
   // Get amendments between the two dates
-  const amendmentsQuery = `
-    SELECT
-      amended_by_sfs,
-      amendment_date,
-      amendment_type,
-      change_summary
-    FROM statute_amendments
-    WHERE target_document_id = ?
-      AND target_provision_ref = ?
-      AND amendment_date > ?
-      AND amendment_date <= ?
-    ORDER BY amendment_date
-  `;
-
-  const amendments_between = db.prepare(amendmentsQuery).all(
-    sfs,
-    provision_ref,
-    date1,
-    date2
-  ) as AmendmentRecord[];
+  const amendments_between = hasAmendmentRegister(db)
+    ? db.prepare(AMENDMENTS_QUERY).all(sfs, provision_ref, date1, date2) as AmendmentRecord[]
+    : [];
 
   return {
     version1,
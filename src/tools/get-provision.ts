@@ -1,19 +1,47 @@
 /**
- * get_provision — Retrieve a specific provision from a Swedish statute.
+ * get_provision — Retrieve a specific provision from a Swedish statute, or a
+ * chapter or range of provisions, paged.
  */
 
 import type { Database } from '@ansvar/mcp-sqlite';
 import { normalizeAsOfDate } from '../utils/as-of-date.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
 import { buildProvisionCitation } from '../utils/citation.js';
-import { resolveDocumentId, normalizeProvisionRef } from '../utils/statute-id.js';
+import {
+  resolveDocumentId,
+  normalizeProvisionRef,
+  parseProvisionRange,
+  type ProvisionRange,
+} from '../utils/statute-id.js';
+import { createTermAnnotator, referencedStatutes, type DefinedTermSpan } from '../utils/definitions.js';
+import {
+  extractSubdivision,
+  hasStyckeBreaks,
+  splitProvisionSubdivision,
+  subdivisionLabel,
+  type ProvisionSubdivision,
+} from '../parsers/provision-structure-parser.js';
 
 export interface GetProvisionInput {
   document_id: string;
   chapter?: string;
   section?: string;
   provision_ref?: string;
+  /** Return only this stycke (1 = första stycket); only in text stored with stycke breaks */
+  stycke?: number;
+  /** Return only this punkt; without stycke, the first stycke with such a point */
+  punkt?: number;
   as_of_date?: string;
+  /** Mark uses of defined terms in the content with links to their definitions */
+  annotate_terms?: boolean;
+  /** Skip this many provisions of a chapter, range or whole statute */
+  offset?: number;
+  /** Page size for a chapter, range or whole statute (default and max 100) */
+  limit?: number;
+  /** Stop a page before its text exceeds roughly this many tokens */
+  max_tokens?: number;
+  /** Also return this many sections before and after a single provision */
+  neighbours?: number;
 }
 
 export interface ProvisionResult {
@@ -29,6 +57,25 @@ export interface ProvisionResult {
   cross_references: CrossRefResult[];
   valid_from?: string | null;
   valid_to?: string | null;
+  /** Spans of defined terms in `content`, when annotate_terms is set */
+  defined_terms?: DefinedTermSpan[];
+  /** The stycke or punkt returned in `content`, when one was requested */
+  subdivision?: ProvisionSubdivisionResult;
+  /** Surrounding sections in document order, when neighbours is set */
+  neighbours?: {
+    before: NeighbourProvision[];
+    after: NeighbourProvision[];
+  };
+}
+
+export type NeighbourProvision = Pick<ProvisionResult, 'provision_ref' | 'chapter' | 'section' | 'title' | 'content'>;
+
+export interface ProvisionSubdivisionResult {
+  /** Absent for a punkt in text stored without stycke breaks */
+  stycke?: number;
+  punkt?: number;
+  /** e.g. "första stycket 2", or "2 p." without stycke breaks */
+  label: string;
 }
 
 interface CrossRefResult {
@@ -53,6 +100,159 @@ interface ProvisionRow {
   valid_to: string | null;
 }
 
+const MAX_PAGE_SIZE = 100;
+const MAX_NEIGHBOURS = 10;
+
+/** Sort key of a provision reference: chapter number and letter, section number and letter */
+function provisionOrder(ref: string): [number, string, number, string] {
+  const [chapter, section] = ref.includes(':') ? ref.split(':') : ['0', ref];
+  const letter = (part: string) => part.replace(/[\d\s]/g, '');
+  return [parseInt(chapter, 10), letter(chapter), parseInt(section, 10), letter(section)];
+}
+
+function compareProvisionRefs(a: string, b: string): number {
+  const [x, y] = [provisionOrder(a), provisionOrder(b)];
+  return x[0] - y[0] || x[1].localeCompare(y[1]) || x[2] - y[2] || x[3].localeCompare(y[3]);
+}
+
+/** provisionOrder in SQL, over the chapter and section columns of `p` */
+const ORDER_KEY = [
+  'COALESCE(CAST(p.chapter AS INTEGER), 0)',
+  "COALESCE(trim(substr(p.chapter, length(CAST(CAST(p.chapter AS INTEGER) AS TEXT)) + 1)), '')",
+  'CAST(p.section AS INTEGER)',
+  'trim(substr(p.section, length(CAST(CAST(p.section AS INTEGER) AS TEXT)) + 1))',
+];
+const ORDER_KEY_TUPLE = `(${ORDER_KEY.join(', ')})`;
+
+/** A WHERE condition on `p` with its parameters */
+interface ProvisionCondition {
+  sql: string;
+  params: Array<string | number>;
+}
+
+const ALL_PROVISIONS: ProvisionCondition = { sql: '1', params: [] };
+
+function rangeCondition(range: ProvisionRange): ProvisionCondition {
+  if (range.chapter) {
+    return { sql: 'p.chapter = ?', params: [range.chapter] };
+  }
+  return {
+    sql: `${ORDER_KEY_TUPLE} >= (?, ?, ?, ?) AND ${ORDER_KEY_TUPLE} <= (?, ?, ?, ?)`,
+    params: [...provisionOrder(range.from!), ...provisionOrder(range.to!)],
+  };
+}
+
+/** Provisions before or after `ref` in document order */
+function adjacentCondition(ref: string, direction: 'before' | 'after'): ProvisionCondition {
+  return { sql: `${ORDER_KEY_TUPLE} ${direction === 'before' ? '<' : '>'} (?, ?, ?, ?)`, params: provisionOrder(ref) };
+}
+
+/**
+ * The provisions of a document as subquery `p`: the current text, or the
+ * versions in force on asOfDate.
+ */
+function provisionSource(documentId: string, asOfDate?: string): ProvisionCondition {
+  if (asOfDate) {
+    return {
+      sql: `(
+        SELECT * FROM (
+          SELECT
+            lpv.document_id,
+            ld.title as document_title,
+            ld.status as document_status,
+            lpv.provision_ref,
+            lpv.chapter,
+            lpv.section,
+            lpv.title,
+            lpv.content,
+            lpv.metadata,
+            lpv.valid_from,
+            lpv.valid_to,
+            row_number() OVER (
+              PARTITION BY lpv.document_id, lpv.provision_ref
+              ORDER BY COALESCE(lpv.valid_from, '0000-01-01') DESC, lpv.id DESC
+            ) as version_rank
+          FROM legal_provision_versions lpv
+          JOIN legal_documents ld ON ld.id = lpv.document_id
+          WHERE lpv.document_id = ?
+            AND (lpv.valid_from IS NULL OR lpv.valid_from <= ?)
+            AND (lpv.valid_to IS NULL OR lpv.valid_to > ?)
+        )
+        WHERE version_rank = 1
+      )`,
+      params: [documentId, asOfDate, asOfDate],
+    };
+  }
+  return {
+    sql: `(
+      SELECT
+        lp.document_id,
+        ld.title as document_title,
+        ld.status as document_status,
+        lp.provision_ref,
+        lp.chapter,
+        lp.section,
+        lp.title,
+        lp.content,
+        lp.metadata,
+        NULL as valid_from,
+        NULL as valid_to
+      FROM legal_provisions lp
+      JOIN legal_documents ld ON ld.id = lp.document_id
+      WHERE lp.document_id = ?
+    )`,
+    params: [documentId],
+  };
+}
+
+function countProvisions(db: Database, documentId: string, asOfDate: string | undefined, condition: ProvisionCondition): number {
+  const source = provisionSource(documentId, asOfDate);
+  const row = db.prepare(`SELECT COUNT(*) as count FROM ${source.sql} p WHERE ${condition.sql}`)
+    .get(...source.params, ...condition.params) as { count: number };
+  return row.count;
+}
+
+/** One page of a document's provisions in document order (reversed with descending), as in force on asOfDate when given. */
+function selectProvisions(
+  db: Database,
+  documentId: string,
+  asOfDate: string | undefined,
+  condition: ProvisionCondition,
+  page: { offset?: number; limit: number; descending?: boolean },
+): ProvisionResult[] {
+  const source = provisionSource(documentId, asOfDate);
+  const direction = page.descending ? 'DESC' : 'ASC';
+  const sql = `
+    SELECT
+      document_id,
+      document_title,
+      document_status,
+      provision_ref,
+      chapter,
+      section,
+      title,
+      content,
+      metadata,
+      valid_from,
+      valid_to
+    FROM ${source.sql} p
+    WHERE ${condition.sql}
+    ORDER BY ${ORDER_KEY.map(key => `${key} ${direction}`).join(', ')}
+    LIMIT ? OFFSET ?
+  `;
+  const rows = db.prepare(sql)
+    .all(...source.params, ...condition.params, page.limit, page.offset ?? 0) as ProvisionRow[];
+  return rows.map(row => ({
+    ...row,
+    metadata: row.metadata ? JSON.parse(row.metadata) : null,
+    cross_references: [],
+  }));
+}
+
+function estimateTokens(provision: ProvisionResult): number {
+  return Math.ceil((provision.content.length + (provision.title?.length ?? 0)) / 4);
+}
+
 export async function getProvision(
   db: Database,
   input: GetProvisionInput
@@ -70,11 +270,22 @@ export async function getProvision(
   }
   input = { ...input, document_id: resolvedId };
 
-  // If provision_ref is directly provided, normalize it
-  let provisionRef = input.provision_ref
-    ? normalizeProvisionRef(input.provision_ref)
+  // A chapter or range ("3 kap. 1–9 §§"), or a chapter without a section
+  let range = input.provision_ref ? parseProvisionRange(input.provision_ref) : null;
+  if (!input.provision_ref && input.chapter && !input.section) {
+    range = { chapter: String(input.chapter).trim(), from: null, to: null };
+  }
+  if (range?.from && compareProvisionRefs(range.from, range.to!) > 0) {
+    throw new Error(`Range "${input.provision_ref}" ends before it starts`);
+  }
+
+  // If provision_ref is directly provided, normalize it; a trailing
+  // "första stycket 2" is split off and addresses a stycke or punkt.
+  const pinpoint = input.provision_ref && !range ? splitProvisionSubdivision(input.provision_ref) : null;
+  let provisionRef = pinpoint
+    ? normalizeProvisionRef(pinpoint.ref)
     : undefined;
-  if (!provisionRef) {
+  if (!provisionRef && !range) {
     if (input.chapter && input.section) {
       provisionRef = `${input.chapter}:${input.section}`;
     } else if (input.section) {
@@ -82,16 +293,66 @@ export async function getProvision(
     }
   }
 
+  const subdivision: ProvisionSubdivision = {
+    stycke: input.stycke ?? pinpoint?.stycke,
+    punkt: input.punkt ?? pinpoint?.punkt,
+  };
+  const wantsSubdivision = subdivision.stycke !== undefined || subdivision.punkt !== undefined;
+  if (wantsSubdivision && !provisionRef) {
+    throw new Error('stycke and punkt require a provision (section or provision_ref)');
+  }
+
   const asOfDate = normalizeAsOfDate(input.as_of_date);
 
-  // If no specific provision, return all provisions for the document (capped)
+  // If no specific provision, return the chapter, range or whole document, one page at a time
   if (!provisionRef) {
-    const MAX_ALL_PROVISIONS = 100;
-    const all = getAllProvisions(db, input.document_id, asOfDate, MAX_ALL_PROVISIONS + 1);
-    const truncated = all.length > MAX_ALL_PROVISIONS;
+    const condition = range ? rangeCondition(range) : ALL_PROVISIONS;
+    const total = countProvisions(db, input.document_id, asOfDate, condition);
+    if (range && total === 0) {
+      return {
+        results: null,
+        _meta: {
+          ...generateResponseMetadata(db),
+          note: range.chapter
+            ? `No provisions in chapter ${range.chapter} of ${input.document_id}`
+            : `No provisions in range "${input.provision_ref}" of ${input.document_id}`,
+        },
+      };
+    }
+
+    const offset = Math.max(0, Math.floor(input.offset ?? 0));
+    const limit = Math.min(Math.max(1, Math.floor(input.limit ?? MAX_PAGE_SIZE)), MAX_PAGE_SIZE);
+    const annotate = input.annotate_terms
+      ? createTermAnnotator(db, input.document_id, [...referencedStatutes(db, input.document_id)])
+      : undefined;
+    const provisions: ProvisionResult[] = [];
+    let tokens = 0;
+    for (const provision of selectProvisions(db, input.document_id, asOfDate, condition, { offset, limit })) {
+      const cost = estimateTokens(provision);
+      // Always return at least one provision, however long
+      if (input.max_tokens && provisions.length > 0 && tokens + cost > input.max_tokens) break;
+      if (annotate) {
+        provision.defined_terms = annotate(provision.content);
+      }
+      provisions.push(provision);
+      tokens += cost;
+    }
+
+    const next = offset + provisions.length;
+    const truncated = next < total;
     return {
-      results: truncated ? all.slice(0, MAX_ALL_PROVISIONS) : all,
-      ...(truncated && { _truncated: true, _hint: `Only first ${MAX_ALL_PROVISIONS} provisions returned. Use chapter+section to retrieve specific provisions.` }),
+      results: provisions,
+      ...(truncated && {
+        _truncated: true,
+        _hint: `Returned provisions ${offset + 1}–${next} of ${total}. Pass offset ${next} for the next page, or use chapter+section to retrieve specific provisions.`,
+      }),
+      _pagination: {
+        offset,
+        returned: provisions.length,
+        total,
+        next_offset: truncated ? next : null,
+        estimated_tokens: tokens,
+      },
       _meta: generateResponseMetadata(db)
     };
   }
@@ -153,17 +414,76 @@ export async function getProvision(
     };
   }
 
+  let part: ProvisionSubdivisionResult | undefined;
+  let content = row.content;
+  if (subdivision.stycke !== undefined && !hasStyckeBreaks(row.content)) {
+    // Sentences are not stycken: don't hand out a pinpoint the text can't support
+    return {
+      results: null,
+      _meta: {
+        ...generateResponseMetadata(db),
+        note: `Provision ${provisionRef} is stored without stycke breaks, so its ${subdivisionLabel(subdivision)} cannot be located. ` +
+          'Request the whole provision, or a punkt without stycke.',
+      },
+    };
+  }
+  if (wantsSubdivision) {
+    const extracted = extractSubdivision(row.content, subdivision);
+    if (!extracted) {
+      return {
+        results: null,
+        _meta: {
+          ...generateResponseMetadata(db),
+          note: `Provision ${provisionRef} has no ${subdivisionLabel(subdivision)}`,
+        },
+      };
+    }
+    const { text, ...rest } = extracted;
+    part = rest;
+    content = text;
+  }
+
   const crossRefs = db.prepare(`
     SELECT target_document_id, target_provision_ref, ref_type
     FROM cross_references
     WHERE source_document_id = ? AND (source_provision_ref = ? OR source_provision_ref IS NULL)
   `).all(input.document_id, provisionRef) as CrossRefResult[];
 
+  let neighbours: ProvisionResult['neighbours'];
+  const neighbourCount = Math.min(Math.max(0, Math.floor(input.neighbours ?? 0)), MAX_NEIGHBOURS);
+  if (neighbourCount > 0) {
+    const targetRef = row.provision_ref;
+    const light = ({ provision_ref, chapter, section, title, content }: ProvisionResult): NeighbourProvision =>
+      ({ provision_ref, chapter, section, title, content });
+    const adjacent = (direction: 'before' | 'after') => selectProvisions(
+      db, input.document_id, asOfDate, adjacentCondition(targetRef, direction),
+      { limit: neighbourCount, descending: direction === 'before' },
+    ).map(light);
+    neighbours = {
+      before: adjacent('before').reverse(),
+      after: adjacent('after'),
+    };
+  }
+
+  let definedTerms: DefinedTermSpan[] | undefined;
+  if (input.annotate_terms) {
+    // Statutes this provision refers to take precedence over the rest of the statute's references.
+    const referenced = [
+      ...crossRefs.filter(ref => ref.ref_type !== 'amended_by').map(ref => ref.target_document_id),
+      ...referencedStatutes(db, input.document_id),
+    ];
+    definedTerms = createTermAnnotator(db, input.document_id, [...new Set(referenced)])(content);
+  }
+
   return {
     results: {
       ...row,
+      content,
       metadata: row.metadata ? JSON.parse(row.metadata) : null,
       cross_references: crossRefs,
+      ...(definedTerms && { defined_terms: definedTerms }),
+      ...(part && { subdivision: part }),
+      ...(neighbours && { neighbours }),
     },
     _meta: generateResponseMetadata(db),
     _citation: buildProvisionCitation(
@@ -174,82 +494,7 @@ export async function getProvision(
       provisionRef,
       row.document_url,
       row.document_short_name,
+      part,
     ),
   };
 }
-
-function getAllProvisions(db: Database, documentId: string, asOfDate?: string, limit?: number): ProvisionResult[] {
-  let rows: ProvisionRow[];
-
-  if (asOfDate) {
-    const sql = `
-      WITH ranked_versions AS (
-        SELECT
-          lpv.document_id,
-          ld.title as document_title,
-          ld.status as document_status,
-          lpv.provision_ref,
-          lpv.chapter,
-          lpv.section,
-          lpv.title,
-          lpv.content,
-          lpv.metadata,
-          lpv.valid_from,
-          lpv.valid_to,
-          row_number() OVER (
-            PARTITION BY lpv.document_id, lpv.provision_ref
-            ORDER BY COALESCE(lpv.valid_from, '0000-01-01') DESC, lpv.id DESC
-          ) as version_rank
-        FROM legal_provision_versions lpv
-        JOIN legal_documents ld ON ld.id = lpv.document_id
-        WHERE lpv.document_id = ?
-          AND (lpv.valid_from IS NULL OR lpv.valid_from <= ?)
-          AND (lpv.valid_to IS NULL OR lpv.valid_to > ?)
-      )
-      SELECT
-        document_id,
-        document_title,
-        document_status,
-        provision_ref,
-        chapter,
-        section,
-        title,
-        content,
-        metadata,
-        valid_from,
-        valid_to
-      FROM ranked_versions
-      WHERE version_rank = 1
-      ORDER BY provision_ref
-      ${limit ? 'LIMIT ?' : ''}
-    `;
-    rows = db.prepare(sql).all(...[documentId, asOfDate, asOfDate, ...(limit ? [limit] : [])]) as ProvisionRow[];
-  } else {
-    const sql = `
-      SELECT
-        lp.document_id,
-        ld.title as document_title,
-        ld.status as document_status,
-        lp.provision_ref,
-        lp.chapter,
-        lp.section,
-        lp.title,
-        lp.content,
-        lp.metadata,
-        NULL as valid_from,
-        NULL as valid_to
-      FROM legal_provisions lp
-      JOIN legal_documents ld ON ld.id = lp.document_id
-      WHERE lp.document_id = ?
-      ORDER BY lp.id
-      ${limit ? 'LIMIT ?' : ''}
-    `;
-    rows = db.prepare(sql).all(...[documentId, ...(limit ? [limit] : [])]) as ProvisionRow[];
-  }
-
-  return rows.map(row => ({
-    ...row,
-    metadata: row.metadata ? JSON.parse(row.metadata) : null,
-    cross_references: [],
-  }));
-}
@@ -0,0 +1,284 @@
+/**
+ * get_statute_structure — Table of contents of a statute: avdelningar
+ * (parts), chapters with their headings, and sections with their titles,
+ * nested, with repealed and vacant numbers marked.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import { parseRepealNotice } from '../parsers/amendment-parser.js';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export interface GetStatuteStructureInput {
+  document_id: string;
+  /** Only this chapter */
+  chapter?: string;
+  /** List the sections of each chapter (default true) */
+  include_sections?: boolean;
+}
+
+/**
+ * in_force: the number has text; repealed: the text is a repeal notice or the
+ * chapter heading says so; vacant: the number is skipped in the statute.
+ */
+export type TocStatus = 'in_force' | 'repealed' | 'vacant';
+
+export interface TocNode {
+  type: 'part' | 'chapter' | 'section';
+  /** "Första avdelningen", "3", "5 a"; a range such as "6–8" for vacant numbers */
+  number: string;
+  /** Avdelning or chapter heading, or section title */
+  heading: string | null;
+  /** Sections: "3:5"; chapters: "3:1–3:12" */
+  provision_ref: string | null;
+  status: TocStatus;
+  repealed_by?: string;
+  children?: TocNode[];
+}
+
+export interface StatuteStructureResult {
+  document_id: string;
+  document_title: string;
+  document_status: string;
+  toc: TocNode[];
+  counts: {
+    parts: number;
+    chapters: number;
+    sections: number;
+    repealed_sections: number;
+    vacant_sections: number;
+  };
+}
+
+interface ProvisionRow {
+  provision_ref: string;
+  chapter: string | null;
+  section: string;
+  title: string | null;
+  content: string;
+}
+
+interface ChapterRow {
+  chapter: string;
+  title: string | null;
+  part: string | null;
+  part_title: string | null;
+  repealed_by: string | null;
+}
+
+/** Whether the database has the statute_chapters table (schema version 8+). */
+export function hasStatuteChapters(db: Database): boolean {
+  const row = db.prepare(
+    "SELECT name FROM sqlite_master WHERE type='table' AND name='statute_chapters'"
+  ).get();
+  return !!row;
+}
+
+function vacantNode(type: 'chapter' | 'section', from: number, to: number): TocNode {
+  return {
+    type,
+    number: from === to ? String(from) : `${from}–${to}`,
+    heading: null,
+    provision_ref: null,
+    status: 'vacant',
+  };
+}
+
+/** Section nodes in document order, with skipped section numbers as vacant entries. */
+function sectionNodes(rows: ProvisionRow[]): TocNode[] {
+  const nodes: TocNode[] = [];
+  let previous: number | undefined;
+  for (const row of rows) {
+    const number = parseInt(row.section, 10);
+    if (previous !== undefined && number > previous + 1) {
+      nodes.push(vacantNode('section', previous + 1, number - 1));
+    }
+    if (!Number.isNaN(number)) {
+      previous = Math.max(previous ?? number, number);
+    }
+    const repealedBy = parseRepealNotice(row.content);
+    nodes.push({
+      type: 'section',
+      number: row.section,
+      heading: row.title,
+      provision_ref: row.provision_ref,
+      status: repealedBy ? 'repealed' : 'in_force',
+      ...(repealedBy && { repealed_by: repealedBy }),
+    });
+  }
+  return nodes;
+}
+
+export async function getStatuteStructure(
+  db: Database,
+  input: GetStatuteStructureInput
+): Promise<ToolResponse<StatuteStructureResult | null>> {
+  if (!input.document_id) {
+    throw new Error('document_id is required');
+  }
+
+  const documentId = resolveDocumentId(db, input.document_id);
+  if (!documentId) {
+    return {
+      results: null,
+      _meta: {
+        ...generateResponseMetadata(db),
+        note: `No document found matching "${input.document_id}"`,
+      },
+    };
+  }
+
+  const doc = db.prepare(
+    'SELECT id, title, status FROM legal_documents WHERE id = ?'
+  ).get(documentId) as { id: string; title: string; status: string };
+
+  const provisions = db.prepare(`
+    SELECT provision_ref, chapter, section, title, content
+    FROM legal_provisions
+    WHERE document_id = ?
+    ORDER BY id
+  `).all(documentId) as ProvisionRow[];
+
+  const chapterRows = hasStatuteChapters(db)
+    ? db.prepare(`
+        SELECT chapter, title, part, part_title, repealed_by
+        FROM statute_chapters
+        WHERE document_id = ?
+        ORDER BY id
+      `).all(documentId) as ChapterRow[]
+    : [];
+
+  const includeSections = input.include_sections ?? true;
+  const wantedChapter = input.chapter ? String(input.chapter).trim() : undefined;
+  const chaptered = chapterRows.length > 0 || provisions.some(row => row.chapter);
+  // Sections covered by the response, counted even when not listed
+  const coveredSections: TocNode[] = [];
+  let toc: TocNode[];
+
+  if (!chaptered) {
+    toc = sectionNodes(provisions);
+    coveredSections.push(...toc);
+  } else {
+    const sectionsByChapter = new Map<string, ProvisionRow[]>();
+    for (const row of provisions) {
+      const key = row.chapter ?? '';
+      if (!sectionsByChapter.has(key)) sectionsByChapter.set(key, []);
+      sectionsByChapter.get(key)!.push(row);
+    }
+    const headings = new Map(chapterRows.map(row => [row.chapter, row]));
+    const numbers = [...new Set([...chapterRows.map(row => row.chapter), ...sectionsByChapter.keys()])]
+      .filter(Boolean)
+      .sort((a, b) => parseInt(a, 10) - parseInt(b, 10) || a.localeCompare(b));
+
+    // Chapters, with skipped chapter numbers as vacant entries
+    const chapters: Array<{ node: TocNode; part: string | null; part_title: string | null }> = [];
+    let previous: number | undefined;
+    for (const chapter of numbers) {
+      const number = parseInt(chapter, 10);
+      if (previous !== undefined && number > previous + 1) {
+        chapters.push({ node: vacantNode('chapter', previous + 1, number - 1), part: null, part_title: null });
+      }
+      previous = number;
+
+      const heading = headings.get(chapter);
+      const rows = sectionsByChapter.get(chapter) ?? [];
+      const sections = sectionNodes(rows);
+      if (!wantedChapter || chapter === wantedChapter) {
+        coveredSections.push(...sections);
+      }
+      const repealedBy = heading?.repealed_by ?? null;
+      const allRepealed = sections.some(node => node.status === 'repealed')
+        && sections.every(node => node.status !== 'in_force');
+      const status: TocStatus = repealedBy || allRepealed ? 'repealed' : rows.length > 0 ? 'in_force' : 'vacant';
+      chapters.push({
+        node: {
+          type: 'chapter',
+          number: chapter,
+          heading: heading?.title ?? null,
+          provision_ref: rows.length > 0 ? `${rows[0].provision_ref}–${rows[rows.length - 1].provision_ref}` : null,
+          status,
+          ...(repealedBy && { repealed_by: repealedBy }),
+          ...(includeSections && { children: sections }),
+        },
+        part: heading?.part ?? null,
+        part_title: heading?.part_title ?? null,
+      });
+    }
+
+    // Skipped chapter numbers between two chapters of the same avdelning belong to it
+    chapters.forEach((entry, i) => {
+      if (entry.node.status === 'vacant' && !headings.has(entry.node.number) && chapters[i - 1]?.part === chapters[i + 1]?.part) {
+        entry.part = chapters[i - 1].part;
+      }
+    });
+
+    // Group consecutive chapters of the same avdelning
+    toc = [];
+    let currentPart: TocNode | undefined;
+    for (const { node, part, part_title } of chapters) {
+      if (!part) {
+        currentPart = undefined;
+        toc.push(node);
+        continue;
+      }
+      if (currentPart?.number !== part) {
+        currentPart = { type: 'part', number: part, heading: part_title, provision_ref: null, status: 'in_force', children: [] };
+        toc.push(currentPart);
+      }
+      currentPart.children!.push(node);
+    }
+
+    // Sections before the first chapter
+    const unchaptered = sectionNodes(sectionsByChapter.get('') ?? []);
+    if (!wantedChapter) {
+      coveredSections.push(...unchaptered);
+      if (includeSections) {
+        toc.unshift(...unchaptered);
+      }
+    }
+
+    if (wantedChapter) {
+      toc = toc
+        .flatMap(node => (node.type === 'part' ? node.children! : [node]))
+        .filter(node => node.type === 'chapter' && node.number === wantedChapter);
+    }
+  }
+
+  if (wantedChapter && toc.length === 0) {
+    return {
+      results: null,
+      _meta: {
+        ...generateResponseMetadata(db),
+        note: `No chapter ${wantedChapter} in ${documentId}`,
+      },
+    };
+  }
+
+  const nodes = flatten(toc);
+
+  return {
+    results: {
+      document_id: documentId,
+      document_title: doc.title,
+      document_status: doc.status,
+      toc,
+      counts: {
+        parts: nodes.filter(node => node.type === 'part').length,
+        chapters: nodes.filter(node => node.type === 'chapter' && node.status !== 'vacant').length,
+        sections: coveredSections.filter(node => node.status !== 'vacant').length,
+        repealed_sections: coveredSections.filter(node => node.status === 'repealed').length,
+        vacant_sections: coveredSections
+          .filter(node => node.status === 'vacant')
+          .reduce((sum, node) => {
+            const [from, to = from] = node.number.split('–').map(Number);
+            return sum + to - from + 1;
+          }, 0),
+      },
+    },
+    _meta: generateResponseMetadata(db),
+  };
+}
+
+function flatten(nodes: TocNode[]): TocNode[] {
+  return nodes.flatMap(node => [node, ...flatten(node.children ?? [])]);
+}
@@ -0,0 +1,193 @@
+/**
+ * get_transitional_provisions — The transitional provisions
+ * (övergångsbestämmelser) of a statute that bear on a provision at a date.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import { hasAmendmentRegister, compareSfsNumbers } from './get-amendment-history.js';
+import { normalizeAsOfDate } from '../utils/as-of-date.js';
+import { resolveDocumentId, normalizeProvisionRef } from '../utils/statute-id.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export interface GetTransitionalProvisionsInput {
+  document_id: string;
+  provision_ref?: string;
+  /** Only rules of acts in force on this date (ISO YYYY-MM-DD) */
+  as_of_date?: string;
+}
+
+/**
+ * Why the rules bear on the provision: they mention it, they belong to an
+ * act that changed it, or they are the statute's own rules.
+ * 'statute' when no provision was asked for.
+ */
+export type TransitionalRelevance = 'mentions_provision' | 'amends_provision' | 'original_act' | 'statute';
+
+export interface TransitionalProvisionEntry {
+  amending_sfs: string;
+  in_force_date: string | null;
+  content: string;
+  provision_refs: string[];
+  /** True when the rules keep earlier wording or a repealed act applicable */
+  keeps_old_wording: boolean;
+  relevance: TransitionalRelevance;
+}
+
+export interface TransitionalProvisionsResult {
+  document_id: string;
+  document_title: string;
+  provision_ref: string | null;
+  as_of_date: string | null;
+  transitional_provisions: TransitionalProvisionEntry[];
+}
+
+interface TransitionalRow {
+  amending_sfs: string;
+  content: string;
+  in_force_date: string | null;
+  provision_refs: string;
+  keeps_old_wording: number;
+}
+
+/** Whether the database has the transitional_provisions table (schema version 7+). */
+export function hasTransitionalProvisions(db: Database): boolean {
+  const row = db.prepare(
+    "SELECT name FROM sqlite_master WHERE type='table' AND name='transitional_provisions'"
+  ).get();
+  return !!row;
+}
+
+/**
+ * Transitional rules of `documentId` relevant to `provisionRef` (all rules
+ * when null), limited to acts in force on `date` when given. Acts with an
+ * unknown entry-into-force date are kept.
+ */
+export function findTransitionalProvisions(
+  db: Database,
+  documentId: string,
+  provisionRef: string | null,
+  date?: string,
+): TransitionalProvisionEntry[] {
+  if (!hasTransitionalProvisions(db)) return [];
+
+  // The register fills in entry-into-force dates the rules do not state
+  const registerJoin = hasAmendmentRegister(db)
+    ? 'LEFT JOIN sfs_amendments a ON a.document_id = t.document_id AND a.amending_sfs = t.amending_sfs'
+    : '';
+  const inForceDate = registerJoin ? 'COALESCE(t.in_force_date, a.in_force_date)' : 't.in_force_date';
+  const rows = db.prepare(`
+    SELECT t.amending_sfs, t.content, ${inForceDate} as in_force_date, t.provision_refs, t.keeps_old_wording
+    FROM transitional_provisions t
+    ${registerJoin}
+    WHERE t.document_id = ?
+  `).all(documentId) as TransitionalRow[];
+
+  const amendingActs = new Set<string>();
+  if (provisionRef && hasAmendmentRegister(db)) {
+    const changed = db.prepare(`
+      SELECT DISTINCT a.amending_sfs
+      FROM sfs_amendments a
+      JOIN sfs_amendment_provisions p ON p.amendment_id = a.id
+      WHERE a.document_id = ? AND p.provision_ref = ?
+    `).all(documentId, provisionRef) as { amending_sfs: string }[];
+    for (const row of changed) amendingActs.add(row.amending_sfs);
+  }
+
+  const entries: TransitionalProvisionEntry[] = [];
+  for (const row of rows) {
+    if (date && row.in_force_date && row.in_force_date > date) continue;
+
+    const provisionRefs = JSON.parse(row.provision_refs) as string[];
+    let relevance: TransitionalRelevance | null;
+    if (!provisionRef) {
+      relevance = 'statute';
+    } else if (provisionRefs.includes(provisionRef)) {
+      relevance = 'mentions_provision';
+    } else if (amendingActs.has(row.amending_sfs)) {
+      relevance = 'amends_provision';
+    } else if (row.amending_sfs === documentId) {
+      relevance = 'original_act';
+    } else {
+      relevance = null;
+    }
+    if (!relevance) continue;
+
+    entries.push({
+      amending_sfs: row.amending_sfs,
+      in_force_date: row.in_force_date,
+      content: row.content,
+      provision_refs: provisionRefs,
+      keeps_old_wording: row.keeps_old_wording === 1,
+      relevance,
+    });
+  }
+
+  return entries.sort((a, b) => compareSfsNumbers(a.amending_sfs, b.amending_sfs));
+}
+
+/**
+ * Warnings for transitional rules that keep earlier wording applicable to
+ * `provisionRef`. Only rules that mention the provision count: an act's
+ * general "äldre föreskrifter gäller" says nothing about provisions it names
+ * elsewhere or did not touch.
+ */
+export function oldWordingWarnings(
+  db: Database,
+  documentId: string,
+  provisionRef: string,
+  date: string,
+): string[] {
+  return findTransitionalProvisions(db, documentId, provisionRef, date)
+    .filter(rule => rule.keeps_old_wording && rule.relevance === 'mentions_provision')
+    .map(rule =>
+      `Transitional provisions of SFS ${rule.amending_sfs}` +
+      `${rule.in_force_date ? ` (in force ${rule.in_force_date})` : ''} may keep earlier wording applicable; ` +
+      'see get_transitional_provisions'
+    );
+}
+
+export async function getTransitionalProvisions(
+  db: Database,
+  input: GetTransitionalProvisionsInput
+): Promise<ToolResponse<TransitionalProvisionsResult | null>> {
+  if (!input.document_id) {
+    throw new Error('document_id is required');
+  }
+
+  const documentId = resolveDocumentId(db, input.document_id);
+  if (!documentId) {
+    return {
+      results: null,
+      _meta: {
+        ...generateResponseMetadata(db),
+        note: `No document found matching "${input.document_id}"`,
+      },
+    };
+  }
+
+  const document = db.prepare('SELECT title FROM legal_documents WHERE id = ?').get(documentId) as { title: string };
+  const provisionRef = input.provision_ref ? normalizeProvisionRef(input.provision_ref) : null;
+  const asOfDate = normalizeAsOfDate(input.as_of_date) ?? null;
+  const result: TransitionalProvisionsResult = {
+    document_id: documentId,
+    document_title: document.title,
+    provision_ref: provisionRef,
+    as_of_date: asOfDate,
+    transitional_provisions: findTransitionalProvisions(db, documentId, provisionRef, asOfDate ?? undefined),
+  };
+
+  if (!hasTransitionalProvisions(db)) {
+    return {
+      results: result,
+      _meta: {
+        ...generateResponseMetadata(db),
+        note: 'This database has no transitional provisions. Rebuild it with the current build script.',
+      },
+    };
+  }
+
+  return {
+    results: result,
+    _meta: generateResponseMetadata(db),
+  };
+}
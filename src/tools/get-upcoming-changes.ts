@@ -0,0 +1,198 @@
+/**
+ * get_upcoming_changes — Statutes and provisions that enter into force after
+ * a date: statutes with a future in_force_date and provision versions with a
+ * future valid_from, each provision with its future and current wording.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import { normalizeAsOfDate } from '../utils/as-of-date.js';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export interface GetUpcomingChangesInput {
+  /** Changes after this date (default: today) */
+  from_date?: string;
+  /** Changes up to and including this date */
+  to_date?: string;
+  document_id?: string;
+  /** true: only statutes linked to EU law; false: only statutes without EU links */
+  eu_linked?: boolean;
+  limit?: number;
+}
+
+export type UpcomingChangeType = 'new_statute' | 'new_provision' | 'amended_provision';
+
+export interface UpcomingChange {
+  document_id: string;
+  document_title: string;
+  document_status: string;
+  /** null for statute entries */
+  provision_ref: string | null;
+  change_type: UpcomingChangeType;
+  effective_date: string;
+  /** Wording in force on from_date; null for new statutes and provisions */
+  current_wording: string | null;
+  /** Wording from effective_date; null for statute entries */
+  future_wording: string | null;
+  /** EU documents the statute is linked to */
+  eu_documents: string[];
+}
+
+export interface UpcomingChangesResult {
+  from_date: string;
+  to_date: string | null;
+  changes: UpcomingChange[];
+  total: number;
+  truncated: boolean;
+}
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+interface StatuteRow {
+  document_id: string;
+  document_title: string;
+  document_status: string;
+  in_force_date: string;
+}
+
+interface VersionRow {
+  document_id: string;
+  document_title: string;
+  document_status: string;
+  provision_ref: string;
+  content: string;
+  valid_from: string;
+}
+
+export async function getUpcomingChanges(
+  db: Database,
+  input: GetUpcomingChangesInput
+): Promise<ToolResponse<UpcomingChangesResult | null>> {
+  const fromDate = normalizeAsOfDate(input.from_date, 'from_date') ?? new Date().toISOString().slice(0, 10);
+  const toDate = normalizeAsOfDate(input.to_date, 'to_date') ?? null;
+  if (toDate && toDate < fromDate) {
+    throw new Error('to_date must not be before from_date');
+  }
+  const limit = Math.min(Math.max(input.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+  let documentId: string | null = null;
+  if (input.document_id) {
+    documentId = resolveDocumentId(db, input.document_id);
+    if (!documentId) {
+      return {
+        results: null,
+        _meta: {
+          ...generateResponseMetadata(db),
+          note: `No document found matching "${input.document_id}"`,
+        },
+      };
+    }
+  }
+
+  const window = (column: string) => {
+    let sql = ` AND ${column} > ?`;
+    const params: string[] = [fromDate];
+    if (toDate) {
+      sql += ` AND ${column} <= ?`;
+      params.push(toDate);
+    }
+    if (documentId) {
+      sql += ' AND ld.id = ?';
+      params.push(documentId);
+    }
+    return { sql, params };
+  };
+
+  const statuteFilter = window('ld.in_force_date');
+  const statutes = db.prepare(`
+    SELECT ld.id as document_id, ld.title as document_title, ld.status as document_status, ld.in_force_date
+    FROM legal_documents ld
+    WHERE ld.type = 'statute' ${statuteFilter.sql}
+  `).all(...statuteFilter.params) as StatuteRow[];
+
+  const versionFilter = window('v.valid_from');
+  const versions = db.prepare(`
+    SELECT v.document_id, ld.title as document_title, ld.status as document_status,
+           v.provision_ref, v.content, v.valid_from
+    FROM legal_provision_versions v
+    JOIN legal_documents ld ON ld.id = v.document_id
+    WHERE 1 = 1 ${versionFilter.sql}
+    ORDER BY v.id
+  `).all(...versionFilter.params) as VersionRow[];
+
+  const getCurrentWording = db.prepare(`
+    SELECT content
+    FROM legal_provision_versions
+    WHERE document_id = ?
+      AND provision_ref = ?
+      AND (valid_from IS NULL OR valid_from <= ?)
+      AND (valid_to IS NULL OR valid_to > ?)
+    ORDER BY valid_from DESC
+    LIMIT 1
+  `);
+  const getEUDocuments = db.prepare(`
+    SELECT DISTINCT eu_document_id
+    FROM eu_references
+    WHERE document_id = ?
+    ORDER BY eu_document_id
+  `);
+  const euDocumentsByStatute = new Map<string, string[]>();
+  const euDocuments = (id: string) => {
+    if (!euDocumentsByStatute.has(id)) {
+      euDocumentsByStatute.set(id, (getEUDocuments.all(id) as { eu_document_id: string }[]).map(row => row.eu_document_id));
+    }
+    return euDocumentsByStatute.get(id)!;
+  };
+
+  const changes: UpcomingChange[] = [
+    ...statutes.map(row => ({
+      document_id: row.document_id,
+      document_title: row.document_title,
+      document_status: row.document_status,
+      provision_ref: null,
+      change_type: 'new_statute' as const,
+      effective_date: row.in_force_date,
+      current_wording: null,
+      future_wording: null,
+      eu_documents: euDocuments(row.document_id),
+    })),
+    ...versions.map(row => {
+      const current = getCurrentWording.get(row.document_id, row.provision_ref, fromDate, fromDate) as
+        { content: string } | undefined;
+      return {
+        document_id: row.document_id,
+        document_title: row.document_title,
+        document_status: row.document_status,
+        provision_ref: row.provision_ref,
+        change_type: (current ? 'amended_provision' : 'new_provision') as UpcomingChangeType,
+        effective_date: row.valid_from,
+        current_wording: current?.content ?? null,
+        future_wording: row.content,
+        eu_documents: euDocuments(row.document_id),
+      };
+    }),
+  ];
+
+  const filtered = input.eu_linked === undefined
+    ? changes
+    : changes.filter(change => (change.eu_documents.length > 0) === input.eu_linked);
+
+  // By date, then statute, statute entries before their provisions
+  filtered.sort((a, b) =>
+    a.effective_date.localeCompare(b.effective_date)
+    || a.document_id.localeCompare(b.document_id)
+    || Number(a.provision_ref !== null) - Number(b.provision_ref !== null)
+  );
+
+  return {
+    results: {
+      from_date: fromDate,
+      to_date: toDate,
+      changes: filtered.slice(0, limit),
+      total: filtered.length,
+      truncated: filtered.length > limit,
+    },
+    _meta: generateResponseMetadata(db),
+  };
+}
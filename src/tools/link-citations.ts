@@ -0,0 +1,52 @@
+/**
+ * link_citations — Return a text with its legal citations as Markdown links
+ * or HTML anchors, or as a list of spans with link targets (json).
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import { linkCitations as doLink, type CitationLink, type LinkFormat } from '../citation/linker.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export interface LinkCitationsInput {
+  text: string;
+  /** markdown (default), html or json */
+  format?: LinkFormat;
+}
+
+export interface LinkCitationsResult {
+  format: LinkFormat;
+  /** Text with links; absent for json */
+  output?: string;
+  links: CitationLink[];
+  linked: number;
+  unlinked: number;
+}
+
+const FORMATS: LinkFormat[] = ['markdown', 'html', 'json'];
+
+export async function linkCitations(
+  db: Database,
+  input: LinkCitationsInput
+): Promise<ToolResponse<LinkCitationsResult>> {
+  if (!input.text || input.text.trim().length === 0) {
+    throw new Error('text is required');
+  }
+  const format = input.format ?? 'markdown';
+  if (!FORMATS.includes(format)) {
+    throw new Error(`format must be one of: ${FORMATS.join(', ')}`);
+  }
+
+  const { output, links } = doLink(db, input.text, format);
+  const linked = links.filter(link => link.url).length;
+
+  return {
+    results: {
+      format,
+      ...(output !== undefined && { output }),
+      links,
+      linked,
+      unlinked: links.length - linked,
+    },
+    _meta: generateResponseMetadata(db),
+  };
+}
@@ -13,10 +13,28 @@ import Database from '@ansvar/mcp-sqlite';
 
 import { searchLegislation, SearchLegislationInput } from './search-legislation.js';
 import { getProvision, GetProvisionInput } from './get-provision.js';
+import {
+  getProvisionAtDateTool,
+  toolDefinition as GET_PROVISION_AT_DATE_TOOL,
+  type GetProvisionAtDateToolInput,
+} from './get-provision-at-date.js';
 import { searchCaseLaw, SearchCaseLawInput } from './search-case-law.js';
+import { getCase, GetCaseInput } from './get-case.js';
 import { getPreparatoryWorks, GetPreparatoryWorksInput } from './get-preparatory-works.js';
 import { validateCitationTool, ValidateCitationInput } from './validate-citation.js';
 import { buildLegalStance, BuildLegalStanceInput } from './build-legal-stance.js';
+import { searchAll, SearchAllInput } from './search-all.js';
+import { getDefinition, GetDefinitionInput } from './get-definition.js';
+import { searchDefinitions, SearchDefinitionsInput } from './search-definitions.js';
+import { getCrossReferences, GetCrossReferencesInput } from './get-cross-references.js';
+import { analyzeAmendmentImpact, AnalyzeAmendmentImpactInput } from './analyze-amendment-impact.js';
+import { getAmendmentHistory, GetAmendmentHistoryInput } from './get-amendment-history.js';
+import { getTransitionalProvisions, GetTransitionalProvisionsInput } from './get-transitional-provisions.js';
+import { getUpcomingChanges, GetUpcomingChangesInput } from './get-upcoming-changes.js';
+import { getStatuteStructure, GetStatuteStructureInput } from './get-statute-structure.js';
+import { verifyDocumentCitations, VerifyDocumentCitationsInput } from './verify-document-citations.js';
+import { linkCitations, LinkCitationsInput } from './link-citations.js';
+import { exportCitations, ExportCitationsInput } from './export-citations.js';
 import { formatCitationTool, FormatCitationInput } from './format-citation.js';
 import { checkCurrency, CheckCurrencyInput } from './check-currency.js';
 import { getEUBasis, GetEUBasisInput } from './get-eu-basis.js';
@@ -43,8 +61,11 @@ export type { AboutContext } from './about.js';
  */
 const TIER_SENSITIVE_TOOLS: Record<string, { capability: Capability; feature: string }> = {
   search_case_law: { capability: 'expanded_case_law', feature: 'Full case law archive (4,800+ decisions)' },
+  get_case: { capability: 'expanded_case_law', feature: 'Full-text judgments' },
   get_preparatory_works: { capability: 'full_preparatory_works', feature: 'Full preparatory works archive' },
   build_legal_stance: { capability: 'expanded_case_law', feature: 'Full case law and preparatory works' },
+  search_all: { capability: 'expanded_case_law', feature: 'Full case law and preparatory works' },
+  analyze_amendment_impact: { capability: 'expanded_case_law', feature: 'Full case law archive (4,800+ decisions)' },
 };
 
 const LIST_SOURCES_TOOL: Tool = {
@@ -76,37 +97,47 @@ export const TOOLS: Tool[] = [
     inputSchema: {
       type: 'object',
       properties: {
-        query: { type: 'string', minLength: 1, description: 'Search query in Swedish or English. Supports FTS5 syntax.' },
+        query: { type: 'string', minLength: 1, description: 'Search query in Swedish or English. Supports FTS5 syntax. Statute abbreviations (BrB, LAS) and legal synonyms are expanded; applied expansions are listed in _meta.query_details.' },
         document_id: { type: 'string', pattern: '^\\d{4}:\\d+$', description: 'Filter by SFS number (e.g., "2018:218")' },
         status: { type: 'string', enum: ['in_force', 'amended', 'repealed'], description: 'Filter by document status' },
         as_of_date: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$', description: 'Historical date filter (YYYY-MM-DD).' },
         limit: { type: 'number', default: 10, minimum: 1, maximum: 50, description: 'Maximum results to return' },
+        mode: { type: 'string', enum: ['lexical', 'semantic', 'hybrid'], default: 'lexical', description: 'Ranking: lexical (FTS5/BM25), semantic (vector similarity, finds provisions phrased differently from the query) or hybrid (both, fused by reciprocal rank). Falls back to lexical when the database has no vector index.' },
       },
       required: ['query'],
     },
   },
   {
     name: 'get_provision',
-    description: `Retrieve a specific provision from a Swedish statute. Do NOT use for keyword search — use search_legislation instead.`,
+    description: `Retrieve a specific provision from a Swedish statute, or a whole chapter or range of provisions in pages. Do NOT use for keyword search — use search_legislation instead.`,
     inputSchema: {
       type: 'object',
       properties: {
         document_id: { type: 'string', description: 'SFS number (e.g., "2018:218") or statute name (e.g., "dataskyddslagen")' },
-        chapter: { type: 'string', description: 'Chapter number (e.g., "3").' },
+        chapter: { type: 'string', description: 'Chapter number (e.g., "3"). Without section, returns the whole chapter.' },
         section: { type: 'string', description: 'Section number (e.g., "5", "5 a")' },
-        provision_ref: { type: 'string', description: 'Provision reference: canonical "3:5" or Swedish "3 kap. 5 §". Alternative to chapter+section.' },
+        provision_ref: { type: 'string', description: 'Provision reference: canonical "3:5" or Swedish "3 kap. 5 §". Alternative to chapter+section. May end with a stycke/punkt pinpoint, e.g. "3 kap. 5 § första stycket 2". May also be a range: "3 kap. 1–9 §§", "hela 5 kap.", "1 kap. 2 § – 1 kap. 4 §".' },
+        stycke: { type: 'number', minimum: 1, description: 'Return only this stycke (paragraph) of the section; 1 = första stycket. Text stored without stycke breaks returns null with a note rather than a guessed stycke.' },
+        punkt: { type: 'number', minimum: 1, description: 'Return only this punkt (numbered point); without stycke, the first stycke with such a point.' },
         as_of_date: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$', description: 'Historical date (YYYY-MM-DD).' },
+        annotate_terms: { type: 'boolean', default: false, description: 'Return defined_terms: spans of defined terms in the content, each linked to the governing definitions row (same statute first, then statutes it cross-references). See get_definition.' },
+        offset: { type: 'number', default: 0, minimum: 0, description: 'For a chapter, range or whole statute: skip this many provisions. Use _pagination.next_offset for the next page.' },
+        limit: { type: 'number', default: 100, minimum: 1, maximum: 100, description: 'For a chapter, range or whole statute: page size.' },
+        max_tokens: { type: 'number', minimum: 1, description: 'For a chapter, range or whole statute: end the page before its text exceeds about this many tokens (at least one provision is returned).' },
+        neighbours: { type: 'number', minimum: 0, maximum: 10, description: 'For a single provision: also return this many sections before and after it.' },
       },
       required: ['document_id'],
     },
   },
+  GET_PROVISION_AT_DATE_TOOL,
   {
     name: 'search_case_law',
-    description: `Search Swedish court decisions (rattsfall). FTS5 with BM25 ranking. Coverage depends on dataset tier — call 'about' to check actual case law count. Courts: HD, HFD, AD, RH, MÖD, MIG. Source: lagen.nu (CC-BY Domstolsverket). Do NOT use for statutes — use search_legislation instead.`,
+    description: `Search Swedish court decisions (rattsfall). FTS5 with BM25 ranking. Coverage depends on dataset tier — call 'about' to check actual case law count. Searches case summaries; with section, searches one part of the full judgments (headnotes, reasoning, dissents) where the tier includes them. Courts: HD, HFD, AD, RH, MÖD, MIG. Source: lagen.nu (CC-BY Domstolsverket). Do NOT use for statutes — use search_legislation instead.`,
     inputSchema: {
       type: 'object',
       properties: {
-        query: { type: 'string', minLength: 1, description: 'Search query for case law summaries' },
+        query: { type: 'string', minLength: 1, description: 'Search query for case law summaries. Statute abbreviations (BrB, LAS) and legal synonyms are expanded; applied expansions are listed in _meta.query_details.' },
+        section: { type: 'string', enum: ['headnotes', 'reasoning', 'dissents', 'full_text'], description: 'Search this part of the full judgments instead of the summaries' },
         court: { type: 'string', enum: ['HD', 'HFD', 'AD', 'RH', 'MÖD', 'MIG', 'PMÖD'], description: 'Filter by court code' },
         date_from: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$', description: 'Start date filter (YYYY-MM-DD)' },
         date_to: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$', description: 'End date filter (YYYY-MM-DD)' },
@@ -132,7 +163,7 @@ export const TOOLS: Tool[] = [
     inputSchema: {
       type: 'object',
       properties: {
-        citation: { type: 'string', minLength: 1, description: 'Citation string to validate (e.g., "SFS 2018:218 1 kap. 1 §")' },
+        citation: { type: 'string', minLength: 1, description: 'Citation string to validate (e.g., "SFS 2018:218 1 kap. 1 §", "3 kap. 5–7 §§ lag (2018:218)", "prop. 2017/18:105 s. 45", "MÖD 2019:3", "förordning (EU) 2016/679 artikel 6.1 c")' },
       },
       required: ['citation'],
     },
@@ -143,24 +174,212 @@ export const TOOLS: Tool[] = [
     inputSchema: {
       type: 'object',
       properties: {
-        query: { type: 'string', minLength: 1, description: 'Legal question or topic to research' },
+        query: { type: 'string', minLength: 1, description: 'Legal question or topic to research. Statute abbreviations (BrB, LAS) and legal synonyms are expanded; applied expansions are listed in _meta.query_details.' },
         document_id: { type: 'string', pattern: '^\\d{4}:\\d+$', description: 'Limit statute search to one SFS document' },
         include_case_law: { type: 'boolean', default: true, description: 'Include case law results' },
         include_preparatory_works: { type: 'boolean', default: true, description: 'Include preparatory works results' },
         as_of_date: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$', description: 'Historical date (YYYY-MM-DD).' },
         limit: { type: 'number', default: 5, minimum: 1, maximum: 20, description: 'Max results per category' },
+        mode: { type: 'string', enum: ['lexical', 'semantic', 'hybrid'], default: 'lexical', description: 'Ranking for the statute search: lexical, semantic or hybrid. Falls back to lexical when the database has no vector index.' },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'search_all',
+    description: `Search statutes, case law, preparatory works, definitions and EU acts in one call. Returns one ranked list (per-corpus rankings merged by reciprocal rank fusion) plus facet counts by corpus, document type, status, court, year and EU act. Pass facet values back in "filters" to narrow the next call. Use search_legislation or search_case_law for deeper single-corpus search.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', minLength: 1, description: 'Search query in Swedish or English. Supports FTS5 syntax. Statute abbreviations and legal synonyms are expanded.' },
+        filters: {
+          type: 'object',
+          description: 'Facet filters using values from a previous response\'s facets. Values within a facet are OR-ed; facets are AND-ed.',
+          properties: {
+            corpus: { type: 'array', items: { type: 'string', enum: ['statutes', 'case_law', 'preparatory_works', 'definitions', 'eu'] } },
+            document_type: { type: 'array', items: { type: 'string' }, description: 'e.g. "statute", "bill", "sou", "case_law", "directive"' },
+            status: { type: 'array', items: { type: 'string' }, description: 'e.g. "in_force", "repealed"' },
+            court: { type: 'array', items: { type: 'string' }, description: 'Court code, e.g. "HD", "AD"' },
+            year: { type: 'array', items: { type: 'string', pattern: '^\\d{4}$' } },
+            eu_act: { type: 'array', items: { type: 'string' }, description: 'EU document id, e.g. "regulation:2016/679"' },
+          },
+        },
+        limit: { type: 'number', default: 20, minimum: 1, maximum: 100, description: 'Maximum hits to return' },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'get_definition',
+    description: `Look up the statutory definition of a legal term (e.g. "personuppgift", "arbetstagare"). Returns the governing definition with its source provision, statute and English term, every other definition ranked by statute scope (the statute in question, then statutes it refers to, then specific before general laws), and the statutes that define the term differently. Inflected forms match.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        term: { type: 'string', minLength: 1, description: 'Term to define, in any inflection' },
+        document_id: { type: 'string', description: 'Statute the question concerns (SFS number or name); its own definition ranks first' },
+      },
+      required: ['term'],
+    },
+  },
+  {
+    name: 'search_definitions',
+    description: `Full-text search across statutory definitions (terms and definition text). Results are ranked by statute scope, then relevance, and list statutes with conflicting definitions of the same term. Use get_definition when the exact term is known.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', minLength: 1, description: 'Search query. Supports FTS5 syntax.' },
+        document_id: { type: 'string', description: 'Statute in context (SFS number or name); its definitions and those of statutes it refers to rank first' },
+        limit: { type: 'number', default: 10, minimum: 1, maximum: 50, description: 'Maximum results to return' },
       },
       required: ['query'],
     },
   },
+  {
+    name: 'get_cross_references',
+    description: `Get the reference graph around a statute or provision: outgoing references (what it cites), incoming references (which provisions point to it, e.g. to BrB 4 kap. 9 c §), each with ref_type and resolved document and provision titles. Set depth > 1 to follow references transitively, e.g. for amendment impact analysis.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        document_id: { type: 'string', description: 'SFS number (e.g., "1962:700") or statute name (e.g., "BrB")' },
+        provision_ref: { type: 'string', description: 'Provision reference: "4:9 c" or "4 kap. 9 c §". Omit for the whole statute.' },
+        direction: { type: 'string', enum: ['outgoing', 'incoming', 'both'], default: 'both', description: 'Which references to return' },
+        ref_types: {
+          type: 'array',
+          items: { type: 'string', enum: ['references', 'amended_by', 'implements', 'see_also'] },
+          description: 'Only follow these reference types (default: all)',
+        },
+        depth: { type: 'number', default: 1, minimum: 1, maximum: 5, description: 'Steps to follow through the graph' },
+      },
+      required: ['document_id'],
+    },
+  },
+  {
+    name: 'analyze_amendment_impact',
+    description: `Analyze what an amendment affects. Give an amending SFS number (e.g., "2021:1174") to start from every provision it changed, or a single provision. Returns, grouped by statute with a severity hint (high/medium/low): the changed provisions, provisions that refer to them, case law citing them, definitions they contain and their EU law links.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        amending_sfs: { type: 'string', description: 'SFS number of the amending statute (e.g., "2021:1174")' },
+        document_id: { type: 'string', description: 'Statute of a single changed provision, instead of amending_sfs' },
+        provision_ref: { type: 'string', description: 'The changed provision, e.g. "3:1" or "3 kap. 1 §"' },
+        depth: { type: 'number', default: 1, minimum: 1, maximum: 3, description: 'Steps to follow references back from the changed provisions' },
+      },
+    },
+  },
+  {
+    name: 'get_amendment_history',
+    description: `Get the amendment chain of a statute from the SFS amendment register: each amending SFS with the provisions it changed (ändr./ny/upph.), publication and in-force dates, and the linked proposition, committee report (bet.) and riksdag communication (rskr.). Filter by provision to see only the amendments that touched it.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        document_id: { type: 'string', description: 'SFS number (e.g., "2018:218") or statute name (e.g., "DSL")' },
+        provision_ref: { type: 'string', description: 'Only amendments that changed this provision, e.g. "3:1" or "3 kap. 1 §"' },
+      },
+      required: ['document_id'],
+    },
+  },
+  {
+    name: 'get_transitional_provisions',
+    description: `Get the transitional provisions (övergångsbestämmelser) relevant to a statute or provision: the rules of each act that mention the provision or changed it, and the statute's own general rules. Flags rules that keep earlier wording or a repealed act applicable. With as_of_date, only acts in force on that date.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        document_id: { type: 'string', description: 'SFS number (e.g., "2018:218") or statute name (e.g., "DSL")' },
+        provision_ref: { type: 'string', description: 'Provision, e.g. "3:1" or "3 kap. 1 §"' },
+        as_of_date: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$', description: 'Only acts in force on this date (YYYY-MM-DD)' },
+      },
+      required: ['document_id'],
+    },
+  },
+  {
+    name: 'get_upcoming_changes',
+    description: `List statutes and provisions that have not yet entered into force: statutes with a future in-force date and provision versions with a future valid_from, each provision with its future wording next to the current wording. Filter by date window, statute and EU-linked status.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        from_date: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$', description: 'Changes after this date (YYYY-MM-DD, default today)' },
+        to_date: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$', description: 'Changes up to and including this date (YYYY-MM-DD)' },
+        document_id: { type: 'string', description: 'Only this statute: SFS number (e.g., "2018:218") or statute name' },
+        eu_linked: { type: 'boolean', description: 'true: only statutes linked to EU law; false: only statutes without EU links' },
+        limit: { type: 'number', default: 50, minimum: 1, maximum: 200, description: 'Maximum changes to return' },
+      },
+    },
+  },
+  {
+    name: 'get_statute_structure',
+    description: `Get the table of contents of a statute in one call: avdelningar (parts), chapters with headings and provision ranges, and sections with their titles, nested. Marks repealed sections and chapters ("Har upphävts genom lag ...") and vacant (skipped) numbers. Use to find your way around large statutes such as Miljöbalken before calling get_provision.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        document_id: { type: 'string', description: 'SFS number (e.g., "1998:808") or statute name (e.g., "miljöbalken")' },
+        chapter: { type: 'string', description: 'Only this chapter (e.g., "9")' },
+        include_sections: { type: 'boolean', default: true, description: 'List the sections of each chapter; false returns chapters only' },
+      },
+      required: ['document_id'],
+    },
+  },
+  {
+    name: 'verify_document_citations',
+    description: `Check every legal reference in a text (plain text or Markdown, e.g. a memo or draft opinion) in one call. Finds SFS citations ("3 kap. 5 § dataskyddslagen (2018:218)", "5 a § PUL"), preparatory works, riksdag documents, case law, ECLI and EU acts, and returns for each its character span, normalised citation, whether the document and provision exist, and currency: repealed, amended, not yet in force. Flags provisions cited as they read before an amendment ("i dess lydelse före SFS 2020:1010"). Bare provisions without a statute ("5 §") are reported as unverifiable. Use validate_citation for a single citation.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        text: { type: 'string', minLength: 1, maxLength: 200000, description: 'Text to check (plain text or Markdown)' },
+      },
+      required: ['text'],
+    },
+  },
+  {
+    name: 'link_citations',
+    description: `Return a text with every recognised legal citation turned into a link: Markdown links, HTML anchors, or (json) a list of citation spans with their targets. Statutes link to riksdagen.se, cases to lagen.nu (ECLI through EUR-Lex or e-Justice), EU acts to EUR-Lex; stored document urls are preferred. Use verify_document_citations to check the citations instead.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        text: { type: 'string', minLength: 1, maxLength: 200000, description: 'Plain text or Markdown' },
+        format: { type: 'string', enum: ['markdown', 'html', 'json'], default: 'markdown', description: 'Output format' },
+      },
+      required: ['text'],
+    },
+  },
+  {
+    name: 'export_citations',
+    description: `Export citations as bibliography records for a reference manager: CSL-JSON (Zotero, Mendeley, pandoc), BibTeX (biblatex @legislation, @jurisdiction and @report entries) or RIS. Records for statutes, bills, SOUs, Ds, case law and EU acts carry the title, issuing or decision date and url, and for cases the court and case number. Citations not in the database are listed instead of exported.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        citations: {
+          type: 'array',
+          items: { type: 'string', minLength: 1 },
+          minItems: 1,
+          maxItems: 500,
+          description: 'Citations to export (e.g., ["SFS 2018:218", "NJA 2020 s. 45", "prop. 2017/18:105"])',
+        },
+        format: { type: 'string', enum: ['csl-json', 'bibtex', 'ris'], default: 'csl-json', description: 'Export format' },
+      },
+      required: ['citations'],
+    },
+  },
+  {
+    name: 'get_case',
+    description: `Get a Swedish court decision by citation (e.g., "NJA 2020 s. 45", "HFD 2019 ref. 12") or case number: court, date, summary and, where the dataset tier includes full judgments, the full text split into headnotes, ruling, the court's reasoning and dissenting opinions. Use search_case_law to find cases.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        case_id: { type: 'string', minLength: 1, description: 'Case citation, stored id, or case number (e.g., "T 1234-19")' },
+        include_full_text: { type: 'boolean', default: false, description: 'Include the unsplit judgment text; the split sections are always returned' },
+      },
+      required: ['case_id'],
+    },
+  },
   {
     name: 'format_citation',
-    description: `Format a Swedish legal citation (full, short, or pinpoint). Do NOT use to verify existence — use validate_citation instead.`,
+    description: `Format a Swedish legal citation (full, short, or pinpoint), or in a style profile: academic (Juridisk Tidskrift, full statute and report titles), government (Myndigheternas skrivregler), english (English titles for international briefs) or oscola (Swedish law cited as foreign law). Works for statutes, bills, SOUs, Ds, case law and EU acts. Do NOT use to verify existence — use validate_citation instead.`,
     inputSchema: {
       type: 'object',
       properties: {
         citation: { type: 'string', minLength: 1, description: 'Citation string to format (e.g., "2018:218 3:5")' },
-        format: { type: 'string', enum: ['full', 'short', 'pinpoint'], default: 'full', description: 'Output format' },
+        format: { type: 'string', enum: ['full', 'short', 'pinpoint'], default: 'full', description: 'Output format (standard style)' },
+        style: { type: 'string', enum: ['standard', 'academic', 'government', 'english', 'oscola'], default: 'standard', description: 'Citation style profile' },
       },
       required: ['citation'],
     },
@@ -271,7 +490,9 @@ export const TOOLS: Tool[] = [
     name: 'diff_provision',
     description:
       'Shows what changed in a Swedish statute provision between two dates. ' +
-      'Returns a unified diff and change summary. ' +
+      'Word-level diff aligned on stycken and punkter: inserted and deleted words, ' +
+      'renumbered points and moved paragraphs, as unified text, JSON operations or HTML with <ins>/<del>. ' +
+      'Text stored without stycke breaks is aligned on sentences, labelled "mening N". ' +
       'Premium feature — requires Ansvar Intelligence Portal.',
     inputSchema: {
       type: 'object',
@@ -292,6 +513,12 @@ export const TOOLS: Tool[] = [
           type: 'string',
           description: 'End date in ISO format (defaults to today)',
         },
+        format: {
+          type: 'string',
+          enum: ['unified', 'json', 'html'],
+          default: 'unified',
+          description: 'Diff output: unified text, JSON operations, or HTML with <ins>/<del> markup',
+        },
       },
       required: ['document_id', 'provision_ref', 'from_date'],
     },
@@ -353,6 +580,9 @@ export function registerTools(
         case 'get_provision':
           result = await getProvision(db, args as unknown as GetProvisionInput);
           break;
+        case 'get_provision_at_date':
+          result = await getProvisionAtDateTool(db, args as unknown as GetProvisionAtDateToolInput);
+          break;
         case 'search_case_law':
           result = await searchCaseLaw(db, args as unknown as SearchCaseLawInput);
           break;
@@ -365,8 +595,47 @@ export function registerTools(
         case 'build_legal_stance':
           result = await buildLegalStance(db, args as unknown as BuildLegalStanceInput);
           break;
+        case 'search_all':
+          result = await searchAll(db, args as unknown as SearchAllInput);
+          break;
+        case 'get_definition':
+          result = await getDefinition(db, args as unknown as GetDefinitionInput);
+          break;
+        case 'search_definitions':
+          result = await searchDefinitions(db, args as unknown as SearchDefinitionsInput);
+          break;
+        case 'get_cross_references':
+          result = await getCrossReferences(db, args as unknown as GetCrossReferencesInput);
+          break;
+        case 'analyze_amendment_impact':
+          result = await analyzeAmendmentImpact(db, args as unknown as AnalyzeAmendmentImpactInput);
+          break;
+        case 'get_amendment_history':
+          result = await getAmendmentHistory(db, args as unknown as GetAmendmentHistoryInput);
+          break;
+        case 'get_transitional_provisions':
+          result = await getTransitionalProvisions(db, args as unknown as GetTransitionalProvisionsInput);
+          break;
+        case 'get_upcoming_changes':
+          result = await getUpcomingChanges(db, args as unknown as GetUpcomingChangesInput);
+          break;
+        case 'get_statute_structure':
+          result = await getStatuteStructure(db, args as unknown as GetStatuteStructureInput);
+          break;
+        case 'verify_document_citations':
+          result = await verifyDocumentCitations(db, args as unknown as VerifyDocumentCitationsInput);
+          break;
+        case 'link_citations':
+          result = await linkCitations(db, args as unknown as LinkCitationsInput);
+          break;
+        case 'export_citations':
+          result = await exportCitations(db, args as unknown as ExportCitationsInput);
+          break;
+        case 'get_case':
+          result = await getCase(db, args as unknown as GetCaseInput);
+          break;
         case 'format_citation':
-          result = await formatCitationTool(args as unknown as FormatCitationInput);
+          result = await formatCitationTool(args as unknown as FormatCitationInput, db);
           break;
         case 'check_currency':
           result = await checkCurrency(db, args as unknown as CheckCurrencyInput);
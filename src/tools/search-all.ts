@@ -0,0 +1,400 @@
+/**
+ * search_all — One search across statutes, case law, preparatory works,
+ * definitions and EU acts, with facet counts.
+ *
+ * Each corpus is searched with its own FTS5 index (EU acts, which have none,
+ * by substring match). BM25 scores from different indexes are not comparable,
+ * so the per-corpus rankings are merged with reciprocal rank fusion.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import { buildFtsQueryVariants } from '../utils/fts-query.js';
+import { expandQuery } from '../utils/thesaurus.js';
+import { reciprocalRankFusion } from '../utils/rank-fusion.js';
+import { generateResponseMetadata, queryStrategyMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export type SearchCorpus = 'statutes' | 'case_law' | 'preparatory_works' | 'definitions' | 'eu';
+
+export const SEARCH_CORPORA: SearchCorpus[] = ['statutes', 'case_law', 'preparatory_works', 'definitions', 'eu'];
+
+export type FacetName = 'corpus' | 'document_type' | 'status' | 'court' | 'year' | 'eu_act';
+
+export const FACET_NAMES: FacetName[] = ['corpus', 'document_type', 'status', 'court', 'year', 'eu_act'];
+
+export interface SearchAllInput {
+  query: string;
+  /**
+   * Facet filters: values as returned in `facets`. Values within one facet
+   * are alternatives (OR); different facets must all match (AND).
+   */
+  filters?: Partial<Record<FacetName, string[]>>;
+  limit?: number;
+}
+
+export interface SearchAllHit {
+  corpus: SearchCorpus;
+  document_id: string;
+  title: string;
+  /** Provision for statute hits; defining provision for definitions */
+  provision_ref: string | null;
+  snippet: string;
+  document_type: string | null;
+  status: string | null;
+  court: string | null;
+  year: string | null;
+  /** EU acts (eu_documents ids) the hit is linked to */
+  eu_acts: string[];
+  /** Negated fusion score, lower is better */
+  relevance: number;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface SearchAllResult {
+  /** Matches after filtering, across all corpora */
+  total: number;
+  hits: SearchAllHit[];
+  /** Counts over all filtered matches, not just the returned hits */
+  facets: Record<FacetName, FacetCount[]>;
+}
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+/** Matches read per corpus; facet counts cover at most this many per corpus. */
+const CANDIDATE_LIMIT = 500;
+
+const CORPUS_TABLES: Record<SearchCorpus, string> = {
+  statutes: 'provisions_fts',
+  case_law: 'case_law_fts',
+  preparatory_works: 'prep_works_fts',
+  definitions: 'definitions_fts',
+  eu: 'eu_documents',
+};
+
+type Candidate = Omit<SearchAllHit, 'relevance'>;
+
+interface CandidateRow {
+  id: number | string;
+  document_id: string;
+  title: string;
+  provision_ref: string | null;
+  snippet: string;
+  document_type: string | null;
+  status: string | null;
+  court: string | null;
+  year: string | null;
+}
+
+const FTS_QUERIES: Record<Exclude<SearchCorpus, 'eu'>, string> = {
+  statutes: `
+    SELECT
+      lp.id,
+      lp.document_id,
+      ld.title,
+      lp.provision_ref,
+      snippet(provisions_fts, 0, '>>>', '<<<', '...', 32) as snippet,
+      ld.type as document_type,
+      ld.status,
+      NULL as court,
+      COALESCE(substr(ld.issued_date, 1, 4), substr(lp.document_id, 1, 4)) as year
+    FROM provisions_fts
+    JOIN legal_provisions lp ON lp.id = provisions_fts.rowid
+    JOIN legal_documents ld ON ld.id = lp.document_id
+    WHERE provisions_fts MATCH ?
+    ORDER BY bm25(provisions_fts)
+    LIMIT ?
+  `,
+  // LEFT JOIN as in search_case_law: case ids are often missing from legal_documents.
+  case_law: `
+    SELECT
+      cl.id,
+      cl.document_id,
+      COALESCE(ld.title, cl.case_number, cl.document_id) as title,
+      NULL as provision_ref,
+      snippet(case_law_fts, 0, '>>>', '<<<', '...', 32) as snippet,
+      'case_law' as document_type,
+      ld.status,
+      cl.court,
+      substr(cl.decision_date, 1, 4) as year
+    FROM case_law_fts
+    JOIN case_law cl ON cl.id = case_law_fts.rowid
+    LEFT JOIN legal_documents ld ON ld.id = cl.document_id
+    WHERE case_law_fts MATCH ?
+    ORDER BY bm25(case_law_fts)
+    LIMIT ?
+  `,
+  preparatory_works: `
+    SELECT
+      pw.id,
+      pw.prep_document_id as document_id,
+      COALESCE(pw.title, ld.title, pw.prep_document_id) as title,
+      NULL as provision_ref,
+      snippet(prep_works_fts, 1, '>>>', '<<<', '...', 32) as snippet,
+      ld.type as document_type,
+      ld.status,
+      NULL as court,
+      COALESCE(substr(ld.issued_date, 1, 4), substr(pw.prep_document_id, 1, 4)) as year
+    FROM prep_works_fts
+    JOIN preparatory_works pw ON pw.id = prep_works_fts.rowid
+    LEFT JOIN legal_documents ld ON ld.id = pw.prep_document_id
+    WHERE prep_works_fts MATCH ?
+    ORDER BY bm25(prep_works_fts)
+    LIMIT ?
+  `,
+  definitions: `
+    SELECT
+      d.id,
+      d.document_id,
+      d.term || ' (' || ld.title || ')' as title,
+      d.source_provision as provision_ref,
+      snippet(definitions_fts, 1, '>>>', '<<<', '...', 32) as snippet,
+      ld.type as document_type,
+      ld.status,
+      NULL as court,
+      COALESCE(substr(ld.issued_date, 1, 4), substr(d.document_id, 1, 4)) as year
+    FROM definitions_fts
+    JOIN definitions d ON d.id = definitions_fts.rowid
+    JOIN legal_documents ld ON ld.id = d.document_id
+    WHERE definitions_fts MATCH ?
+    ORDER BY bm25(definitions_fts)
+    LIMIT ?
+  `,
+};
+
+/**
+ * Words of the query for substring matching of EU acts, with FTS5 operators
+ * and punctuation removed.
+ */
+function euSearchWords(query: string): string[] {
+  return query
+    .replace(/["()*^:]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 0 && !/^(AND|OR|NOT|NEAR)$/.test(word));
+}
+
+function searchEuActs(db: Database, words: string[], matchAll: boolean): CandidateRow[] {
+  if (words.length === 0) return [];
+
+  const fields = `COALESCE(ed.title, '') || ' ' || COALESCE(ed.title_sv, '') || ' ' ||
+    COALESCE(ed.short_name, '') || ' ' || COALESCE(ed.celex_number, '') || ' ' || COALESCE(ed.description, '')`;
+  const conditions = words.map(() => `(${fields}) LIKE ?`).join(matchAll ? ' AND ' : ' OR ');
+
+  return db.prepare(`
+    SELECT
+      ed.id,
+      ed.id as document_id,
+      COALESCE(ed.title_sv, ed.title, ed.short_name, ed.id) as title,
+      NULL as provision_ref,
+      substr(COALESCE(ed.description, ed.title, ed.title_sv, ''), 1, 320) as snippet,
+      ed.type as document_type,
+      CASE WHEN ed.in_force = 0 THEN 'repealed' ELSE 'in_force' END as status,
+      NULL as court,
+      CAST(ed.year AS TEXT) as year
+    FROM eu_documents ed
+    WHERE ${conditions}
+    ORDER BY ed.year DESC, ed.number DESC
+    LIMIT ?
+  `).all(...words.map(word => `%${word}%`), CANDIDATE_LIMIT) as CandidateRow[];
+}
+
+/** EU acts linked to provisions, whole documents and cases, for the eu_act facet. */
+function loadEuLinks(db: Database): {
+  byProvision: Map<number, string[]>;
+  byDocument: Map<string, string[]>;
+} {
+  const byProvision = new Map<number, string[]>();
+  const byDocument = new Map<string, string[]>();
+  const rows = db.prepare(`
+    SELECT DISTINCT source_type, source_id, document_id, provision_id, eu_document_id
+    FROM eu_references
+  `).all() as {
+    source_type: string;
+    source_id: string;
+    document_id: string;
+    provision_id: number | null;
+    eu_document_id: string;
+  }[];
+
+  const add = <K>(map: Map<K, string[]>, key: K, act: string) => {
+    const acts = map.get(key) ?? [];
+    if (!acts.includes(act)) acts.push(act);
+    map.set(key, acts);
+  };
+
+  for (const row of rows) {
+    if (row.provision_id !== null) {
+      add(byProvision, row.provision_id, row.eu_document_id);
+    } else if (row.source_type === 'case_law') {
+      add(byDocument, row.source_id, row.eu_document_id);
+    } else {
+      add(byDocument, row.document_id, row.eu_document_id);
+    }
+  }
+  return { byProvision, byDocument };
+}
+
+/** Identity of a hit; repeated rows (e.g. a bill linked to several statutes) collapse. */
+function hitKey(hit: Pick<Candidate, 'document_id' | 'provision_ref' | 'title'>): string {
+  return `${hit.document_id}::${hit.provision_ref ?? ''}::${hit.title}`;
+}
+
+function facetValue(hit: Candidate, facet: FacetName): string[] {
+  switch (facet) {
+    case 'corpus':
+      return [hit.corpus];
+    case 'eu_act':
+      return hit.eu_acts;
+    default: {
+      const value = hit[facet];
+      return value ? [value] : [];
+    }
+  }
+}
+
+function matchesFilters(hit: Candidate, filters: Partial<Record<FacetName, string[]>>): boolean {
+  return FACET_NAMES.every(facet => {
+    const wanted = filters[facet];
+    if (!wanted || wanted.length === 0) return true;
+    return facetValue(hit, facet).some(value => wanted.includes(value));
+  });
+}
+
+function countFacets(hits: Candidate[]): Record<FacetName, FacetCount[]> {
+  const facets = {} as Record<FacetName, FacetCount[]>;
+  for (const facet of FACET_NAMES) {
+    const counts = new Map<string, number>();
+    for (const hit of hits) {
+      for (const value of facetValue(hit, facet)) {
+        counts.set(value, (counts.get(value) ?? 0) + 1);
+      }
+    }
+    facets[facet] = [...counts]
+      .map(([value, count]) => ({ value, count }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+  }
+  return facets;
+}
+
+export async function searchAll(
+  db: Database,
+  input: SearchAllInput
+): Promise<ToolResponse<SearchAllResult>> {
+  const emptyResult: SearchAllResult = { total: 0, hits: [], facets: countFacets([]) };
+  if (!input.query || input.query.trim().length === 0) {
+    return {
+      results: emptyResult,
+      _meta: generateResponseMetadata(db),
+    };
+  }
+
+  const limit = Math.min(Math.max(input.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+  const filters = input.filters ?? {};
+  let queryVariants = buildFtsQueryVariants(input.query, expandQuery(db, input.query));
+
+  const tables = new Set(
+    (db.prepare("SELECT name FROM sqlite_master WHERE type IN ('table', 'view')").all() as { name: string }[])
+      .map(row => row.name)
+  );
+  const corpora = SEARCH_CORPORA.filter(corpus =>
+    tables.has(CORPUS_TABLES[corpus])
+    && (!filters.corpus?.length || filters.corpus.includes(corpus))
+  );
+  const euLinks = tables.has('eu_references')
+    ? loadEuLinks(db)
+    : { byProvision: new Map<number, string[]>(), byDocument: new Map<string, string[]>() };
+  const euWords = euSearchWords(input.query);
+
+  const runQuery = (ftsQuery: string, broadened: boolean): Map<SearchCorpus, Candidate[]> => {
+    const rankings = new Map<SearchCorpus, Candidate[]>();
+    for (const corpus of corpora) {
+      const rows = corpus === 'eu'
+        ? searchEuActs(db, euWords, !broadened)
+        : db.prepare(FTS_QUERIES[corpus]).all(ftsQuery, CANDIDATE_LIMIT) as CandidateRow[];
+
+      const seen = new Set<string>();
+      const candidates: Candidate[] = [];
+      for (const { id, ...row } of rows) {
+        const key = hitKey(row);
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        let euActs: string[];
+        if (corpus === 'eu') {
+          euActs = [row.document_id];
+        } else if (corpus === 'statutes') {
+          euActs = [...new Set([
+            ...(euLinks.byProvision.get(id as number) ?? []),
+            ...(euLinks.byDocument.get(row.document_id) ?? []),
+          ])];
+        } else if (corpus === 'preparatory_works') {
+          euActs = [];
+        } else {
+          euActs = euLinks.byDocument.get(row.document_id) ?? [];
+        }
+        candidates.push({ corpus, ...row, eu_acts: euActs });
+      }
+      rankings.set(corpus, candidates);
+    }
+    return rankings;
+  };
+
+  const countMatches = (rankings: Map<SearchCorpus, Candidate[]>) =>
+    [...rankings.values()].reduce((total, ranking) => total + ranking.length, 0);
+
+  let rankings: Map<SearchCorpus, Candidate[]>;
+  let syntaxNote: string | undefined;
+  try {
+    rankings = runQuery(queryVariants.primary, false);
+  } catch {
+    // SQLite rejects malformed explicit syntax ("a AND OR b", an unclosed quote, a bare "*"):
+    // search for the query's words instead
+    const words = euWords.filter(word => !/^(AND|OR|NOT|NEAR)$/i.test(word)).join(' ');
+    if (!words) {
+      return {
+        results: emptyResult,
+        _meta: {
+          ...generateResponseMetadata(db),
+          note: `"${input.query}" is not a valid FTS5 query and has no words to search for.`,
+        },
+      };
+    }
+    queryVariants = buildFtsQueryVariants(words, expandQuery(db, words));
+    rankings = runQuery(queryVariants.primary, false);
+    syntaxNote = `"${input.query}" is not a valid FTS5 query; searched for its words instead: ${words}.`;
+  }
+  let usedFallback = false;
+  if (countMatches(rankings) === 0 && queryVariants.fallback) {
+    rankings = runQuery(queryVariants.fallback, true);
+    usedFallback = countMatches(rankings) > 0;
+  }
+
+  const truncated = [...rankings].filter(([, ranking]) => ranking.length >= CANDIDATE_LIMIT).map(([corpus]) => corpus);
+  const filtered = [...rankings.values()].map(ranking => ranking.filter(hit => matchesFilters(hit, filters)));
+  const matches = filtered.flat();
+
+  const notes = syntaxNote ? [syntaxNote] : [];
+  if (truncated.length > 0) {
+    notes.push(`Facet counts cover the ${CANDIDATE_LIMIT} best matches in: ${truncated.join(', ')}. Narrow the query for exact counts.`);
+  }
+
+  const hits = reciprocalRankFusion(filtered, hit => `${hit.corpus}::${hitKey(hit)}`)
+    .slice(0, limit)
+    .map(({ item, score }) => ({ ...item, relevance: -score }));
+
+  return {
+    results: {
+      total: matches.length,
+      hits,
+      facets: countFacets(matches),
+    },
+    _meta: {
+      ...generateResponseMetadata(db),
+      ...(matches.length > 0 ? queryStrategyMetadata(usedFallback, queryVariants.expansions) : {}),
+      ...(notes.length > 0 ? { note: notes.join(' ') } : {}),
+    },
+  };
+}
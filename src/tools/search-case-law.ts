@@ -1,13 +1,24 @@
 /**
  * search_case_law — Full-text search across Swedish court decisions.
+ *
+ * Searches the summaries and keywords of case_law, or with `section` one part
+ * of the full judgments (case_law_full_fts, professional tier).
  */
 
 import type { Database } from '@ansvar/mcp-sqlite';
 import { buildFtsQueryVariants } from '../utils/fts-query.js';
-import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { expandQuery } from '../utils/thesaurus.js';
+import { generateResponseMetadata, queryStrategyMetadata, type ToolResponse } from '../utils/metadata.js';
+
+/** Parts of full judgments that can be searched, in case_law_full_fts column order */
+export const CASE_LAW_SECTIONS = ['headnotes', 'reasoning', 'dissents', 'full_text'] as const;
+
+export type CaseLawSection = typeof CASE_LAW_SECTIONS[number];
 
 export interface SearchCaseLawInput {
   query: string;
+  /** Search this part of the full judgments instead of the summaries */
+  section?: CaseLawSection;
   court?: string;
   date_from?: string;
   date_to?: string;
@@ -32,6 +43,14 @@ export interface CaseLawResult {
 const DEFAULT_LIMIT = 10;
 const MAX_LIMIT = 50;
 
+/** True when the database has the full-judgment index built by build-db-paid. */
+export function hasCaseLawFullIndex(db: Database): boolean {
+  const row = db.prepare(
+    "SELECT name FROM sqlite_master WHERE type='table' AND name='case_law_full_fts'"
+  ).get();
+  return !!row;
+}
+
 export async function searchCaseLaw(
   db: Database,
   input: SearchCaseLawInput
@@ -43,14 +62,42 @@ export async function searchCaseLaw(
     };
   }
 
+  if (input.section && !CASE_LAW_SECTIONS.includes(input.section)) {
+    throw new Error(`section must be one of: ${CASE_LAW_SECTIONS.join(', ')}`);
+  }
+  if (input.section && !hasCaseLawFullIndex(db)) {
+    return {
+      results: [],
+      _meta: {
+        ...generateResponseMetadata(db),
+        note: 'This database has no full-text judgments; search without section to search the summaries',
+      },
+    };
+  }
+
   const limit = Math.min(Math.max(input.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
-  const queryVariants = buildFtsQueryVariants(input.query);
+  const queryVariants = buildFtsQueryVariants(input.query, expandQuery(db, input.query));
 
   // LEFT JOIN: production case_law rows often have document_id values
   // (e.g. "NJA_2020_s45") that are not present in legal_documents. An
   // INNER JOIN drops every such row and silently returns empty results.
   // Title falls back to case_number or document_id when no link exists.
-  let sql = `
+  let sql = input.section ? `
+    SELECT
+      cl.document_id,
+      COALESCE(ld.title, cl.case_number, cl.document_id) as title,
+      cl.court,
+      cl.case_number,
+      cl.decision_date,
+      snippet(case_law_full_fts, ${CASE_LAW_SECTIONS.indexOf(input.section)}, '>>>', '<<<', '...', 32) as summary_snippet,
+      cl.keywords,
+      bm25(case_law_full_fts) as relevance
+    FROM case_law_full_fts
+    JOIN case_law_full clf ON clf.id = case_law_full_fts.rowid
+    JOIN case_law cl ON cl.id = clf.case_law_id
+    LEFT JOIN legal_documents ld ON ld.id = cl.document_id
+    WHERE case_law_full_fts MATCH ?
+  ` : `
     SELECT
       cl.document_id,
       COALESCE(ld.title, cl.case_number, cl.document_id) as title,
@@ -87,7 +134,7 @@ export async function searchCaseLaw(
   params.push(limit);
 
   const runQuery = (ftsQuery: string): CaseLawResult[] => {
-    const bound = [ftsQuery, ...params];
+    const bound = [input.section ? `{${input.section}} : (${ftsQuery})` : ftsQuery, ...params];
     const results = db.prepare(sql).all(...bound) as Omit<CaseLawResult, '_meta'>[];
 
     // Add attribution metadata to each result
@@ -101,12 +148,17 @@ export async function searchCaseLaw(
   };
 
   let results = runQuery(queryVariants.primary);
+  let usedFallback = false;
   if (results.length === 0 && queryVariants.fallback) {
     results = runQuery(queryVariants.fallback);
+    usedFallback = results.length > 0;
   }
 
   return {
     results,
-    _meta: generateResponseMetadata(db)
+    _meta: {
+      ...generateResponseMetadata(db),
+      ...queryStrategyMetadata(usedFallback, queryVariants.expansions),
+    },
   };
 }
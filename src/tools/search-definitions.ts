@@ -0,0 +1,112 @@
+/**
+ * search_definitions — Full-text search across statutory definitions.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import { buildFtsQueryVariants } from '../utils/fts-query.js';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { expandQuery, thesaurusKey } from '../utils/thesaurus.js';
+import {
+  DEFINITION_COLUMNS,
+  definitionConflicts,
+  findDefinitions,
+  rankDefinitions,
+  SCOPE_ORDER,
+  type DefinitionConflict,
+  type DefinitionEntry,
+} from '../utils/definitions.js';
+import { generateResponseMetadata, queryStrategyMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export interface SearchDefinitionsInput {
+  query: string;
+  /** Statute in context: its definitions, then those of statutes it refers to, rank first */
+  document_id?: string;
+  limit?: number;
+}
+
+export interface DefinitionSearchResult extends DefinitionEntry {
+  /** Statutes that define the same term differently */
+  conflicts: DefinitionConflict[];
+}
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+export async function searchDefinitions(
+  db: Database,
+  input: SearchDefinitionsInput
+): Promise<ToolResponse<DefinitionSearchResult[]>> {
+  if (!input.query || input.query.trim().length === 0) {
+    return {
+      results: [],
+      _meta: generateResponseMetadata(db),
+    };
+  }
+
+  const limit = Math.min(Math.max(input.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+  const queryVariants = buildFtsQueryVariants(input.query, expandQuery(db, input.query));
+
+  let contextId: string | undefined;
+  if (input.document_id) {
+    const resolved = resolveDocumentId(db, input.document_id);
+    if (!resolved) {
+      return {
+        results: [],
+        _meta: {
+          ...generateResponseMetadata(db),
+          note: `No document found matching "${input.document_id}"`,
+        },
+      };
+    }
+    contextId = resolved;
+  }
+
+  const sql = `
+    SELECT ${DEFINITION_COLUMNS}
+    FROM definitions_fts
+    JOIN definitions d ON d.id = definitions_fts.rowid
+    JOIN legal_documents ld ON ld.id = d.document_id
+    WHERE definitions_fts MATCH ?
+    ORDER BY bm25(definitions_fts)
+    LIMIT ?
+  `;
+  const runQuery = (ftsQuery: string) =>
+    db.prepare(sql).all(ftsQuery, limit) as Omit<DefinitionEntry, 'scope'>[];
+
+  let rows = runQuery(queryVariants.primary);
+  let usedFallback = false;
+  if (rows.length === 0 && queryVariants.fallback) {
+    rows = runQuery(queryVariants.fallback);
+    usedFallback = rows.length > 0;
+  }
+
+  // Relevance orders terms within a scope; definitions of the same term keep
+  // the scope ranking, so the specific statute's wording comes first.
+  const ranked = rankDefinitions(db, rows, contextId);
+  const termRank = new Map<string, number>();
+  rows.forEach((row, index) => {
+    const key = thesaurusKey(row.term);
+    if (!termRank.has(key)) termRank.set(key, index);
+  });
+  const position = new Map(ranked.map((entry, index) => [entry.id, index]));
+  const results = [...ranked]
+    .sort((a, b) =>
+      SCOPE_ORDER[a.scope] - SCOPE_ORDER[b.scope]
+      || termRank.get(thesaurusKey(a.term))! - termRank.get(thesaurusKey(b.term))!
+      || position.get(a.id)! - position.get(b.id)!
+    )
+    .map(entry => ({
+      ...entry,
+      conflicts: definitionConflicts(
+        [entry, ...findDefinitions(db, entry.term, contextId).filter(other => other.id !== entry.id)],
+      ),
+    }));
+
+  return {
+    results,
+    _meta: {
+      ...generateResponseMetadata(db),
+      ...queryStrategyMetadata(usedFallback, queryVariants.expansions),
+    },
+  };
+}
@@ -6,7 +6,15 @@ import type { Database } from '@ansvar/mcp-sqlite';
 import { buildFtsQueryVariants } from '../utils/fts-query.js';
 import { normalizeAsOfDate } from '../utils/as-of-date.js';
 import { resolveDocumentId } from '../utils/statute-id.js';
-import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { expandQuery } from '../utils/thesaurus.js';
+import {
+  hasVectorIndex,
+  semanticProvisionSearch,
+  NO_VECTOR_INDEX_NOTE,
+  type SearchMode,
+} from '../utils/vector-index.js';
+import { reciprocalRankFusion } from '../utils/rank-fusion.js';
+import { generateResponseMetadata, queryStrategyMetadata, type ToolResponse } from '../utils/metadata.js';
 
 export interface SearchLegislationInput {
   query: string;
@@ -14,6 +22,8 @@ export interface SearchLegislationInput {
   status?: string;
   as_of_date?: string;
   limit?: number;
+  /** lexical (BM25, default), semantic (vector index) or hybrid (both, fused) */
+  mode?: SearchMode;
 }
 
 export interface SearchLegislationResult {
@@ -24,6 +34,7 @@ export interface SearchLegislationResult {
   section: string;
   title: string | null;
   snippet: string;
+  /** BM25 score; in semantic and hybrid mode the negated similarity or fusion score. Lower is better. */
   relevance: number;
   valid_from?: string | null;
   valid_to?: string | null;
@@ -46,7 +57,7 @@ export async function searchLegislation(
   const limit = Math.min(Math.max(input.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
   // Fetch extra rows to account for deduplication
   const fetchLimit = limit * 2;
-  const queryVariants = buildFtsQueryVariants(input.query);
+  const queryVariants = buildFtsQueryVariants(input.query, expandQuery(db, input.query));
   const asOfDate = normalizeAsOfDate(input.as_of_date);
 
   // Resolve document_id from title if provided (same resolution as get_provision)
@@ -163,30 +174,57 @@ export async function searchLegislation(
     return db.prepare(sql).all(...bound) as SearchLegislationResult[];
   };
 
-  const primaryResults = runQuery(queryVariants.primary);
-  if (primaryResults.length > 0) {
+  const runLexical = (): { rows: SearchLegislationResult[]; broadened: boolean } => {
+    const primaryResults = runQuery(queryVariants.primary);
+    if (primaryResults.length > 0 || !queryVariants.fallback) {
+      return { rows: primaryResults, broadened: false };
+    }
+    const fallbackResults = runQuery(queryVariants.fallback);
+    return { rows: fallbackResults, broadened: fallbackResults.length > 0 };
+  };
+
+  const mode = input.mode ?? 'lexical';
+  if (mode === 'lexical' || !hasVectorIndex(db)) {
+    const { rows, broadened } = runLexical();
     return {
-      results: deduplicateResults(primaryResults, limit),
-      _meta: generateResponseMetadata(db),
+      results: deduplicateResults(rows, limit),
+      _meta: {
+        ...generateResponseMetadata(db),
+        ...(rows.length > 0 ? queryStrategyMetadata(broadened, queryVariants.expansions) : {}),
+        ...(mode !== 'lexical' ? { note: NO_VECTOR_INDEX_NOTE } : {}),
+      },
     };
   }
 
-  if (queryVariants.fallback) {
-    const fallbackResults = runQuery(queryVariants.fallback);
-    if (fallbackResults.length > 0) {
-      return {
-        results: deduplicateResults(fallbackResults, limit),
-        _meta: {
-          ...generateResponseMetadata(db),
-          query_strategy: 'broadened',
-        },
-      };
-    }
+  const semanticRows: SearchLegislationResult[] = semanticProvisionSearch(db, input.query, {
+    documentId: resolvedDocId,
+    status: input.status,
+    asOfDate,
+    limit: fetchLimit,
+  });
+
+  if (mode === 'semantic') {
+    return {
+      results: deduplicateResults(semanticRows, limit),
+      _meta: {
+        ...generateResponseMetadata(db),
+        ...queryStrategyMetadata(false, [], 'semantic'),
+      },
+    };
   }
 
+  const { rows: lexicalRows, broadened } = runLexical();
+  const fused = reciprocalRankFusion(
+    [lexicalRows, semanticRows],
+    row => `${row.document_id}::${row.provision_ref}`,
+  ).map(({ item, score }) => ({ ...item, relevance: -score }));
+
   return {
-    results: [],
-    _meta: generateResponseMetadata(db),
+    results: deduplicateResults(fused, limit),
+    _meta: {
+      ...generateResponseMetadata(db),
+      ...queryStrategyMetadata(broadened, queryVariants.expansions, 'hybrid'),
+    },
   };
 }
 
@@ -21,6 +21,8 @@ export interface ValidateCitationResult {
   valid: boolean;
   document_exists: boolean;
   provision_exists: boolean;
+  /** False when the database can neither confirm nor rule out the citation */
+  verifiable?: boolean;
   document_title?: string;
   status?: string;
   warnings: string[];
@@ -54,6 +56,7 @@ export async function validateCitationTool(
       valid: result.citation.valid && result.document_exists && result.provision_exists,
       document_exists: result.document_exists,
       provision_exists: result.provision_exists,
+      ...(result.verifiable === false && { verifiable: false }),
       document_title: result.document_title,
       status: result.status,
       warnings: result.warnings,
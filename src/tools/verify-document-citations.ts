@@ -0,0 +1,252 @@
+/**
+ * verify_document_citations — Find every Swedish and EU legal reference in a
+ * text (plain text or Markdown), validate each against the database and
+ * report its currency: repealed, amended, not yet in force, or cited in a
+ * wording that has since been amended.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import { extractCitations, type ExtractedCitation } from '../citation/extractor.js';
+import { formatCitation } from '../citation/formatter.js';
+import { parseCitation } from '../citation/parser.js';
+import { validateParsedCitation } from '../citation/validator.js';
+import { parseRepealNotice } from '../parsers/amendment-parser.js';
+import type { CitationType, ParsedCitation } from '../types/index.js';
+import { resolveStatuteName } from '../utils/statute-id.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { compareSfsNumbers, hasAmendmentRegister } from './get-amendment-history.js';
+import { oldWordingWarnings } from './get-transitional-provisions.js';
+
+export interface VerifyDocumentCitationsInput {
+  text: string;
+}
+
+export type CitationCurrency = 'in_force' | 'amended' | 'repealed' | 'not_yet_in_force';
+
+/**
+ * verified: found, current, nothing to flag; warning: found, with warnings;
+ * not_found: document or provision missing; unverifiable: no statute given,
+ * or a kind of document the database does not hold or record.
+ */
+export type CitationVerdict = 'verified' | 'warning' | 'not_found' | 'unverifiable';
+
+export interface CitedProvisionAmendment {
+  amending_sfs: string;
+  in_force_date: string | null;
+  change_type: string;
+}
+
+export interface DocumentCitationCheck {
+  /** Character span of the citation in the text */
+  start: number;
+  end: number;
+  text: string;
+  /** Citation in full form; null when the statute is not identified */
+  normalized: string | null;
+  type: CitationType | null;
+  document_id: string | null;
+  provision_ref?: string;
+  document_exists: boolean;
+  provision_exists: boolean;
+  document_title?: string;
+  /** For amending acts known only from the amendment register: the statute they amend */
+  amends?: string;
+  currency?: CitationCurrency;
+  /** Amendments to the cited provision, oldest first */
+  amendments?: CitedProvisionAmendment[];
+  /** The text cites the provision as it read before a later amendment */
+  cites_earlier_wording?: boolean;
+  /** Wording qualifier found after the citation, e.g. "i dess lydelse före SFS 2020:1010" */
+  cited_wording?: string;
+  verdict: CitationVerdict;
+  warnings: string[];
+}
+
+export interface VerifyDocumentCitationsResult {
+  citations: DocumentCitationCheck[];
+  summary: Record<'total' | CitationVerdict, number>;
+}
+
+/** Citation string for parseCitation, resolving a statute named in the text. */
+function citationString(db: Database, found: ExtractedCitation): { citation?: string; warning?: string } {
+  if (found.citation) {
+    return { citation: found.citation };
+  }
+  if (!found.statute_name) {
+    return { warning: `No statute given for "${found.text}"; the provision cannot be verified` };
+  }
+  const documentId = resolveStatuteName(db, found.statute_name);
+  if (!documentId) {
+    return { warning: `Statute "${found.statute_name}" could not be identified; cite it with its SFS number` };
+  }
+  return { citation: `${documentId} ${found.provision}` };
+}
+
+function provisionAmendments(db: Database, documentId: string, provisionRef: string): CitedProvisionAmendment[] {
+  if (!hasAmendmentRegister(db)) return [];
+  const rows = db.prepare(`
+    SELECT a.amending_sfs, a.in_force_date, p.change_type
+    FROM sfs_amendments a
+    JOIN sfs_amendment_provisions p ON p.amendment_id = a.id
+    WHERE a.document_id = ? AND p.provision_ref = ?
+  `).all(documentId, provisionRef) as CitedProvisionAmendment[];
+  return rows.sort((a, b) => compareSfsNumbers(a.amending_sfs, b.amending_sfs));
+}
+
+/** An amending act cited as a whole ("SFS 2018:1248"), which legal_documents does not hold */
+function findAmendingAct(db: Database, parsed: ParsedCitation): { document_id: string; title: string | null } | undefined {
+  if (parsed.type !== 'statute' || parsed.section || !hasAmendmentRegister(db)) return undefined;
+  return db.prepare(
+    'SELECT document_id, title FROM sfs_amendments WHERE amending_sfs = ? ORDER BY id LIMIT 1'
+  ).get(parsed.document_id) as { document_id: string; title: string | null } | undefined;
+}
+
+function checkCitation(db: Database, found: ExtractedCitation, today: string): DocumentCitationCheck {
+  const base = { start: found.start, end: found.end, text: found.text };
+  const { citation, warning } = citationString(db, found);
+  if (!citation) {
+    return {
+      ...base,
+      normalized: null,
+      type: null,
+      document_id: null,
+      document_exists: false,
+      provision_exists: false,
+      verdict: 'unverifiable',
+      warnings: [warning!],
+    };
+  }
+
+  const parsed = parseCitation(citation);
+  const validation = validateParsedCitation(db, parsed);
+  const amendingAct = !validation.document_exists ? findAmendingAct(db, parsed) : undefined;
+  if (amendingAct) {
+    return {
+      ...base,
+      normalized: formatCitation(parsed),
+      type: parsed.type,
+      document_id: parsed.document_id,
+      document_exists: true,
+      provision_exists: true,
+      ...(amendingAct.title && { document_title: amendingAct.title }),
+      amends: amendingAct.document_id,
+      verdict: 'verified',
+      warnings: [],
+    };
+  }
+
+  const warnings = [...validation.warnings];
+  const check: DocumentCitationCheck = {
+    ...base,
+    normalized: formatCitation(parsed),
+    type: parsed.type,
+    document_id: parsed.document_id,
+    document_exists: validation.document_exists,
+    provision_exists: validation.provision_exists,
+    ...(validation.document_title && { document_title: validation.document_title }),
+    verdict: 'verified',
+    warnings,
+  };
+  if (validation.status === 'repealed' || validation.status === 'amended' || validation.status === 'not_yet_in_force') {
+    check.currency = validation.status;
+  } else if (validation.status) {
+    check.currency = 'in_force';
+  }
+
+  // Currency of a single cited provision
+  const provisionRef = parsed.type === 'statute' && parsed.section && !parsed.section_end
+    ? (parsed.chapter ? `${parsed.chapter}:${parsed.section}` : parsed.section)
+    : undefined;
+  if (provisionRef && validation.document_exists && validation.provision_exists) {
+    check.provision_ref = provisionRef;
+    const content = (db.prepare(
+      'SELECT content FROM legal_provisions WHERE document_id = ? AND provision_ref = ?'
+    ).get(parsed.document_id, provisionRef) as { content: string }).content;
+    const repealedBy = parseRepealNotice(content);
+    if (repealedBy) {
+      check.currency = 'repealed';
+      warnings.push(`Provision "${provisionRef}" has been repealed (upphävd) by SFS ${repealedBy}`);
+    }
+
+    const upcoming = db.prepare(`
+      SELECT MIN(valid_from) as valid_from FROM legal_provision_versions
+      WHERE document_id = ? AND provision_ref = ? AND valid_from > ?
+    `).get(parsed.document_id, provisionRef, today) as { valid_from: string | null };
+    if (upcoming.valid_from) {
+      warnings.push(`A new wording of provision "${provisionRef}" enters into force on ${upcoming.valid_from}`);
+    }
+
+    const amendments = provisionAmendments(db, parsed.document_id, provisionRef);
+    const inForce = amendments.filter(entry => !entry.in_force_date || entry.in_force_date <= today);
+    if (amendments.length > 0) {
+      check.amendments = amendments;
+      if (!repealedBy && inForce.some(entry => entry.change_type === 'upph.')) {
+        check.currency = 'repealed';
+      } else if (check.currency === 'in_force' && inForce.length > 0) {
+        check.currency = 'amended';
+      }
+    }
+
+    if (found.wording) {
+      check.cited_wording = found.wording.text;
+      const { relation, amending_sfs: amendingSfs } = found.wording;
+      if (relation === 'according_to' && amendingSfs) {
+        const later = inForce.filter(entry => compareSfsNumbers(entry.amending_sfs, amendingSfs) > 0);
+        check.cites_earlier_wording = later.length > 0;
+        if (later.length > 0) {
+          warnings.push(
+            `Cited in its wording by SFS ${amendingSfs}; amended since by SFS ${later.map(entry => entry.amending_sfs).join(', ')}`
+          );
+        }
+      } else {
+        check.cites_earlier_wording = true;
+        warnings.push(
+          amendingSfs
+            ? `Cited in its wording before SFS ${amendingSfs}; see get_provision_at_date for that wording`
+            : 'Cited in an earlier wording; see get_provision_at_date for the wording at a given date'
+        );
+      }
+      if (amendingSfs && !amendments.some(entry => entry.amending_sfs === amendingSfs)) {
+        warnings.push(`SFS ${amendingSfs} is not recorded as amending provision "${provisionRef}"`);
+      }
+    }
+
+    warnings.push(...oldWordingWarnings(db, parsed.document_id, provisionRef, today));
+  }
+
+  if (validation.verifiable === false) {
+    check.verdict = 'unverifiable';
+  } else if (!validation.document_exists || !validation.provision_exists) {
+    check.verdict = 'not_found';
+  } else if (warnings.length > 0) {
+    check.verdict = 'warning';
+  }
+  return check;
+}
+
+export async function verifyDocumentCitations(
+  db: Database,
+  input: VerifyDocumentCitationsInput
+): Promise<ToolResponse<VerifyDocumentCitationsResult>> {
+  if (!input.text || input.text.trim().length === 0) {
+    throw new Error('text is required');
+  }
+
+  const today = new Date().toISOString().slice(0, 10);
+  const citations = extractCitations(input.text).map(found => checkCitation(db, found, today));
+  const count = (verdict: CitationVerdict) => citations.filter(check => check.verdict === verdict).length;
+
+  return {
+    results: {
+      citations,
+      summary: {
+        total: citations.length,
+        verified: count('verified'),
+        warning: count('warning'),
+        not_found: count('not_found'),
+        unverifiable: count('unverifiable'),
+      },
+    },
+    _meta: generateResponseMetadata(db),
+  };
+}
@@ -9,6 +9,13 @@
  */
 
 import type { Database } from '@ansvar/mcp-sqlite';
+import {
+  diffProvisionText,
+  formatHtmlDiff,
+  formatUnifiedDiff,
+  type DiffOperation,
+  type DiffSummary,
+} from '../utils/provision-diff.js';
 
 // ── Premium gate ─────────────────────────────────────────────────────────────
 
@@ -33,11 +40,15 @@ export interface GetProvisionHistoryInput {
   provision_ref: string;
 }
 
+export type DiffFormat = 'unified' | 'json' | 'html';
+
 export interface DiffProvisionInput {
   document_id: string;
   provision_ref: string;
   from_date: string;
   to_date?: string;
+  /** unified text (default), JSON operations, or HTML with <ins>/<del> */
+  format?: DiffFormat;
 }
 
 export interface GetRecentChangesInput {
@@ -68,16 +79,19 @@ function resolveDocumentId(db: Database, input: string): string {
   throw new Error(`Statute "${input}" not found. Use an SFS number (e.g., "2018:218") or statute title.`);
 }
 
-/**
- * Generate a simple unified diff between two text blocks.
- */
-function generateDiff(oldText: string, newText: string, label: string): string {
-  const oldLines = oldText.split('\n');
-  const newLines = newText.split('\n');
-  const lines: string[] = [`--- a/${label}`, `+++ b/${label}`, `@@ -1,${oldLines.length} +1,${newLines.length} @@`];
-  for (const line of oldLines) lines.push(`-${line}`);
-  for (const line of newLines) lines.push(`+${line}`);
-  return lines.join('\n');
+/** e.g. "1 unit modified, 1 word deleted, 2 words inserted" */
+function describeChanges(summary: DiffSummary): string {
+  const parts: string[] = [];
+  const units: Array<[keyof DiffSummary, string]> = [
+    ['modified', 'modified'], ['inserted', 'inserted'], ['deleted', 'deleted'],
+    ['moved', 'moved'], ['renumbered', 'renumbered'],
+  ];
+  for (const [key, label] of units) {
+    if (summary[key] > 0) parts.push(`${summary[key]} ${summary[key] === 1 ? 'unit' : 'units'} ${label}`);
+  }
+  const words = (count: number) => `${count} ${count === 1 ? 'word' : 'words'}`;
+  parts.push(`${words(summary.words_deleted)} deleted`, `${words(summary.words_inserted)} inserted`);
+  return parts.join(', ');
 }
 
 // ── Tool implementations ─────────────────────────────────────────────────────
@@ -173,19 +187,38 @@ export async function diffProvision(
     );
   }
 
+  const format = input.format ?? 'unified';
+  const label = `${documentId} ${input.provision_ref}`;
   const changed = fromVersion?.content !== toVersion?.content;
+  const structural = changed && fromVersion && toVersion
+    ? diffProvisionText(fromVersion.content, toVersion.content)
+    : null;
+
+  let diff: string | DiffOperation[] | null = null;
+  if (structural) {
+    diff = format === 'json'
+      ? structural.operations
+      : format === 'html'
+        ? formatHtmlDiff(structural)
+        : formatUnifiedDiff(
+          structural,
+          `${label} (${fromVersion!.valid_from ?? input.from_date})`,
+          `${label} (${toVersion!.valid_from ?? toDate})`,
+        );
+  }
 
   return {
     document_id: documentId,
     provision_ref: input.provision_ref,
     from_date: input.from_date,
     to_date: toDate,
-    diff: changed && fromVersion && toVersion
-      ? generateDiff(fromVersion.content, toVersion.content, `${documentId}_${input.provision_ref}`)
-      : null,
+    format,
+    diff,
     change_summary: changed
-      ? `Text changed between ${input.from_date} and ${toDate}`
+      ? `Text changed between ${input.from_date} and ${toDate}` +
+        (structural ? `: ${describeChanges(structural.summary)}` : '')
       : `No changes between ${input.from_date} and ${toDate}`,
+    changes: structural?.summary ?? null,
     from_version: fromVersion ? { valid_from: fromVersion.valid_from, valid_to: fromVersion.valid_to } : null,
     to_version: toVersion ? { valid_from: toVersion.valid_from, valid_to: toVersion.valid_to } : null,
   };
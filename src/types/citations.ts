@@ -3,19 +3,45 @@
  */
 
 import type { DocumentType, DocumentStatus } from './documents.js';
+import type { EUCommunity } from './eu-references.js';
 
 /** Supported citation formats */
 export type CitationFormat = 'full' | 'short' | 'pinpoint';
 
+/**
+ * Citation style profiles:
+ *   - standard:   the formats above
+ *   - academic:   Juridisk Tidskrift style with full statute and report titles
+ *   - government: Myndigheternas skrivregler (Regeringskansliet)
+ *   - english:    English-language references using English titles
+ *   - oscola:     OSCOLA-style citation of Swedish law as foreign law
+ */
+export type CitationStyle = 'standard' | 'academic' | 'government' | 'english' | 'oscola';
+
+/**
+ * Kinds of citable documents: the document types of legal_documents, plus
+ * riksdag documents known only from the amendment register (bet., rskr.),
+ * committee directives (Dir.) and EU acts.
+ */
+export type CitationType =
+  | DocumentType
+  | 'committee_report'
+  | 'riksdag_communication'
+  | 'committee_directive'
+  | 'eu_act';
+
 /** Result of parsing a citation string */
 export interface ParsedCitation {
   /** Original citation string */
   raw: string;
 
   /** Detected document type */
-  type: DocumentType;
+  type: CitationType;
 
-  /** Document identifier (SFS number, case ref, prop number) */
+  /**
+   * Document identifier (SFS number, case ref, prop number, ECLI); for EU
+   * acts the eu_documents id, e.g. "regulation:2016/679"
+   */
   document_id: string;
 
   /** Chapter reference (if any) */
@@ -24,9 +50,27 @@ export interface ParsedCitation {
   /** Section/paragraph reference (if any) */
   section?: string;
 
-  /** Page reference for case law (e.g., "s. 45") */
+  /** Last section of a range (e.g., "7" for "5–7 §§") */
+  section_end?: string;
+
+  /** Stycke number within the section (e.g., 1 for "första stycket") */
+  stycke?: number;
+
+  /** Punkt number within the stycke (e.g., 2 for "första stycket 2") */
+  punkt?: number;
+
+  /** Page reference for case law and preparatory works (e.g., "45" for "s. 45"), or the case number */
   page?: string;
 
+  /** EU act article pinpoint (e.g., "6.1 c") */
+  article?: string;
+
+  /** EU act CELEX number (e.g., "32016R0679") */
+  celex?: string;
+
+  /** EU act community designation as cited (e.g., "EG" in "direktiv 95/46/EG") */
+  community?: EUCommunity;
+
   /** Whether parsing succeeded */
   valid: boolean;
 
@@ -45,6 +89,9 @@ export interface ValidationResult {
   /** Whether the specific provision exists (if cited) */
   provision_exists: boolean;
 
+  /** False when the database can neither confirm nor rule out the citation */
+  verifiable?: boolean;
+
   /** Current document status */
   status?: DocumentStatus;
 
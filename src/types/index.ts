@@ -13,6 +13,8 @@ export type {
 
 export type {
   CitationFormat,
+  CitationStyle,
+  CitationType,
   ParsedCitation,
   ValidationResult,
 } from './citations.js';
@@ -15,7 +15,7 @@ export interface CitationMetadata {
   source_url?: string;
   lookup: {
     tool: string;
-    args: Record<string, string>;
+    args: Record<string, string | number>;
   };
 }
 
@@ -29,6 +29,7 @@ export interface CitationMetadata {
  * @param inputSection   The section argument as passed by the caller (e.g., "art-34")
  * @param sourceUrl      Official portal URL for this law (optional)
  * @param shortName      Short name / alias (e.g., "DSL") (optional)
+ * @param subdivision    Stycke or punkt returned instead of the whole section (optional)
  */
 export function buildProvisionCitation(
   documentId: string,
@@ -38,6 +39,7 @@ export function buildProvisionCitation(
   inputSection: string,
   sourceUrl?: string | null,
   shortName?: string | null,
+  subdivision?: { stycke?: number; punkt?: number; label: string },
 ): CitationMetadata {
   // Build canonical_ref from the SFS number format
   // DB id "2018:218" -> "SFS 2018:218" (Swedish statute format)
@@ -49,7 +51,9 @@ export function buildProvisionCitation(
   const sectionLabel = provisionRef.includes(':')
     ? `${provisionRef.split(':')[0]} kap. ${provisionRef.split(':')[1]} §`
     : `${provisionRef} §`;
-  const displayText = `${sectionLabel} ${canonicalRef}`;
+  const displayText = subdivision
+    ? `${sectionLabel} ${subdivision.label} ${canonicalRef}`
+    : `${sectionLabel} ${canonicalRef}`;
 
   // Build aliases from document title and short name
   const aliases: string[] = [];
@@ -64,7 +68,12 @@ export function buildProvisionCitation(
     ...(sourceUrl && { source_url: sourceUrl }),
     lookup: {
       tool: 'get_provision',
-      args: { document_id: inputDocId, section: inputSection },
+      args: {
+        document_id: inputDocId,
+        section: inputSection,
+        ...(subdivision?.stycke !== undefined && { stycke: subdivision.stycke }),
+        ...(subdivision?.punkt !== undefined && { punkt: subdivision.punkt }),
+      },
     },
   };
 }
@@ -0,0 +1,180 @@
+/**
+ * Swedish compound-word decomposition for FTS indexing and querying.
+ *
+ * Swedish writes compounds as one word ("arbetsgivaransvar") where the same
+ * concept is often phrased as separate words elsewhere ("arbetsgivarens
+ * ansvar"). The splitter decomposes a word into parts from a lexicon of
+ * simplex legal vocabulary, tolerating linking morphemes ("arbet-s-givare",
+ * "kvinn-o-jour") and inflected final parts ("-ansvaret").
+ *
+ * Matching is done on Snowball stems, so truncated heads ("skol-" from
+ * "skola") resolve to the same lexicon entry as the full word.
+ */
+
+import { stemSwedish } from './swedish-stemmer.js';
+
+/**
+ * Simplex words that commonly occur as parts of legal compounds. Keep this
+ * list to base forms of single morphemes — a compound in the lexicon is
+ * never split, which costs recall on its parts.
+ */
+const LEXICON = [
+  // Actors
+  'aktie', 'anhörig', 'barn', 'biträde', 'bolag', 'domare', 'elev', 'fastighet', 'familj', 'förening',
+  'förälder', 'företag', 'givare', 'gäst', 'hyra', 'lägenhet', 'innehavare', 'klagande', 'kommun', 'kund',
+  'köpare', 'lärare', 'ledamot', 'make', 'myndighet', 'målsägande', 'nämnd', 'ombud', 'part', 'person',
+  'polis', 'region', 'revisor', 'sambo', 'sökande', 'stat', 'styrelse', 'säljare', 'tagare', 'tolk',
+  'vittne', 'värd', 'ägare', 'åklagare', 'konsument', 'patient', 'kvinna', 'medborgare', 'utlänning', 'anställd',
+  // Legal concepts
+  'ansvar', 'avgift', 'avtal', 'beslut', 'bestämmelse', 'bevis', 'brott', 'böter', 'dom', 'domstol',
+  'förbud', 'föreläggande', 'förhör', 'grund', 'handling', 'instans', 'krav', 'lag', 'mål', 'ordning',
+  'plikt', 'process', 'påföljd', 'regel', 'rätt', 'samtycke', 'sanktion', 'sekretess', 'skadestånd', 'skuld',
+  'skyldighet', 'straff', 'talan', 'tillstånd', 'tillsyn', 'tvist', 'villkor', 'vite', 'ärende', 'överklagande',
+  'prövning', 'tillämpning', 'utredning', 'anmälan', 'ansökan', 'avgörande', 'föreskrift', 'förordning', 'stiftning', 'rum',
+  'fängelse', 'frihet', 'häktning', 'gång', 'åtal', 'åtgärd', 'ändring', 'undantag', 'skydd', 'säkerhet',
+  'befogenhet', 'behörighet', 'jäv', 'insyn', 'offentlighet', 'tystnad', 'utlämnande', 'omprövning', 'rättelse', 'klagan',
+  // Work and money
+  'anställning', 'arbete', 'avsked', 'lön', 'pension', 'semester', 'ledighet', 'uppsägning', 'tjänst', 'yrke',
+  'skatt', 'moms', 'betalning', 'bidrag', 'ersättning', 'fond', 'försäkring', 'kapital', 'kostnad', 'kredit',
+  'lån', 'penning', 'pris', 'ränta', 'vinst', 'förlust', 'bokföring', 'redovisning', 'marknad', 'handel',
+  'konkurrens', 'köp', 'försäljning', 'leverans', 'reklam', 'vara', 'fel', 'garanti', 'avdrag', 'inkomst',
+  // Data and information
+  'data', 'uppgift', 'information', 'register', 'integritet', 'behandling', 'dokument', 'arkiv', 'diarium', 'rapport',
+  'incident', 'risk', 'analys', 'bedömning', 'kontroll', 'inspektion', 'övervakning', 'kamera', 'system', 'nät',
+  'signatur', 'identitet', 'post', 'meddelande', 'kommunikation', 'teknik', 'webb', 'plattform', 'cyber', 'intrång',
+  // Society, family, health
+  'arv', 'testamente', 'äktenskap', 'vårdnad', 'umgänge', 'underhåll', 'egendom', 'gåva', 'bostad', 'adress',
+  'hälsa', 'sjukdom', 'vård', 'omsorg', 'skola', 'utbildning', 'klass', 'social', 'stöd', 'hjälp',
+  'jour', 'hem', 'boende', 'medicin', 'läkemedel', 'smitta', 'skada', 'olycka', 'miljö', 'natur',
+  // Land, environment, transport
+  'avfall', 'buller', 'djur', 'energi', 'fiske', 'jakt', 'jord', 'bruk', 'mark', 'vatten',
+  'skog', 'utsläpp', 'bygg', 'byggnad', 'plan', 'lov', 'detalj', 'område', 'väg', 'trafik',
+  'fordon', 'fartyg', 'luft', 'kort', 'hamn', 'spår', 'ström', 'gas', 'ledning', 'anläggning',
+  // Time and form
+  'tid', 'dag', 'frist', 'period', 'månad', 'ålder', 'gräns', 'nivå', 'form', 'sätt',
+  'val', 'röst', 'organisation', 'verksamhet', 'enhet', 'förvaltning', 'utövning', 'intresse', 'allmän', 'enskild',
+];
+
+/** Parts shorter than this are never split off (avoids "av-", "i-", "på-" noise). */
+const MIN_PART_LENGTH = 3;
+
+/** Words shorter than this are assumed not to be compounds. */
+const MIN_COMPOUND_LENGTH = 6;
+
+const MAX_PARTS = 4;
+
+/** Linking letters between compound parts ("arbet-s-givare", "kvinn-o-jour"). */
+const LINKING_LETTERS = ['s', 'o', 'u', 'e', 'a'];
+
+/** Inflectional endings on the final part that the stemmer leaves in place, longest first. */
+const FINAL_PART_ENDINGS = ['nas', 'ets', 'et', 'ts', 'ns', 'na', 't', 'n'];
+
+const LEXICON_STEMS = new Set(LEXICON.map(stemSwedish));
+
+/** Most recently used decompositions to keep; the build splits every distinct word in the corpus. */
+const MAX_CACHED_DECOMPOSITIONS = 10_000;
+
+const decompositionCache = new Map<string, string[]>();
+
+/**
+ * Whether a part stems to a lexicon entry. Stemming twice catches derived
+ * forms whose first pass stops early ("ansvarig" → "ansvar" → "ansv").
+ */
+function isLexiconStem(part: string): boolean {
+  if (part.length < MIN_PART_LENGTH) return false;
+  const stem = stemSwedish(part);
+  return LEXICON_STEMS.has(stem) || LEXICON_STEMS.has(stemSwedish(stem));
+}
+
+/** A non-final part: a lexicon word, possibly followed by a linking letter. */
+function headForm(head: string): string | null {
+  if (isLexiconStem(head)) return head;
+  const last = head[head.length - 1];
+  if (LINKING_LETTERS.includes(last) && isLexiconStem(head.slice(0, -1))) {
+    return head.slice(0, -1);
+  }
+  return null;
+}
+
+/** A final part: a lexicon word, possibly inflected beyond what the stemmer removes. */
+function finalForm(tail: string): string | null {
+  if (isLexiconStem(tail)) return tail;
+  for (const ending of FINAL_PART_ENDINGS) {
+    if (tail.endsWith(ending) && isLexiconStem(tail.slice(0, -ending.length))) {
+      return tail.slice(0, -ending.length);
+    }
+  }
+  return null;
+}
+
+/** Fewest-parts decomposition of `word`, or null if it is not fully covered by the lexicon. */
+function decompose(word: string, depth: number, memo: Map<string, string[] | null>): string[] | null {
+  const key = `${depth}:${word}`;
+  if (memo.has(key)) return memo.get(key)!;
+
+  const whole = depth > 0 ? finalForm(word) : null;
+  let best: string[] | null = whole ? [whole] : null;
+  if (!best && depth < MAX_PARTS - 1) {
+    for (let i = word.length - MIN_PART_LENGTH; i >= MIN_PART_LENGTH; i--) {
+      const head = headForm(word.slice(0, i));
+      if (!head) continue;
+      const rest = decompose(word.slice(i), depth + 1, memo);
+      if (rest && (!best || rest.length + 1 < best.length)) {
+        best = [head, ...rest];
+      }
+    }
+  }
+
+  memo.set(key, best);
+  return best;
+}
+
+/**
+ * Split a Swedish compound into its parts. Words that are in the lexicon,
+ * too short, or not fully covered by lexicon parts are returned whole.
+ *
+ *   "arbetsgivaransvar"   → ["arbets", "givar", "ansvar"]
+ *   "tillsynsmyndigheten" → ["tillsyns", "myndigheten"]
+ */
+export function splitCompound(word: string): string[] {
+  const lower = word.normalize('NFC').toLowerCase();
+  if (lower.length < MIN_COMPOUND_LENGTH || /[^\p{L}]/u.test(lower) || finalForm(lower)) {
+    return [lower];
+  }
+
+  const cached = decompositionCache.get(lower);
+  if (cached) {
+    // Re-insert so Map order tracks recency
+    decompositionCache.delete(lower);
+    decompositionCache.set(lower, cached);
+    return cached;
+  }
+
+  const parts = decompose(lower, 0, new Map()) ?? [lower];
+  decompositionCache.set(lower, parts);
+  if (decompositionCache.size > MAX_CACHED_DECOMPOSITIONS) {
+    decompositionCache.delete(decompositionCache.keys().next().value!);
+  }
+  return parts;
+}
+
+/**
+ * Index-time search terms for a text: the stems of every compound part, so
+ * that "arbetsgivarens ansvar" finds a provision that only says
+ * "arbetsgivaransvaret". Returns a space-separated, de-duplicated string
+ * (or null when the text has no compounds) for the FTS `search_terms` column.
+ */
+export function compoundSearchTerms(...texts: (string | null | undefined)[]): string | null {
+  const terms = new Set<string>();
+  for (const text of texts) {
+    if (!text) continue;
+    for (const token of text.normalize('NFC').match(/\p{L}+/gu) ?? []) {
+      const parts = splitCompound(token);
+      if (parts.length < 2) continue;
+      for (const part of parts) {
+        terms.add(stemSwedish(part));
+      }
+    }
+  }
+  return terms.size > 0 ? [...terms].join(' ') : null;
+}
@@ -0,0 +1,263 @@
+/**
+ * Lookup and ranking of statutory definitions (the `definitions` table).
+ *
+ * The same term is often defined differently in different statutes, so a
+ * definition is only meaningful together with the statute it governs.
+ * Definitions are ranked by scope: the statute the question is about first,
+ * then statutes it refers to (cross_references), then the rest. Within a
+ * scope, in-force statutes come first and specific statutes beat general
+ * ones, measured by how many other statutes refer to them.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import { thesaurusKey } from './thesaurus.js';
+
+export type DefinitionScope = 'same_statute' | 'referenced_statute' | 'other_statute';
+
+export interface DefinitionEntry {
+  id: number;
+  term: string;
+  term_en: string | null;
+  definition: string;
+  source_provision: string | null;
+  document_id: string;
+  document_title: string;
+  document_status: string;
+  /** How the statute relates to the statute in context (other_statute without one) */
+  scope: DefinitionScope;
+}
+
+export interface DefinitionConflict {
+  document_id: string;
+  document_title: string;
+  term: string;
+  definition: string;
+  source_provision: string | null;
+}
+
+/** Sort order of scopes, most specific first. */
+export const SCOPE_ORDER: Record<DefinitionScope, number> = {
+  same_statute: 0,
+  referenced_statute: 1,
+  other_statute: 2,
+};
+
+/** Columns for DefinitionEntry, without scope; expects aliases d and ld. */
+export const DEFINITION_COLUMNS = `
+  d.id,
+  d.term,
+  d.term_en,
+  d.definition,
+  d.source_provision,
+  d.document_id,
+  ld.title as document_title,
+  ld.status as document_status
+`;
+
+/** Statutes that `documentId` refers to, excluding amendment links. */
+export function referencedStatutes(db: Database, documentId: string): Set<string> {
+  const rows = db.prepare(`
+    SELECT DISTINCT target_document_id
+    FROM cross_references
+    WHERE source_document_id = ? AND target_document_id != ? AND ref_type != 'amended_by'
+  `).all(documentId, documentId) as { target_document_id: string }[];
+  return new Set(rows.map(row => row.target_document_id));
+}
+
+/**
+ * Rank definitions by scope relative to `contextDocumentId`, best first.
+ * `term` is the term as asked for; exact spellings beat inflected matches.
+ */
+export function rankDefinitions(
+  db: Database,
+  rows: Omit<DefinitionEntry, 'scope'>[],
+  contextDocumentId?: string,
+  term?: string,
+): DefinitionEntry[] {
+  if (rows.length === 0) return [];
+
+  const referenced = contextDocumentId ? referencedStatutes(db, contextDocumentId) : new Set<string>();
+  const documentIds = [...new Set(rows.map(row => row.document_id))];
+  const generality = new Map(
+    (db.prepare(`
+      SELECT target_document_id as document_id, COUNT(DISTINCT source_document_id) as count
+      FROM cross_references
+      WHERE target_document_id IN (${documentIds.map(() => '?').join(', ')})
+        AND source_document_id != target_document_id
+        AND ref_type != 'amended_by'
+      GROUP BY target_document_id
+    `).all(...documentIds) as { document_id: string; count: number }[])
+      .map(row => [row.document_id, row.count])
+  );
+  const wanted = term?.trim().toLowerCase();
+
+  const scoped = rows.map(row => ({
+    ...row,
+    scope: (row.document_id === contextDocumentId
+      ? 'same_statute'
+      : referenced.has(row.document_id) ? 'referenced_statute' : 'other_statute') as DefinitionScope,
+  }));
+
+  return scoped.sort((a, b) =>
+    SCOPE_ORDER[a.scope] - SCOPE_ORDER[b.scope]
+    || Number(b.document_status === 'in_force') - Number(a.document_status === 'in_force')
+    || (generality.get(a.document_id) ?? 0) - (generality.get(b.document_id) ?? 0)
+    || Number(b.term.toLowerCase() === wanted) - Number(a.term.toLowerCase() === wanted)
+    || a.document_id.localeCompare(b.document_id)
+  );
+}
+
+/**
+ * Definitions of `term` in any statute, ranked by scope. Inflected forms
+ * match ("personuppgifter" finds "personuppgift").
+ */
+export function findDefinitions(db: Database, term: string, contextDocumentId?: string): DefinitionEntry[] {
+  const key = thesaurusKey(term);
+  if (!key) return [];
+
+  const ftsQuery = key.split(' ').map(stem => `term : "${stem}"*`).join(' AND ');
+  const candidates = db.prepare(`
+    SELECT ${DEFINITION_COLUMNS}
+    FROM definitions_fts
+    JOIN definitions d ON d.id = definitions_fts.rowid
+    JOIN legal_documents ld ON ld.id = d.document_id
+    WHERE definitions_fts MATCH ?
+  `).all(ftsQuery) as Omit<DefinitionEntry, 'scope'>[];
+
+  return rankDefinitions(
+    db,
+    candidates.filter(row => thesaurusKey(row.term) === key),
+    contextDocumentId,
+    term,
+  );
+}
+
+/** Definition text compared for conflicts: case, spacing and final punctuation ignored. */
+export function normalizeDefinitionText(definition: string): string {
+  return definition.toLowerCase().replace(/\s+/g, ' ').replace(/[\s.;:,]+$/, '').trim();
+}
+
+/**
+ * Statutes whose definition differs from the first (governing) one in
+ * `ranked`, one entry per statute and wording.
+ */
+export function definitionConflicts(ranked: DefinitionEntry[]): DefinitionConflict[] {
+  if (ranked.length === 0) return [];
+
+  const governing = normalizeDefinitionText(ranked[0].definition);
+  const seen = new Set<string>();
+  const conflicts: DefinitionConflict[] = [];
+  for (const entry of ranked.slice(1)) {
+    const text = normalizeDefinitionText(entry.definition);
+    const key = `${entry.document_id}::${text}`;
+    if (text === governing || seen.has(key)) continue;
+    seen.add(key);
+    conflicts.push({
+      document_id: entry.document_id,
+      document_title: entry.document_title,
+      term: entry.term,
+      definition: entry.definition,
+      source_provision: entry.source_provision,
+    });
+  }
+  return conflicts;
+}
+
+export interface DefinedTermSpan {
+  /** UTF-16 offsets into the annotated text, end exclusive */
+  start: number;
+  end: number;
+  /** The text as it appears, e.g. "personuppgiftsansvarige" */
+  text: string;
+  /** The defined term it resolves to */
+  term: string;
+  definition_id: number;
+  document_id: string;
+  source_provision: string | null;
+  scope: Exclude<DefinitionScope, 'other_statute'>;
+}
+
+interface TermPattern {
+  stems: string[];
+  definition: DefinitionEntry;
+}
+
+/**
+ * Annotator for text from `documentId`: finds uses of defined terms, in any
+ * inflection, and resolves each to the governing definition — the statute's
+ * own, else one from the statutes in `referencedDocumentIds` (in that order).
+ * Longest terms win; spans never overlap.
+ */
+export function createTermAnnotator(
+  db: Database,
+  documentId: string,
+  referencedDocumentIds: string[],
+): (text: string) => DefinedTermSpan[] {
+  const documentIds = [documentId, ...referencedDocumentIds.filter(id => id !== documentId)];
+  const rows = db.prepare(`
+    SELECT ${DEFINITION_COLUMNS}
+    FROM definitions d
+    JOIN legal_documents ld ON ld.id = d.document_id
+    WHERE d.document_id IN (${documentIds.map(() => '?').join(', ')})
+  `).all(...documentIds) as Omit<DefinitionEntry, 'scope'>[];
+
+  // One pattern per term key: the statute's own definition, else the first referenced statute's.
+  const patternsByKey = new Map<string, TermPattern>();
+  const precedence = (row: { document_id: string }) => documentIds.indexOf(row.document_id);
+  for (const row of [...rows].sort((a, b) => precedence(a) - precedence(b))) {
+    const key = thesaurusKey(row.term);
+    if (!key || patternsByKey.has(key)) continue;
+    patternsByKey.set(key, {
+      stems: key.split(' '),
+      definition: { ...row, scope: row.document_id === documentId ? 'same_statute' : 'referenced_statute' },
+    });
+  }
+
+  const patternsByFirstStem = new Map<string, TermPattern[]>();
+  for (const pattern of patternsByKey.values()) {
+    const list = patternsByFirstStem.get(pattern.stems[0]) ?? [];
+    list.push(pattern);
+    patternsByFirstStem.set(pattern.stems[0], list);
+  }
+  for (const list of patternsByFirstStem.values()) {
+    list.sort((a, b) => b.stems.length - a.stems.length);
+  }
+
+  return (text: string): DefinedTermSpan[] => {
+    if (patternsByFirstStem.size === 0) return [];
+
+    const words = [...text.matchAll(/[\p{L}\p{N}_]+/gu)].map(match => ({
+      start: match.index!,
+      end: match.index! + match[0].length,
+      stem: thesaurusKey(match[0]),
+    }));
+
+    const spans: DefinedTermSpan[] = [];
+    for (let i = 0; i < words.length; i++) {
+      const candidates = patternsByFirstStem.get(words[i].stem);
+      const pattern = candidates?.find(candidate =>
+        candidate.stems.every((stem, offset) =>
+          words[i + offset]?.stem === stem
+          // Words of a multi-word term must be separated by whitespace only
+          && (offset === 0 || /^\s+$/.test(text.slice(words[i + offset - 1].end, words[i + offset].start)))
+        )
+      );
+      if (!pattern) continue;
+
+      const last = words[i + pattern.stems.length - 1];
+      const { definition } = pattern;
+      spans.push({
+        start: words[i].start,
+        end: last.end,
+        text: text.slice(words[i].start, last.end),
+        term: definition.term,
+        definition_id: definition.id,
+        document_id: definition.document_id,
+        source_provision: definition.source_provision,
+        scope: definition.scope as DefinedTermSpan['scope'],
+      });
+      i += pattern.stems.length - 1;
+    }
+    return spans;
+  };
+}
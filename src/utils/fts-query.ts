@@ -3,9 +3,19 @@
  *
  * If the user provides explicit FTS syntax (quotes, boolean operators, wildcards),
  * we preserve it. Otherwise we convert tokens to stemmed prefix terms so
- * inflections like "personliga" / "personligen" both match via "personlig*".
+ * inflections like "personliga" / "personligen" both match via "person*",
+ * and expand compounds so "arbetsgivaransvar" also matches "arbetsgivarens
+ * ansvar" (and, via the index-time search_terms column, the reverse).
+ * Function words are dropped, so "mina" in "kan arbetsgivaren läsa mina
+ * mejl" does not become "min*" and match "minst" and "mindre".
+ * Thesaurus expansions add alternatives to the term they expand
+ * ("(las* OR "1982 80" OR NEAR(lag* om* anställningsskydd*, 3))").
  */
 
+import { isStopword, stemSwedish } from './swedish-stemmer.js';
+import { splitCompound } from './compound-splitter.js';
+import type { QueryExpansion } from './thesaurus.js';
+
 const EXPLICIT_FTS_SYNTAX_PATTERN = /["*():^]|\bAND\b|\bOR\b|\bNOT\b/iu;
 
 function sanitizeToken(token: string): string {
@@ -19,40 +29,113 @@ function extractTokens(query: string): string[] {
     .filter(token => token.length > 1);
 }
 
+/** Tokens without function words, or all tokens when every one is a function word */
+function contentTokens(tokens: string[]): string[] {
+  const content = tokens.filter(token => !isStopword(token));
+  return content.length > 0 ? content : tokens;
+}
+
 function escapeExplicitQuery(query: string): string {
   return query.replace(/[()^:]/g, (char) => `"${char}"`);
 }
 
+/** Stems shorter than this are too broad as prefixes ("ba*"); keep the token instead. */
+const MIN_STEM_LENGTH = 3;
+
+function prefixTerm(token: string): string {
+  if (/\d/.test(token)) {
+    return `${token}*`;
+  }
+  const stem = stemSwedish(token);
+  return `${stem.length >= MIN_STEM_LENGTH ? stem : token.toLowerCase()}*`;
+}
+
 /**
- * Trim inflectional suffixes to broaden prefix matching.
- *
- * European languages add 1-3 character suffixes for case, number, and
- * tense (e.g. Swedish: personliga/personligen share stem "personlig").
- * FTS5 prefix `personliga*` misses `personligen` — trimming to
- * `personlig*` catches both.  Only trims tokens longer than 6 chars
- * to avoid over-broadening short roots.
+ * One query term per token: the stemmed prefix, or for compounds either the
+ * whole word or all of its parts ("(arbetsgivaransv* OR (arbet* AND giv* AND ansv*))").
  */
-function trimToStem(token: string): string {
-  if (token.length > 6) {
-    return token.slice(0, token.length - 2);
+function buildTerm(token: string): string {
+  const whole = prefixTerm(token);
+  const parts = splitCompound(token);
+  if (parts.length < 2) {
+    return whole;
+  }
+  return `(${whole} OR (${parts.map(prefixTerm).join(' AND ')}))`;
+}
+
+/** Maximum distance between the words of a multi-word expansion. */
+const NEAR_DISTANCE = 3;
+
+/** FTS alternative for one expansion text: a term, a NEAR group, or an SFS number phrase. */
+function buildAlternative(text: string): string | null {
+  const sfs = text.match(/^(\d{4}):(\d+)$/);
+  if (sfs) {
+    return `"${sfs[1]} ${sfs[2]}"`;
+  }
+  const tokens = extractTokens(text);
+  if (tokens.length === 0) {
+    return null;
   }
-  return token;
+  if (tokens.length === 1) {
+    return buildTerm(tokens[0]);
+  }
+  return `NEAR(${tokens.map(prefixTerm).join(' ')}, ${NEAR_DISTANCE})`;
 }
 
-function buildPrefixAndQuery(tokens: string[]): string {
-  return tokens.map(token => `${trimToStem(token)}*`).join(' ');
+interface QueryUnit {
+  term: string;
+  expansions: QueryExpansion[];
 }
 
-function buildPrefixOrQuery(tokens: string[]): string {
-  return tokens.map(token => `${trimToStem(token)}*`).join(' OR ');
+/**
+ * Group tokens into query units, merging the tokens of a multi-word
+ * expansion term ("allmän handling") into one unit.
+ */
+function buildUnits(tokens: string[], expansions: QueryExpansion[]): QueryUnit[] {
+  const lowered = tokens.map(token => token.toLowerCase());
+  const units: QueryUnit[] = [];
+
+  for (let i = 0; i < tokens.length;) {
+    const matching = expansions.filter(expansion => {
+      const words = contentTokens(extractTokens(expansion.term)).map(word => word.toLowerCase());
+      return words.length > 0 && words.every((word, offset) => lowered[i + offset] === word);
+    });
+    const width = matching.length > 0 ? contentTokens(extractTokens(matching[0].term)).length : 1;
+    const words = tokens.slice(i, i + width);
+    const base = words.length === 1 ? buildTerm(words[0]) : `(${words.map(buildTerm).join(' AND ')})`;
+
+    const alternatives = new Set<string>();
+    for (const expansion of matching) {
+      const texts = expansion.document_id ? [expansion.document_id, ...expansion.expanded_to] : expansion.expanded_to;
+      for (const text of texts) {
+        const alternative = buildAlternative(text);
+        if (alternative && alternative !== base) alternatives.add(alternative);
+      }
+    }
+
+    units.push({
+      term: alternatives.size > 0 ? `(${[base, ...alternatives].join(' OR ')})` : base,
+      expansions: alternatives.size > 0 ? matching : [],
+    });
+    i += width;
+  }
+
+  return units;
 }
 
 export interface FtsQueryVariants {
   primary: string;
   fallback?: string;
+  /** Thesaurus expansions that made it into the query */
+  expansions?: QueryExpansion[];
 }
 
-export function buildFtsQueryVariants(query: string): FtsQueryVariants {
+/**
+ * Build FTS5 queries for a natural-language search. `expansions` (from the
+ * thesaurus) are only applied to plain queries — explicit FTS syntax is
+ * passed through as written.
+ */
+export function buildFtsQueryVariants(query: string, expansions: QueryExpansion[] = []): FtsQueryVariants {
   const trimmed = query.trim();
   if (!trimmed) {
     return { primary: '' };
@@ -62,18 +145,21 @@ export function buildFtsQueryVariants(query: string): FtsQueryVariants {
     return { primary: escapeExplicitQuery(trimmed) };
   }
 
-  const tokens = extractTokens(trimmed);
+  const tokens = contentTokens(extractTokens(trimmed));
   if (tokens.length === 0) {
     return { primary: escapeExplicitQuery(trimmed) };
   }
 
-  const primary = buildPrefixAndQuery(tokens);
-  if (tokens.length === 1) {
-    return { primary };
+  const units = buildUnits(tokens, expansions);
+  const applied = units.flatMap(unit => unit.expansions);
+  // FTS5 only allows implicit AND between plain terms, so groups need an explicit operator.
+  const primary = units.map(unit => unit.term).join(' AND ');
+  const variants: FtsQueryVariants = { primary };
+  if (units.length > 1) {
+    variants.fallback = units.map(unit => unit.term).join(' OR ');
   }
-
-  return {
-    primary,
-    fallback: buildPrefixOrQuery(tokens),
-  };
+  if (applied.length > 0) {
+    variants.expansions = applied;
+  }
+  return variants;
 }
@@ -0,0 +1,369 @@
+/**
+ * Latent semantic analysis (LSA) over TF-IDF vectors — the deterministic,
+ * CPU-only embedding model behind semantic search.
+ *
+ * Training factorises the provision × term TF-IDF matrix with a seeded
+ * randomised SVD and keeps one dense vector per term. Any text, indexed
+ * provision or user question, is embedded by folding its TF-IDF vector into
+ * that space, so "mejl" lands near "elektronisk post" when the corpus uses
+ * the two in the same contexts.
+ *
+ * Terms are Snowball stems plus the stems of compound parts, matching the
+ * lexical index (see compound-splitter.ts).
+ */
+
+import { isStopword, stemSwedish } from './swedish-stemmer.js';
+import { splitCompound } from './compound-splitter.js';
+
+export interface LsaTerm {
+  idf: number;
+  vector: Float32Array;
+}
+
+export interface LsaModel {
+  dimensions: number;
+  terms: Map<string, LsaTerm>;
+}
+
+export interface LsaTrainingOptions {
+  /** Embedding size (default 128; capped by corpus and vocabulary size) */
+  dimensions?: number;
+  /** Terms in fewer documents than this are dropped (default 2) */
+  minDocumentFrequency?: number;
+  /** Vocabulary cap, most frequent terms first (default 30000) */
+  maxTerms?: number;
+  /** Power iterations of the randomised SVD (default 2) */
+  powerIterations?: number;
+  /** PRNG seed — the same corpus and seed always give the same model */
+  seed?: number;
+}
+
+const DEFAULT_DIMENSIONS = 128;
+const DEFAULT_MIN_DOCUMENT_FREQUENCY = 2;
+const DEFAULT_MAX_TERMS = 30000;
+const DEFAULT_POWER_ITERATIONS = 2;
+const DEFAULT_SEED = 20180525;
+
+/** Extra random columns sampled beyond the target rank. */
+const OVERSAMPLING = 10;
+
+/** Terms in more than this share of documents carry no topic signal. */
+const MAX_DOCUMENT_RATIO = 0.5;
+
+/** Singular values below this are numerical noise. */
+const MIN_SINGULAR_VALUE = 1e-8;
+
+const JACOBI_MAX_SWEEPS = 60;
+
+/**
+ * Index terms for a text: stems of content words, plus the stems of the
+ * parts of compound words.
+ */
+export function vectorTerms(text: string): string[] {
+  const terms: string[] = [];
+  for (const match of text.normalize('NFC').toLowerCase().match(/\p{L}+/gu) ?? []) {
+    if (match.length < 2 || isStopword(match)) continue;
+    terms.push(stemSwedish(match));
+    const parts = splitCompound(match);
+    if (parts.length > 1) {
+      for (const part of parts) terms.push(stemSwedish(part));
+    }
+  }
+  return terms;
+}
+
+function countTerms(terms: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const term of terms) counts.set(term, (counts.get(term) ?? 0) + 1);
+  return counts;
+}
+
+/** Sublinear TF-IDF, L2-normalised. Unknown terms are ignored. */
+function tfidfWeights(counts: Map<string, number>, idf: (term: string) => number | undefined): Map<string, number> {
+  const weights = new Map<string, number>();
+  let norm = 0;
+  for (const [term, count] of counts) {
+    const termIdf = idf(term);
+    if (termIdf === undefined) continue;
+    const weight = (1 + Math.log(count)) * termIdf;
+    weights.set(term, weight);
+    norm += weight * weight;
+  }
+  if (norm > 0) {
+    const scale = 1 / Math.sqrt(norm);
+    for (const [term, weight] of weights) weights.set(term, weight * scale);
+  }
+  return weights;
+}
+
+/** mulberry32 with Box–Muller: a seeded standard normal generator. */
+function gaussianGenerator(seed: number): () => number {
+  let state = seed >>> 0;
+  const uniform = (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return (((t ^ (t >>> 14)) >>> 0) + 1) / 4294967297;
+  };
+  return () => Math.sqrt(-2 * Math.log(uniform())) * Math.cos(2 * Math.PI * uniform());
+}
+
+interface SparseMatrix {
+  rows: number;
+  columns: number;
+  rowStart: Int32Array;
+  columnIndex: Int32Array;
+  values: Float64Array;
+}
+
+/** A·x for each column x of `dense` (columns × k, column-major). */
+function multiply(matrix: SparseMatrix, dense: Float64Array[]): Float64Array[] {
+  return dense.map(column => {
+    const result = new Float64Array(matrix.rows);
+    for (let row = 0; row < matrix.rows; row++) {
+      let sum = 0;
+      for (let i = matrix.rowStart[row]; i < matrix.rowStart[row + 1]; i++) {
+        sum += matrix.values[i] * column[matrix.columnIndex[i]];
+      }
+      result[row] = sum;
+    }
+    return result;
+  });
+}
+
+/** Aᵀ·x for each column x of `dense` (rows × k, column-major). */
+function multiplyTransposed(matrix: SparseMatrix, dense: Float64Array[]): Float64Array[] {
+  return dense.map(column => {
+    const result = new Float64Array(matrix.columns);
+    for (let row = 0; row < matrix.rows; row++) {
+      const value = column[row];
+      if (value === 0) continue;
+      for (let i = matrix.rowStart[row]; i < matrix.rowStart[row + 1]; i++) {
+        result[matrix.columnIndex[i]] += matrix.values[i] * value;
+      }
+    }
+    return result;
+  });
+}
+
+function dot(a: Float64Array, b: Float64Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+/**
+ * Orthonormalise columns in place (modified Gram–Schmidt, two passes).
+ * Columns that are linearly dependent on earlier ones are zeroed.
+ */
+function orthonormalise(columns: Float64Array[]): Float64Array[] {
+  for (let j = 0; j < columns.length; j++) {
+    const column = columns[j];
+    const originalNorm = Math.sqrt(dot(column, column));
+    for (let pass = 0; pass < 2; pass++) {
+      for (let i = 0; i < j; i++) {
+        const projection = dot(columns[i], column);
+        if (projection === 0) continue;
+        const basis = columns[i];
+        for (let r = 0; r < column.length; r++) column[r] -= projection * basis[r];
+      }
+    }
+    const norm = Math.sqrt(dot(column, column));
+    if (norm <= originalNorm * 1e-10 || norm === 0) {
+      column.fill(0);
+    } else {
+      for (let r = 0; r < column.length; r++) column[r] /= norm;
+    }
+  }
+  return columns;
+}
+
+/**
+ * Eigen-decomposition of a small symmetric matrix (cyclic Jacobi).
+ * Returns eigenvalues and eigenvectors (as columns), largest first.
+ */
+function symmetricEigen(matrix: Float64Array[]): { values: number[]; vectors: Float64Array[] } {
+  const n = matrix.length;
+  const a = matrix.map(row => Float64Array.from(row));
+  const v = Array.from({ length: n }, (_, i) => {
+    const row = new Float64Array(n);
+    row[i] = 1;
+    return row;
+  });
+
+  for (let sweep = 0; sweep < JACOBI_MAX_SWEEPS; sweep++) {
+    let offDiagonal = 0;
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) offDiagonal += a[p][q] * a[p][q];
+    }
+    if (offDiagonal < 1e-22) break;
+
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (Math.abs(a[p][q]) < 1e-300) continue;
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+        for (let k = 0; k < n; k++) {
+          const akp = a[k][p];
+          const akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p][k];
+          const aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = v[k][p];
+          const vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+
+  const order = Array.from({ length: n }, (_, i) => i).sort((x, y) => a[y][y] - a[x][x]);
+  return {
+    values: order.map(i => a[i][i]),
+    vectors: order.map(i => Float64Array.from(v, row => row[i])),
+  };
+}
+
+/**
+ * Train an LSA model on a corpus. Deterministic for a given corpus and seed.
+ */
+export function trainLsaModel(documents: string[], options: LsaTrainingOptions = {}): LsaModel {
+  const minDf = options.minDocumentFrequency ?? DEFAULT_MIN_DOCUMENT_FREQUENCY;
+  const maxTerms = options.maxTerms ?? DEFAULT_MAX_TERMS;
+  const powerIterations = options.powerIterations ?? DEFAULT_POWER_ITERATIONS;
+
+  const documentCounts = documents.map(text => countTerms(vectorTerms(text)));
+  const documentFrequency = new Map<string, number>();
+  for (const counts of documentCounts) {
+    for (const term of counts.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  const maxDf = Math.max(minDf, Math.floor(documents.length * MAX_DOCUMENT_RATIO));
+  const vocabulary = [...documentFrequency]
+    .filter(([, df]) => df >= minDf && df <= maxDf)
+    .sort(([termA, a], [termB, b]) => b - a || (termA < termB ? -1 : 1))
+    .slice(0, maxTerms)
+    .map(([term]) => term);
+  const termIndex = new Map(vocabulary.map((term, i) => [term, i]));
+  const idf = vocabulary.map(term => Math.log((1 + documents.length) / (1 + documentFrequency.get(term)!)) + 1);
+
+  const rowStart = new Int32Array(documents.length + 1);
+  const columnIndex: number[] = [];
+  const values: number[] = [];
+  documentCounts.forEach((counts, row) => {
+    const weights = tfidfWeights(counts, term => {
+      const index = termIndex.get(term);
+      return index === undefined ? undefined : idf[index];
+    });
+    for (const [term, weight] of weights) {
+      columnIndex.push(termIndex.get(term)!);
+      values.push(weight);
+    }
+    rowStart[row + 1] = columnIndex.length;
+  });
+  const matrix: SparseMatrix = {
+    rows: documents.length,
+    columns: vocabulary.length,
+    rowStart,
+    columnIndex: Int32Array.from(columnIndex),
+    values: Float64Array.from(values),
+  };
+
+  const rank = Math.min(options.dimensions ?? DEFAULT_DIMENSIONS, matrix.rows, matrix.columns);
+  if (rank === 0) {
+    return { dimensions: 0, terms: new Map() };
+  }
+
+  // Randomised range finder (Halko, Martinsson & Tropp 2011) in term space.
+  const sampleSize = Math.min(rank + OVERSAMPLING, matrix.rows, matrix.columns);
+  const gaussian = gaussianGenerator(options.seed ?? DEFAULT_SEED);
+  let termBasis: Float64Array[] = Array.from({ length: sampleSize }, () => Float64Array.from({ length: matrix.columns }, gaussian));
+  let documentBasis = orthonormalise(multiply(matrix, termBasis));
+  for (let i = 0; i < powerIterations; i++) {
+    termBasis = orthonormalise(multiplyTransposed(matrix, documentBasis));
+    documentBasis = orthonormalise(multiply(matrix, termBasis));
+  }
+
+  // B = Qᵀ·A, stored as its transpose (one term-space column per basis vector).
+  const projected = multiplyTransposed(matrix, documentBasis);
+  const gram = projected.map(a => Float64Array.from(projected, b => dot(a, b)));
+  const { values: eigenvalues, vectors: eigenvectors } = symmetricEigen(gram);
+
+  const components: Float64Array[] = [];
+  for (let i = 0; i < rank; i++) {
+    const singular = Math.sqrt(Math.max(eigenvalues[i], 0));
+    if (singular < MIN_SINGULAR_VALUE) break;
+    const component = new Float64Array(matrix.columns);
+    for (let j = 0; j < projected.length; j++) {
+      const coefficient = eigenvectors[i][j] / singular;
+      if (coefficient === 0) continue;
+      const column = projected[j];
+      for (let t = 0; t < component.length; t++) component[t] += coefficient * column[t];
+    }
+    components.push(component);
+  }
+
+  const terms = new Map<string, LsaTerm>();
+  vocabulary.forEach((term, t) => {
+    terms.set(term, { idf: idf[t], vector: Float32Array.from(components, component => component[t]) });
+  });
+  return { dimensions: components.length, terms };
+}
+
+/**
+ * Embed a text in the model's space (unit length), or null when the text
+ * shares no terms with the model's vocabulary.
+ */
+export function embedText(model: LsaModel, text: string): Float32Array | null {
+  const weights = tfidfWeights(countTerms(vectorTerms(text)), term => model.terms.get(term)?.idf);
+  if (weights.size === 0 || model.dimensions === 0) {
+    return null;
+  }
+
+  const embedding = new Float32Array(model.dimensions);
+  for (const [term, weight] of weights) {
+    const vector = model.terms.get(term)!.vector;
+    for (let i = 0; i < embedding.length; i++) embedding[i] += weight * vector[i];
+  }
+
+  let norm = 0;
+  for (const value of embedding) norm += value * value;
+  if (norm === 0) {
+    return null;
+  }
+  const scale = 1 / Math.sqrt(norm);
+  for (let i = 0; i < embedding.length; i++) embedding[i] *= scale;
+  return embedding;
+}
+
+/** Dot product of two unit vectors. */
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+/** Serialise a vector for a SQLite BLOB column (little-endian float32). */
+export function encodeVector(vector: Float32Array): Buffer {
+  return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength);
+}
+
+/** Read a vector stored by encodeVector. */
+export function decodeVector(blob: Uint8Array): Float32Array {
+  // Copy: the driver's buffer may not be 4-byte aligned.
+  const bytes = blob.slice();
+  return new Float32Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 4);
+}
@@ -5,6 +5,8 @@
  */
 
 import type { Database } from '@ansvar/mcp-sqlite';
+import type { QueryExpansion } from './thesaurus.js';
+import type { SearchMode } from './vector-index.js';
 
 export interface ResponseMetadata {
   /** Data freshness information */
@@ -25,8 +27,19 @@ export interface ResponseMetadata {
   /** Optional note (e.g. document resolution failure) */
   note?: string;
 
-  /** Query strategy used (e.g. 'broadened', 'like_fallback') */
+  /** 'broadened' when nothing matched all terms and results match any term */
   query_strategy?: string;
+
+  /** Thesaurus expansions and ranking, when the query was expanded or not purely lexical */
+  query_details?: QueryDetails;
+}
+
+export interface QueryDetails {
+  /** Thesaurus expansions applied to the query */
+  expansions: QueryExpansion[];
+
+  /** Ranking used when not purely lexical */
+  mode?: SearchMode;
 }
 
 export interface DataFreshness {
@@ -188,4 +201,34 @@ export interface ToolResponse<T> {
   /** Truncation hint (optional) */
   _truncated?: boolean;
   _hint?: string;
+
+  /** Paging of list results (optional) */
+  _pagination?: PaginationInfo;
+}
+
+export interface PaginationInfo {
+  offset: number;
+  returned: number;
+  total: number;
+  /** Offset of the next page; null on the last page */
+  next_offset: number | null;
+  /** Rough size of the returned text, at about four characters per token */
+  estimated_tokens: number;
+}
+
+/**
+ * The `query_strategy` and `query_details` parts of a search response's
+ * metadata, or nothing when the query ran as a plain lexical search.
+ */
+export function queryStrategyMetadata(
+  broadened: boolean,
+  expansions: QueryExpansion[] = [],
+  mode: SearchMode = 'lexical',
+): Pick<ResponseMetadata, 'query_strategy' | 'query_details'> {
+  return {
+    ...(broadened ? { query_strategy: 'broadened' } : {}),
+    ...(expansions.length > 0 || mode !== 'lexical'
+      ? { query_details: { expansions, ...(mode !== 'lexical' ? { mode } : {}) } }
+      : {}),
+  };
 }
@@ -0,0 +1,424 @@
+/**
+ * Word-level diff of two provision versions that follows their structure.
+ *
+ * Both versions are split into stycken and punkter (provision-structure-parser)
+ * and the units are aligned. Text without line breaks has no stycke breaks, so
+ * its units are sentences and labelled as such ("mening 2"); when only one
+ * version has line breaks, both are diffed by sentence. Units are aligned: identical units are unchanged, renumbered (same
+ * text, new stycke or punkt number) or moved (same text, new order); similar
+ * units are modified and get a word-level diff; the rest are inserted or
+ * deleted. The result renders as unified text, JSON operations or HTML with
+ * <ins>/<del> markup.
+ */
+
+import {
+  parseProvisionStructure,
+  sentenceLabel,
+  styckeLabel,
+  type ProvisionStructure,
+} from '../parsers/provision-structure-parser.js';
+
+export type DiffOperationType = 'unchanged' | 'modified' | 'inserted' | 'deleted' | 'moved' | 'renumbered';
+
+export interface WordChange {
+  op: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+export type DiffUnit = 'stycke' | 'sentence' | 'punkt';
+
+export interface DiffOperation {
+  type: DiffOperationType;
+  unit: DiffUnit;
+  /** e.g. "första stycket", "första stycket 2" or "mening 2"; null for inserted units */
+  old_label: string | null;
+  /** null for deleted units */
+  new_label: string | null;
+  /** Unit text (old text for deleted units); null for modified units */
+  text: string | null;
+  /** Word changes of modified units */
+  words?: WordChange[];
+  /** Point number in the old and new version (punkter only) */
+  old_punkt?: number;
+  new_punkt?: number;
+}
+
+export interface DiffSummary {
+  unchanged: number;
+  modified: number;
+  inserted: number;
+  deleted: number;
+  moved: number;
+  renumbered: number;
+  words_inserted: number;
+  words_deleted: number;
+}
+
+export interface ProvisionDiff {
+  changed: boolean;
+  /** 'sentences' when the text has no stycke breaks and units are sentences */
+  segmentation: ProvisionStructure['segmentation'];
+  operations: DiffOperation[];
+  summary: DiffSummary;
+}
+
+interface Unit {
+  unit: DiffUnit;
+  label: string;
+  punkt?: number;
+  text: string;
+  key: string;
+}
+
+/** Units below this share of common words are not treated as the same unit */
+const SIMILARITY_THRESHOLD = 0.5;
+
+/** Largest token LCS table computed; longer texts are diffed as a whole */
+const MAX_LCS_CELLS = 4_000_000;
+
+const TOKEN_PATTERN = /\s+|[\p{L}\p{N}]+(?:[-:.,/][\p{L}\p{N}]+)*|[^\s\p{L}\p{N}]/gu;
+
+function toUnits(structure: ProvisionStructure): Unit[] {
+  const sentences = structure.segmentation === 'sentences';
+  const label = sentences ? sentenceLabel : styckeLabel;
+  const units: Unit[] = [];
+  for (const stycke of structure.stycken) {
+    if (stycke.intro || stycke.punkter.length === 0) {
+      units.push({
+        unit: sentences ? 'sentence' : 'stycke',
+        label: label(stycke.number),
+        text: stycke.intro,
+        key: normalize(stycke.intro),
+      });
+    }
+    for (const punkt of stycke.punkter) {
+      units.push({
+        unit: 'punkt',
+        label: label(stycke.number, punkt.number),
+        punkt: punkt.number,
+        text: punkt.text,
+        key: normalize(punkt.text),
+      });
+    }
+  }
+  return units;
+}
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function words(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []);
+}
+
+/** Share of common words (Jaccard index of the word sets) */
+function similarity(a: string, b: string): number {
+  const wordsA = new Set(words(a));
+  const wordsB = new Set(words(b));
+  if (wordsA.size === 0 && wordsB.size === 0) return 1;
+  let common = 0;
+  for (const word of wordsA) if (wordsB.has(word)) common++;
+  return common / (wordsA.size + wordsB.size - common);
+}
+
+/** Indices (into `values`) of a longest strictly increasing subsequence */
+function longestIncreasing(values: number[]): Set<number> {
+  const tails: number[] = [];
+  const previous: number[] = new Array(values.length).fill(-1);
+  values.forEach((value, i) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (values[tails[mid]] < value) low = mid + 1;
+      else high = mid;
+    }
+    if (low > 0) previous[i] = tails[low - 1];
+    tails[low] = i;
+  });
+  const result = new Set<number>();
+  for (let i = tails[tails.length - 1] ?? -1; i !== -1; i = previous[i]) result.add(i);
+  return result;
+}
+
+/** Token-level diff with whitespace kept; adjacent changes are merged. */
+export function diffWords(oldText: string, newText: string): WordChange[] {
+  const a = oldText.match(TOKEN_PATTERN) ?? [];
+  const b = newText.match(TOKEN_PATTERN) ?? [];
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix
+    && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const changes: WordChange[] = a.slice(0, prefix).map(text => ({ op: 'equal' as const, text }));
+
+  if ((midA.length + 1) * (midB.length + 1) > MAX_LCS_CELLS) {
+    changes.push(...midA.map(text => ({ op: 'delete' as const, text })));
+    changes.push(...midB.map(text => ({ op: 'insert' as const, text })));
+  } else {
+    // lcs[i][j]: length of the LCS of midA[i..] and midB[j..]
+    const width = midB.length + 1;
+    const lcs = new Uint32Array((midA.length + 1) * width);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lcs[i * width + j] = midA[i] === midB[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < midA.length || j < midB.length) {
+      if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+        changes.push({ op: 'equal', text: midA[i++] });
+        j++;
+      } else if (j < midB.length && (i === midA.length || lcs[i * width + j + 1] >= lcs[(i + 1) * width + j])) {
+        changes.push({ op: 'insert', text: midB[j++] });
+      } else {
+        changes.push({ op: 'delete', text: midA[i++] });
+      }
+    }
+  }
+  changes.push(...a.slice(a.length - suffix).map(text => ({ op: 'equal' as const, text })));
+
+  return mergeWordChanges(changes);
+}
+
+/**
+ * Merge runs of the same operation. Whitespace left equal between a
+ * replacement's parts joins them, so "Datainspektionen är" → "IMY blir"
+ * reads as one replacement rather than two.
+ */
+function mergeWordChanges(changes: WordChange[]): WordChange[] {
+  const absorbed = changes.flatMap((change, i) => {
+    const before = changes[i - 1];
+    const after = changes[i + 1];
+    const isGap = change.op === 'equal' && /^\s+$/.test(change.text)
+      && before && before.op !== 'equal' && after && after.op !== 'equal' && before.op !== after.op;
+    return isGap
+      ? [{ op: 'delete' as const, text: change.text }, { op: 'insert' as const, text: change.text }]
+      : [change];
+  });
+
+  // Within a run of changes, deletions come before insertions
+  const merged: WordChange[] = [];
+  let deleted = '';
+  let inserted = '';
+  const flush = () => {
+    if (deleted) merged.push({ op: 'delete', text: deleted });
+    if (inserted) merged.push({ op: 'insert', text: inserted });
+    deleted = '';
+    inserted = '';
+  };
+  for (const change of absorbed) {
+    if (change.op === 'delete') {
+      deleted += change.text;
+    } else if (change.op === 'insert') {
+      inserted += change.text;
+    } else {
+      flush();
+      const last = merged[merged.length - 1];
+      if (last?.op === 'equal') last.text += change.text;
+      else merged.push({ ...change });
+    }
+  }
+  flush();
+  return merged;
+}
+
+export function diffProvisionText(oldContent: string, newContent: string): ProvisionDiff {
+  let oldStructure = parseProvisionStructure(oldContent);
+  let newStructure = parseProvisionStructure(newContent);
+  if (oldStructure.segmentation !== newStructure.segmentation) {
+    oldStructure = parseProvisionStructure(oldContent.replace(/\s+/g, ' '));
+    newStructure = parseProvisionStructure(newContent.replace(/\s+/g, ' '));
+  }
+  const oldUnits = toUnits(oldStructure);
+  const newUnits = toUnits(newStructure);
+  const pairedOld = new Array<number | undefined>(newUnits.length);
+  const usedOld = new Set<number>();
+
+  // Identical units, in order of the new version
+  newUnits.forEach((unit, n) => {
+    const o = oldUnits.findIndex((candidate, i) => !usedOld.has(i) && candidate.key === unit.key);
+    if (o !== -1) {
+      pairedOld[n] = o;
+      usedOld.add(o);
+    }
+  });
+  const identical = newUnits.map((_, n) => n).filter(n => pairedOld[n] !== undefined);
+  const inOrder = new Set(
+    [...longestIncreasing(identical.map(n => pairedOld[n]!))].map(i => identical[i])
+  );
+
+  // Similar units are modifications
+  const modified = new Set<number>();
+  newUnits.forEach((unit, n) => {
+    if (pairedOld[n] !== undefined) return;
+    let best = -1;
+    let bestScore = SIMILARITY_THRESHOLD;
+    oldUnits.forEach((candidate, o) => {
+      if (usedOld.has(o) || candidate.unit !== unit.unit) return;
+      const score = similarity(candidate.text, unit.text);
+      if (score > bestScore || (score === bestScore && best !== -1 && Math.abs(o - n) < Math.abs(best - n))) {
+        best = o;
+        bestScore = score;
+      }
+    });
+    if (best !== -1) {
+      pairedOld[n] = best;
+      usedOld.add(best);
+      modified.add(n);
+    }
+  });
+
+  const entries: Array<{ anchor?: number; operation: DiffOperation }> = newUnits.map((unit, n) => {
+    const o = pairedOld[n];
+    const old = o === undefined ? undefined : oldUnits[o];
+    const punkt = unit.unit === 'punkt' ? { old_punkt: old?.punkt, new_punkt: unit.punkt } : {};
+    if (!old) {
+      return {
+        operation: { type: 'inserted', unit: unit.unit, old_label: null, new_label: unit.label, text: unit.text, ...punkt },
+      };
+    }
+    if (modified.has(n)) {
+      return {
+        anchor: o,
+        operation: {
+          type: 'modified', unit: unit.unit, old_label: old.label, new_label: unit.label, text: null,
+          words: diffWords(old.text, unit.text), ...punkt,
+        },
+      };
+    }
+    const type: DiffOperationType = !inOrder.has(n) ? 'moved' : old.label !== unit.label ? 'renumbered' : 'unchanged';
+    return {
+      anchor: type === 'moved' ? undefined : o,
+      operation: { type, unit: unit.unit, old_label: old.label, new_label: unit.label, text: unit.text, ...punkt },
+    };
+  });
+
+  // Deleted units go after the last operation anchored before them in the old version
+  oldUnits.forEach((unit, o) => {
+    if (usedOld.has(o)) return;
+    let position = 0;
+    entries.forEach((entry, i) => {
+      if (entry.anchor !== undefined && entry.anchor < o) position = i + 1;
+    });
+    entries.splice(position, 0, {
+      anchor: o,
+      operation: {
+        type: 'deleted', unit: unit.unit, old_label: unit.label, new_label: null, text: unit.text,
+        ...(unit.unit === 'punkt' ? { old_punkt: unit.punkt } : {}),
+      },
+    });
+  });
+
+  const operations = entries.map(entry => entry.operation);
+  const summary: DiffSummary = {
+    unchanged: 0, modified: 0, inserted: 0, deleted: 0, moved: 0, renumbered: 0,
+    words_inserted: 0, words_deleted: 0,
+  };
+  const countWords = (text: string) => (text.match(/[\p{L}\p{N}]+/gu) ?? []).length;
+  for (const operation of operations) {
+    summary[operation.type]++;
+    if (operation.type === 'inserted') summary.words_inserted += countWords(operation.text!);
+    if (operation.type === 'deleted') summary.words_deleted += countWords(operation.text!);
+    for (const change of operation.words ?? []) {
+      if (change.op === 'insert') summary.words_inserted += countWords(change.text);
+      if (change.op === 'delete') summary.words_deleted += countWords(change.text);
+    }
+  }
+
+  return {
+    changed: operations.some(operation => operation.type !== 'unchanged'),
+    segmentation: newStructure.segmentation,
+    operations,
+    summary,
+  };
+}
+
+function punktPrefix(punkt: number | undefined): string {
+  return punkt === undefined ? '' : `${punkt}. `;
+}
+
+/** Hunk heading: the unit in the new version, and where it was when that differs */
+function operationHeading(operation: DiffOperation): string {
+  if (operation.type === 'deleted') return `${operation.old_label} (deleted)`;
+  if (operation.type === 'inserted') return `${operation.new_label} (inserted)`;
+  if (operation.type === 'moved') return `${operation.new_label} (moved from ${operation.old_label})`;
+  if (operation.old_label !== operation.new_label) return `${operation.new_label} (was ${operation.old_label})`;
+  return operation.new_label!;
+}
+
+/** Unified text: one hunk per unit, "-" for old and "+" for new wording. */
+export function formatUnifiedDiff(diff: ProvisionDiff, oldLabel: string, newLabel: string): string {
+  const lines = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+  for (const operation of diff.operations) {
+    lines.push(`@@ ${operationHeading(operation)} @@`);
+    if (operation.type === 'modified') {
+      const oldText = operation.words!.filter(change => change.op !== 'insert').map(change => change.text).join('');
+      const newText = operation.words!.filter(change => change.op !== 'delete').map(change => change.text).join('');
+      lines.push(`-${punktPrefix(operation.old_punkt)}${oldText}`);
+      lines.push(`+${punktPrefix(operation.new_punkt)}${newText}`);
+    } else if (operation.type === 'deleted') {
+      lines.push(`-${punktPrefix(operation.old_punkt)}${operation.text}`);
+    } else if (operation.type === 'inserted') {
+      lines.push(`+${punktPrefix(operation.new_punkt)}${operation.text}`);
+    } else if (operation.old_punkt !== operation.new_punkt) {
+      lines.push(`-${punktPrefix(operation.old_punkt)}${operation.text}`);
+      lines.push(`+${punktPrefix(operation.new_punkt)}${operation.text}`);
+    } else {
+      lines.push(` ${punktPrefix(operation.new_punkt)}${operation.text}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function htmlPunktPrefix(operation: DiffOperation): string {
+  if (operation.unit !== 'punkt' || operation.type === 'inserted' || operation.type === 'deleted') return '';
+  return operation.old_punkt === operation.new_punkt
+    ? `${operation.new_punkt}. `
+    : `<del>${operation.old_punkt}.</del><ins>${operation.new_punkt}.</ins> `;
+}
+
+/** HTML: one <p> per unit, changed words in <del> and <ins>. */
+export function formatHtmlDiff(diff: ProvisionDiff): string {
+  const paragraphs = diff.operations.map(operation => {
+    const attributes = [`class="${operation.type}"`, `data-unit="${operation.unit}"`];
+    const label = operation.new_label ?? operation.old_label!;
+    attributes.push(`data-label="${escapeHtml(label)}"`);
+    if (operation.old_label && operation.new_label && operation.old_label !== operation.new_label) {
+      attributes.push(`data-old-label="${escapeHtml(operation.old_label)}"`);
+    }
+
+    let body: string;
+    if (operation.type === 'modified') {
+      body = operation.words!.map(change =>
+        change.op === 'equal' ? escapeHtml(change.text)
+          : change.op === 'delete' ? `<del>${escapeHtml(change.text)}</del>`
+            : `<ins>${escapeHtml(change.text)}</ins>`
+      ).join('');
+    } else if (operation.type === 'deleted') {
+      body = `<del>${punktPrefix(operation.old_punkt)}${escapeHtml(operation.text!)}</del>`;
+    } else if (operation.type === 'inserted') {
+      body = `<ins>${punktPrefix(operation.new_punkt)}${escapeHtml(operation.text!)}</ins>`;
+    } else {
+      body = escapeHtml(operation.text!);
+    }
+    return `<p ${attributes.join(' ')}>${htmlPunktPrefix(operation)}${body}</p>`;
+  });
+  return `<div class="provision-diff">\n${paragraphs.join('\n')}\n</div>`;
+}
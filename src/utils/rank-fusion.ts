@@ -0,0 +1,36 @@
+/**
+ * Reciprocal rank fusion (Cormack, Clarke & Büttcher 2009).
+ *
+ * Combines rankings whose scores are not comparable (BM25 and cosine
+ * similarity) using ranks only: an item scores Σ 1 / (k + rank) over the
+ * rankings it appears in.
+ */
+
+/** The constant from the original paper; dampens the head of each ranking. */
+export const RRF_K = 60;
+
+export interface FusedItem<T> {
+  item: T;
+  score: number;
+}
+
+/**
+ * Fuse rankings (best first) into one, best first. Items are identified by
+ * `key`; the first occurrence of an item is the one kept.
+ */
+export function reciprocalRankFusion<T>(
+  rankings: T[][],
+  key: (item: T) => string,
+  k: number = RRF_K,
+): FusedItem<T>[] {
+  const fused = new Map<string, FusedItem<T>>();
+  for (const ranking of rankings) {
+    ranking.forEach((item, rank) => {
+      const id = key(item);
+      const entry = fused.get(id) ?? { item, score: 0 };
+      entry.score += 1 / (k + rank + 1);
+      fused.set(id, entry);
+    });
+  }
+  return [...fused.values()].sort((a, b) => b.score - a.score);
+}
@@ -8,7 +8,7 @@
 
 import type { Database } from '@ansvar/mcp-sqlite';
 
-const COLLOQUIAL_NAMES: Record<string, string> = {
+export const COLLOQUIAL_NAMES: Record<string, string> = {
   'dataskyddslagen': '2018:218',
   'gdpr-lagen': '2018:218',
   'personuppgiftslagen': '1998:204',
@@ -31,14 +31,23 @@ const COLLOQUIAL_NAMES: Record<string, string> = {
   'aktiebolagslagen': '2005:551',
 };
 
+/** Matches completion values of the form "<SFS number> — <label>". */
+const COMPLETION_LABEL_PATTERN = /^(\d{4}:\d+)\s+—\s+.+$/;
+
 /**
  * Resolve a document_id that may be:
  *  1. An exact internal ID (e.g. "1998:808") — returned as-is if it exists
  *  2. A title or partial title — looked up via LIKE match
  *
+ * Labelled completion values ("2018:218 — dataskyddslagen") resolve to their ID.
+ *
  * Returns the resolved internal ID, or null if no match found.
  */
 export function resolveDocumentId(db: Database, input: string): string | null {
+  // 0. Strip the label from completion values ("2018:218 — dataskyddslagen")
+  const labelled = input.match(COMPLETION_LABEL_PATTERN);
+  if (labelled) input = labelled[1];
+
   // 1. Try exact match on id
   const exact = db.prepare(
     'SELECT id FROM legal_documents WHERE id = ? LIMIT 1'
@@ -92,11 +101,27 @@ export function resolveDocumentId(db: Database, input: string): string | null {
   return null;
 }
 
+/**
+ * Resolve a statute named in running text ("dataskyddslagen", "BrB") by exact
+ * title, colloquial name or short name only. Unlike resolveDocumentId there
+ * is no partial matching: an arbitrary word must not resolve to a statute.
+ */
+export function resolveStatuteName(db: Database, name: string): string | null {
+  const colloquial = COLLOQUIAL_NAMES[name.toLowerCase()];
+  const row = db.prepare(`
+    SELECT id FROM legal_documents
+    WHERE type = 'statute' AND (id = ? OR title = ? COLLATE NOCASE OR short_name = ?)
+    LIMIT 1
+  `).get(colloquial ?? '', name, name) as { id: string } | undefined;
+  return row?.id ?? null;
+}
+
 /**
  * Normalize a human-readable provision reference to the internal format.
  *
  *   "1 kap. 1 §"   → "1:1"
  *   "3 kap. 5 a §"  → "3:5 a"
+ *   "6 a kap. 1 §"  → "6 a:1"
  *   "5 §"           → "5"
  *   "5 a §"         → "5 a"
  *   "3:5"           → "3:5"  (already canonical)
@@ -112,10 +137,11 @@ export function normalizeProvisionRef(input: string): string {
 
   // "N kap. M §" or "N kap. M a §"
   const chaptered = trimmed.match(
-    /^(\d+)\s*kap\.\s*(\d+\s*[a-z]?)\s*§?$/i
+    /^(\d+)\s*([a-z]\s+)?kap\.\s*(\d+\s*[a-z]?)\s*§?$/i
   );
   if (chaptered) {
-    return `${chaptered[1].trim()}:${chaptered[2].trim()}`;
+    const chapter = chaptered[2] ? `${chaptered[1]} ${chaptered[2].trim()}` : chaptered[1];
+    return `${chapter}:${chaptered[3].trim()}`;
   }
 
   // "M §" or "M a §" (flat statute)
@@ -127,3 +153,48 @@ export function normalizeProvisionRef(input: string): string {
   // Unrecognized — return as-is and let the DB query decide
   return trimmed;
 }
+
+/** A run of provisions: a whole chapter, or everything from one provision to another */
+export interface ProvisionRange {
+  /** Whole chapter, when the range is a chapter */
+  chapter?: string;
+  /** First and last provision in canonical form; null for a whole chapter */
+  from: string | null;
+  to: string | null;
+}
+
+const CANONICAL_REF_PATTERN = /^\d+(\s*[a-z])?(:\d+(\s*[a-z])?)?$/;
+
+/**
+ * Parse a provision range. Returns null for anything else, including a
+ * single provision.
+ *
+ *   "hela 5 kap.", "5 kap."     → chapter 5
+ *   "6 a kap."                  → chapter "6 a"
+ *   "3 kap. 1–9 §§"             → "3:1" to "3:9"
+ *   "1 kap. 2 § – 2 kap. 4 §"   → "1:2" to "2:4"
+ *   "3:1-3:9", "3:1–9"          → "3:1" to "3:9"
+ *   "1–9 §§"                    → "1" to "9"
+ */
+export function parseProvisionRange(input: string): ProvisionRange | null {
+  const trimmed = input.trim().replace(/\s+/g, ' ');
+
+  const chapter = trimmed.match(/^(?:hela )?(\d+)(?: ?([a-z]))? ?kap\.?$/i);
+  if (chapter) {
+    return { chapter: chapter[2] ? `${chapter[1]} ${chapter[2]}` : chapter[1], from: null, to: null };
+  }
+
+  const sides = trimmed.replace(/ ?§§$/, ' §').match(/^(.+?) ?[–—-] ?(.+)$/u);
+  if (!sides) return null;
+
+  const from = normalizeProvisionRef(sides[1]);
+  let to = normalizeProvisionRef(sides[2]);
+  if (!CANONICAL_REF_PATTERN.test(from) || !CANONICAL_REF_PATTERN.test(to)) {
+    return null;
+  }
+  // "3 kap. 1–9 §§": the end is in the chapter of the start
+  if (from.includes(':') && !to.includes(':')) {
+    to = `${from.split(':')[0]}:${to}`;
+  }
+  return { from, to };
+}
@@ -0,0 +1,111 @@
+/**
+ * Swedish stemmer — an implementation of the Snowball Swedish algorithm.
+ *
+ * See https://snowballstem.org/algorithms/swedish/stemmer.html. The
+ * algorithm only removes or shortens suffixes, so a stem is always a prefix
+ * of the word it came from. That lets the FTS query builder turn a stem into
+ * a prefix query ("arbetsgiv*") that matches every inflection in an index
+ * tokenised with plain unicode61.
+ */
+
+const VOWELS = new Set('aeiouyäåö');
+
+/** Step 1 suffixes, longest first so the first hit is the longest match. */
+const MAIN_SUFFIXES = [
+  'heterna', 'hetens', 'anden', 'heten', 'heter', 'arnas', 'ernas', 'ornas', 'andes', 'arens', 'andet',
+  'arna', 'erna', 'orna', 'ande', 'arne', 'aste', 'aren', 'ades', 'erns',
+  'ade', 'are', 'ern', 'ens', 'het', 'ast',
+  'ad', 'en', 'ar', 'er', 'or', 'as', 'es', 'at',
+  'a', 'e',
+];
+
+/** Function words: pronouns, prepositions, auxiliaries and conjunctions. */
+const STOPWORDS = new Set([
+  'alla', 'allt', 'annan', 'annat', 'andra', 'att', 'av', 'bara', 'blir', 'blev', 'bli', 'de', 'dem', 'den',
+  'denna', 'deras', 'dess', 'dessa', 'det', 'detta', 'dig', 'din', 'dina', 'ditt', 'du', 'där', 'då', 'efter',
+  'eller', 'en', 'er', 'ert', 'ett', 'från', 'för', 'ha', 'hade', 'han', 'hans', 'har', 'henne', 'hennes',
+  'hon', 'honom', 'hur', 'här', 'i', 'icke', 'ingen', 'inom', 'inte', 'jag', 'kan', 'kunde', 'man', 'med',
+  'mellan', 'men', 'mig', 'min', 'mina', 'mitt', 'mot', 'mycket', 'ni', 'nu', 'när', 'någon', 'något',
+  'några', 'och', 'om', 'oss', 'på', 'samma', 'samt', 'sedan', 'sig', 'sin', 'sina', 'sitt', 'ska', 'skall',
+  'skulle', 'som', 'så', 'sådan', 'sådana', 'sådant', 'till', 'under', 'upp', 'ut', 'utan', 'vad', 'var',
+  'vara', 'varit', 'varje', 'vars', 'vem', 'vi', 'vid', 'vilka', 'vilken', 'vilket', 'än', 'är', 'åt', 'över',
+  'får', 'fått', 'också', 'enligt', 'även', 'genom', 'dock',
+]);
+
+/** Letters that may precede a removable final "s". */
+const S_ENDING = new Set('bcdfghjklmnoprtvy');
+
+const CONSONANT_PAIRS = ['dd', 'gd', 'nn', 'dt', 'gt', 'kt', 'tt'];
+
+function isVowel(char: string): boolean {
+  return VOWELS.has(char);
+}
+
+/**
+ * Start of region R1: after the first non-vowel that follows a vowel,
+ * but never before the third letter.
+ */
+function regionOneStart(word: string): number {
+  for (let i = 1; i < word.length; i++) {
+    if (!isVowel(word[i]) && isVowel(word[i - 1])) {
+      return Math.max(i + 1, 3);
+    }
+  }
+  return word.length;
+}
+
+function removeMainSuffix(word: string, r1: number): string {
+  for (const suffix of MAIN_SUFFIXES) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= r1) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  if (word.endsWith('s') && word.length - 1 >= r1 && S_ENDING.has(word[word.length - 2])) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
+
+function undoubleConsonant(word: string, r1: number): string {
+  for (const pair of CONSONANT_PAIRS) {
+    if (word.endsWith(pair) && word.length - pair.length >= r1) {
+      return word.slice(0, -1);
+    }
+  }
+  return word;
+}
+
+function removeOtherSuffix(word: string, r1: number): string {
+  const inR1 = (suffix: string) => word.endsWith(suffix) && word.length - suffix.length >= r1;
+  if (inR1('fullt') || inR1('löst')) return word.slice(0, -1);
+  for (const suffix of ['lig', 'els', 'ig']) {
+    if (inR1(suffix)) return word.slice(0, -suffix.length);
+  }
+  return word;
+}
+
+/**
+ * Stem a single Swedish word. Input is lower-cased; tokens containing
+ * digits are returned unchanged.
+ *
+ *   "arbetsgivarens" → "arbetsgiv"
+ *   "uppsägningen"   → "uppsägning"
+ *   "barnen"         → "barn"
+ */
+export function stemSwedish(word: string): string {
+  const lower = word.normalize('NFC').toLowerCase();
+  if (lower.length < 3 || /\d/.test(lower)) {
+    return lower;
+  }
+
+  const r1 = regionOneStart(lower);
+  let stem = removeMainSuffix(lower, r1);
+  stem = undoubleConsonant(stem, r1);
+  stem = removeOtherSuffix(stem, r1);
+  return stem;
+}
+
+/** True for Swedish function words ("kan", "mina", "jag"), which carry no topic. */
+export function isStopword(word: string): boolean {
+  return STOPWORDS.has(word.normalize('NFC').toLowerCase());
+}
@@ -0,0 +1,279 @@
+/**
+ * Legal thesaurus for query expansion.
+ *
+ * Lawyers search with statute abbreviations ("BrB", "LAS") and everyday terms
+ * that the statute text does not use ("hyresgäst" where the provision says
+ * "lägenhetsinnehavare"). The `thesaurus` table maps such terms to the words
+ * the sources actually contain. It is seeded at build time from
+ * `legal_documents.short_name`, `definitions.term` and a small curated list.
+ *
+ * Relations are stored in both directions, so a lookup only ever reads the
+ * rows keyed on the query term:
+ *   abbreviation — "LAS" → "Lag om anställningsskydd" (with its SFS number)
+ *   synonym      — "uppsägning" ↔ "avskedande"
+ *   broader      — "stöld" → "tillgreppsbrott"
+ *   narrower     — "tillgreppsbrott" → "stöld"
+ *
+ * Queries expand through abbreviations, synonyms and narrower terms. Broader
+ * terms are recorded for browsing but never widen a search.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import { stemSwedish } from './swedish-stemmer.js';
+import { splitCompound } from './compound-splitter.js';
+
+export type ThesaurusRelation = 'abbreviation' | 'synonym' | 'broader' | 'narrower';
+
+export type ThesaurusSource = 'short_name' | 'definition' | 'curated';
+
+export interface ThesaurusEntry {
+  term: string;
+  related_term: string;
+  relation: ThesaurusRelation;
+  /** Statute an abbreviation stands for */
+  document_id?: string | null;
+  source: ThesaurusSource;
+}
+
+/** One applied expansion, as reported in `_meta.query_details`. */
+export interface QueryExpansion {
+  /** Query term as typed */
+  term: string;
+  relation: ThesaurusRelation;
+  /** Terms the query term was expanded to */
+  expanded_to: string[];
+  /** Statute the term abbreviates, for abbreviation expansions */
+  document_id?: string;
+}
+
+/** Relations that widen a query. */
+const EXPANDING_RELATIONS: ThesaurusRelation[] = ['abbreviation', 'synonym', 'narrower'];
+
+/** Longest multi-word term matched against a query. */
+const MAX_TERM_WORDS = 3;
+
+const INVERSE_RELATION: Record<ThesaurusRelation, ThesaurusRelation | null> = {
+  abbreviation: null,
+  synonym: 'synonym',
+  broader: 'narrower',
+  narrower: 'broader',
+};
+
+/**
+ * Hand-maintained relations that cannot be derived from the data. Each pair
+ * is stored in both directions by seedThesaurus.
+ */
+const CURATED_ENTRIES: Omit<ThesaurusEntry, 'source'>[] = [
+  // Everyday terms and the words used in statute text
+  { term: 'uppsägning', related_term: 'avskedande', relation: 'synonym' },
+  { term: 'hyresgäst', related_term: 'lägenhetsinnehavare', relation: 'synonym' },
+  { term: 'sekretess', related_term: 'tystnadsplikt', relation: 'synonym' },
+  { term: 'offentlig handling', related_term: 'allmän handling', relation: 'synonym' },
+  { term: 'dataskydd', related_term: 'integritetsskydd', relation: 'synonym' },
+  { term: 'mejl', related_term: 'e-post', relation: 'synonym' },
+  { term: 'mejl', related_term: 'elektronisk post', relation: 'synonym' },
+  { term: 'e-post', related_term: 'elektronisk post', relation: 'synonym' },
+  // Hierarchies
+  { term: 'stöld', related_term: 'tillgreppsbrott', relation: 'broader' },
+  { term: 'snatteri', related_term: 'tillgreppsbrott', relation: 'broader' },
+  { term: 'rån', related_term: 'tillgreppsbrott', relation: 'broader' },
+  { term: 'bedrägeri', related_term: 'förmögenhetsbrott', relation: 'broader' },
+  { term: 'tillgreppsbrott', related_term: 'förmögenhetsbrott', relation: 'broader' },
+  { term: 'skadestånd', related_term: 'ersättning', relation: 'broader' },
+  { term: 'avskedande', related_term: 'anställningens upphörande', relation: 'broader' },
+  { term: 'uppsägning', related_term: 'anställningens upphörande', relation: 'broader' },
+  // Abbreviations that are not statute short names
+  { term: 'IMY', related_term: 'Integritetsskyddsmyndigheten', relation: 'abbreviation' },
+  { term: 'GDPR', related_term: 'dataskyddsförordningen', relation: 'abbreviation' },
+];
+
+/**
+ * Lookup key for a term: the Snowball stem of each word, so "Uppsägningen"
+ * and "uppsägning" share a key.
+ */
+export function thesaurusKey(term: string): string {
+  return (term.normalize('NFC').match(/[\p{L}\p{N}_]+/gu) ?? [])
+    .map(stemSwedish)
+    .join(' ');
+}
+
+/** "Lag (1982:80) om anställningsskydd" → "Lag om anställningsskydd". */
+function statuteName(title: string): string {
+  return title.replace(/\s*\(\d{4}:\d+[^)]*\)/, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * The head of a compound or phrase names its genus: "känsliga
+ * personuppgifter" is a kind of "personuppgift", "tillsynsmyndighet" a kind
+ * of "myndighet". Returns the key of that head, or null for simplex terms.
+ */
+function headKey(term: string): string | null {
+  const words = term.normalize('NFC').match(/[\p{L}\p{N}_]+/gu) ?? [];
+  if (words.length > 1) {
+    return stemSwedish(words[words.length - 1]);
+  }
+  const parts = splitCompound(words[0] ?? '');
+  return parts.length > 1 ? stemSwedish(parts[parts.length - 1]) : null;
+}
+
+interface DefinitionTermRow {
+  term: string;
+  term_en: string | null;
+}
+
+/** Derive thesaurus entries from statute short names and defined terms. */
+function deriveEntries(db: Database): ThesaurusEntry[] {
+  const entries: ThesaurusEntry[] = [];
+
+  const statutes = db.prepare(`
+    SELECT id, title, short_name
+    FROM legal_documents
+    WHERE type = 'statute' AND short_name IS NOT NULL AND short_name != ''
+  `).all() as { id: string; title: string; short_name: string }[];
+  for (const statute of statutes) {
+    entries.push({
+      term: statute.short_name,
+      related_term: statuteName(statute.title),
+      relation: 'abbreviation',
+      document_id: statute.id,
+      source: 'short_name',
+    });
+  }
+
+  const definitions = db.prepare(`
+    SELECT DISTINCT term, term_en FROM definitions
+  `).all() as DefinitionTermRow[];
+  const definedTerms = new Map<string, string>();
+  for (const def of definitions) {
+    definedTerms.set(thesaurusKey(def.term), def.term);
+  }
+  for (const def of definitions) {
+    if (def.term_en) {
+      entries.push({ term: def.term, related_term: def.term_en, relation: 'synonym', source: 'definition' });
+    }
+    const head = headKey(def.term);
+    const genus = head ? definedTerms.get(head) : undefined;
+    if (genus && thesaurusKey(genus) !== thesaurusKey(def.term)) {
+      entries.push({ term: def.term, related_term: genus, relation: 'broader', source: 'definition' });
+    }
+  }
+
+  for (const entry of CURATED_ENTRIES) {
+    entries.push({ ...entry, source: 'curated' });
+  }
+
+  return entries;
+}
+
+/**
+ * Fill the `thesaurus` table from the documents and definitions already in
+ * the database. Returns the number of rows inserted.
+ */
+export function seedThesaurus(db: Database): number {
+  const insert = db.prepare(`
+    INSERT OR IGNORE INTO thesaurus (term, term_key, related_term, relation, document_id, source)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+
+  let inserted = 0;
+  const add = (entry: ThesaurusEntry): void => {
+    const result = insert.run(
+      entry.term,
+      thesaurusKey(entry.term),
+      entry.related_term,
+      entry.relation,
+      entry.document_id ?? null,
+      entry.source,
+    );
+    inserted += result.changes;
+  };
+
+  for (const entry of deriveEntries(db)) {
+    add(entry);
+    const inverse = INVERSE_RELATION[entry.relation];
+    if (inverse) {
+      add({ ...entry, term: entry.related_term, related_term: entry.term, relation: inverse });
+    }
+  }
+
+  return inserted;
+}
+
+function hasThesaurusTable(db: Database): boolean {
+  const row = db.prepare(
+    "SELECT name FROM sqlite_master WHERE type='table' AND name='thesaurus'"
+  ).get();
+  return !!row;
+}
+
+interface ThesaurusRow {
+  term_key: string;
+  related_term: string;
+  relation: ThesaurusRelation;
+  document_id: string | null;
+}
+
+/**
+ * Look up expansions for the words and phrases of a natural-language query.
+ * Longer phrases win over the words they contain ("allmän handling" before
+ * "handling"). Returns an empty list when the database has no thesaurus.
+ */
+export function expandQuery(db: Database, query: string): QueryExpansion[] {
+  const words = query.normalize('NFC').match(/[\p{L}\p{N}_]+/gu) ?? [];
+  if (words.length === 0 || !hasThesaurusTable(db)) {
+    return [];
+  }
+
+  const keys = words.map(stemSwedish);
+  const candidates = new Map<string, string>();
+  for (let start = 0; start < words.length; start++) {
+    for (let length = 1; length <= MAX_TERM_WORDS && start + length <= words.length; length++) {
+      candidates.set(keys.slice(start, start + length).join(' '), words.slice(start, start + length).join(' '));
+    }
+  }
+
+  const placeholders = [...candidates.keys()].map(() => '?').join(', ');
+  const relations = EXPANDING_RELATIONS.map(() => '?').join(', ');
+  const rows = db.prepare(`
+    SELECT term_key, related_term, relation, document_id
+    FROM thesaurus
+    WHERE term_key IN (${placeholders}) AND relation IN (${relations})
+    ORDER BY id
+  `).all(...candidates.keys(), ...EXPANDING_RELATIONS) as ThesaurusRow[];
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const byKey = new Map<string, ThesaurusRow[]>();
+  for (const row of rows) {
+    byKey.set(row.term_key, [...(byKey.get(row.term_key) ?? []), row]);
+  }
+
+  const expansions: QueryExpansion[] = [];
+  for (let start = 0; start < words.length;) {
+    let matched = 0;
+    for (let length = Math.min(MAX_TERM_WORDS, words.length - start); length > 0; length--) {
+      const key = keys.slice(start, start + length).join(' ');
+      const matches = byKey.get(key);
+      if (!matches) continue;
+
+      const term = candidates.get(key)!;
+      for (const relation of EXPANDING_RELATIONS) {
+        const related = matches.filter(row => row.relation === relation);
+        if (related.length === 0) continue;
+        const documentId = related.find(row => row.document_id)?.document_id;
+        expansions.push({
+          term,
+          relation,
+          expanded_to: [...new Set(related.map(row => row.related_term))],
+          ...(documentId ? { document_id: documentId } : {}),
+        });
+      }
+      matched = length;
+      break;
+    }
+    start += Math.max(matched, 1);
+  }
+
+  return expansions;
+}
@@ -0,0 +1,248 @@
+/**
+ * Optional vector index for semantic provision search.
+ *
+ * `scripts/build-db.ts` trains an LSA model (see lsa.ts) on the provision
+ * corpus and stores it in two tables: `vector_terms` (one vector and IDF per
+ * term, enough to embed a query) and `provision_vectors` (one unit vector per
+ * provision). Databases built with --no-vectors leave both empty and
+ * semantic search reports itself unavailable.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import {
+  cosineSimilarity,
+  decodeVector,
+  embedText,
+  encodeVector,
+  trainLsaModel,
+  type LsaModel,
+  type LsaTrainingOptions,
+} from './lsa.js';
+import { expandQuery } from './thesaurus.js';
+
+export type SearchMode = 'lexical' | 'semantic' | 'hybrid';
+
+export const SEARCH_MODES: SearchMode[] = ['lexical', 'semantic', 'hybrid'];
+
+export const NO_VECTOR_INDEX_NOTE =
+  'This database has no vector index (built with --no-vectors); results are from lexical search.';
+
+/** Hits below this cosine similarity share little more than stopword-level terms. */
+const MIN_SIMILARITY = 0.1;
+
+interface IndexedProvision {
+  id: number;
+  document_id: string;
+  vector: Float32Array;
+}
+
+interface LoadedIndex {
+  model: LsaModel;
+  provisions: IndexedProvision[];
+}
+
+export interface SemanticHit {
+  provision_id: number;
+  document_id: string;
+  score: number;
+}
+
+const loadedIndexes = new WeakMap<Database, LoadedIndex | null>();
+
+function loadIndex(db: Database): LoadedIndex | null {
+  if (loadedIndexes.has(db)) {
+    return loadedIndexes.get(db)!;
+  }
+
+  let index: LoadedIndex | null = null;
+  const hasTables = db.prepare(
+    "SELECT COUNT(*) as count FROM sqlite_master WHERE type='table' AND name IN ('vector_terms', 'provision_vectors')"
+  ).get() as { count: number };
+  if (hasTables.count === 2) {
+    const termRows = db.prepare('SELECT term, idf, vector FROM vector_terms').all() as
+      { term: string; idf: number; vector: Uint8Array }[];
+    if (termRows.length > 0) {
+      const terms = new Map(termRows.map(row => [row.term, { idf: row.idf, vector: decodeVector(row.vector) }]));
+      const provisionRows = db.prepare(`
+        SELECT pv.provision_id, lp.document_id, pv.vector
+        FROM provision_vectors pv
+        JOIN legal_provisions lp ON lp.id = pv.provision_id
+      `).all() as { provision_id: number; document_id: string; vector: Uint8Array }[];
+      index = {
+        model: { dimensions: terms.values().next().value!.vector.length, terms },
+        provisions: provisionRows.map(row => ({
+          id: row.provision_id,
+          document_id: row.document_id,
+          vector: decodeVector(row.vector),
+        })),
+      };
+    }
+  }
+
+  loadedIndexes.set(db, index);
+  return index;
+}
+
+/** Whether the database carries a vector index. */
+export function hasVectorIndex(db: Database): boolean {
+  return loadIndex(db) !== null;
+}
+
+/**
+ * Provisions ranked by semantic similarity to `query`, best first. Empty
+ * when the database has no vector index or the query has no known terms.
+ */
+export function searchProvisionVectors(
+  db: Database,
+  query: string,
+  options: { documentId?: string; limit: number },
+): SemanticHit[] {
+  const index = loadIndex(db);
+  if (!index) return [];
+
+  // Everyday words ("mejl") may be missing from the statute vocabulary; their
+  // thesaurus expansions ("elektronisk post") are not.
+  const expanded = expandQuery(db, query).flatMap(expansion => expansion.expanded_to);
+  const queryVector = embedText(index.model, [query, ...expanded].join(' '));
+  if (!queryVector) return [];
+
+  const hits: SemanticHit[] = [];
+  for (const provision of index.provisions) {
+    if (options.documentId && provision.document_id !== options.documentId) continue;
+    const score = cosineSimilarity(queryVector, provision.vector);
+    if (score >= MIN_SIMILARITY) {
+      hits.push({ provision_id: provision.id, document_id: provision.document_id, score });
+    }
+  }
+
+  return hits.sort((a, b) => b.score - a.score).slice(0, options.limit);
+}
+
+/**
+ * Train the model on every provision in `legal_provisions` and write the
+ * vector tables. Returns the embedding size (0 when the corpus is too small).
+ */
+export function buildVectorIndex(db: Database, options: LsaTrainingOptions = {}): number {
+  const provisions = db.prepare(`
+    SELECT id, COALESCE(title, '') || ' ' || content as text
+    FROM legal_provisions
+    ORDER BY id
+  `).all() as { id: number; text: string }[];
+
+  const model = trainLsaModel(provisions.map(p => p.text), options);
+  if (model.dimensions === 0) {
+    return 0;
+  }
+
+  db.exec('DELETE FROM vector_terms; DELETE FROM provision_vectors;');
+  const insertTerm = db.prepare('INSERT INTO vector_terms (term, idf, vector) VALUES (?, ?, ?)');
+  for (const [term, { idf, vector }] of model.terms) {
+    insertTerm.run(term, idf, encodeVector(vector));
+  }
+
+  const insertProvision = db.prepare('INSERT INTO provision_vectors (provision_id, vector) VALUES (?, ?)');
+  for (const provision of provisions) {
+    const vector = embedText(model, provision.text);
+    if (vector) {
+      insertProvision.run(provision.id, encodeVector(vector));
+    }
+  }
+
+  loadedIndexes.delete(db);
+  return model.dimensions;
+}
+
+export interface SemanticProvisionRow {
+  document_id: string;
+  document_title: string;
+  provision_ref: string;
+  chapter: string | null;
+  section: string;
+  title: string | null;
+  snippet: string;
+  /** Negated cosine similarity, so that lower is better as with BM25 */
+  relevance: number;
+  valid_from: string | null;
+  valid_to: string | null;
+}
+
+/** Candidates fetched per requested row, to leave room for status and date filters. */
+const SEMANTIC_OVERFETCH = 4;
+
+/**
+ * Semantic provision search returning display rows, best first. With
+ * `asOfDate`, each hit is replaced by the version in force on that date
+ * (hits for provisions that did not exist then are dropped).
+ */
+export function semanticProvisionSearch(
+  db: Database,
+  query: string,
+  options: { documentId?: string; status?: string; asOfDate?: string | null; limit: number },
+): SemanticProvisionRow[] {
+  const hits = searchProvisionVectors(db, query, {
+    documentId: options.documentId,
+    limit: options.limit * SEMANTIC_OVERFETCH,
+  });
+  if (hits.length === 0) return [];
+
+  let sql = `
+    SELECT
+      lp.id,
+      lp.document_id,
+      ld.title as document_title,
+      lp.provision_ref,
+      lp.chapter,
+      lp.section,
+      lp.title,
+      substr(lp.content, 1, 320) as snippet
+    FROM legal_provisions lp
+    JOIN legal_documents ld ON ld.id = lp.document_id
+    WHERE lp.id IN (${hits.map(() => '?').join(', ')})
+  `;
+  const params: (string | number)[] = hits.map(hit => hit.provision_id);
+  if (options.status) {
+    sql += ' AND ld.status = ?';
+    params.push(options.status);
+  }
+  const byId = new Map(
+    (db.prepare(sql).all(...params) as (Omit<SemanticProvisionRow, 'relevance' | 'valid_from' | 'valid_to'> & { id: number })[])
+      .map(({ id, ...row }) => [id, row])
+  );
+
+  const versionAt = db.prepare(`
+    SELECT
+      lpv.document_id,
+      ld.title as document_title,
+      lpv.provision_ref,
+      lpv.chapter,
+      lpv.section,
+      lpv.title,
+      substr(lpv.content, 1, 320) as snippet,
+      lpv.valid_from,
+      lpv.valid_to
+    FROM legal_provision_versions lpv
+    JOIN legal_documents ld ON ld.id = lpv.document_id
+    WHERE lpv.document_id = ? AND lpv.provision_ref = ?
+      AND (lpv.valid_from IS NULL OR lpv.valid_from <= ?)
+      AND (lpv.valid_to IS NULL OR lpv.valid_to > ?)
+    ORDER BY COALESCE(lpv.valid_from, '0000-01-01') DESC, lpv.id DESC
+    LIMIT 1
+  `);
+
+  const rows: SemanticProvisionRow[] = [];
+  for (const hit of hits) {
+    const row = byId.get(hit.provision_id);
+    if (!row) continue;
+
+    if (options.asOfDate) {
+      const version = versionAt.get(row.document_id, row.provision_ref, options.asOfDate, options.asOfDate) as
+        Omit<SemanticProvisionRow, 'relevance'> | undefined;
+      if (!version) continue;
+      rows.push({ ...version, relevance: -hit.score });
+    } else {
+      rows.push({ ...row, relevance: -hit.score, valid_from: null, valid_to: null });
+    }
+    if (rows.length >= options.limit) break;
+  }
+  return rows;
+}
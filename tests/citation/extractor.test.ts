@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { extractCitations } from '../../src/citation/extractor.js';
+
+describe('extractCitations', () => {
+  it('finds citations with their spans', () => {
+    const text = 'Enligt 3 kap. 1 § första stycket dataskyddslagen (2018:218) och prop. 2017/18:105 s. 45 f. gäller detta.';
+    const citations = extractCitations(text);
+    expect(citations.map(c => [c.text, c.citation])).toEqual([
+      ['3 kap. 1 § första stycket dataskyddslagen (2018:218)', '2018:218 3 kap. 1 § första stycket'],
+      ['prop. 2017/18:105 s. 45 f.', 'prop. 2017/18:105 s. 45 f.'],
+    ]);
+    for (const c of citations) {
+      expect(text.slice(c.start, c.end)).toBe(c.text);
+    }
+  });
+
+  it('recognises case law, EU acts and riksdag documents', () => {
+    const text = 'Se NJA 2020 s. 45, MÖD 2019:3, ECLI:SE:HDO:2020:45, artikel 6.1 c i förordning (EU) 2016/679, ' +
+      'direktiv 95/46/EG, CELEX 32016R0679, SOU 2017:39, bet. 2017/18:UbU30 och Dir. 2021:45.';
+    expect(extractCitations(text).map(c => c.text)).toEqual([
+      'NJA 2020 s. 45',
+      'MÖD 2019:3',
+      'ECLI:SE:HDO:2020:45',
+      'artikel 6.1 c i förordning (EU) 2016/679',
+      'direktiv 95/46/EG',
+      'CELEX 32016R0679',
+      'SOU 2017:39',
+      'bet. 2017/18:UbU30',
+      'Dir. 2021:45',
+    ]);
+  });
+
+  it('separates named statutes and bare provisions', () => {
+    const citations = extractCitations('Jfr 5 a § PUL, 2 kap. 2 § dataskyddslagen och 7 § lagen.');
+    expect(citations.map(c => [c.text, c.provision, c.statute_name])).toEqual([
+      ['5 a § PUL', '5 a §', 'PUL'],
+      ['2 kap. 2 § dataskyddslagen', '2 kap. 2 §', 'dataskyddslagen'],
+      ['7 §', '7 §', undefined],
+    ]);
+  });
+
+  it('does not read the word "i" as a section letter', () => {
+    expect(extractCitations('SFS 2018:218 2:2 i sin helhet')[0].text).toBe('SFS 2018:218 2:2');
+  });
+
+  it('reads a wording qualifier without citing its amending act', () => {
+    const citations = extractCitations('SFS 2018:218 2:2 i dess lydelse före SFS 2018:1248 och 3 § PUL i äldre lydelse.');
+    expect(citations.map(c => [c.text, c.wording])).toEqual([
+      ['SFS 2018:218 2:2', { text: 'i dess lydelse före SFS 2018:1248', relation: 'before', amending_sfs: '2018:1248' }],
+      ['3 § PUL', { text: 'i äldre lydelse', relation: 'earlier' }],
+    ]);
+  });
+
+  it('reads a wording qualifier after the title of a numbered statute', () => {
+    const citations = extractCitations('7 § lagen (1982:80) om anställningsskydd i dess lydelse enligt SFS 1993:1496 gäller.');
+    expect(citations.map(c => [c.text, c.citation, c.wording])).toEqual([
+      ['7 § lagen (1982:80)', '1982:80 7 §', { text: 'i dess lydelse enligt SFS 1993:1496', relation: 'according_to', amending_sfs: '1993:1496' }],
+    ]);
+  });
+});
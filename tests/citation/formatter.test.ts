@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { formatCitation, formatProvisionRef } from '../../src/citation/formatter.js';
+import { parseCitation } from '../../src/citation/parser.js';
 import type { ParsedCitation } from '../../src/types/index.js';
 
 describe('formatCitation', () => {
@@ -103,6 +104,62 @@ describe('formatCitation', () => {
     });
   });
 
+  describe('stycke and punkt', () => {
+    it('should append the pinpoint in every format', () => {
+      const citation: ParsedCitation = {
+        raw: '2018:218 3:5 första stycket 2', type: 'statute', document_id: '2018:218',
+        chapter: '3', section: '5', stycke: 1, punkt: 2, valid: true,
+      };
+      expect(formatCitation(citation, 'full')).toBe('SFS 2018:218 3 kap. 5 § första stycket 2');
+      expect(formatCitation(citation, 'short')).toBe('2018:218 3:5 första stycket 2');
+      expect(formatCitation(citation, 'pinpoint')).toBe('3 kap. 5 § första stycket 2');
+    });
+
+    it('should format a punkt without stycke', () => {
+      const citation: ParsedCitation = {
+        raw: '1998:204 5 § 2 p.', type: 'statute', document_id: '1998:204',
+        section: '5', punkt: 2, valid: true,
+      };
+      expect(formatCitation(citation)).toBe('SFS 1998:204 5 § 2 p.');
+    });
+  });
+
+  describe('round trip', () => {
+    it.each([
+      'SFS 2018:218 3 kap. 5–7 §§',
+      'Prop. 2017/18:105 s. 45',
+      'bet. 2017/18:KU21',
+      'rskr. 2017/18:224',
+      'Dir. 2021:45',
+      'NJA II 1915 s. 123',
+      'RÅ 2010 ref. 5',
+      'AD 2021 nr 5',
+      'RH 2015:12',
+      'MÖD 2019:3',
+      'PMÖD 2018:5',
+      'MIG 2017:7',
+      'ECLI:SE:HDO:2020:45',
+      'förordning (EU) 2016/679 artikel 6.1 c',
+      'förordning (EG) nr 765/2008',
+      'direktiv 95/46/EG',
+      'direktiv (EU) 2016/680',
+    ])('formats %s as it was parsed', citation => {
+      expect(formatCitation(parseCitation(citation))).toBe(citation);
+    });
+
+    it('should format section ranges and EU acts in short and pinpoint form', () => {
+      const range = parseCitation('SFS 2018:218 3 kap. 5–7 §§');
+      expect(formatCitation(range, 'short')).toBe('2018:218 3:5–7');
+      expect(formatCitation(range, 'pinpoint')).toBe('3 kap. 5–7 §§');
+      expect(formatCitation(parseCitation('2018:218 3:5–7'))).toBe('SFS 2018:218 3 kap. 5–7 §§');
+
+      const gdpr = parseCitation('förordning (EU) 2016/679 artikel 6.1 c');
+      expect(formatCitation(gdpr, 'short')).toBe('CELEX 32016R0679 art. 6.1 c');
+      expect(formatCitation(gdpr, 'pinpoint')).toBe('artikel 6.1 c');
+      expect(formatCitation(parseCitation('CELEX 32016R0679 art. 6.1 c'))).toBe('förordning (EU) 2016/679 artikel 6.1 c');
+    });
+  });
+
   describe('invalid citation', () => {
     it('should return raw text for invalid citation', () => {
       const citation: ParsedCitation = {
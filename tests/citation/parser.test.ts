@@ -75,6 +75,26 @@ describe('parseCitation', () => {
       expect(result.chapter).toBe('3');
       expect(result.section).toBe('5');
     });
+
+    it('should parse stycke and punkt pinpoints', () => {
+      const result = parseCitation('SFS 2018:218 3 kap. 5 § första stycket 2');
+      expect(result.valid).toBe(true);
+      expect(result.section).toBe('5');
+      expect(result.stycke).toBe(1);
+      expect(result.punkt).toBe(2);
+
+      expect(parseCitation('2018:218 3:5 andra stycket')).toMatchObject({ chapter: '3', section: '5', stycke: 2 });
+      expect(parseCitation('3 kap. 5 § tredje st. lag (2018:218)')).toMatchObject({ document_id: '2018:218', stycke: 3 });
+      expect(parseCitation('1998:204 5 a § 2 p.')).toMatchObject({ section: '5 a', punkt: 2 });
+      expect(parseCitation('1998:204 5 a § 2 p.').stycke).toBeUndefined();
+    });
+
+    it('should parse plural section ranges', () => {
+      expect(parseCitation('SFS 2018:218 3 kap. 5–7 §§')).toMatchObject({ chapter: '3', section: '5', section_end: '7' });
+      expect(parseCitation('2018:218 3:5-7')).toMatchObject({ chapter: '3', section: '5', section_end: '7' });
+      expect(parseCitation('1998:204 5 a–7 §§')).toMatchObject({ section: '5 a', section_end: '7' });
+      expect(parseCitation('3 kap. 1–3 §§ lag (2018:218)')).toMatchObject({ document_id: '2018:218', section: '1', section_end: '3' });
+    });
   });
 
   describe('propositions', () => {
@@ -84,6 +104,19 @@ describe('parseCitation', () => {
       expect(result.type).toBe('bill');
       expect(result.document_id).toBe('2017/18:105');
     });
+
+    it('should parse a page pinpoint', () => {
+      expect(parseCitation('prop. 2017/18:105 s. 45')).toMatchObject({ type: 'bill', document_id: '2017/18:105', page: '45' });
+      expect(parseCitation('SOU 2017:39 s. 120 f.')).toMatchObject({ type: 'sou', page: '120 f.' });
+    });
+  });
+
+  describe('riksdag documents', () => {
+    it('should parse committee reports, communications and directives', () => {
+      expect(parseCitation('bet. 2017/18:KU21')).toMatchObject({ type: 'committee_report', document_id: '2017/18:KU21' });
+      expect(parseCitation('rskr. 2017/18:224')).toMatchObject({ type: 'riksdag_communication', document_id: '2017/18:224' });
+      expect(parseCitation('Dir. 2021:45')).toMatchObject({ type: 'committee_directive', document_id: '2021:45' });
+    });
   });
 
   describe('SOU', () => {
@@ -128,6 +161,42 @@ describe('parseCitation', () => {
       expect(result.document_id).toBe('AD 2021');
       expect(result.page).toBe('5');
     });
+
+    it('should parse RÅ, NJA II and year:number forms', () => {
+      expect(parseCitation('RÅ 2010 ref. 5')).toMatchObject({ document_id: 'RÅ 2010', page: '5' });
+      expect(parseCitation('NJA II 1915 s. 123')).toMatchObject({ document_id: 'NJA II 1915', page: '123' });
+      for (const court of ['RH', 'MÖD', 'PMÖD', 'MIG']) {
+        expect(parseCitation(`${court} 2019:3`)).toMatchObject({ type: 'case_law', document_id: `${court} 2019`, page: '3' });
+      }
+    });
+
+    it('should parse ECLI identifiers', () => {
+      expect(parseCitation('ECLI:SE:HDO:2020:45')).toMatchObject({ type: 'case_law', document_id: 'ECLI:SE:HDO:2020:45' });
+      expect(parseCitation('ecli:eu:c:2014:317').document_id).toBe('ECLI:EU:C:2014:317');
+    });
+  });
+
+  describe('EU acts', () => {
+    it('should parse regulations with an article pinpoint', () => {
+      expect(parseCitation('förordning (EU) 2016/679 artikel 6.1 c')).toMatchObject({
+        type: 'eu_act', document_id: 'regulation:2016/679', celex: '32016R0679', community: 'EU', article: '6.1 c',
+      });
+      expect(parseCitation('artikel 9.2 i Europaparlamentets och rådets förordning (EU) 2016/679')).toMatchObject({
+        document_id: 'regulation:2016/679', article: '9.2',
+      });
+    });
+
+    it('should parse number-first regulations and directives', () => {
+      expect(parseCitation('förordning (EG) nr 765/2008')).toMatchObject({ document_id: 'regulation:765/2008', celex: '32008R0765', community: 'EG' });
+      expect(parseCitation('direktiv 95/46/EG')).toMatchObject({ document_id: 'directive:95/46', celex: '31995L0046', community: 'EG' });
+      expect(parseCitation('direktiv (EU) 2016/680')).toMatchObject({ document_id: 'directive:2016/680', celex: '32016L0680' });
+    });
+
+    it('should parse CELEX numbers', () => {
+      expect(parseCitation('CELEX 32016R0679 art. 6.1 c')).toMatchObject({ document_id: 'regulation:2016/679', article: '6.1 c' });
+      expect(parseCitation('32014R0910')).toMatchObject({ document_id: 'regulation:910/2014', community: 'EU' });
+      expect(parseCitation('CELEX:62014CJ0362')).toMatchObject({ type: 'eu_act', document_id: '62014CJ0362' });
+    });
   });
 
   describe('error cases', () => {
@@ -167,6 +236,15 @@ describe('detectDocumentType', () => {
   it('should detect case law', () => {
     expect(detectDocumentType('NJA 2020 s. 45')).toBe('case_law');
     expect(detectDocumentType('HFD 2019 ref. 12')).toBe('case_law');
+    expect(detectDocumentType('MÖD 2019:3')).toBe('case_law');
+    expect(detectDocumentType('ECLI:SE:HDO:2020:45')).toBe('case_law');
+  });
+
+  it('should detect riksdag documents and EU acts', () => {
+    expect(detectDocumentType('bet. 2017/18:KU21')).toBe('committee_report');
+    expect(detectDocumentType('rskr. 2017/18:224')).toBe('riksdag_communication');
+    expect(detectDocumentType('Dir. 2021:45')).toBe('committee_directive');
+    expect(detectDocumentType('förordning (EU) 2016/679')).toBe('eu_act');
   });
 
   it('should return null for unknown', () => {
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { formatCitationInStyle, type CitationStyleContext } from '../../src/citation/styles.js';
+import { parseCitation } from '../../src/citation/parser.js';
+import type { CitationStyle } from '../../src/types/index.js';
+
+const DSL: CitationStyleContext = {
+  title: 'Lag (2018:218) med kompletterande bestämmelser till EU:s dataskyddsförordning',
+  title_en: 'Act with supplementary provisions to the EU GDPR',
+};
+const BILL: CitationStyleContext = { title: 'Proposition 2017/18:105 Ny dataskyddslag', title_en: 'New Data Protection Act' };
+const SOU: CitationStyleContext = { title: 'SOU 2017:39 Ny dataskyddslag' };
+const GDPR: CitationStyleContext = {
+  title: 'Europaparlamentets och rådets förordning (EU) 2016/679 om skydd för fysiska personer',
+  title_en: 'Regulation (EU) 2016/679 on the protection of natural persons',
+};
+
+const format = (citation: string, style: CitationStyle, context: CitationStyleContext = {}) =>
+  formatCitationInStyle(parseCitation(citation), style, context);
+
+describe('formatCitationInStyle', () => {
+  it.each<[string, CitationStyleContext, string]>([
+    ['2018:218 3 kap. 5 § första stycket 2', DSL,
+      '3 kap. 5 § första stycket 2 lagen (2018:218) med kompletterande bestämmelser till EU:s dataskyddsförordning'],
+    ['SFS 1962:700', { title: 'Brottsbalk' }, 'brottsbalken (1962:700)'],
+    ['Prop. 2017/18:105 s. 45', BILL, 'prop. 2017/18:105 Ny dataskyddslag, s. 45'],
+    ['SOU 2017:39', SOU, 'SOU 2017:39 Ny dataskyddslag'],
+    ['NJA 2020 s. 45', {}, 'NJA 2020 s. 45'],
+    ['artikel 6.1 c i förordning (EU) 2016/679', GDPR,
+      'artikel 6.1 c i Europaparlamentets och rådets förordning (EU) 2016/679 om skydd för fysiska personer'],
+  ])('academic: %s', (citation, context, expected) => {
+    expect(format(citation, 'academic', context)).toBe(expected);
+  });
+
+  it.each<[string, CitationStyleContext, string]>([
+    ['2018:218 3 kap. 5 §', DSL, '3 kap. 5 § dataskyddslagen (2018:218)'],
+    ['SFS 2006:351', { title: 'Lag (2006:351) om genetisk integritet m.m.' }, 'lagen (2006:351) om genetisk integritet m.m.'],
+    ['Prop. 2017/18:105 s. 45', BILL, 'prop. 2017/18:105 s. 45'],
+    ['Dir. 2021:45', {}, 'dir. 2021:45'],
+    ['förordning (EU) 2016/679 artikel 6.1 c', GDPR, 'artikel 6.1 c i Europaparlamentets och rådets förordning (EU) 2016/679'],
+  ])('government: %s', (citation, context, expected) => {
+    expect(format(citation, 'government', context)).toBe(expected);
+  });
+
+  it.each<[string, CitationStyleContext, string]>([
+    ['2018:218 3 kap. 5 § första stycket 2', DSL,
+      'Chapter 3, Section 5, first paragraph, point 2 of the Act with supplementary provisions to the EU GDPR (SFS 2018:218)'],
+    ['2018:218 5–7 §§', { title: 'Lag om något' }, 'Sections 5–7 of SFS 2018:218 (Lag om något)'],
+    ['Prop. 2017/18:105 s. 45', BILL, 'Government Bill 2017/18:105 New Data Protection Act, p. 45'],
+    ['SOU 2017:39 s. 12', {}, 'Swedish Government Official Report SOU 2017:39, p. 12'],
+    ['NJA 2020 s. 45', {}, 'NJA 2020 p. 45 (Supreme Court)'],
+    ['HFD 2019 ref. 12', {}, 'HFD 2019 ref. 12 (Supreme Administrative Court)'],
+    ['förordning (EU) 2016/679 artikel 6.1 c', {}, 'Article 6(1)(c) of Regulation (EU) 2016/679'],
+    ['direktiv 95/46/EG', {}, 'Directive 95/46/EC'],
+  ])('english: %s', (citation, context, expected) => {
+    expect(format(citation, 'english', context)).toBe(expected);
+  });
+
+  it.each<[string, CitationStyleContext, string]>([
+    ['2018:218 3 kap. 5 § första stycket', DSL,
+      'Lag (2018:218) med kompletterande bestämmelser till EU:s dataskyddsförordning [Act with supplementary provisions to the EU GDPR] ch 3, s 5, para 1'],
+    ['2018:218 5–7 §§', {}, 'SFS 2018:218 ss 5–7'],
+    ['Prop. 2017/18:105 s. 45', BILL, 'Prop 2017/18:105 Ny dataskyddslag [New Data Protection Act] 45'],
+    ['NJA 2020 s. 45', {}, 'NJA 2020 s 45 (Supreme Court of Sweden)'],
+    ['förordning (EU) 2016/679 artikel 6.1 c', GDPR, 'Regulation (EU) 2016/679 on the protection of natural persons, art 6(1)(c)'],
+  ])('oscola: %s', (citation, context, expected) => {
+    expect(format(citation, 'oscola', context)).toBe(expected);
+  });
+
+  it('formats the standard style as the full format', () => {
+    expect(format('2018:218 3:5', 'standard')).toBe('SFS 2018:218 3 kap. 5 §');
+  });
+});
@@ -8,6 +8,17 @@ describe('validateCitation', () => {
 
   beforeAll(() => {
     db = createTestDatabase();
+    db.prepare(`
+      INSERT INTO legal_provisions (document_id, provision_ref, chapter, section, content)
+      VALUES ('2018:218', '2:3', '2', '3', ?)
+    `).run(
+      'Känsliga personuppgifter får behandlas om behandlingen är nödvändig för 1. förebyggande hälso- och sjukvård, ' +
+      '2. medicinska diagnoser.\nBehandling enligt första stycket får ske av yrkesutövare med tystnadsplikt.'
+    );
+    db.prepare(`
+      INSERT INTO legal_provisions (document_id, provision_ref, chapter, section, content)
+      VALUES ('2018:218', '2:4', '2', '4', ?)
+    `).run('Uppgifter får behandlas för arkivändamål. Behandlingen ska dokumenteras.');
   });
 
   afterAll(() => {
@@ -37,6 +48,75 @@ describe('validateCitation', () => {
     });
   });
 
+  describe('stycke and punkt', () => {
+    it('should validate an existing stycke and punkt', () => {
+      expect(validateCitation(db, 'SFS 2018:218 2 kap. 3 § första stycket 2').provision_exists).toBe(true);
+      expect(validateCitation(db, 'SFS 2018:218 2 kap. 3 § andra stycket').provision_exists).toBe(true);
+    });
+
+    it('should report a missing stycke or punkt', () => {
+      const result = validateCitation(db, 'SFS 2018:218 2 kap. 3 § första stycket 3');
+      expect(result.provision_exists).toBe(false);
+      expect(result.warnings).toContain('"första stycket 3" not found in provision "2:3" of document "2018:218"');
+      expect(validateCitation(db, 'SFS 2018:218 2 kap. 3 § tredje stycket').provision_exists).toBe(false);
+    });
+
+    it('should not verify a stycke in text stored without stycke breaks', () => {
+      const result = validateCitation(db, 'SFS 2018:218 2 kap. 4 § andra stycket');
+      expect(result.provision_exists).toBe(true);
+      expect(result.warnings).toContain(
+        'Provision "2:4" of document "2018:218" is stored without stycke breaks; "andra stycket" was not verified'
+      );
+    });
+  });
+
+  describe('other document types', () => {
+    it('should validate case law, bills with a page and EU acts', () => {
+      expect(validateCitation(db, 'NJA 2020 s. 45').document_exists).toBe(true);
+      expect(validateCitation(db, 'prop. 2017/18:105 s. 45').document_exists).toBe(true);
+
+      const gdpr = validateCitation(db, 'förordning (EU) 2016/679 artikel 6.1 c');
+      expect(gdpr.document_exists).toBe(true);
+      expect(gdpr.status).toBe('in_force');
+      expect(gdpr.warnings).toContain('Article 6.1 c not verified: EU act texts are not in the database');
+      expect(validateCitation(db, 'CELEX 32016R0679').document_exists).toBe(true);
+      expect(validateCitation(db, 'förordning (EU) 2099/1').document_exists).toBe(false);
+    });
+
+    it('should validate committee reports and communications against the amendment register', () => {
+      expect(validateCitation(db, 'bet. 2017/18:UbU30').document_exists).toBe(true);
+      expect(validateCitation(db, 'rskr. 2017/18:401').document_exists).toBe(true);
+      expect(validateCitation(db, 'bet. 2017/18:KU99').warnings).toContain('"bet. 2017/18:KU99" not found in the amendment register');
+    });
+
+    it('should not rule out committee reports the amendment register does not record', () => {
+      const bare = createTestDatabase();
+      bare.exec('UPDATE sfs_amendments SET committee_report = NULL');
+      const result = validateCitation(bare, 'bet. 2017/18:UbU30');
+      expect(result.verifiable).toBe(false);
+      expect(result.warnings[0]).toContain('records no committee reports');
+      expect(validateCitation(bare, 'rskr. 2017/18:401').document_exists).toBe(true);
+
+      bare.exec('DROP TABLE sfs_amendment_provisions; DROP TABLE sfs_amendments');
+      expect(validateCitation(bare, 'bet. 2017/18:KU23').verifiable).toBe(false);
+      closeTestDatabase(bare);
+    });
+
+    it('should report that committee directives cannot be verified', () => {
+      const result = validateCitation(db, 'Dir. 2021:45');
+      expect(result.document_exists).toBe(false);
+      expect(result.verifiable).toBe(false);
+      expect(result.warnings[0]).toContain('not in the database');
+    });
+
+    it('should check both ends of a section range', () => {
+      expect(validateCitation(db, 'SFS 2018:218 1 kap. 1–3 §§').provision_exists).toBe(true);
+      const result = validateCitation(db, 'SFS 2018:218 1 kap. 2–9 §§');
+      expect(result.provision_exists).toBe(false);
+      expect(result.warnings).toEqual(['Provision "1:9" not found in document "2018:218"']);
+    });
+  });
+
   describe('warnings', () => {
     it('should warn about repealed statute', () => {
       const result = validateCitation(db, '1998:204');
@@ -44,6 +124,12 @@ describe('validateCitation', () => {
       expect(result.warnings.some(w => w.includes('repealed'))).toBe(true);
     });
 
+    it('should warn about statute not yet in force', () => {
+      db.exec("INSERT INTO legal_documents (id, type, title, status) VALUES ('2099:1', 'statute', 'Framtida lag', 'not_yet_in_force')");
+      const result = validateCitation(db, 'SFS 2099:1');
+      expect(result.warnings).toContain('Document "2099:1" has not yet entered into force');
+    });
+
     it('should warn about non-existent provision', () => {
       const result = validateCitation(db, 'SFS 2018:218 99 kap. 99 §');
       expect(result.document_exists).toBe(true);
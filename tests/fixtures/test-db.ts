@@ -3,6 +3,9 @@
  */
 
 import Database from '@ansvar/mcp-sqlite';
+import { compoundSearchTerms } from '../../src/utils/compound-splitter.js';
+import { seedThesaurus } from '../../src/utils/thesaurus.js';
+import { splitJudgment } from '../../src/parsers/judgment-parser.js';
 
 const SCHEMA = `
 CREATE TABLE legal_documents (
@@ -29,6 +32,7 @@ CREATE TABLE legal_provisions (
   title TEXT,
   content TEXT NOT NULL,
   metadata TEXT,
+  search_terms TEXT,
   UNIQUE(document_id, provision_ref)
 );
 
@@ -36,27 +40,27 @@ CREATE INDEX idx_provisions_doc ON legal_provisions(document_id);
 CREATE INDEX idx_provisions_chapter ON legal_provisions(document_id, chapter);
 
 CREATE VIRTUAL TABLE provisions_fts USING fts5(
-  content, title,
+  content, title, search_terms,
   content='legal_provisions',
   content_rowid='id',
   tokenize='unicode61'
 );
 
 CREATE TRIGGER provisions_ai AFTER INSERT ON legal_provisions BEGIN
-  INSERT INTO provisions_fts(rowid, content, title)
-  VALUES (new.id, new.content, new.title);
+  INSERT INTO provisions_fts(rowid, content, title, search_terms)
+  VALUES (new.id, new.content, new.title, new.search_terms);
 END;
 
 CREATE TRIGGER provisions_ad AFTER DELETE ON legal_provisions BEGIN
-  INSERT INTO provisions_fts(provisions_fts, rowid, content, title)
-  VALUES ('delete', old.id, old.content, old.title);
+  INSERT INTO provisions_fts(provisions_fts, rowid, content, title, search_terms)
+  VALUES ('delete', old.id, old.content, old.title, old.search_terms);
 END;
 
 CREATE TRIGGER provisions_au AFTER UPDATE ON legal_provisions BEGIN
-  INSERT INTO provisions_fts(provisions_fts, rowid, content, title)
-  VALUES ('delete', old.id, old.content, old.title);
-  INSERT INTO provisions_fts(rowid, content, title)
-  VALUES (new.id, new.content, new.title);
+  INSERT INTO provisions_fts(provisions_fts, rowid, content, title, search_terms)
+  VALUES ('delete', old.id, old.content, old.title, old.search_terms);
+  INSERT INTO provisions_fts(rowid, content, title, search_terms)
+  VALUES (new.id, new.content, new.title, new.search_terms);
 END;
 
 CREATE TABLE legal_provision_versions (
@@ -68,6 +72,7 @@ CREATE TABLE legal_provision_versions (
   title TEXT,
   content TEXT NOT NULL,
   metadata TEXT,
+  search_terms TEXT,
   valid_from TEXT,
   valid_to TEXT
 );
@@ -75,27 +80,27 @@ CREATE TABLE legal_provision_versions (
 CREATE INDEX idx_provision_versions_doc_ref ON legal_provision_versions(document_id, provision_ref);
 
 CREATE VIRTUAL TABLE provision_versions_fts USING fts5(
-  content, title,
+  content, title, search_terms,
   content='legal_provision_versions',
   content_rowid='id',
   tokenize='unicode61'
 );
 
 CREATE TRIGGER provision_versions_ai AFTER INSERT ON legal_provision_versions BEGIN
-  INSERT INTO provision_versions_fts(rowid, content, title)
-  VALUES (new.id, new.content, new.title);
+  INSERT INTO provision_versions_fts(rowid, content, title, search_terms)
+  VALUES (new.id, new.content, new.title, new.search_terms);
 END;
 
 CREATE TRIGGER provision_versions_ad AFTER DELETE ON legal_provision_versions BEGIN
-  INSERT INTO provision_versions_fts(provision_versions_fts, rowid, content, title)
-  VALUES ('delete', old.id, old.content, old.title);
+  INSERT INTO provision_versions_fts(provision_versions_fts, rowid, content, title, search_terms)
+  VALUES ('delete', old.id, old.content, old.title, old.search_terms);
 END;
 
 CREATE TRIGGER provision_versions_au AFTER UPDATE ON legal_provision_versions BEGIN
-  INSERT INTO provision_versions_fts(provision_versions_fts, rowid, content, title)
-  VALUES ('delete', old.id, old.content, old.title);
-  INSERT INTO provision_versions_fts(rowid, content, title)
-  VALUES (new.id, new.content, new.title);
+  INSERT INTO provision_versions_fts(provision_versions_fts, rowid, content, title, search_terms)
+  VALUES ('delete', old.id, old.content, old.title, old.search_terms);
+  INSERT INTO provision_versions_fts(rowid, content, title, search_terms)
+  VALUES (new.id, new.content, new.title, new.search_terms);
 END;
 
 CREATE TABLE case_law (
@@ -105,24 +110,25 @@ CREATE TABLE case_law (
   case_number TEXT,
   decision_date TEXT,
   summary TEXT,
-  keywords TEXT
+  keywords TEXT,
+  search_terms TEXT
 );
 
 CREATE VIRTUAL TABLE case_law_fts USING fts5(
-  summary, keywords,
+  summary, keywords, search_terms,
   content='case_law',
   content_rowid='id',
   tokenize='unicode61'
 );
 
 CREATE TRIGGER case_law_ai AFTER INSERT ON case_law BEGIN
-  INSERT INTO case_law_fts(rowid, summary, keywords)
-  VALUES (new.id, new.summary, new.keywords);
+  INSERT INTO case_law_fts(rowid, summary, keywords, search_terms)
+  VALUES (new.id, new.summary, new.keywords, new.search_terms);
 END;
 
 CREATE TRIGGER case_law_ad AFTER DELETE ON case_law BEGIN
-  INSERT INTO case_law_fts(case_law_fts, rowid, summary, keywords)
-  VALUES ('delete', old.id, old.summary, old.keywords);
+  INSERT INTO case_law_fts(case_law_fts, rowid, summary, keywords, search_terms)
+  VALUES ('delete', old.id, old.summary, old.keywords, old.search_terms);
 END;
 
 CREATE TABLE preparatory_works (
@@ -130,26 +136,27 @@ CREATE TABLE preparatory_works (
   statute_id TEXT NOT NULL REFERENCES legal_documents(id),
   prep_document_id TEXT NOT NULL REFERENCES legal_documents(id),
   title TEXT,
-  summary TEXT
+  summary TEXT,
+  search_terms TEXT
 );
 
 CREATE INDEX idx_prep_statute ON preparatory_works(statute_id);
 
 CREATE VIRTUAL TABLE prep_works_fts USING fts5(
-  title, summary,
+  title, summary, search_terms,
   content='preparatory_works',
   content_rowid='id',
   tokenize='unicode61'
 );
 
 CREATE TRIGGER prep_works_ai AFTER INSERT ON preparatory_works BEGIN
-  INSERT INTO prep_works_fts(rowid, title, summary)
-  VALUES (new.id, new.title, new.summary);
+  INSERT INTO prep_works_fts(rowid, title, summary, search_terms)
+  VALUES (new.id, new.title, new.summary, new.search_terms);
 END;
 
 CREATE TRIGGER prep_works_ad AFTER DELETE ON preparatory_works BEGIN
-  INSERT INTO prep_works_fts(prep_works_fts, rowid, title, summary)
-  VALUES ('delete', old.id, old.title, old.summary);
+  INSERT INTO prep_works_fts(prep_works_fts, rowid, title, summary, search_terms)
+  VALUES ('delete', old.id, old.title, old.summary, old.search_terms);
 END;
 
 CREATE TABLE cross_references (
@@ -165,6 +172,57 @@ CREATE TABLE cross_references (
 CREATE INDEX idx_xref_source ON cross_references(source_document_id);
 CREATE INDEX idx_xref_target ON cross_references(target_document_id);
 
+CREATE TABLE sfs_amendments (
+  id INTEGER PRIMARY KEY,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  amending_sfs TEXT NOT NULL,
+  title TEXT,
+  published_date TEXT,
+  in_force_date TEXT,
+  proposition TEXT,
+  committee_report TEXT,
+  riksdag_communication TEXT,
+  source TEXT NOT NULL DEFAULT 'register'
+    CHECK(source IN ('register', 'provision_text')),
+  UNIQUE(document_id, amending_sfs)
+);
+
+CREATE INDEX idx_sfs_amendments_amending ON sfs_amendments(amending_sfs);
+
+CREATE TABLE sfs_amendment_provisions (
+  id INTEGER PRIMARY KEY,
+  amendment_id INTEGER NOT NULL REFERENCES sfs_amendments(id),
+  provision_ref TEXT NOT NULL,
+  change_type TEXT NOT NULL CHECK(change_type IN ('ändr.', 'ny', 'upph.')),
+  UNIQUE(amendment_id, provision_ref, change_type)
+);
+
+CREATE INDEX idx_sfs_amendment_provisions_ref ON sfs_amendment_provisions(provision_ref);
+
+CREATE TABLE transitional_provisions (
+  id INTEGER PRIMARY KEY,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  amending_sfs TEXT NOT NULL,
+  content TEXT NOT NULL,
+  in_force_date TEXT,
+  provision_refs TEXT NOT NULL DEFAULT '[]',
+  keeps_old_wording INTEGER NOT NULL DEFAULT 0,
+  UNIQUE(document_id, amending_sfs)
+);
+
+CREATE INDEX idx_transitional_provisions_amending ON transitional_provisions(amending_sfs);
+
+CREATE TABLE statute_chapters (
+  id INTEGER PRIMARY KEY,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  chapter TEXT NOT NULL,
+  title TEXT,
+  part TEXT,
+  part_title TEXT,
+  repealed_by TEXT,
+  UNIQUE(document_id, chapter)
+);
+
 CREATE TABLE definitions (
   id INTEGER PRIMARY KEY,
   document_id TEXT NOT NULL REFERENCES legal_documents(id),
@@ -192,6 +250,30 @@ CREATE TRIGGER definitions_ad AFTER DELETE ON definitions BEGIN
   VALUES ('delete', old.id, old.term, old.definition);
 END;
 
+CREATE TABLE thesaurus (
+  id INTEGER PRIMARY KEY,
+  term TEXT NOT NULL,
+  term_key TEXT NOT NULL,
+  related_term TEXT NOT NULL,
+  relation TEXT NOT NULL CHECK(relation IN ('abbreviation', 'synonym', 'broader', 'narrower')),
+  document_id TEXT REFERENCES legal_documents(id),
+  source TEXT NOT NULL CHECK(source IN ('short_name', 'definition', 'curated')),
+  UNIQUE(term_key, related_term, relation)
+);
+
+CREATE INDEX idx_thesaurus_key ON thesaurus(term_key, relation);
+
+CREATE TABLE vector_terms (
+  term TEXT PRIMARY KEY,
+  idf REAL NOT NULL,
+  vector BLOB NOT NULL
+);
+
+CREATE TABLE provision_vectors (
+  provision_id INTEGER PRIMARY KEY REFERENCES legal_provisions(id),
+  vector BLOB NOT NULL
+);
+
 CREATE TABLE IF NOT EXISTS eu_documents (
   id TEXT PRIMARY KEY,
   type TEXT NOT NULL CHECK(type IN ('directive', 'regulation')),
@@ -291,6 +373,7 @@ const SAMPLE_DEFINITIONS = [
   { document_id: '2018:218', term: 'behandling', term_en: 'processing', definition: 'En åtgärd eller kombination av åtgärder beträffande personuppgifter.', source_provision: '1:1' },
   { document_id: '2018:218', term: 'personuppgiftsansvarig', term_en: 'controller', definition: 'En fysisk eller juridisk person som bestämmer ändamålen och medlen för behandlingen av personuppgifter.', source_provision: '1:1' },
   { document_id: '2018:218', term: 'tillsynsmyndighet', term_en: 'supervisory authority', definition: 'Integritetsskyddsmyndigheten (IMY) är tillsynsmyndighet.', source_provision: '3:1' },
+  { document_id: '2018:218', term: 'känsliga personuppgifter', term_en: 'sensitive personal data', definition: 'Personuppgifter som avses i artikel 9.1 i EU:s dataskyddsförordning.', source_provision: '2:2' },
   { document_id: '1998:204', term: 'personuppgift', term_en: 'personal data', definition: 'All slags information som direkt eller indirekt kan hänföras till en fysisk person som är i livet.', source_provision: '3' },
 ];
 
@@ -300,6 +383,26 @@ const SAMPLE_CROSS_REFS = [
   { source_document_id: 'NJA 2020', source_provision_ref: null, target_document_id: '2018:218', target_provision_ref: '4:1', ref_type: 'references' },
 ];
 
+const SAMPLE_SFS_AMENDMENTS = [
+  { document_id: '2018:218', amending_sfs: '2018:1248', title: 'Lag (2018:1248) om ändring i lagen (2018:218) med kompletterande bestämmelser till EU:s dataskyddsförordning', published_date: '2018-06-26', in_force_date: '2018-08-01', proposition: '2017/18:298', committee_report: '2017/18:UbU30', riksdag_communication: '2017/18:401', source: 'register', changes: [{ provision_ref: '2:2', change_type: 'ändr.' }, { provision_ref: '2:3', change_type: 'ny' }] },
+  { document_id: '2018:218', amending_sfs: '2020:1010', title: 'Lag (2020:1010) om ändring i lagen (2018:218) med kompletterande bestämmelser till EU:s dataskyddsförordning', published_date: '2020-11-19', in_force_date: '2021-01-01', proposition: null, committee_report: null, riksdag_communication: null, source: 'register', changes: [{ provision_ref: '3:1', change_type: 'ändr.' }, { provision_ref: '5:1', change_type: 'upph.' }] },
+  { document_id: '2018:218', amending_sfs: '2019:300', title: null, published_date: null, in_force_date: null, proposition: null, committee_report: null, riksdag_communication: null, source: 'provision_text', changes: [{ provision_ref: '1:3', change_type: 'ändr.' }] },
+];
+
+const SAMPLE_TRANSITIONAL_PROVISIONS = [
+  { document_id: '2018:218', amending_sfs: '2018:218', content: '1. Denna lag träder i kraft den 25 maj 2018. 2. Genom lagen upphävs personuppgiftslagen (1998:204). 3. Den upphävda lagen gäller dock fortfarande i fråga om överklagande av beslut som har meddelats före ikraftträdandet.', in_force_date: '2018-05-25', provision_refs: [], keeps_old_wording: 1 },
+  { document_id: '2018:218', amending_sfs: '2018:1248', content: 'Denna lag träder i kraft den 1 augusti 2018.', in_force_date: '2018-08-01', provision_refs: [], keeps_old_wording: 0 },
+  { document_id: '2018:218', amending_sfs: '2020:1010', content: '1. Denna lag träder i kraft den 1 januari 2021. 2. Äldre bestämmelser gäller fortfarande för behandling enligt 3 kap. 1 § som har påbörjats före ikraftträdandet.', in_force_date: '2021-01-01', provision_refs: ['3:1'], keeps_old_wording: 1 },
+];
+
+const SAMPLE_STATUTE_CHAPTERS = [
+  { document_id: '2018:218', chapter: '1', title: 'Inledande bestämmelser', repealed_by: null },
+  { document_id: '2018:218', chapter: '2', title: 'Rättslig grund för behandling av personuppgifter', repealed_by: null },
+  { document_id: '2018:218', chapter: '3', title: 'Tillsyn', repealed_by: null },
+  { document_id: '2018:218', chapter: '4', title: 'Skadestånd', repealed_by: null },
+  { document_id: '2018:218', chapter: '5', title: null, repealed_by: '2020:1010' },
+];
+
 const SAMPLE_EU_DOCUMENTS = [
   {
     id: 'regulation:2016/679',
@@ -401,6 +504,87 @@ const SAMPLE_EU_REFERENCES = [
   },
 ];
 
+/** Professional-tier full judgments, as built by scripts/build-db-paid.ts */
+const FULL_CASE_LAW_SCHEMA = `
+CREATE TABLE case_law_full (
+  id INTEGER PRIMARY KEY,
+  case_law_id INTEGER NOT NULL REFERENCES case_law(id),
+  full_text TEXT NOT NULL,
+  headnotes TEXT,
+  dissenting_opinions TEXT,
+  UNIQUE(case_law_id)
+);
+
+CREATE VIRTUAL TABLE case_law_full_fts USING fts5(
+  headnotes, reasoning, dissents, full_text,
+  tokenize='unicode61'
+);
+`;
+
+const SAMPLE_CASE_LAW_FULL = [
+  {
+    document_id: 'NJA 2020',
+    headnotes: 'Fråga om skadestånd enligt dataskyddsförordningen för behandling av personuppgifter utan rättslig grund.',
+    dissenting_opinions: null,
+    full_text: [
+      'Tingsrätten',
+      'DOMSKÄL',
+      'Tingsrätten finner att behandlingen har stöd i samtycke.',
+      'Rådmannen Eva Berg var skiljaktig och ansåg att samtycket inte var frivilligt.',
+      'HÖGSTA DOMSTOLENS DOMSLUT',
+      'Högsta domstolen förpliktar bolaget att betala skadestånd med 5 000 kr.',
+      'DOMSKÄL',
+      'Bakgrund',
+      '1. Bolaget publicerade kundens personuppgifter på sin webbplats.',
+      'Bedömningen',
+      '2. Behandlingen saknade rättslig grund. Kunden har därför rätt till ersättning för kränkning.',
+      'Domen har meddelats av: justitieråden Anna Ek, Per Lund (referent) och Karin Sten.',
+      'Justitierådet Karin Sten är skiljaktig och anför följande.',
+      'Skäl',
+      'Kränkningen är ringa. Skadeståndet bör därför bestämmas till 1 000 kr.',
+    ].join('\n'),
+  },
+  {
+    document_id: 'HFD 2019',
+    headnotes: null,
+    dissenting_opinions: 'Justitierådet Olof Ström var skiljaktig och anförde att tillsynsmyndighetens beslut borde ha upphävts.',
+    full_text: [
+      'Högsta förvaltningsdomstolen meddelade den 20 juni 2019 följande dom (mål nr 5765-18).',
+      'Bakgrund',
+      'Datainspektionen förelade kommunen att upphöra med kameraövervakning.',
+      'Skälen för avgörandet',
+      'Tillsynsmyndigheten får förelägga den personuppgiftsansvarige att vidta åtgärder.',
+      'Högsta förvaltningsdomstolens avgörande',
+      'Högsta förvaltningsdomstolen avslår överklagandet.',
+      'I avgörandet deltog justitieråden Ulla Rask, Olof Ström och Ida Holm.',
+    ].join('\n'),
+  },
+];
+
+/**
+ * Add the professional-tier case_law_full table and its section index to a
+ * test database, with full judgments for the sample cases.
+ */
+export function addFullCaseLaw(db: Database.Database): void {
+  db.exec(FULL_CASE_LAW_SCHEMA);
+  const insertFull = db.prepare(`
+    INSERT INTO case_law_full (case_law_id, full_text, headnotes, dissenting_opinions)
+    SELECT id, ?, ?, ? FROM case_law WHERE document_id = ?
+  `);
+  const insertFts = db.prepare(`INSERT INTO case_law_full_fts (rowid, headnotes, reasoning, dissents, full_text) VALUES (?, ?, ?, ?, ?)`);
+  for (const judgment of SAMPLE_CASE_LAW_FULL) {
+    const { lastInsertRowid } = insertFull.run(judgment.full_text, judgment.headnotes, judgment.dissenting_opinions, judgment.document_id);
+    const sections = splitJudgment(judgment.full_text, judgment);
+    insertFts.run(
+      Number(lastInsertRowid),
+      sections.headnotes,
+      sections.reasoning,
+      sections.dissents.map(opinion => opinion.text).join('\n\n') || null,
+      judgment.full_text
+    );
+  }
+}
+
 export function createTestDatabase(): Database.Database {
   const db = new Database(':memory:');
   db.pragma('foreign_keys = ON');
@@ -419,15 +603,15 @@ function insertSampleData(db: Database.Database): void {
     insertDoc.run(doc.id, doc.type, doc.title, doc.title_en, doc.short_name, doc.status, doc.issued_date, doc.in_force_date, doc.url, doc.description);
   }
 
-  const insertProv = db.prepare(`INSERT INTO legal_provisions (document_id, provision_ref, chapter, section, title, content) VALUES (?, ?, ?, ?, ?, ?)`);
+  const insertProv = db.prepare(`INSERT INTO legal_provisions (document_id, provision_ref, chapter, section, title, content, search_terms) VALUES (?, ?, ?, ?, ?, ?, ?)`);
   for (const prov of SAMPLE_PROVISIONS) {
-    insertProv.run(prov.document_id, prov.provision_ref, prov.chapter, prov.section, prov.title, prov.content);
+    insertProv.run(prov.document_id, prov.provision_ref, prov.chapter, prov.section, prov.title, prov.content, compoundSearchTerms(prov.title, prov.content));
   }
 
   const insertProvVersion = db.prepare(`
     INSERT INTO legal_provision_versions (
-      document_id, provision_ref, chapter, section, title, content, valid_from, valid_to
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      document_id, provision_ref, chapter, section, title, content, search_terms, valid_from, valid_to
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
   for (const version of SAMPLE_PROVISION_VERSIONS) {
     insertProvVersion.run(
@@ -437,19 +621,20 @@ function insertSampleData(db: Database.Database): void {
       version.section,
       version.title,
       version.content,
+      compoundSearchTerms(version.title, version.content),
       version.valid_from,
       version.valid_to
     );
   }
 
-  const insertCL = db.prepare(`INSERT INTO case_law (document_id, court, case_number, decision_date, summary, keywords) VALUES (?, ?, ?, ?, ?, ?)`);
+  const insertCL = db.prepare(`INSERT INTO case_law (document_id, court, case_number, decision_date, summary, keywords, search_terms) VALUES (?, ?, ?, ?, ?, ?, ?)`);
   for (const cl of SAMPLE_CASE_LAW) {
-    insertCL.run(cl.document_id, cl.court, cl.case_number, cl.decision_date, cl.summary, cl.keywords);
+    insertCL.run(cl.document_id, cl.court, cl.case_number, cl.decision_date, cl.summary, cl.keywords, compoundSearchTerms(cl.summary, cl.keywords));
   }
 
-  const insertPW = db.prepare(`INSERT INTO preparatory_works (statute_id, prep_document_id, title, summary) VALUES (?, ?, ?, ?)`);
+  const insertPW = db.prepare(`INSERT INTO preparatory_works (statute_id, prep_document_id, title, summary, search_terms) VALUES (?, ?, ?, ?, ?)`);
   for (const pw of SAMPLE_PREPARATORY_WORKS) {
-    insertPW.run(pw.statute_id, pw.prep_document_id, pw.title, pw.summary);
+    insertPW.run(pw.statute_id, pw.prep_document_id, pw.title, pw.summary, compoundSearchTerms(pw.title, pw.summary));
   }
 
   const insertDef = db.prepare(`INSERT INTO definitions (document_id, term, term_en, definition, source_provision) VALUES (?, ?, ?, ?, ?)`);
@@ -457,11 +642,60 @@ function insertSampleData(db: Database.Database): void {
     insertDef.run(def.document_id, def.term, def.term_en, def.definition, def.source_provision);
   }
 
+  seedThesaurus(db);
+
   const insertXRef = db.prepare(`INSERT INTO cross_references (source_document_id, source_provision_ref, target_document_id, target_provision_ref, ref_type) VALUES (?, ?, ?, ?, ?)`);
   for (const xref of SAMPLE_CROSS_REFS) {
     insertXRef.run(xref.source_document_id, xref.source_provision_ref, xref.target_document_id, xref.target_provision_ref, xref.ref_type);
   }
 
+  const insertAmendment = db.prepare(`
+    INSERT INTO sfs_amendments (
+      document_id, amending_sfs, title, published_date, in_force_date,
+      proposition, committee_report, riksdag_communication, source
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const insertAmendmentProvision = db.prepare(`INSERT INTO sfs_amendment_provisions (amendment_id, provision_ref, change_type) VALUES (?, ?, ?)`);
+  for (const amendment of SAMPLE_SFS_AMENDMENTS) {
+    const { lastInsertRowid } = insertAmendment.run(
+      amendment.document_id,
+      amendment.amending_sfs,
+      amendment.title,
+      amendment.published_date,
+      amendment.in_force_date,
+      amendment.proposition,
+      amendment.committee_report,
+      amendment.riksdag_communication,
+      amendment.source
+    );
+    for (const change of amendment.changes) {
+      insertAmendmentProvision.run(lastInsertRowid, change.provision_ref, change.change_type);
+    }
+  }
+
+  const insertTransitional = db.prepare(`
+    INSERT INTO transitional_provisions (
+      document_id, amending_sfs, content, in_force_date, provision_refs, keeps_old_wording
+    ) VALUES (?, ?, ?, ?, ?, ?)
+  `);
+  for (const block of SAMPLE_TRANSITIONAL_PROVISIONS) {
+    insertTransitional.run(
+      block.document_id,
+      block.amending_sfs,
+      block.content,
+      block.in_force_date,
+      JSON.stringify(block.provision_refs),
+      block.keeps_old_wording
+    );
+  }
+
+  const insertChapter = db.prepare(`
+    INSERT INTO statute_chapters (document_id, chapter, title, repealed_by) VALUES (?, ?, ?, ?)
+  `);
+  for (const chapter of SAMPLE_STATUTE_CHAPTERS) {
+    insertChapter.run(chapter.document_id, chapter.chapter, chapter.title, chapter.repealed_by);
+  }
+
   const insertEUDoc = db.prepare(`
     INSERT INTO eu_documents (
       id, type, year, number, community, celex_number, title, title_sv, short_name,
@@ -518,6 +752,9 @@ export const sampleData = {
   preparatoryWorks: SAMPLE_PREPARATORY_WORKS,
   definitions: SAMPLE_DEFINITIONS,
   crossRefs: SAMPLE_CROSS_REFS,
+  sfsAmendments: SAMPLE_SFS_AMENDMENTS,
+  transitionalProvisions: SAMPLE_TRANSITIONAL_PROVISIONS,
+  statuteChapters: SAMPLE_STATUTE_CHAPTERS,
   euDocuments: SAMPLE_EU_DOCUMENTS,
   euReferences: SAMPLE_EU_REFERENCES,
 };
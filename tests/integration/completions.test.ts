@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { Database } from '@ansvar/mcp-sqlite';
+import { registerCompletions, complete } from '../../src/completions/registry.js';
+import { registerPrompts } from '../../src/prompts/registry.js';
+import { resolveDocumentId } from '../../src/utils/statute-id.js';
+import { createTestDatabase, closeTestDatabase } from '../fixtures/test-db.js';
+
+const PROMPT_REF = { type: 'ref/prompt' as const, name: 'analyse_provision' };
+
+describe('Completion registry', () => {
+  let db: Database;
+  let client: Client;
+
+  beforeAll(async () => {
+    db = createTestDatabase();
+    const server = new Server(
+      { name: 'test', version: '0.0.0' },
+      { capabilities: { prompts: {}, completions: {} } },
+    );
+    registerPrompts(server, db);
+    registerCompletions(server, db);
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    client = new Client({ name: 'test-client', version: '0.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterAll(async () => {
+    await client.close();
+    closeTestDatabase(db);
+  });
+
+  describe('document_id', () => {
+    it('suggests statutes by colloquial name', async () => {
+      const { completion } = await client.complete({
+        ref: PROMPT_REF,
+        argument: { name: 'document_id', value: 'dataskydd' },
+      });
+      expect(completion.values[0]).toBe('2018:218 — dataskyddslagen');
+    });
+
+    it('suggests statutes by SFS number, short name and title', () => {
+      const bySfs = complete(db, { ref: PROMPT_REF, argument: { name: 'document_id', value: '1998:' } });
+      expect(bySfs.completion.values).toEqual(['1998:204 — Personuppgiftslag']);
+
+      const byShortName = complete(db, { ref: PROMPT_REF, argument: { name: 'document_id', value: 'PUL' } });
+      expect(byShortName.completion.values).toEqual(['1998:204 — PUL']);
+
+      const byTitle = complete(db, { ref: PROMPT_REF, argument: { name: 'document_id', value: 'kompletterande' } });
+      expect(byTitle.completion.values).toEqual([
+        '2018:218 — Lag med kompletterande bestämmelser till EU:s dataskyddsförordning',
+      ]);
+    });
+
+    it('does not suggest bills, SOUs or cases as statutes', () => {
+      const result = complete(db, { ref: PROMPT_REF, argument: { name: 'document_id', value: 'Ny dataskyddslag' } });
+      expect(result.completion.values).toEqual([]);
+    });
+
+    it('suggests court decisions for the case resource template', () => {
+      const result = complete(db, {
+        ref: { type: 'ref/resource', uri: 'case://{document_id}' },
+        argument: { name: 'document_id', value: 'NJA' },
+      });
+      expect(result.completion.values).toEqual(['NJA 2020']);
+    });
+
+    it('treats LIKE wildcards as literal characters', () => {
+      for (const value of ['%', '_', '1998:2_4']) {
+        const result = complete(db, { ref: PROMPT_REF, argument: { name: 'document_id', value } });
+        expect(result.completion.values).toEqual([]);
+      }
+    });
+
+    it('produces values the rest of the server accepts', () => {
+      expect(resolveDocumentId(db, '2018:218 — dataskyddslagen')).toBe('2018:218');
+    });
+  });
+
+  describe('provision_ref', () => {
+    it('lists the sections of a chapter in the chosen statute', async () => {
+      const { completion } = await client.complete({
+        ref: PROMPT_REF,
+        argument: { name: 'provision_ref', value: '3:' },
+        context: { arguments: { document_id: '2018:218 — dataskyddslagen' } },
+      });
+      expect(completion.values).toEqual(['3:1', '3:2']);
+    });
+
+    it('accepts Swedish chapter notation', () => {
+      const result = complete(db, {
+        ref: { type: 'ref/resource', uri: 'sfs://{document_id}/{provision_ref}' },
+        argument: { name: 'provision_ref', value: '1 kap.' },
+        context: { arguments: { document_id: 'dataskyddslagen' } },
+      });
+      expect(result.completion.values).toEqual(['1:1', '1:2', '1:3']);
+    });
+
+    it('returns nothing until a document is chosen', () => {
+      const result = complete(db, { ref: PROMPT_REF, argument: { name: 'provision_ref', value: '3:' } });
+      expect(result.completion.values).toEqual([]);
+    });
+  });
+
+  it('suggests court codes from case law', () => {
+    const result = complete(db, { ref: PROMPT_REF, argument: { name: 'court', value: 'H' } });
+    expect(result.completion.values).toEqual(['HD', 'HFD']);
+  });
+
+  it('returns an empty list for arguments without a completion source', () => {
+    const result = complete(db, { ref: PROMPT_REF, argument: { name: 'date', value: '2019' } });
+    expect(result.completion).toEqual({ values: [], hasMore: false });
+  });
+});
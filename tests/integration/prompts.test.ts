@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { Database } from '@ansvar/mcp-sqlite';
+import { registerPrompts, getPrompt, PROMPTS } from '../../src/prompts/registry.js';
+import { TOOLS } from '../../src/tools/registry.js';
+import { createTestDatabase, closeTestDatabase } from '../fixtures/test-db.js';
+
+function promptText(result: ReturnType<typeof getPrompt>): string {
+  const last = result.messages[result.messages.length - 1];
+  return last.content.type === 'text' ? last.content.text : '';
+}
+
+describe('Prompt registry', () => {
+  let db: Database;
+  let client: Client;
+
+  beforeAll(async () => {
+    db = createTestDatabase();
+    const server = new Server(
+      { name: 'test', version: '0.0.0' },
+      { capabilities: { prompts: {} } },
+    );
+    registerPrompts(server, db);
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    client = new Client({ name: 'test-client', version: '0.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterAll(async () => {
+    await client.close();
+    closeTestDatabase(db);
+  });
+
+  it('lists the prompt catalogue with typed arguments', async () => {
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map(p => p.name)).toEqual([
+      'analyse_provision',
+      'gdpr_implementation_check',
+      'compare_provision_dates',
+    ]);
+    const compare = prompts.find(p => p.name === 'compare_provision_dates');
+    expect(compare?.arguments?.filter(a => a.required).map(a => a.name)).toEqual([
+      'document_id', 'provision_ref', 'date',
+    ]);
+  });
+
+  it('only refers to tools that exist', () => {
+    const toolNames = new Set(TOOLS.map(t => t.name));
+    for (const prompt of PROMPTS) {
+      const args: Record<string, string> = { document_id: '2018:218', provision_ref: '3:1', date: '2019-06-01' };
+      const text = promptText(getPrompt(db, prompt.name, args));
+      for (const [, name] of text.matchAll(/`([a-z_]+)` \{/g)) {
+        expect(toolNames.has(name), `${prompt.name} references ${name}`).toBe(true);
+      }
+    }
+  });
+
+  it('expands analyse_provision into a resource and tool plan', async () => {
+    const result = await client.getPrompt({
+      name: 'analyse_provision',
+      arguments: { document_id: 'dataskyddslagen', provision_ref: '3 kap. 1 §', date: '2019-06-01' },
+    });
+    expect(result.messages).toHaveLength(2);
+    const [resource, instructions] = result.messages;
+    expect(resource.content.type).toBe('resource');
+    expect(instructions.content.type).toBe('text');
+    const text = instructions.content.type === 'text' ? instructions.content.text : '';
+    expect(text).toContain('(SFS 2018:218) 3:1');
+    expect(text).toContain('`get_preparatory_works` {"document_id":"2018:218"}');
+    expect(text).toContain('`build_legal_stance`');
+    expect(text).toContain('"as_of_date":"2019-06-01"');
+  });
+
+  it('expands gdpr_implementation_check with and without a provision', () => {
+    const statute = getPrompt(db, 'gdpr_implementation_check', { document_id: '2018:218' });
+    expect(statute.messages).toHaveLength(1);
+    expect(promptText(statute)).not.toContain('get_provision_eu_basis');
+    expect(promptText(statute)).toContain('"eu_document_id":"regulation:2016/679"');
+
+    const provision = getPrompt(db, 'gdpr_implementation_check', { document_id: '2018:218', provision_ref: '2:1' });
+    expect(provision.messages).toHaveLength(2);
+    expect(promptText(provision)).toContain('`get_provision_eu_basis` {"sfs_number":"2018:218","provision_ref":"2:1"}');
+  });
+
+  it('expands compare_provision_dates into a diff plan', () => {
+    const result = getPrompt(db, 'compare_provision_dates', {
+      document_id: '2018:218', provision_ref: '3:1', date: '2019-06-01', compare_date: '2022-01-01',
+    });
+    const text = promptText(result);
+    expect(result.description).toContain('on 2019-06-01 and 2022-01-01');
+    expect(text).toContain('`diff_provision` {"document_id":"2018:218","provision_ref":"3:1","from_date":"2019-06-01","to_date":"2022-01-01"}');
+    expect(text).toContain('`get_provision_at_date`');
+  });
+
+  it('rejects invalid arguments', async () => {
+    await expect(client.getPrompt({ name: 'unknown_prompt' })).rejects.toThrow('Unknown prompt');
+    expect(() => getPrompt(db, 'constructor')).toThrow('Unknown prompt: constructor');
+    expect(() => getPrompt(db, 'toString')).toThrow('Unknown prompt: toString');
+    expect(() => getPrompt(db, 'analyse_provision', { document_id: '2018:218' }))
+      .toThrow('Missing required argument "provision_ref"');
+    expect(() => getPrompt(db, 'analyse_provision', { document_id: '9999:1', provision_ref: '1:1' }))
+      .toThrow('Statute "9999:1" not found');
+    expect(() => getPrompt(db, 'compare_provision_dates', { document_id: '2018:218', provision_ref: '3:1', date: '2019' }))
+      .toThrow('must be an ISO date');
+    expect(() => getPrompt(db, 'compare_provision_dates', {
+      document_id: '2018:218', provision_ref: '3:1', date: '2022-01-01', compare_date: '2019-01-01',
+    })).toThrow('must be after');
+  });
+});
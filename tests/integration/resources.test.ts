@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { Database } from '@ansvar/mcp-sqlite';
+import { registerResources, readResource } from '../../src/resources/registry.js';
+import { createTestDatabase, closeTestDatabase } from '../fixtures/test-db.js';
+
+describe('Resource registry', () => {
+  let db: Database;
+  let client: Client;
+
+  beforeAll(async () => {
+    db = createTestDatabase();
+    const server = new Server(
+      { name: 'test', version: '0.0.0' },
+      { capabilities: { resources: {} } },
+    );
+    registerResources(server, db);
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    client = new Client({ name: 'test-client', version: '0.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterAll(async () => {
+    await client.close();
+    closeTestDatabase(db);
+  });
+
+  it('lists the case law stats resource', async () => {
+    const { resources } = await client.listResources();
+    expect(resources.map(r => r.uri)).toContain('case-law-stats://swedish-law-mcp/metadata');
+  });
+
+  it('lists statute and case URI templates', async () => {
+    const { resourceTemplates } = await client.listResourceTemplates();
+    expect(resourceTemplates.map(t => t.uriTemplate)).toEqual([
+      'sfs://{document_id}',
+      'sfs://{document_id}/{provision_ref}',
+      'case://{document_id}',
+    ]);
+  });
+
+  it('reads case law stats without a sync metadata table', async () => {
+    const { contents } = await client.readResource({ uri: 'case-law-stats://swedish-law-mcp/metadata' });
+    const stats = JSON.parse(contents[0].text as string);
+    expect(stats.status).toBe('no_data');
+  });
+
+  it('reads a whole statute as markdown', async () => {
+    const { contents } = await client.readResource({ uri: 'sfs://2018:218' });
+    expect(contents[0].mimeType).toBe('text/markdown');
+    const text = contents[0].text as string;
+    expect(text).toContain('(SFS 2018:218)');
+    expect(text).toContain('## 3 kap.');
+    expect(text).toContain('### 3 kap. 1 § Tillsynsmyndighet');
+  });
+
+  it('resolves statute names in the URI', () => {
+    const content = readResource(db, 'sfs://dataskyddslagen');
+    expect(content.text).toContain('(SFS 2018:218)');
+  });
+
+  it('reads a single provision in canonical or Swedish form', () => {
+    const canonical = readResource(db, 'sfs://2018:218/3:2');
+    expect(canonical.text).toContain('## 3 kap. 2 § Sanktionsavgifter');
+    expect(canonical.text).not.toContain('Tillsynsmyndighet');
+
+    const swedish = readResource(db, `sfs://1998:204/${encodeURIComponent('5 a §')}`);
+    expect(swedish.text).toContain('## 5 a § Missbruksregeln');
+  });
+
+  it('reads a court decision', () => {
+    const content = readResource(db, `case://${encodeURIComponent('NJA 2020')}`);
+    expect(content.mimeType).toBe('text/markdown');
+    expect(content.text).toContain('# NJA 2020 s. 45');
+    expect(content.text).toContain('- Court: HD');
+    expect(content.text).toContain('skadestånd');
+  });
+
+  it('returns an error content for unknown documents and URIs', () => {
+    expect(readResource(db, 'sfs://9999:1').text).toContain('not found');
+    expect(readResource(db, 'sfs://2018:218/99:1').text).toContain('Provision "99:1" not found');
+    expect(readResource(db, 'case://NJA%201900').text).toContain('not found');
+    expect(readResource(db, 'ftp://example').text).toBe('Error: Unknown resource URI "ftp://example"');
+  });
+
+  it('returns an error content for malformed percent-escapes', () => {
+    expect(readResource(db, 'sfs://2018%3A218/%E0').text).toBe('Error: Malformed resource URI "sfs://2018%3A218/%E0"');
+    expect(readResource(db, 'case://NJA%E0').text).toContain('Malformed resource URI');
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { Database } from '@ansvar/mcp-sqlite';
+import { registerTools } from '../../src/tools/registry.js';
+import { createTestDatabase, closeTestDatabase } from '../fixtures/test-db.js';
+
+describe('Tool registry', () => {
+  let db: Database;
+  let client: Client;
+
+  beforeAll(async () => {
+    db = createTestDatabase();
+    const server = new Server(
+      { name: 'test', version: '0.0.0' },
+      { capabilities: { tools: {} } },
+    );
+    registerTools(server, db);
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    client = new Client({ name: 'test-client', version: '0.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterAll(async () => {
+    await client.close();
+    closeTestDatabase(db);
+  });
+
+  async function errorText(name: string, args: Record<string, unknown>): Promise<string | undefined> {
+    const result = await client.callTool({ name, arguments: args });
+    const [content] = result.content as Array<{ type: string; text: string }>;
+    return result.isError ? content.text : undefined;
+  }
+
+  it.each([
+    ['format_citation', { citation: 'SFS 2018:218', style: 'apa' }, 'style must be one of'],
+    ['export_citations', { citations: ['SFS 2018:218'], format: 'endnote' }, 'format must be one of'],
+    ['link_citations', { text: 'SFS 2018:218', format: 'pdf' }, 'format must be one of'],
+    ['search_case_law', { query: 'skadestånd', section: 'summary' }, 'section must be one of'],
+  ])('%s rejects an option outside its schema enum', async (name, args, message) => {
+    expect(await errorText(name, args)).toContain(`Error executing ${name}: ${message}`);
+  });
+
+  it('reports an unknown tool', async () => {
+    expect(await errorText('no_such_tool', {})).toBe('Error: Unknown tool "no_such_tool".');
+  });
+});
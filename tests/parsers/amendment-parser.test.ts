@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { extractAmendmentReferences, extractProvisionChanges, parseAmendmentScope, parseRepealNotice } from '../../src/parsers/amendment-parser.js';
+
+describe('extractAmendmentReferences', () => {
+  it('reads the amendment suffix of a provision', () => {
+    expect(extractAmendmentReferences('Lagen gäller inte för Säkerhetspolisen. Lag (2021:1174).')).toEqual([
+      { amended_by_sfs: '2021:1174', amendment_type: 'ändrad', position: 'suffix', raw_text: 'Lag (2021:1174).' },
+    ]);
+  });
+
+  it('reads repeal markers', () => {
+    const refs = extractAmendmentReferences('Upphävd genom lag (2019:300).');
+    expect(refs.map(ref => [ref.amended_by_sfs, ref.amendment_type])).toEqual([['2019:300', 'upphävd']]);
+  });
+});
+
+describe('parseAmendmentScope', () => {
+  it('parses changed, new and repealed provisions', () => {
+    expect(parseAmendmentScope('ändr. 2 kap. 1, 3 §§; ny 2 kap. 4 a §; upph. 5 §')).toEqual([
+      { provision_ref: '2:1', change_type: 'ändr.' },
+      { provision_ref: '2:3', change_type: 'ändr.' },
+      { provision_ref: '2:4 a', change_type: 'ny' },
+      { provision_ref: '5', change_type: 'upph.' },
+    ]);
+  });
+
+  it('carries the chapter across a list and switches on a new chapter', () => {
+    expect(parseAmendmentScope('ändr. 1 kap. 3 §, 2 kap. 1, 2 §§').map(c => c.provision_ref))
+      .toEqual(['1:3', '2:1', '2:2']);
+  });
+
+  it('expands numeric ranges', () => {
+    expect(parseAmendmentScope('nya 3 kap. 2–4 §§').map(c => c.provision_ref)).toEqual(['3:2', '3:3', '3:4']);
+  });
+
+  it('skips headings and unknown keywords', () => {
+    expect(parseAmendmentScope('ändr. rubr. närmast före 3 §, 4 §; ikrafttr. 2021-01-01')).toEqual([
+      { provision_ref: '4', change_type: 'ändr.' },
+    ]);
+  });
+});
+
+describe('extractProvisionChanges', () => {
+  it('finds markers that run into the next heading', () => {
+    const text = 'Beslutet får överklagas. Lag (2022:444). Lagens territoriella tillämpningsområde';
+    expect(extractProvisionChanges(text).map(ref => [ref.amended_by_sfs, ref.amendment_type])).toEqual([['2022:444', 'ändrad']]);
+  });
+
+  it('ignores repeal notes inside transitional provisions', () => {
+    const text = 'Tillsynsmyndigheten ska lämna besked. Lag (2025:256). Övergångsbestämmelser 1. Har upphävts genom lag (2021:1174).';
+    expect(extractProvisionChanges(text).map(ref => ref.amended_by_sfs)).toEqual(['2025:256']);
+  });
+
+  it('counts a provision that consists of a repeal notice', () => {
+    expect(extractProvisionChanges('Har upphävts genom lag (2019:300).')).toEqual([
+      expect.objectContaining({ amended_by_sfs: '2019:300', amendment_type: 'upphävd' }),
+    ]);
+  });
+});
+
+describe('parseRepealNotice', () => {
+  it('reads the repealing act of a repeal notice', () => {
+    expect(parseRepealNotice('Har upphävts genom lag (2004:452).')).toBe('2004:452');
+    expect(parseRepealNotice('Har upphört att gälla genom lag (1982:731). Förfarandet')).toBe('1982:731');
+  });
+
+  it('ignores repeal notes inside provision text', () => {
+    expect(parseRepealNotice('Personuppgiftslagen har upphävts genom lag (2018:218).')).toBeNull();
+  });
+});
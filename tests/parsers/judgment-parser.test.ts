@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { splitJudgment } from '../../src/parsers/judgment-parser.js';
+
+describe('splitJudgment', () => {
+  it('takes the deciding court\'s ruling, reasoning and dissents from an HD judgment', () => {
+    const text = [
+      'Tingsrätten',
+      'DOMSKÄL',
+      'Tingsrätten ogillar käromålet.',
+      'Rådmannen Eva Berg var skiljaktig.',
+      'HÖGSTA DOMSTOLENS DOMSLUT',
+      'Högsta domstolen fastställer hovrättens domslut.',
+      'DOMSKÄL',
+      'Bakgrund',
+      '1. Frågan i målet gäller preskription.',
+      'Domen har meddelats av: justitieråden Anna Ek och Per Lund (referent).',
+      'Justitieråden Anna Ek och Per Lund är skiljaktiga och anför följande.',
+      'Skäl',
+      'Fordran är inte preskriberad.',
+    ].join('\n');
+
+    const sections = splitJudgment(text);
+    expect(sections.ruling).toBe('Högsta domstolen fastställer hovrättens domslut.');
+    expect(sections.reasoning).toBe('Bakgrund\n1. Frågan i målet gäller preskription.');
+    expect(sections.dissents).toEqual([{
+      judges: 'Justitieråden Anna Ek och Per Lund',
+      text: 'Justitieråden Anna Ek och Per Lund är skiljaktiga och anför följande.\nSkäl\nFordran är inte preskriberad.',
+    }]);
+    expect(sections.headnotes).toBeNull();
+  });
+
+  it('handles the HFD order of reasoning before the ruling', () => {
+    const text = [
+      'Skälen för avgörandet',
+      'Överklagandet ska avslås.',
+      'Högsta förvaltningsdomstolens avgörande',
+      'Högsta förvaltningsdomstolen avslår överklagandet.',
+      'I avgörandet deltog justitieråden A och B.',
+      'Skiljaktig mening',
+      'Justitierådet B var skiljaktig och anförde att målet skulle återförvisas.',
+    ].join('\n');
+
+    const sections = splitJudgment(text);
+    expect(sections.reasoning).toBe('Överklagandet ska avslås.');
+    expect(sections.ruling).toBe('Högsta förvaltningsdomstolen avslår överklagandet.');
+    expect(sections.dissents).toHaveLength(1);
+    expect(sections.dissents[0].judges).toBe('Justitierådet B');
+  });
+
+  it('prefers stored headnotes and dissenting opinions, one entry per opinion', () => {
+    const sections = splitJudgment('Domskäl\nSkadestånd ska utgå.', {
+      headnotes: ' Fråga om skadestånd. ',
+      dissenting_opinions: 'Justitierådet A är skiljaktig och anför X.\nJustitierådet B är skiljaktig och anför Y.',
+    });
+    expect(sections.headnotes).toBe('Fråga om skadestånd.');
+    expect(sections.reasoning).toBe('Skadestånd ska utgå.');
+    expect(sections.dissents.map(opinion => opinion.judges)).toEqual(['Justitierådet A', 'Justitierådet B']);
+  });
+
+  it('finds no sections in text without headings', () => {
+    expect(splitJudgment('Högsta domstolen fastställer hovrättens dom.')).toEqual({
+      headnotes: null,
+      ruling: null,
+      reasoning: null,
+      dissents: [],
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { parseStatuteText, isChapteredStatute } from '../../src/parsers/provision-parser.js';
+import { parseStatuteText, parseStatuteTransitionalProvisions, isChapteredStatute } from '../../src/parsers/provision-parser.js';
 
 describe('parseStatuteText', () => {
   it('should parse a chaptered statute', () => {
@@ -102,6 +102,29 @@ Tredje stycket av paragrafen.
   it('should return empty array for empty input', () => {
     expect(parseStatuteText('')).toEqual([]);
   });
+
+  it('should stop at the transitional provisions', () => {
+    const text = `
+1 § Denna lag gäller.
+2 § Sista paragrafen.
+Övergångsbestämmelser
+1. Denna lag träder i kraft den 1 juli 2019.
+2. Genom lagen upphävs lagen (1990:100).
+`;
+    const provisions = parseStatuteText(text);
+
+    expect(provisions).toHaveLength(2);
+    expect(provisions[1].content).toBe('Sista paragrafen.');
+    expect(parseStatuteTransitionalProvisions(text)).toEqual([
+      {
+        amending_sfs: null,
+        content: '1. Denna lag träder i kraft den 1 juli 2019. 2. Genom lagen upphävs lagen (1990:100).',
+        in_force_date: '2019-07-01',
+        provision_refs: [],
+        keeps_old_wording: false,
+      },
+    ]);
+  });
 });
 
 describe('isChapteredStatute', () => {
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  extractSubdivision,
+  outlineProvisionStructure,
+  parseProvisionStructure,
+  splitProvisionSubdivision,
+  styckeLabel,
+} from '../../src/parsers/provision-structure-parser.js';
+
+describe('parseProvisionStructure', () => {
+  it('approximates stycken by sentences in flattened text', () => {
+    const structure = parseProvisionStructure(
+      'Lagen gäller behandling av personuppgifter. Lagen gäller inte enligt 3 kap. 5 § för enskilda. Regeringen får meddela föreskrifter.'
+    );
+    expect(structure.segmentation).toBe('sentences');
+    expect(structure.stycken.map(s => s.text)).toEqual([
+      'Lagen gäller behandling av personuppgifter.',
+      'Lagen gäller inte enligt 3 kap. 5 § för enskilda.',
+      'Regeringen får meddela föreskrifter.',
+    ]);
+  });
+
+  it('keeps a list of points within one stycke', () => {
+    const structure = parseProvisionStructure(
+      'Känsliga personuppgifter får behandlas om behandlingen är nödvändig för 1. förebyggande hälso- och sjukvård, ' +
+      '2. medicinska diagnoser. Behandling enligt första stycket får ske av yrkesutövare.'
+    );
+    expect(structure.stycken).toHaveLength(2);
+    expect(structure.stycken[0].intro).toBe('Känsliga personuppgifter får behandlas om behandlingen är nödvändig för');
+    expect(structure.stycken[0].punkter).toEqual([
+      { number: 1, text: 'förebyggande hälso- och sjukvård,' },
+      { number: 2, text: 'medicinska diagnoser.' },
+    ]);
+    expect(structure.stycken[1].punkter).toEqual([]);
+  });
+
+  it('splits at line breaks when the text has them', () => {
+    const structure = parseProvisionStructure('Första stycket. Fortsättning.\nAndra stycket.');
+    expect(structure.segmentation).toBe('lines');
+    expect(structure.stycken.map(s => s.text)).toEqual(['Första stycket. Fortsättning.', 'Andra stycket.']);
+  });
+
+  it('does not treat a single numbered word as a list', () => {
+    const structure = parseProvisionStructure('Avgiften är 1. procent av beloppet.');
+    expect(structure.stycken[0].punkter).toEqual([]);
+  });
+});
+
+describe('styckeLabel', () => {
+  it('labels stycken and points', () => {
+    expect(styckeLabel(1)).toBe('första stycket');
+    expect(styckeLabel(3, 2)).toBe('tredje stycket 2');
+    expect(styckeLabel(13)).toBe('13:e stycket');
+  });
+});
+
+describe('stycke and punkt pinpoints', () => {
+  const content =
+    'Känsliga personuppgifter får behandlas om behandlingen är nödvändig för 1. förebyggande hälso- och sjukvård, ' +
+    '2. medicinska diagnoser.\nBehandling enligt första stycket får ske av yrkesutövare.';
+  const flattened = content.replace('\n', ' ');
+
+  it('splits a pinpoint off a provision reference', () => {
+    expect(splitProvisionSubdivision('3 kap. 5 § första stycket 2')).toEqual({ ref: '3 kap. 5 §', stycke: 1, punkt: 2 });
+    expect(splitProvisionSubdivision('3:5 2 st.')).toEqual({ ref: '3:5', stycke: 2 });
+    expect(splitProvisionSubdivision('5 a §')).toEqual({ ref: '5 a §' });
+  });
+
+  it('extracts one stycke or punkt', () => {
+    expect(extractSubdivision(content, { stycke: 1, punkt: 1 })).toEqual({
+      stycke: 1, punkt: 1, label: 'första stycket 1', text: 'förebyggande hälso- och sjukvård,',
+    });
+    expect(extractSubdivision(content, { stycke: 2 })?.text).toBe('Behandling enligt första stycket får ske av yrkesutövare.');
+    expect(extractSubdivision(content, { stycke: 2, punkt: 1 })).toBeNull();
+  });
+
+  it('addresses no stycke in text without stycke breaks', () => {
+    expect(extractSubdivision(flattened, { stycke: 2 })).toBeNull();
+    expect(extractSubdivision(flattened, { stycke: 1, punkt: 1 })).toBeNull();
+    expect(extractSubdivision(flattened, { punkt: 2 })).toEqual({ punkt: 2, label: '2 p.', text: 'medicinska diagnoser.' });
+  });
+
+  it('outlines stycken and punkter for provision metadata', () => {
+    expect(outlineProvisionStructure(flattened)).toEqual({
+      segmentation: 'sentences',
+      stycken: [{ stycke: 1, punkter: 2 }, { stycke: 2, punkter: 0 }],
+    });
+  });
+});
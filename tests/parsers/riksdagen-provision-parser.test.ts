@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { parseRiksdagenProvisions } from '../../src/parsers/riksdagen-provision-parser.js';
+import { deriveChapterOutline, parseRiksdagenProvisions } from '../../src/parsers/riksdagen-provision-parser.js';
 
 describe('parseRiksdagenProvisions', () => {
   it('captures title lines that appear before section markers', () => {
@@ -90,4 +90,80 @@ fortsatt text i samma paragraf.
     expect(result.provisions[2].content).toContain('39 § gäller följande särskilda bestämmelser');
     expect(result.diagnostics.suppressed_section_candidates).toBe(1);
   });
+
+  it('returns transitional provisions separately instead of appending them to the last provision', () => {
+    const text = `
+1 § Denna lag gäller.
+2 § Sista paragrafen. Lag (2020:1010).
+Övergångsbestämmelser
+2019:100
+Denna lag träder i kraft den 1 juli 2019.
+2020:1010
+1. Denna lag träder i kraft den 1 januari 2021.
+2. Äldre bestämmelser gäller fortfarande för ärenden enligt 2 § som har inletts före ikraftträdandet.
+`;
+
+    const result = parseRiksdagenProvisions(text);
+
+    expect(result.provisions.map(p => p.provision_ref)).toEqual(['1', '2']);
+    expect(result.provisions[1].content).toBe('Sista paragrafen. Lag (2020:1010).');
+    expect(result.transitional_provisions.map(t => t.amending_sfs)).toEqual(['2019:100', '2020:1010']);
+    expect(result.transitional_provisions[1].provision_refs).toEqual(['2']);
+    expect(result.transitional_provisions[1].keeps_old_wording).toBe(true);
+  });
+
+  it('captures avdelningar, chapter headings and repealed chapters', () => {
+    const text = `
+FÖRSTA AVDELNINGEN
+ALLMÄNNA BESTÄMMELSER
+1 kap. Mål och tillämpningsområde
+1 § Bestämmelserna i denna balk syftar till att främja en hållbar utveckling.
+2 kap. Allmänna hänsynsregler
+1 § Alla som bedriver en verksamhet ska visa att de följer balken.
+Andra avdelningen Skydd av naturen
+3 kap. Har upphävts genom lag (2010:900).
+4 kap. Särskilda bestämmelser
+1 § Områden som anges i detta kapitel är av riksintresse.
+`;
+
+    const result = parseRiksdagenProvisions(text);
+
+    expect(result.provisions.map(p => p.provision_ref)).toEqual(['1:1', '2:1', '4:1']);
+    expect(result.chapters).toEqual([
+      { chapter: '1', title: 'Mål och tillämpningsområde', part: 'Första avdelningen', part_title: 'ALLMÄNNA BESTÄMMELSER' },
+      { chapter: '2', title: 'Allmänna hänsynsregler', part: 'Första avdelningen', part_title: 'ALLMÄNNA BESTÄMMELSER' },
+      { chapter: '3', repealed_by: '2010:900', part: 'Andra avdelningen', part_title: 'Skydd av naturen' },
+      { chapter: '4', title: 'Särskilda bestämmelser', part: 'Andra avdelningen', part_title: 'Skydd av naturen' },
+    ]);
+  });
+
+  it('returns no chapters for statutes without chapters', () => {
+    expect(parseRiksdagenProvisions('1 § Denna lag gäller.\n2 § Nästa.').chapters).toEqual([]);
+  });
+});
+
+describe('deriveChapterOutline', () => {
+  it('recovers avdelningar from headings left at the end of a chapter', () => {
+    const chapters = deriveChapterOutline([
+      { chapter: '1', content: 'Bestämmelserna i denna balk syftar till att främja en hållbar utveckling.' },
+      { chapter: '2', content: 'Alla som bedriver en verksamhet ska visa att de följer balken. Lag (2016:783). ANDRA AVDELNINGEN SKYDD AV NATUREN' },
+      { chapter: '3', content: 'Mark- och vattenområden ska användas för de ändamål de är mest lämpade för.' },
+      { chapter: '3', content: 'Åtgärder som avses i avdelning IV i direktivet.' },
+      { chapter: '4', content: 'Områden som anges i detta kapitel är av riksintresse.' },
+    ]);
+
+    expect(chapters).toEqual([
+      { chapter: '1', part: 'Första avdelningen' },
+      { chapter: '2', part: 'Första avdelningen' },
+      { chapter: '3', part: 'Andra avdelningen', part_title: 'SKYDD AV NATUREN' },
+      { chapter: '4', part: 'Andra avdelningen', part_title: 'SKYDD AV NATUREN' },
+    ]);
+  });
+
+  it('returns no chapters without an avdelning heading', () => {
+    expect(deriveChapterOutline([
+      { chapter: '1', content: 'Denna lag gäller.' },
+      { chapter: '2', content: 'Nästa.' },
+    ])).toEqual([]);
+  });
 });
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { parseTransitionalText, splitTransitionalText } from '../../src/parsers/transitional-provision-parser.js';
+
+describe('splitTransitionalText', () => {
+  it('separates flattened transitional provisions from provision text', () => {
+    const split = splitTransitionalText(
+      'Regeringen meddelar föreskrifter. Lag (2018:1248). Övergångsbestämmelser 2018:218 1. Denna lag träder i kraft den 25 maj 2018.'
+    );
+    expect(split.text).toBe('Regeringen meddelar föreskrifter. Lag (2018:1248).');
+    expect(split.transitional).toBe('2018:218 1. Denna lag träder i kraft den 25 maj 2018.');
+  });
+
+  it('keeps an appendix after the transitional provisions with the provision text', () => {
+    const split = splitTransitionalText(
+      'Avtalet gäller som lag. Övergångsbestämmelser 2015:338 Denna lag träder i kraft den 1 juli 2015. Bilaga Avtal mellan Sverige och Norge.'
+    );
+    expect(split.text).toBe('Avtalet gäller som lag. Bilaga Avtal mellan Sverige och Norge.');
+    expect(split.transitional).toBe('2015:338 Denna lag träder i kraft den 1 juli 2015.');
+  });
+
+  it('leaves text that only mentions transitional provisions alone', () => {
+    const text = 'Övergångsbestämmelser om ersättning finns i lagen.';
+    expect(splitTransitionalText(text)).toEqual({ text, transitional: null });
+  });
+
+  it('accepts numbered points without an SFS header only in the last provision', () => {
+    const text = 'Regeringen meddelar föreskrifter. Lag (2004:821). Övergångsbestämmelser 1. Denna lag träder i kraft den 1 januari 1991.';
+    expect(splitTransitionalText(text).transitional).toBeNull();
+    expect(splitTransitionalText(text, { lastProvision: true })).toEqual({
+      text: 'Regeringen meddelar föreskrifter. Lag (2004:821).',
+      transitional: '1. Denna lag träder i kraft den 1 januari 1991.',
+    });
+  });
+
+  it('keeps the transitional article of an incorporated treaty (2021:989 2 §)', () => {
+    const text =
+      'Rubrikerna i detta avtal har införts uteslutande för att underlätta hänvisning och ska inte påverka tolkningen av detta avtal. ' +
+      'AVDELNING V ÖVERGÅNGSBESTÄMMELSER OCH SLUTGILTIGA BESTÄMMELSER Artikel 27 Övergångsbestämmelser ' +
+      '1. Detta avtal fastställer ingen rätt till förmåner för tid före ikraftträdandet. ' +
+      '2. Vid tillämpningen av detta avtal ska förmånsgrundande perioder som fullgjorts före avtalets ikraftträdande och andra ' +
+      'rättsligt relevanta händelser som har inträffat före avtalets ikraftträdande också beaktas. ' +
+      'Artikel 28 Ikraftträdande Detta avtal träder i kraft den första dagen i den tredje månaden efter den månad då de ' +
+      'avtalsslutande staterna ska ha avslutat en utväxling av diplomatiska noter. ' +
+      'FÖR SVERIGES REGERING FOR THE GOVERNMENT OF SWEDEN Annika Strandhäll';
+    expect(splitTransitionalText(text, { lastProvision: true })).toEqual({ text, transitional: null });
+  });
+
+  it('does not split a treaty article even when it follows a sentence', () => {
+    const text =
+      'Detta avtal gäller som lag. Övergångsbestämmelser 1. Försäkringsperioder beaktas. ' +
+      'Artikel 24 Ikraftträdande Detta avtal träder i kraft den första dagen i den tredje månaden.';
+    expect(splitTransitionalText(text, { lastProvision: true }).transitional).toBeNull();
+  });
+});
+
+describe('parseTransitionalText', () => {
+  it('splits the rules per act', () => {
+    const blocks = parseTransitionalText(
+      '2018:218 1. Denna lag träder i kraft den 25 maj 2018. 2. Genom lagen upphävs personuppgiftslagen (1998:204). ' +
+      '2018:1248 Denna lag träder i kraft den 1 augusti 2018.'
+    );
+    expect(blocks.map(block => [block.amending_sfs, block.in_force_date])).toEqual([
+      ['2018:218', '2018-05-25'],
+      ['2018:1248', '2018-08-01'],
+    ]);
+    expect(blocks[0].content).toBe('1. Denna lag träder i kraft den 25 maj 2018. 2. Genom lagen upphävs personuppgiftslagen (1998:204).');
+  });
+
+  it('keeps rules before the first SFS number without an act', () => {
+    const blocks = parseTransitionalText('Denna lag träder i kraft den 1 juli 1994.');
+    expect(blocks).toHaveLength(1);
+    expect(blocks[0].amending_sfs).toBeNull();
+  });
+
+  it('collects mentioned provisions and flags rules that keep earlier wording', () => {
+    const [block] = parseTransitionalText(
+      '2020:1010 1. Denna lag träder i kraft den 1 januari 2021. ' +
+      '2. Äldre bestämmelser gäller fortfarande för beslut enligt 3 kap. 1 och 2 §§ och 5 § som har meddelats före ikraftträdandet.'
+    );
+    expect(block.provision_refs).toEqual(['3:1', '3:2', '5']);
+    expect(block.keeps_old_wording).toBe(true);
+  });
+
+  it('does not flag rules that only set the date of entry into force', () => {
+    const [block] = parseTransitionalText('2018:1248 Denna lag träder i kraft den 1 augusti 2018.');
+    expect(block.keeps_old_wording).toBe(false);
+    expect(block.provision_refs).toEqual([]);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type { Database } from '@ansvar/mcp-sqlite';
+import { analyzeAmendmentImpact } from '../../src/tools/analyze-amendment-impact.js';
+import { createTestDatabase, closeTestDatabase } from '../fixtures/test-db.js';
+
+describe('analyze_amendment_impact', () => {
+  let db: Database;
+
+  beforeAll(() => {
+    db = createTestDatabase();
+    // SFS 2020:1000 changed DSL 3:1; another act refers to it, and a third
+    // act refers to that one in turn.
+    db.exec(`
+      UPDATE legal_provisions
+      SET content = content || ' Lag (2020:1000).'
+      WHERE document_id = '2018:218' AND provision_ref = '3:1';
+      INSERT INTO legal_documents (id, type, title, status) VALUES
+        ('2099:20', 'statute', 'Lag (2099:20) om kameraövervakning', 'in_force'),
+        ('2099:21', 'statute', 'Förordning (2099:21) om kameraövervakning', 'in_force');
+      INSERT INTO legal_provisions (document_id, provision_ref, chapter, section, title, content) VALUES
+        ('2099:20', '5', NULL, '5', 'Tillsyn', 'Tillsynsmyndigheten enligt 3 kap. 1 § lagen (2018:218) utövar tillsyn.'),
+        ('2099:21', '2', NULL, '2', NULL, 'Tillsyn utövas enligt 5 § lagen (2099:20).');
+      INSERT INTO cross_references (source_document_id, source_provision_ref, target_document_id, target_provision_ref, ref_type) VALUES
+        ('2099:20', '5', '2018:218', '3:1', 'references'),
+        ('2099:21', '2', '2099:20', '5', 'references');
+    `);
+  });
+
+  afterAll(() => {
+    closeTestDatabase(db);
+  });
+
+  it('finds the provisions changed by an amending SFS and what depends on them', async () => {
+    const response = await analyzeAmendmentImpact(db, { amending_sfs: 'SFS 2020:1000' });
+    const { amending_sfs, statutes } = response.results!;
+    expect(amending_sfs).toBe('2020:1000');
+    expect(statutes.map(s => s.document_id)).toEqual(['2018:218', '2099:20']);
+
+    const dsl = statutes[0];
+    expect(dsl.changed_provisions).toEqual([{ provision_ref: '3:1', title: 'Tillsynsmyndighet', change_type: 'ändrad' }]);
+    // 3:2 refers to 3:1 within the same act
+    expect(dsl.referencing_provisions.map(r => r.provision_ref)).toEqual(['3:2']);
+    expect(dsl.definitions.map(d => d.term)).toEqual(['tillsynsmyndighet']);
+    expect(dsl.severity).toBe('high');
+
+    const camera = statutes[1];
+    expect(camera.referencing_provisions).toEqual([expect.objectContaining({
+      provision_ref: '5',
+      changed_document_id: '2018:218',
+      changed_provision_ref: '3:1',
+      depth: 1,
+    })]);
+    expect(camera.severity).toBe('medium');
+  });
+
+  it('takes changed provisions from the amendment register', async () => {
+    const response = await analyzeAmendmentImpact(db, { amending_sfs: '2018:1248' });
+    const dsl = response.results!.statutes[0];
+    // 2:3 is new and not in the fixture's provision text
+    expect(dsl.changed_provisions).toEqual([
+      { provision_ref: '2:2', title: 'Behandling som rör ett viktigt allmänt intresse', change_type: 'ändrad' },
+      { provision_ref: '2:3', title: null, change_type: 'införd' },
+    ]);
+    expect(dsl.eu_references.map(ref => ref.eu_article)).toEqual(['9.2.g']);
+  });
+
+  it('follows references transitively and rates indirect impact low', async () => {
+    const response = await analyzeAmendmentImpact(db, { amending_sfs: '2020:1000', depth: 2 });
+    const regulation = response.results!.statutes.find(s => s.document_id === '2099:21');
+    expect(regulation).toMatchObject({ severity: 'low', document_title: 'Förordning (2099:21) om kameraövervakning' });
+    expect(regulation!.referencing_provisions[0]).toMatchObject({ provision_ref: '2', changed_provision_ref: '3:1', depth: 2 });
+  });
+
+  it('analyses a single provision, including case law and EU links', async () => {
+    const skadestand = await analyzeAmendmentImpact(db, { document_id: 'DSL', provision_ref: '4 kap. 1 §' });
+    const dsl = skadestand.results!.statutes[0];
+    expect(dsl.changed_provisions[0]).toMatchObject({ provision_ref: '4:1', change_type: null });
+    expect(dsl.case_law).toEqual([expect.objectContaining({ document_id: 'NJA 2020', court: 'HD', cited_provision_ref: '4:1' })]);
+    expect(dsl.severity).toBe('medium');
+
+    const sanktioner = await analyzeAmendmentImpact(db, { document_id: '2018:218', provision_ref: '3:2' });
+    expect(sanktioner.results!.statutes[0].eu_references).toEqual([expect.objectContaining({
+      eu_document_id: 'regulation:2016/679',
+      eu_article: '83,84',
+      provision_ref: '3:2',
+    })]);
+    expect(sanktioner.results!.statutes[0].severity).toBe('high');
+  });
+
+  it('notes an amending SFS that changed nothing in the database', async () => {
+    const response = await analyzeAmendmentImpact(db, { amending_sfs: '2001:1' });
+    expect(response.results!.statutes).toEqual([]);
+    expect(response._meta.note).toContain('2001:1');
+  });
+
+  it('notes an unknown provision', async () => {
+    const response = await analyzeAmendmentImpact(db, { document_id: '2018:218', provision_ref: '9:9' });
+    expect(response.results).toBeNull();
+    expect(response._meta.note).toContain('not found');
+  });
+
+  it('rejects missing and malformed input', async () => {
+    await expect(analyzeAmendmentImpact(db, {})).rejects.toThrow('required');
+    await expect(analyzeAmendmentImpact(db, { amending_sfs: 'ny lag' })).rejects.toThrow('Invalid SFS number');
+  });
+});
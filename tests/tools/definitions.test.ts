@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type { Database } from '@ansvar/mcp-sqlite';
+import { getDefinition } from '../../src/tools/get-definition.js';
+import { searchDefinitions } from '../../src/tools/search-definitions.js';
+import { createTestDatabase, closeTestDatabase } from '../fixtures/test-db.js';
+
+describe('definitions tools', () => {
+  let db: Database;
+
+  beforeAll(() => {
+    db = createTestDatabase();
+
+    // A general employment act referred to by two specific ones, each of
+    // which defines "arbetstagare" its own way.
+    const insertDoc = db.prepare(`INSERT INTO legal_documents (id, type, title, status) VALUES (?, 'statute', ?, 'in_force')`);
+    insertDoc.run('2099:10', 'Lag (2099:10) om anställning');
+    insertDoc.run('2099:11', 'Lag (2099:11) om uthyrning av arbetstagare');
+    insertDoc.run('2099:12', 'Lag (2099:12) om arbetstid');
+
+    const insertDef = db.prepare(`INSERT INTO definitions (document_id, term, term_en, definition, source_provision) VALUES (?, ?, ?, ?, ?)`);
+    insertDef.run('2099:10', 'arbetstagare', 'employee', 'Den som utför arbete åt en arbetsgivare mot ersättning.', '2');
+    insertDef.run('2099:11', 'arbetstagare', null, 'Den som är anställd av ett bemanningsföretag och hyrs ut till ett kundföretag.', '3');
+
+    const insertRef = db.prepare(`INSERT INTO cross_references (source_document_id, target_document_id, ref_type) VALUES (?, ?, 'references')`);
+    insertRef.run('2099:11', '2099:10');
+    insertRef.run('2099:12', '2099:10');
+  });
+
+  afterAll(() => {
+    closeTestDatabase(db);
+  });
+
+  describe('get_definition', () => {
+    it('returns term, definition, source provision, statute and English term', async () => {
+      const response = await getDefinition(db, { term: 'personuppgift' });
+      expect(response.results.definition).toMatchObject({
+        term: 'personuppgift',
+        term_en: 'personal data',
+        source_provision: '1:1',
+        document_id: '2018:218',
+        document_title: 'Lag med kompletterande bestämmelser till EU:s dataskyddsförordning',
+      });
+    });
+
+    it('matches inflected forms and lists conflicting definitions', async () => {
+      const response = await getDefinition(db, { term: 'Personuppgifter' });
+      expect(response.results.definitions.map(d => d.document_id)).toEqual(['2018:218', '1998:204']);
+      expect(response.results.conflicts).toEqual([
+        expect.objectContaining({ document_id: '1998:204', source_provision: '3' }),
+      ]);
+    });
+
+    it('ranks the definition in the specific statute above the general one', async () => {
+      const response = await getDefinition(db, { term: 'arbetstagare' });
+      expect(response.results.definition?.document_id).toBe('2099:11');
+      expect(response.results.conflicts.map(c => c.document_id)).toEqual(['2099:10']);
+    });
+
+    it('ranks the statute in context first, then statutes it refers to', async () => {
+      const same = await getDefinition(db, { term: 'arbetstagare', document_id: '2099:10' });
+      expect(same.results.definition).toMatchObject({ document_id: '2099:10', scope: 'same_statute' });
+
+      const referenced = await getDefinition(db, { term: 'arbetstagare', document_id: '2099:12' });
+      expect(referenced.results.definition).toMatchObject({ document_id: '2099:10', scope: 'referenced_statute' });
+      expect(referenced.results.definitions[1]).toMatchObject({ document_id: '2099:11', scope: 'other_statute' });
+    });
+
+    it('reports no conflicts when the wording only differs in case and punctuation', async () => {
+      db.prepare(`INSERT INTO definitions (document_id, term, definition) VALUES ('2099:12', 'arbetstid', 'Den tid då arbetstagaren står till arbetsgivarens förfogande')`).run();
+      db.prepare(`INSERT INTO definitions (document_id, term, definition) VALUES ('2099:10', 'arbetstid', 'den tid då arbetstagaren står till arbetsgivarens förfogande.')`).run();
+      const response = await getDefinition(db, { term: 'arbetstid' });
+      expect(response.results.definitions).toHaveLength(2);
+      expect(response.results.conflicts).toEqual([]);
+    });
+
+    it('returns null for an undefined term', async () => {
+      const response = await getDefinition(db, { term: 'rättsobjekt' });
+      expect(response.results.definition).toBeNull();
+      expect(response.results.definitions).toEqual([]);
+    });
+
+    it('notes an unknown statute in context', async () => {
+      const response = await getDefinition(db, { term: 'arbetstagare', document_id: 'Finns inte-lagen' });
+      expect(response.results.definition).toBeNull();
+      expect(response._meta.note).toContain('No document found');
+    });
+
+    it('rejects an empty term', async () => {
+      await expect(getDefinition(db, { term: ' ' })).rejects.toThrow('term is required');
+    });
+  });
+
+  describe('search_definitions', () => {
+    it('searches definition text and lists conflicts per result', async () => {
+      const response = await searchDefinitions(db, { query: 'fysisk person' });
+      const personuppgift = response.results.filter(r => r.term === 'personuppgift');
+      expect(personuppgift.map(r => r.document_id)).toEqual(['2018:218', '1998:204']);
+      expect(personuppgift[0].conflicts.map(c => c.document_id)).toEqual(['1998:204']);
+      expect(personuppgift[1].conflicts.map(c => c.document_id)).toEqual(['2018:218']);
+    });
+
+    it('ranks definitions from the statute in context first', async () => {
+      const response = await searchDefinitions(db, { query: 'arbetsgivare', document_id: '2099:12' });
+      expect(response.results[0]).toMatchObject({ document_id: '2099:12', scope: 'same_statute' });
+      expect(response.results[1]).toMatchObject({ document_id: '2099:10', scope: 'referenced_statute' });
+    });
+
+    it('returns nothing for an empty query', async () => {
+      const response = await searchDefinitions(db, { query: '' });
+      expect(response.results).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type { Database } from '@ansvar/mcp-sqlite';
+import { exportCitations } from '../../src/tools/export-citations.js';
+import { createTestDatabase, closeTestDatabase } from '../fixtures/test-db.js';
+
+describe('export_citations', () => {
+  let db: Database;
+
+  beforeAll(() => {
+    db = createTestDatabase();
+  });
+
+  afterAll(() => {
+    closeTestDatabase(db);
+  });
+
+  it('exports CSL-JSON with dates, urls, court and case number', async () => {
+    const response = await exportCitations(db, {
+      citations: ['SFS 2018:218 3 kap. 5 §', 'NJA 2020 s. 45', 'prop. 2017/18:105 s. 45', 'SOU 2017:39'],
+    });
+    const items = JSON.parse(response.results.output);
+    expect(response.results).toMatchObject({ format: 'csl-json', exported: 4, not_exported: [] });
+    expect(items[0]).toMatchObject({
+      id: 'SFS2018_218',
+      type: 'legislation',
+      number: 'SFS 2018:218',
+      'container-title': 'Svensk författningssamling',
+      issued: { 'date-parts': [[2018, 4, 19]] },
+      section: '3 kap. 5 §',
+    });
+    expect(items[0].URL).toContain('riksdagen.se');
+    expect(items[1]).toMatchObject({
+      id: 'NJA2020s45',
+      type: 'legal_case',
+      authority: 'Högsta domstolen',
+      number: 'T 1234-19',
+      'container-title': 'Nytt juridiskt arkiv',
+      page: '45',
+      issued: { 'date-parts': [[2020, 3, 15]] },
+      URL: 'https://lagen.nu/dom/nja/2020s45',
+    });
+    expect(items[2]).toMatchObject({ type: 'bill', number: 'Prop. 2017/18:105', page: '45', note: 'Förarbete till SFS 2018:218' });
+    expect(items[3]).toMatchObject({ type: 'report', 'collection-title': 'Statens offentliga utredningar' });
+  });
+
+  it('exports biblatex @legislation and @jurisdiction entries', async () => {
+    const response = await exportCitations(db, { citations: ['SFS 2018:218', 'HFD 2019 ref. 12'], format: 'bibtex' });
+    expect(response.results.output).toContain('@legislation{SFS2018_218,\n  title = {Lag med kompletterande bestämmelser');
+    expect(response.results.output).toContain(
+      '@jurisdiction{HFD2019ref12,\n' +
+      '  title = {HFD 2019 ref. 12},\n' +
+      '  number = {5765-18},\n' +
+      '  institution = {Högsta förvaltningsdomstolen},\n' +
+      '  journaltitle = {Högsta förvaltningsdomstolens årsbok},\n' +
+      '  date = {2019-06-20},\n' +
+      '  pages = {12},\n' +
+      '  url = {https://lagen.nu/dom/hfd/2019:12},\n' +
+      '  langid = {swedish}\n}'
+    );
+  });
+
+  it('escapes BibTeX special characters', async () => {
+    db.exec("INSERT INTO legal_documents (id, type, title, status) VALUES ('2099:2', 'statute', 'Lag om skatt på 100 % & mer', 'in_force')");
+    const response = await exportCitations(db, { citations: ['SFS 2099:2'], format: 'bibtex' });
+    expect(response.results.output).toContain('title = {Lag om skatt på 100 \\% \\& mer}');
+  });
+
+  it('escapes backslashes in BibTeX fields and braces in urls', async () => {
+    db.exec(`INSERT INTO legal_documents (id, type, title, status, url)
+      VALUES ('2099:3', 'statute', 'Lag om a\\b {c}', 'in_force', 'https://example.se/lag?q={2099:3}')`);
+    const { output } = (await exportCitations(db, { citations: ['SFS 2099:3'], format: 'bibtex' })).results;
+    expect(output).toContain('title = {Lag om a\\textbackslash{}b \\{c\\}}');
+    expect(output).toContain('url = {https://example.se/lag?q=%7B2099:3%7D}');
+  });
+
+  it('exports RIS records', async () => {
+    const response = await exportCitations(db, { citations: ['NJA 2020 s. 45', 'CELEX 32016R0679'], format: 'ris' });
+    const [nja, gdpr] = response.results.output.split('\n\n');
+    expect(nja.split('\n')).toEqual([
+      'TY  - CASE',
+      'ID  - NJA2020s45',
+      'TI  - NJA 2020 s. 45',
+      'M1  - T 1234-19',
+      'PB  - Högsta domstolen',
+      'T2  - Nytt juridiskt arkiv',
+      'PY  - 2020',
+      'DA  - 2020/03/15/',
+      'SP  - 45',
+      'UR  - https://lagen.nu/dom/nja/2020s45',
+      'LA  - sv',
+      'ER  - ',
+    ]);
+    expect(gdpr).toContain('TY  - STAT');
+    expect(gdpr).toContain('UR  - https://eur-lex.europa.eu/eli/reg/2016/679/oj');
+  });
+
+  it('lists citations that cannot be exported and merges duplicates', async () => {
+    const response = await exportCitations(db, { citations: ['SFS 2018:218 1 kap. 1 §', 'SFS 2018:218 3 kap. 5 §', 'SFS 9999:1', 'xyz'] });
+    expect(response.results.exported).toBe(1);
+    expect(response.results.not_exported.map(entry => entry.citation)).toEqual(['SFS 9999:1', 'xyz']);
+    expect(response.results.not_exported[0].reason).toBe('"SFS 9999:1" not found in the database');
+  });
+
+  it('rejects missing citations', async () => {
+    await expect(exportCitations(db, { citations: [] })).rejects.toThrow('citations is required');
+  });
+});
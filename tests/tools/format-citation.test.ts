@@ -1,5 +1,7 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type { Database } from '@ansvar/mcp-sqlite';
 import { formatCitationTool } from '../../src/tools/format-citation.js';
+import { createTestDatabase, closeTestDatabase } from '../fixtures/test-db.js';
 
 describe('format_citation tool', () => {
   it('should format a valid SFS citation', async () => {
@@ -66,3 +68,24 @@ describe('format_citation tool', () => {
     expect(response.results.error).toBeDefined();
   });
 });
+
+describe('format_citation styles', () => {
+  let db: Database;
+
+  beforeAll(() => {
+    db = createTestDatabase();
+  });
+
+  afterAll(() => {
+    closeTestDatabase(db);
+  });
+
+  it('reads titles from the database', async () => {
+    const academic = await formatCitationTool({ citation: '1998:204 5 a §', style: 'academic' }, db);
+    expect(academic.results.formatted).toBe('5 a § personuppgiftslagen (1998:204)');
+    expect(academic.results.style).toBe('academic');
+
+    const english = await formatCitationTool({ citation: '1998:204 5 a §', style: 'english' }, db);
+    expect(english.results.formatted).toBe('Section 5 a of the Personal Data Act (SFS 1998:204)');
+  });
+});
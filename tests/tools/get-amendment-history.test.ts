@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type { Database } from '@ansvar/mcp-sqlite';
+import { getAmendmentHistory } from '../../src/tools/get-amendment-history.js';
+import { createTestDatabase, closeTestDatabase } from '../fixtures/test-db.js';
+
+describe('get_amendment_history', () => {
+  let db: Database;
+
+  beforeAll(() => {
+    db = createTestDatabase();
+  });
+
+  afterAll(() => {
+    closeTestDatabase(db);
+  });
+
+  it('lists the amendment chain of a statute in SFS order', async () => {
+    const response = await getAmendmentHistory(db, { document_id: 'DSL' });
+    expect(response.results!.document_id).toBe('2018:218');
+    expect(response.results!.amendments.map(a => a.amending_sfs)).toEqual(['2018:1248', '2019:300', '2020:1010']);
+  });
+
+  it('returns changed provisions and linked riksdag documents', async () => {
+    const response = await getAmendmentHistory(db, { document_id: '2018:218' });
+    expect(response.results!.amendments[0]).toEqual({
+      amending_sfs: '2018:1248',
+      title: 'Lag (2018:1248) om ändring i lagen (2018:218) med kompletterande bestämmelser till EU:s dataskyddsförordning',
+      published_date: '2018-06-26',
+      in_force_date: '2018-08-01',
+      changes: [
+        { provision_ref: '2:2', change_type: 'ändr.' },
+        { provision_ref: '2:3', change_type: 'ny' },
+      ],
+      proposition: '2017/18:298',
+      committee_report: '2017/18:UbU30',
+      riksdag_communication: '2017/18:401',
+      source: 'register',
+    });
+    expect(response.results!.amendments[1].source).toBe('provision_text');
+  });
+
+  it('filters by provision', async () => {
+    const response = await getAmendmentHistory(db, { document_id: '2018:218', provision_ref: '3 kap. 1 §' });
+    expect(response.results!.provision_ref).toBe('3:1');
+    expect(response.results!.amendments.map(a => a.amending_sfs)).toEqual(['2020:1010']);
+  });
+
+  it('returns an empty chain for an unamended statute', async () => {
+    const response = await getAmendmentHistory(db, { document_id: '1998:204' });
+    expect(response.results!.amendments).toEqual([]);
+  });
+
+  it('notes an unknown document', async () => {
+    const response = await getAmendmentHistory(db, { document_id: '9999:1' });
+    expect(response.results).toBeNull();
+    expect(response._meta.note).toContain('No document found');
+  });
+});
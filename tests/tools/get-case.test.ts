@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type { Database } from '@ansvar/mcp-sqlite';
+import { getCase } from '../../src/tools/get-case.js';
+import { addFullCaseLaw, createTestDatabase, closeTestDatabase } from '../fixtures/test-db.js';
+
+describe('get_case', () => {
+  describe('with full judgments', () => {
+    let db: Database;
+
+    beforeAll(() => {
+      db = createTestDatabase();
+      addFullCaseLaw(db);
+    });
+
+    afterAll(() => {
+      closeTestDatabase(db);
+    });
+
+    it('splits the judgment into headnotes, ruling, reasoning and dissents', async () => {
+      const response = await getCase(db, { case_id: 'NJA 2020 s. 45', include_full_text: true });
+      const result = response.results!;
+      expect(result).toMatchObject({
+        document_id: 'NJA 2020',
+        title: 'NJA 2020 s. 45',
+        court: 'HD',
+        case_number: 'T 1234-19',
+        decision_date: '2020-03-15',
+        full_text_available: true,
+      });
+      expect(result.headnotes).toContain('Fråga om skadestånd');
+      expect(result.ruling).toBe('Högsta domstolen förpliktar bolaget att betala skadestånd med 5 000 kr.');
+      expect(result.reasoning).toContain('Behandlingen saknade rättslig grund');
+      expect(result.reasoning).not.toContain('samtycke');
+      expect(result.dissents).toHaveLength(1);
+      expect(result.dissents![0].judges).toBe('Justitierådet Karin Sten');
+      expect(result.dissents![0].text).toContain('bestämmas till 1 000 kr');
+      expect(result.full_text).toContain('Tingsrätten');
+      expect(response._meta).not.toHaveProperty('note');
+    });
+
+    it('finds a case by stored id or case number and leaves out the full text by default', async () => {
+      const byNumber = await getCase(db, { case_id: '5765-18' });
+      expect(byNumber.results?.document_id).toBe('HFD 2019');
+      expect(byNumber.results?.full_text).toBeUndefined();
+      expect(byNumber.results?.reasoning).toBe('Tillsynsmyndigheten får förelägga den personuppgiftsansvarige att vidta åtgärder.');
+      expect(byNumber.results?.dissents?.[0].judges).toBe('Justitierådet Olof Ström');
+
+      expect((await getCase(db, { case_id: 'HFD 2019' })).results?.case_number).toBe('5765-18');
+    });
+
+    it('returns null for an unknown case', async () => {
+      const response = await getCase(db, { case_id: 'NJA 1999 s. 1' });
+      expect(response.results).toBeNull();
+      expect((response._meta as { note?: string }).note).toBe('No case found matching "NJA 1999 s. 1"');
+    });
+
+    it('requires case_id', async () => {
+      await expect(getCase(db, { case_id: ' ' })).rejects.toThrow('case_id is required');
+    });
+  });
+
+  describe('without full judgments', () => {
+    let db: Database;
+
+    beforeAll(() => {
+      db = createTestDatabase();
+    });
+
+    afterAll(() => {
+      closeTestDatabase(db);
+    });
+
+    it('returns the summary and says the full text is not available', async () => {
+      const response = await getCase(db, { case_id: 'HFD 2019 ref. 12' });
+      expect(response.results).toMatchObject({ document_id: 'HFD 2019', full_text_available: false });
+      expect(response.results?.summary).toBeTruthy();
+      expect(response.results).not.toHaveProperty('reasoning');
+      expect((response._meta as { note?: string }).note).toBe('This database has no full-text judgments; summary only');
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type { Database } from '@ansvar/mcp-sqlite';
+import { getCrossReferences } from '../../src/tools/get-cross-references.js';
+import { createTestDatabase, closeTestDatabase } from '../fixtures/test-db.js';
+
+describe('get_cross_references', () => {
+  let db: Database;
+
+  beforeAll(() => {
+    db = createTestDatabase();
+    // BrB 4:9 c is cited by 4:10, which is in turn cited by another statute
+    db.exec(`
+      INSERT INTO legal_documents (id, type, title, short_name, status)
+      VALUES ('1962:700', 'statute', 'Brottsbalk (1962:700)', 'BrB', 'in_force');
+      INSERT INTO legal_provisions (document_id, provision_ref, chapter, section, title, content) VALUES
+        ('1962:700', '4:9 c', '4', '9 c', NULL, 'Den som olovligen bereder sig tillgång till en uppgift som är avsedd för automatiserad behandling döms för dataintrång.'),
+        ('1962:700', '4:10', '4', '10', NULL, 'För försök eller förberedelse till dataintrång enligt 4 kap. 9 c § döms till ansvar enligt 23 kap.');
+      INSERT INTO cross_references (source_document_id, source_provision_ref, target_document_id, target_provision_ref, ref_type) VALUES
+        ('1962:700', '4:10', '1962:700', '4:9 c', 'references'),
+        ('2018:218', '4:1', '1962:700', '4:10', 'see_also');
+    `);
+  });
+
+  afterAll(() => {
+    closeTestDatabase(db);
+  });
+
+  it('returns incoming references to a provision with resolved titles', async () => {
+    const response = await getCrossReferences(db, { document_id: 'BrB', provision_ref: '4 kap. 9 c §' });
+    expect(response.results).toMatchObject({ document_id: '1962:700', provision_ref: '4:9 c', outgoing: [] });
+    expect(response.results!.incoming).toEqual([{
+      source_document_id: '1962:700',
+      source_document_title: 'Brottsbalk (1962:700)',
+      source_provision_ref: '4:10',
+      source_provision_title: null,
+      target_document_id: '1962:700',
+      target_document_title: 'Brottsbalk (1962:700)',
+      target_provision_ref: '4:9 c',
+      target_provision_title: null,
+      ref_type: 'references',
+      depth: 1,
+    }]);
+  });
+
+  it('returns outgoing references of a provision', async () => {
+    const response = await getCrossReferences(db, { document_id: '2018:218', provision_ref: '3:2', direction: 'outgoing' });
+    expect(response.results!.outgoing.map(edge => [edge.target_provision_ref, edge.target_provision_title]))
+      .toEqual([['3:1', 'Tillsynsmyndighet']]);
+    expect(response.results!.incoming).toEqual([]);
+  });
+
+  it('follows references transitively up to the requested depth', async () => {
+    const response = await getCrossReferences(db, {
+      document_id: '1962:700',
+      provision_ref: '4:9 c',
+      direction: 'incoming',
+      depth: 3,
+    });
+    // NJA 2020 cites 2018:218 4:1 in the fixture
+    expect(response.results!.incoming.map(edge => [edge.source_document_id, edge.source_provision_ref, edge.depth])).toEqual([
+      ['1962:700', '4:10', 1],
+      ['2018:218', '4:1', 2],
+      ['NJA 2020', null, 3],
+    ]);
+
+    const shallow = await getCrossReferences(db, { document_id: '1962:700', provision_ref: '4:9 c', direction: 'incoming' });
+    expect(shallow.results!.incoming).toHaveLength(1);
+  });
+
+  it('filters by ref_type', async () => {
+    const response = await getCrossReferences(db, {
+      document_id: '1962:700',
+      provision_ref: '4:10',
+      ref_types: ['see_also'],
+    });
+    expect(response.results!.outgoing).toEqual([]);
+    expect(response.results!.incoming.map(edge => edge.ref_type)).toEqual(['see_also']);
+  });
+
+  it('covers all provisions when no provision is given', async () => {
+    const response = await getCrossReferences(db, { document_id: '2018:218' });
+    expect(response.results!.outgoing.map(edge => edge.target_document_id)).toEqual(
+      expect.arrayContaining(['1998:204', '2018:218', '1962:700']),
+    );
+    expect(response.results!.incoming.map(edge => edge.source_document_id)).toEqual(['2018:218', 'NJA 2020']);
+  });
+
+  it('notes an unknown document', async () => {
+    const response = await getCrossReferences(db, { document_id: '9999:1' });
+    expect(response.results).toBeNull();
+    expect(response._meta.note).toContain('No document found');
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type { Database } from '@ansvar/mcp-sqlite';
+import {
+  getProvisionAtDate,
+  getStatuteAtDate,
+  getProvisionAtDateTool,
+  type StatuteSnapshot,
+  type ProvisionVersion,
+} from '../../src/tools/get-provision-at-date.js';
+import { TOOLS } from '../../src/tools/registry.js';
+import { createTestDatabase, closeTestDatabase } from '../fixtures/test-db.js';
+
+describe('get_provision_at_date', () => {
+  let db: Database;
+
+  beforeAll(() => {
+    db = createTestDatabase();
+  });
+
+  afterAll(() => {
+    closeTestDatabase(db);
+  });
+
+  it('is registered in the shared tool registry', () => {
+    const tool = TOOLS.find(t => t.name === 'get_provision_at_date');
+    expect(tool).toBeDefined();
+    expect(tool?.inputSchema.required).toEqual(['sfs', 'date']);
+  });
+
+  it('returns the historical wording of a provision', () => {
+    const result = getProvisionAtDate(db, { sfs: '2018:218', provision_ref: '3:1', date: '2019-06-01' });
+    expect(result.status).toBe('historical');
+    expect(result.content).toContain('Datainspektionen');
+    expect(result.valid_to).toBe('2021-01-01');
+  });
+
+  it('returns the current wording of a provision', () => {
+    const result = getProvisionAtDate(db, { sfs: '2018:218', provision_ref: '3:1', date: '2022-01-01' });
+    expect(result.status).toBe('current');
+    expect(result.content).toContain('Integritetsskyddsmyndigheten');
+  });
+
+  it('returns an empty amendment list when the register has no later amendments', () => {
+    const result = getProvisionAtDate(db, {
+      sfs: '2018:218',
+      provision_ref: '1:1',
+      date: '2022-01-01',
+      include_amendments: true,
+    });
+    expect(result.amendments).toEqual([]);
+  });
+
+  it('lists later amendments from the amendment register', () => {
+    const result = getProvisionAtDate(db, {
+      sfs: '2018:218',
+      provision_ref: '3:1',
+      date: '2019-06-01',
+      include_amendments: true,
+    });
+    expect(result.amendments).toEqual([expect.objectContaining({
+      amended_by_sfs: '2020:1010',
+      amendment_date: '2021-01-01',
+      amendment_type: 'ändr.',
+    })]);
+  });
+
+  it('rejects malformed dates', () => {
+    expect(() => getStatuteAtDate(db, { sfs: '2018:218', date: '2019/01/01' })).toThrow('Invalid date format');
+  });
+
+  describe('statute snapshot', () => {
+    it('returns every provision as it read on the date', () => {
+      const snapshot = getStatuteAtDate(db, { sfs: '2018:218', date: '2019-06-01' });
+      expect(snapshot.title).toContain('dataskyddsförordning');
+      expect(snapshot.total_provisions).toBe(8);
+      expect(snapshot.provisions.map(p => p.provision_ref)).toEqual([
+        '1:1', '1:2', '1:3', '2:1', '2:2', '3:1', '3:2', '4:1',
+      ]);
+      const supervisory = snapshot.provisions.find(p => p.provision_ref === '3:1');
+      expect(supervisory?.content).toContain('Datainspektionen');
+    });
+
+    it('picks up later amendments for later dates', () => {
+      const snapshot = getStatuteAtDate(db, { sfs: '2018:218', date: '2022-01-01' });
+      const supervisory = snapshot.provisions.find(p => p.provision_ref === '3:1');
+      expect(supervisory?.content).toContain('Integritetsskyddsmyndigheten');
+      expect(supervisory?.status).toBe('current');
+    });
+
+    it('lists provisions that were not yet in force', () => {
+      const snapshot = getStatuteAtDate(db, { sfs: '2018:218', date: '2018-01-01' });
+      expect(snapshot.total_provisions).toBe(0);
+      expect(snapshot.not_yet_in_force).toContain('3:1');
+    });
+
+    it('returns an empty snapshot after a statute was repealed', () => {
+      const snapshot = getStatuteAtDate(db, { sfs: '1998:204', date: '2019-01-01' });
+      expect(snapshot.provisions).toEqual([]);
+    });
+  });
+
+  describe('tool entry point', () => {
+    it('returns a single provision when provision_ref is given', async () => {
+      const response = await getProvisionAtDateTool(db, { sfs: '1998:204', provision_ref: '5 a', date: '2010-01-01' });
+      const result = response.results as ProvisionVersion;
+      expect(result.provision_ref).toBe('5 a');
+      expect(result.status).toBe('historical');
+    });
+
+    it('returns a statute snapshot when provision_ref is omitted', async () => {
+      const response = await getProvisionAtDateTool(db, { sfs: '1998:204', date: '2010-01-01' });
+      const result = response.results as StatuteSnapshot;
+      expect(result.provisions.map(p => p.provision_ref)).toEqual(['1', '3', '5 a']);
+      expect(response._meta.disclaimer).toContain('NOT LEGAL ADVICE');
+    });
+
+    it('pages a statute snapshot', async () => {
+      const first = await getProvisionAtDateTool(db, { sfs: '2018:218', date: '2019-06-01', limit: 3 });
+      const page = first.results as StatuteSnapshot;
+      expect(page.provisions.map(p => p.provision_ref)).toEqual(['1:1', '1:2', '1:3']);
+      expect(page.total_provisions).toBe(8);
+      expect(first._truncated).toBe(true);
+      expect(first._hint).toContain('Pass offset 3');
+      expect(first._pagination).toMatchObject({ offset: 0, returned: 3, total: 8, next_offset: 3 });
+
+      const last = await getProvisionAtDateTool(db, { sfs: '2018:218', date: '2019-06-01', offset: 6 });
+      expect((last.results as StatuteSnapshot).provisions.map(p => p.provision_ref)).toEqual(['3:2', '4:1']);
+      expect(last._truncated).toBeUndefined();
+      expect(last._pagination?.next_offset).toBeNull();
+    });
+
+    it('ends a snapshot page at the token budget but returns at least one provision', async () => {
+      const response = await getProvisionAtDateTool(db, { sfs: '2018:218', date: '2019-06-01', max_tokens: 1 });
+      expect((response.results as StatuteSnapshot).provisions).toHaveLength(1);
+      expect(response._pagination).toMatchObject({ returned: 1, next_offset: 1 });
+    });
+  });
+});
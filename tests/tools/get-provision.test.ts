@@ -2,7 +2,7 @@ import { describe, it, expect, beforeAll, afterAll } from 'vitest';
 import type { Database } from '@ansvar/mcp-sqlite';
 import DatabaseConstructor from '@ansvar/mcp-sqlite';
 import { getProvision } from '../../src/tools/get-provision.js';
-import { normalizeProvisionRef } from '../../src/utils/statute-id.js';
+import { normalizeProvisionRef, parseProvisionRange } from '../../src/utils/statute-id.js';
 import { createTestDatabase, closeTestDatabase } from '../fixtures/test-db.js';
 
 describe('get_provision', () => {
@@ -204,6 +204,7 @@ describe('normalizeProvisionRef', () => {
     expect(normalizeProvisionRef('1 kap. 1 §')).toBe('1:1');
     expect(normalizeProvisionRef('3 kap. 5 §')).toBe('3:5');
     expect(normalizeProvisionRef('3 kap. 5 a §')).toBe('3:5 a');
+    expect(normalizeProvisionRef('6 a kap. 1 §')).toBe('6 a:1');
   });
 
   it('should convert flat Swedish format', () => {
@@ -217,6 +218,31 @@ describe('normalizeProvisionRef', () => {
   });
 });
 
+describe('parseProvisionRange', () => {
+  it('parses whole chapters', () => {
+    expect(parseProvisionRange('hela 5 kap.')).toEqual({ chapter: '5', from: null, to: null });
+    expect(parseProvisionRange('5 kap.')).toEqual({ chapter: '5', from: null, to: null });
+    expect(parseProvisionRange('hela 6 a kap.')).toEqual({ chapter: '6 a', from: null, to: null });
+  });
+
+  it('parses section ranges within a chapter', () => {
+    expect(parseProvisionRange('3 kap. 1–9 §§')).toEqual({ from: '3:1', to: '3:9' });
+    expect(parseProvisionRange('3:1-3:9')).toEqual({ from: '3:1', to: '3:9' });
+    expect(parseProvisionRange('3:1–9')).toEqual({ from: '3:1', to: '3:9' });
+  });
+
+  it('parses ranges across chapters and in flat statutes', () => {
+    expect(parseProvisionRange('1 kap. 2 § – 2 kap. 4 §')).toEqual({ from: '1:2', to: '2:4' });
+    expect(parseProvisionRange('6 a kap. 1–3 §§')).toEqual({ from: '6 a:1', to: '6 a:3' });
+    expect(parseProvisionRange('5 a–7 §§')).toEqual({ from: '5 a', to: '7' });
+  });
+
+  it('returns null for a single provision', () => {
+    expect(parseProvisionRange('3 kap. 5 §')).toBeNull();
+    expect(parseProvisionRange('3:5')).toBeNull();
+  });
+});
+
 describe('get_provision truncation cap', () => {
   let largeDb: Database;
 
@@ -310,4 +336,250 @@ describe('get_provision truncation cap', () => {
     expect(response.results).not.toBeNull();
     expect(Array.isArray(response.results)).toBe(false);
   });
+
+  it('pages through a statute with offset', async () => {
+    const response = await getProvision(largeDb, { document_id: '1962:700', offset: 100 });
+
+    const provisions = response.results as Array<{ provision_ref: string }>;
+    expect(provisions).toHaveLength(50);
+    expect(provisions[0].provision_ref).toBe('11:1');
+    expect(response._truncated).toBeUndefined();
+    expect(response._pagination).toEqual({ offset: 100, returned: 50, total: 150, next_offset: null, estimated_tokens: expect.any(Number) });
+  });
+
+  it('returns a whole chapter', async () => {
+    const byRef = await getProvision(largeDb, { document_id: '1962:700', provision_ref: 'hela 12 kap.' });
+    const byChapter = await getProvision(largeDb, { document_id: '1962:700', chapter: '12' });
+
+    const refs = (byRef.results as Array<{ provision_ref: string }>).map(p => p.provision_ref);
+    expect(refs).toHaveLength(10);
+    expect(refs[0]).toBe('12:1');
+    expect(refs[9]).toBe('12:10');
+    expect(byChapter.results).toEqual(byRef.results);
+  });
+
+  it('returns section ranges within and across chapters', async () => {
+    const within = await getProvision(largeDb, { document_id: '1962:700', provision_ref: '3 kap. 2–4 §§' });
+    expect((within.results as Array<{ provision_ref: string }>).map(p => p.provision_ref)).toEqual(['3:2', '3:3', '3:4']);
+
+    const across = await getProvision(largeDb, { document_id: '1962:700', provision_ref: '1 kap. 9 § – 2 kap. 2 §' });
+    expect((across.results as Array<{ provision_ref: string }>).map(p => p.provision_ref)).toEqual(['1:9', '1:10', '2:1', '2:2']);
+  });
+
+  it('pages a range with limit and next_offset', async () => {
+    const first = await getProvision(largeDb, { document_id: '1962:700', provision_ref: '3 kap. 1–10 §§', limit: 4 });
+    expect((first.results as unknown[]).length).toBe(4);
+    expect(first._truncated).toBe(true);
+    expect(first._pagination?.next_offset).toBe(4);
+
+    const last = await getProvision(largeDb, { document_id: '1962:700', provision_ref: '3 kap. 1–10 §§', offset: 8, limit: 4 });
+    expect((last.results as Array<{ provision_ref: string }>).map(p => p.provision_ref)).toEqual(['3:9', '3:10']);
+    expect(last._pagination?.next_offset).toBeNull();
+  });
+
+  it('ends a page at the token budget but returns at least one provision', async () => {
+    const response = await getProvision(largeDb, { document_id: '1962:700', chapter: '4', max_tokens: 30 });
+    expect((response.results as unknown[]).length).toBe(2);
+    expect(response._pagination?.next_offset).toBe(2);
+
+    const tiny = await getProvision(largeDb, { document_id: '1962:700', chapter: '4', max_tokens: 1 });
+    expect((tiny.results as unknown[]).length).toBe(1);
+  });
+
+  it('returns null with a note for an empty range', async () => {
+    const response = await getProvision(largeDb, { document_id: '1962:700', provision_ref: 'hela 40 kap.' });
+    expect(response.results).toBeNull();
+    expect(response._meta.note).toContain('No provisions in chapter 40');
+  });
+
+  it('rejects a range that ends before it starts', async () => {
+    await expect(getProvision(largeDb, { document_id: '1962:700', provision_ref: '3 kap. 9–2 §§' })).rejects.toThrow('ends before it starts');
+  });
+
+  it('returns neighbouring sections across chapter boundaries', async () => {
+    const response = await getProvision(largeDb, { document_id: '1962:700', provision_ref: '3:1', neighbours: 2 });
+
+    const result = response.results as { neighbours: { before: Array<{ provision_ref: string }>; after: Array<{ provision_ref: string }> } };
+    expect(result.neighbours.before.map(p => p.provision_ref)).toEqual(['2:9', '2:10']);
+    expect(result.neighbours.after.map(p => p.provision_ref)).toEqual(['3:2', '3:3']);
+  });
+
+  it('orders lettered chapters and sections by number, not by insertion', async () => {
+    largeDb.exec(`
+      INSERT INTO legal_documents VALUES (
+        '2010:800', 'statute', 'Skollag', NULL, NULL, 'in_force', '2010-06-23', '2011-07-01', NULL, NULL, NULL
+      );
+    `);
+    const insert = largeDb.prepare(`
+      INSERT INTO legal_provisions (document_id, provision_ref, chapter, section, content)
+      VALUES ('2010:800', ?, ?, ?, 'Innehåll.')
+    `);
+    for (const [chapter, section] of [['6', '1'], ['7', '1'], ['6', '2'], ['6 a', '2'], ['6 a', '1'], ['6', '1 a']]) {
+      insert.run(`${chapter}:${section}`, chapter, section);
+    }
+    const refs = (response: Awaited<ReturnType<typeof getProvision>>) =>
+      (response.results as Array<{ provision_ref: string }>).map(p => p.provision_ref);
+
+    expect(refs(await getProvision(largeDb, { document_id: '2010:800' })))
+      .toEqual(['6:1', '6:1 a', '6:2', '6 a:1', '6 a:2', '7:1']);
+    expect(refs(await getProvision(largeDb, { document_id: '2010:800', provision_ref: 'hela 6 a kap.' })))
+      .toEqual(['6 a:1', '6 a:2']);
+    expect(refs(await getProvision(largeDb, { document_id: '2010:800', provision_ref: '6 kap. 2 § – 6 a kap. 1 §' })))
+      .toEqual(['6:2', '6 a:1']);
+
+    const middle = await getProvision(largeDb, { document_id: '2010:800', provision_ref: '6 a:1', neighbours: 1 });
+    const { neighbours } = middle.results as { neighbours: { before: Array<{ provision_ref: string }>; after: Array<{ provision_ref: string }> } };
+    expect(neighbours.before.map(p => p.provision_ref)).toEqual(['6:2']);
+    expect(neighbours.after.map(p => p.provision_ref)).toEqual(['6 a:2']);
+  });
+});
+
+describe('get_provision with annotate_terms', () => {
+  let db: Database;
+  type Provision = Exclude<Awaited<ReturnType<typeof getProvision>>['results'], null | Array<unknown>>;
+
+  beforeAll(() => {
+    db = createTestDatabase();
+    // A statute without definitions of its own that refers to the data protection act
+    db.exec(`
+      INSERT INTO legal_documents (id, type, title, status)
+      VALUES ('2099:20', 'statute', 'Lag (2099:20) om kameraövervakning', 'in_force');
+      INSERT INTO legal_provisions (document_id, provision_ref, chapter, section, content)
+      VALUES ('2099:20', '1', NULL, '1', 'Vid behandling av personuppgifter ska den personuppgiftsansvarige informera om övervakningen.');
+      INSERT INTO cross_references (source_document_id, source_provision_ref, target_document_id, ref_type)
+      VALUES ('2099:20', '1', '2018:218', 'references');
+      INSERT INTO cross_references (source_document_id, target_document_id, ref_type)
+      VALUES ('1998:204', '2018:218', 'references');
+    `);
+  });
+
+  afterAll(() => {
+    closeTestDatabase(db);
+  });
+
+  it('does not annotate unless asked', async () => {
+    const response = await getProvision(db, { document_id: '2018:218', provision_ref: '4:1' });
+    expect(response.results).not.toHaveProperty('defined_terms');
+  });
+
+  it('marks inflected uses of terms defined in the same statute', async () => {
+    const response = await getProvision(db, { document_id: '2018:218', provision_ref: '4:1', annotate_terms: true });
+    const provision = response.results as Provision;
+    const span = provision.defined_terms![0];
+    expect(span).toMatchObject({
+      text: 'personuppgiftsansvarige',
+      term: 'personuppgiftsansvarig',
+      document_id: '2018:218',
+      source_provision: '1:1',
+      scope: 'same_statute',
+    });
+    expect(provision.content.slice(span.start, span.end)).toBe(span.text);
+  });
+
+  it('prefers the longest defined term', async () => {
+    const response = await getProvision(db, { document_id: '2018:218', provision_ref: '2:2', annotate_terms: true });
+    const terms = (response.results as Provision).defined_terms!.map(span => span.text);
+    expect(terms).toContain('känsliga personuppgifter');
+    expect(terms.filter(text => /^personuppgifter$/i.test(text))).toHaveLength(1);
+  });
+
+  it('resolves to the statute\'s own definition over other statutes', async () => {
+    const response = await getProvision(db, { document_id: '1998:204', provision_ref: '5 a', annotate_terms: true });
+    const spans = (response.results as Provision).defined_terms!;
+    const personuppgift = spans.filter(span => span.term === 'personuppgift');
+    expect(personuppgift.length).toBeGreaterThan(0);
+    expect(personuppgift.every(span => span.document_id === '1998:204' && span.scope === 'same_statute')).toBe(true);
+    // PUL does not define "behandling"; the referenced act does
+    expect(spans.find(span => span.term === 'behandling')).toMatchObject({ document_id: '2018:218', scope: 'referenced_statute' });
+  });
+
+  it('falls back to definitions in cross-referenced statutes', async () => {
+    const response = await getProvision(db, { document_id: '2099:20', provision_ref: '1', annotate_terms: true });
+    expect((response.results as Provision).defined_terms!.map(span => [span.term, span.scope])).toEqual([
+      ['behandling', 'referenced_statute'],
+      ['personuppgift', 'referenced_statute'],
+      ['personuppgiftsansvarig', 'referenced_statute'],
+    ]);
+  });
+
+  it('annotates every provision when the whole statute is returned', async () => {
+    const response = await getProvision(db, { document_id: '2018:218', annotate_terms: true });
+    const provisions = response.results as Provision[];
+    expect(provisions.every(provision => Array.isArray(provision.defined_terms))).toBe(true);
+  });
+});
+
+describe('get_provision with stycke and punkt', () => {
+  let db: Database;
+  type Provision = Exclude<Awaited<ReturnType<typeof getProvision>>['results'], null | Array<unknown>>;
+
+  beforeAll(() => {
+    db = createTestDatabase();
+    db.prepare(`
+      INSERT INTO legal_provisions (document_id, provision_ref, chapter, section, content)
+      VALUES ('2018:218', '2:3', '2', '3', ?)
+    `).run(
+      'Känsliga personuppgifter får behandlas om behandlingen är nödvändig för 1. förebyggande hälso- och sjukvård, ' +
+      '2. medicinska diagnoser.\nBehandling enligt första stycket får ske av yrkesutövare med tystnadsplikt.'
+    );
+    db.prepare(`
+      INSERT INTO legal_provisions (document_id, provision_ref, chapter, section, content)
+      VALUES ('2018:218', '2:4', '2', '4', ?)
+    `).run(
+      'Uppgifter får behandlas för 1. arkivändamål, 2. statistiska ändamål. Behandlingen ska dokumenteras.'
+    );
+  });
+
+  afterAll(() => {
+    closeTestDatabase(db);
+  });
+
+  it('returns one punkt addressed in provision_ref', async () => {
+    const response = await getProvision(db, { document_id: '2018:218', provision_ref: '2 kap. 3 § första stycket 2' });
+    const prov = response.results as Provision;
+    expect(prov.provision_ref).toBe('2:3');
+    expect(prov.content).toBe('medicinska diagnoser.');
+    expect(prov.subdivision).toEqual({ stycke: 1, punkt: 2, label: 'första stycket 2' });
+    expect(response._citation?.display_text).toBe('2 kap. 3 § första stycket 2 SFS 2018:218');
+    expect(response._citation?.lookup.args).toMatchObject({ stycke: 1, punkt: 2 });
+  });
+
+  it('returns one stycke addressed by input fields', async () => {
+    const response = await getProvision(db, { document_id: '2018:218', chapter: '2', section: '3', stycke: 2 });
+    const prov = response.results as Provision;
+    expect(prov.content).toBe('Behandling enligt första stycket får ske av yrkesutövare med tystnadsplikt.');
+    expect(prov.subdivision).toEqual({ stycke: 2, label: 'andra stycket' });
+  });
+
+  it('finds a punkt without stycke', async () => {
+    const response = await getProvision(db, { document_id: '2018:218', provision_ref: '2:3', punkt: 1 });
+    expect((response.results as Provision).subdivision).toEqual({ stycke: 1, punkt: 1, label: 'första stycket 1' });
+  });
+
+  it('returns null with a note for a missing stycke', async () => {
+    const response = await getProvision(db, { document_id: '2018:218', provision_ref: '2:3', stycke: 4 });
+    expect(response.results).toBeNull();
+    expect(response._meta.note).toBe('Provision 2:3 has no fjärde stycket');
+  });
+
+  it('refuses a stycke in text stored without stycke breaks', async () => {
+    const response = await getProvision(db, { document_id: '2018:218', provision_ref: '2 kap. 4 § andra stycket' });
+    expect(response.results).toBeNull();
+    expect(response._meta.note).toContain('Provision 2:4 is stored without stycke breaks');
+    expect(response._citation).toBeUndefined();
+  });
+
+  it('returns a punkt without stycke from text stored without stycke breaks', async () => {
+    const response = await getProvision(db, { document_id: '2018:218', provision_ref: '2:4', punkt: 2 });
+    const prov = response.results as Provision;
+    expect(prov.content).toBe('statistiska ändamål.');
+    expect(prov.subdivision).toEqual({ punkt: 2, label: '2 p.' });
+    expect(response._citation?.display_text).toBe('2 kap. 4 § 2 p. SFS 2018:218');
+    expect(response._citation?.lookup.args).not.toHaveProperty('stycke');
+    expect(response._citation?.lookup.args.punkt).toBe(2);
+  });
+
+  it('requires a provision for stycke and punkt', async () => {
+    await expect(getProvision(db, { document_id: '2018:218', stycke: 1 })).rejects.toThrow('stycke and punkt');
+  });
 });
@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type { Database } from '@ansvar/mcp-sqlite';
+import { getStatuteStructure } from '../../src/tools/get-statute-structure.js';
+import { createTestDatabase, closeTestDatabase } from '../fixtures/test-db.js';
+
+describe('get_statute_structure', () => {
+  let db: Database;
+
+  beforeAll(() => {
+    db = createTestDatabase();
+    db.exec(`
+      INSERT INTO legal_provisions (document_id, provision_ref, chapter, section, content)
+      VALUES ('2018:218', '4:4', '4', '4', 'Har upphävts genom lag (2020:1010).');
+      INSERT INTO statute_chapters (document_id, chapter, title, part, part_title)
+      VALUES ('2018:218', '7', 'Bemyndiganden', 'Andra avdelningen', 'Övriga bestämmelser');
+      INSERT INTO legal_provisions (document_id, provision_ref, chapter, section, content)
+      VALUES ('2018:218', '7:1', '7', '1', 'Regeringen får meddela föreskrifter.');
+    `);
+  });
+
+  afterAll(() => {
+    closeTestDatabase(db);
+  });
+
+  it('returns chapters with headings and sections with titles', async () => {
+    const response = await getStatuteStructure(db, { document_id: 'DSL' });
+    const toc = response.results!.toc;
+    expect(toc.map(node => [node.type, node.number, node.heading, node.status])).toEqual([
+      ['chapter', '1', 'Inledande bestämmelser', 'in_force'],
+      ['chapter', '2', 'Rättslig grund för behandling av personuppgifter', 'in_force'],
+      ['chapter', '3', 'Tillsyn', 'in_force'],
+      ['chapter', '4', 'Skadestånd', 'in_force'],
+      ['chapter', '5', null, 'repealed'],
+      ['chapter', '6', null, 'vacant'],
+      ['part', 'Andra avdelningen', 'Övriga bestämmelser', 'in_force'],
+    ]);
+    expect(toc[0].provision_ref).toBe('1:1–1:3');
+    expect(toc[0].children!.map(node => [node.provision_ref, node.heading])).toEqual([
+      ['1:1', 'Lagens syfte'],
+      ['1:2', 'Lagens tillämpningsområde'],
+      ['1:3', null],
+    ]);
+    expect(toc[4].repealed_by).toBe('2020:1010');
+    expect(toc[6].children!.map(node => node.number)).toEqual(['7']);
+  });
+
+  it('marks repealed and vacant sections', async () => {
+    const response = await getStatuteStructure(db, { document_id: '2018:218', chapter: '4' });
+    const [chapter] = response.results!.toc;
+    expect(chapter.children!.map(node => [node.number, node.status])).toEqual([
+      ['1', 'in_force'],
+      ['2–3', 'vacant'],
+      ['4', 'repealed'],
+    ]);
+    expect(chapter.children![2].repealed_by).toBe('2020:1010');
+    expect(response.results!.counts).toEqual({
+      parts: 0, chapters: 1, sections: 2, repealed_sections: 1, vacant_sections: 2,
+    });
+  });
+
+  it('lists sections of statutes without chapters', async () => {
+    const response = await getStatuteStructure(db, { document_id: '1998:204', include_sections: false });
+    expect(response.results!.toc.map(node => [node.type, node.number, node.status])).toEqual([
+      ['section', '1', 'in_force'],
+      ['section', '2', 'vacant'],
+      ['section', '3', 'in_force'],
+      ['section', '4', 'vacant'],
+      ['section', '5 a', 'in_force'],
+    ]);
+  });
+
+  it('leaves out sections when asked to', async () => {
+    const response = await getStatuteStructure(db, { document_id: '2018:218', include_sections: false });
+    expect(response.results!.toc[0].children).toBeUndefined();
+    expect(response.results!.counts.sections).toBe(10);
+  });
+
+  it('returns null with a note for unknown statutes and chapters', async () => {
+    expect((await getStatuteStructure(db, { document_id: '9999:999' }))._meta.note).toContain('No document found');
+    const missing = await getStatuteStructure(db, { document_id: '2018:218', chapter: '99' });
+    expect(missing.results).toBeNull();
+    expect(missing._meta.note).toBe('No chapter 99 in 2018:218');
+  });
+});
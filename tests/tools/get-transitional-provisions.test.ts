@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type { Database } from '@ansvar/mcp-sqlite';
+import { getTransitionalProvisions } from '../../src/tools/get-transitional-provisions.js';
+import { checkCurrency } from '../../src/tools/check-currency.js';
+import { createTestDatabase, closeTestDatabase } from '../fixtures/test-db.js';
+
+describe('get_transitional_provisions', () => {
+  let db: Database;
+
+  beforeAll(() => {
+    db = createTestDatabase();
+  });
+
+  afterAll(() => {
+    closeTestDatabase(db);
+  });
+
+  it('lists all transitional provisions of a statute in SFS order', async () => {
+    const response = await getTransitionalProvisions(db, { document_id: 'DSL' });
+    expect(response.results!.document_id).toBe('2018:218');
+    expect(response.results!.transitional_provisions.map(t => [t.amending_sfs, t.relevance])).toEqual([
+      ['2018:218', 'statute'],
+      ['2018:1248', 'statute'],
+      ['2020:1010', 'statute'],
+    ]);
+  });
+
+  it('returns the rules that mention or amended a provision and the general rules of the statute', async () => {
+    const mentioned = await getTransitionalProvisions(db, { document_id: '2018:218', provision_ref: '3 kap. 1 §' });
+    expect(mentioned.results!.provision_ref).toBe('3:1');
+    expect(mentioned.results!.transitional_provisions.map(t => [t.amending_sfs, t.relevance])).toEqual([
+      ['2018:218', 'original_act'],
+      ['2020:1010', 'mentions_provision'],
+    ]);
+
+    const amended = await getTransitionalProvisions(db, { document_id: '2018:218', provision_ref: '2:3' });
+    expect(amended.results!.transitional_provisions.map(t => [t.amending_sfs, t.relevance])).toEqual([
+      ['2018:218', 'original_act'],
+      ['2018:1248', 'amends_provision'],
+    ]);
+  });
+
+  it('limits the rules to acts in force on as_of_date', async () => {
+    const response = await getTransitionalProvisions(db, {
+      document_id: '2018:218',
+      provision_ref: '3:1',
+      as_of_date: '2020-06-01',
+    });
+    expect(response.results!.as_of_date).toBe('2020-06-01');
+    expect(response.results!.transitional_provisions.map(t => t.amending_sfs)).toEqual(['2018:218']);
+  });
+
+  it('returns null with a note for an unknown statute', async () => {
+    const response = await getTransitionalProvisions(db, { document_id: '9999:999' });
+    expect(response.results).toBeNull();
+    expect(response._meta.note).toContain('9999:999');
+  });
+
+  it('makes check_currency warn when transitional rules that mention the provision keep earlier wording', async () => {
+    const response = await checkCurrency(db, { document_id: '2018:218', provision_ref: '3:1' });
+    const warnings = response.results!.warnings.filter(w => w.includes('Transitional provisions'));
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toContain('SFS 2020:1010 (in force 2021-01-01)');
+
+    const before = await checkCurrency(db, { document_id: '2018:218', provision_ref: '3:1', as_of_date: '2020-06-01' });
+    expect(before.results!.warnings.filter(w => w.includes('Transitional provisions'))).toHaveLength(0);
+  });
+
+  it('does not warn about the general rules of the original act', async () => {
+    const response = await checkCurrency(db, { document_id: '2018:218', provision_ref: '1:1' });
+    expect(response.results!.warnings.filter(w => w.includes('Transitional provisions'))).toEqual([]);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type { Database } from '@ansvar/mcp-sqlite';
+import { getUpcomingChanges } from '../../src/tools/get-upcoming-changes.js';
+import { createTestDatabase, closeTestDatabase } from '../fixtures/test-db.js';
+
+describe('get_upcoming_changes', () => {
+  let db: Database;
+
+  beforeAll(() => {
+    db = createTestDatabase();
+    db.prepare(`
+      INSERT INTO legal_documents (id, type, title, status, issued_date, in_force_date)
+      VALUES ('2099:30', 'statute', 'Lag om framtida register', 'not_yet_in_force', '2098-12-01', '2099-07-01')
+    `).run();
+    db.prepare(`
+      INSERT INTO legal_provision_versions (document_id, provision_ref, section, content, valid_from, valid_to)
+      VALUES ('2099:30', '1', '1', 'Denna lag gäller register som förs av myndigheter.', '2099-07-01', NULL)
+    `).run();
+  });
+
+  afterAll(() => {
+    closeTestDatabase(db);
+  });
+
+  it('shows the future wording next to the current wording', async () => {
+    const response = await getUpcomingChanges(db, { from_date: '2020-06-01', to_date: '2021-12-31' });
+    expect(response.results!.changes).toEqual([
+      {
+        document_id: '2018:218',
+        document_title: 'Lag med kompletterande bestämmelser till EU:s dataskyddsförordning',
+        document_status: 'in_force',
+        provision_ref: '3:1',
+        change_type: 'amended_provision',
+        effective_date: '2021-01-01',
+        current_wording: 'Datainspektionen är tillsynsmyndighet enligt EU:s dataskyddsförordning.',
+        future_wording: 'Integritetsskyddsmyndigheten är tillsynsmyndighet enligt EU:s dataskyddsförordning.',
+        eu_documents: ['regulation:2016/679'],
+      },
+    ]);
+  });
+
+  it('lists statutes and provisions that are not yet in force', async () => {
+    const response = await getUpcomingChanges(db, { from_date: '2025-01-01' });
+    expect(response.results!.changes.map(c => [c.document_id, c.provision_ref, c.change_type, c.effective_date])).toEqual([
+      ['2099:30', null, 'new_statute', '2099-07-01'],
+      ['2099:30', '1', 'new_provision', '2099-07-01'],
+    ]);
+    expect(response.results!.changes[1].current_wording).toBeNull();
+  });
+
+  it('filters by statute and EU-linked status', async () => {
+    const byStatute = await getUpcomingChanges(db, { from_date: '2020-06-01', document_id: 'DSL' });
+    expect(byStatute.results!.changes.map(c => c.document_id)).toEqual(['2018:218']);
+
+    const euLinked = await getUpcomingChanges(db, { from_date: '2020-06-01', eu_linked: true });
+    expect(euLinked.results!.changes.map(c => c.document_id)).toEqual(['2018:218']);
+
+    const notEuLinked = await getUpcomingChanges(db, { from_date: '2020-06-01', eu_linked: false });
+    expect(notEuLinked.results!.changes.map(c => c.document_id)).toEqual(['2099:30', '2099:30']);
+  });
+
+  it('truncates to the limit', async () => {
+    const response = await getUpcomingChanges(db, { from_date: '2020-06-01', limit: 1 });
+    expect(response.results!.changes).toHaveLength(1);
+    expect(response.results!.total).toBe(3);
+    expect(response.results!.truncated).toBe(true);
+  });
+
+  it('rejects invalid date windows', async () => {
+    await expect(getUpcomingChanges(db, { from_date: '2021-13-01' })).rejects.toThrow('from_date');
+    await expect(getUpcomingChanges(db, { from_date: '2021-01-01', to_date: '2020-01-01' })).rejects.toThrow('to_date');
+  });
+});
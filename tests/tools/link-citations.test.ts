@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type { Database } from '@ansvar/mcp-sqlite';
+import { linkCitations } from '../../src/tools/link-citations.js';
+import { createTestDatabase, closeTestDatabase } from '../fixtures/test-db.js';
+
+describe('link_citations', () => {
+  let db: Database;
+
+  beforeAll(() => {
+    db = createTestDatabase();
+  });
+
+  afterAll(() => {
+    closeTestDatabase(db);
+  });
+
+  it('links citations in Markdown, preferring stored urls', async () => {
+    const response = await linkCitations(db, {
+      text: 'Se 3 kap. 1 § dataskyddslagen, 5 a § PUL, HFD 2019 ref. 12 och CELEX 32016R0679 men inte 7 §.',
+    });
+    expect(response.results.output).toBe(
+      'Se [3 kap. 1 § dataskyddslagen](https://www.riksdagen.se/sv/dokument-och-lagar/dokument/svensk-forfattningssamling/lag-2018218-med-kompletterande-bestammelser_sfs-2018-218/), ' +
+      '[5 a § PUL](https://www.riksdagen.se/sv/dokument-och-lagar/dokument/svensk-forfattningssamling/sfs-1998-204), ' +
+      '[HFD 2019 ref. 12](https://lagen.nu/dom/hfd/2019:12) och ' +
+      '[CELEX 32016R0679](https://eur-lex.europa.eu/eli/reg/2016/679/oj) men inte 7 §.'
+    );
+    expect(response.results.links.map(link => link.url_source)).toEqual(['database', 'canonical', 'canonical', 'database', null]);
+    expect(response.results).toMatchObject({ linked: 4, unlinked: 1 });
+  });
+
+  it('renders escaped HTML anchors', async () => {
+    const response = await linkCitations(db, { text: 'A < B enligt NJA 2020 s. 45 & ECLI:SE:HDO:2020:45', format: 'html' });
+    expect(response.results.output).toBe(
+      'A &lt; B enligt <a href="https://lagen.nu/dom/nja/2020s45" class="legal-citation" title="NJA 2020 s. 45">NJA 2020 s. 45</a> &amp; ' +
+      '<a href="https://e-justice.europa.eu/ecli/ECLI:SE:HDO:2020:45" class="legal-citation" title="ECLI:SE:HDO:2020:45">ECLI:SE:HDO:2020:45</a>'
+    );
+  });
+
+  it('returns spans only for json', async () => {
+    const text = 'Enligt direktiv 95/46/EG.';
+    const response = await linkCitations(db, { text, format: 'json' });
+    expect(response.results.output).toBeUndefined();
+    const [link] = response.results.links;
+    expect(text.slice(link.start, link.end)).toBe('direktiv 95/46/EG');
+    expect(link).toMatchObject({ type: 'eu_act', url: 'https://eur-lex.europa.eu/legal-content/EN/TXT/?uri=CELEX:31995L0046' });
+  });
+
+  it('leaves existing Markdown links and code alone', async () => {
+    const text = 'Se [SFS 2018:218](https://example.org) och `SFS 1998:204`.';
+    const response = await linkCitations(db, { text });
+    expect(response.results.output).toBe(text);
+    expect(response.results.links).toEqual([]);
+  });
+});
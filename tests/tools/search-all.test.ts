@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type { Database } from '@ansvar/mcp-sqlite';
+import { searchAll, type FacetCount } from '../../src/tools/search-all.js';
+import { createTestDatabase, closeTestDatabase } from '../fixtures/test-db.js';
+
+const countOf = (facet: FacetCount[], value: string) => facet.find(f => f.value === value)?.count ?? 0;
+
+describe('search_all', () => {
+  let db: Database;
+
+  beforeAll(() => {
+    db = createTestDatabase();
+  });
+
+  afterAll(() => {
+    closeTestDatabase(db);
+  });
+
+  it('returns hits from every corpus in one ranked list', async () => {
+    const response = await searchAll(db, { query: 'personuppgifter', limit: 100 });
+    const corpora = new Set(response.results.hits.map(hit => hit.corpus));
+    expect(corpora).toEqual(new Set(['statutes', 'case_law', 'preparatory_works', 'definitions', 'eu']));
+    expect(response.results.total).toBe(response.results.hits.length);
+
+    const relevance = response.results.hits.map(hit => hit.relevance);
+    expect(relevance).toEqual([...relevance].sort((a, b) => a - b));
+  });
+
+  it('counts facets over all matches', async () => {
+    const { facets, total } = (await searchAll(db, { query: 'personuppgifter', limit: 1 })).results;
+    expect(facets.corpus.reduce((sum, f) => sum + f.count, 0)).toBe(total);
+    expect(countOf(facets.court, 'HD')).toBe(1);
+    expect(countOf(facets.court, 'HFD')).toBe(1);
+    expect(countOf(facets.document_type, 'regulation')).toBe(1);
+    expect(countOf(facets.status, 'repealed')).toBeGreaterThan(0);
+    expect(countOf(facets.year, '2020')).toBe(1);
+    expect(countOf(facets.eu_act, 'regulation:2016/679')).toBeGreaterThan(1);
+  });
+
+  it('applies facet values from a previous response as filters', async () => {
+    const first = await searchAll(db, { query: 'personuppgifter' });
+    const court = first.results.facets.court[0];
+
+    const narrowed = await searchAll(db, { query: 'personuppgifter', filters: { court: [court.value] } });
+    expect(narrowed.results.total).toBe(court.count);
+    expect(narrowed.results.hits.every(hit => hit.court === court.value)).toBe(true);
+  });
+
+  it('combines filters across facets with AND and within a facet with OR', async () => {
+    const response = await searchAll(db, {
+      query: 'personuppgifter',
+      filters: { corpus: ['statutes', 'definitions'], eu_act: ['directive:95/46'] },
+    });
+    expect(response.results.hits.length).toBeGreaterThan(0);
+    for (const hit of response.results.hits) {
+      expect(['statutes', 'definitions']).toContain(hit.corpus);
+      expect(hit.document_id).toBe('1998:204');
+    }
+    expect(response.results.facets.corpus.map(f => f.value).sort()).toEqual(['definitions', 'statutes']);
+  });
+
+  it('links statute provisions to EU acts at provision and document level', async () => {
+    const response = await searchAll(db, { query: 'sanktionsavgifter', filters: { corpus: ['statutes'] } });
+    const hit = response.results.hits.find(h => h.provision_ref === '3:2');
+    expect(hit?.eu_acts).toEqual(['regulation:2016/679']);
+  });
+
+  it('finds EU acts by short name', async () => {
+    const response = await searchAll(db, { query: 'GDPR', filters: { corpus: ['eu'] } });
+    // The repealed directive matches too: its description names GDPR as its successor.
+    expect(response.results.hits.map(hit => hit.document_id)).toEqual(['regulation:2016/679', 'directive:95/46']);
+  });
+
+  it('returns empty results and facets for an empty query', async () => {
+    const response = await searchAll(db, { query: '  ' });
+    expect(response.results.total).toBe(0);
+    expect(response.results.facets.corpus).toEqual([]);
+  });
+
+  it('searches the words of a query that is not valid FTS5 syntax', async () => {
+    for (const query of ['"personuppgifter', 'personuppgifter AND OR']) {
+      const response = await searchAll(db, { query });
+      expect(response.results.total).toBeGreaterThan(0);
+      expect(response._meta.note).toContain('searched for its words instead: personuppgifter');
+    }
+  });
+
+  it('returns an empty result for FTS5 syntax without words', async () => {
+    const response = await searchAll(db, { query: '*' });
+    expect(response.results.total).toBe(0);
+    expect(response._meta.note).toContain('not a valid FTS5 query');
+  });
+});
@@ -1,7 +1,7 @@
 import { describe, it, expect, beforeAll, afterAll } from 'vitest';
 import type { Database } from '@ansvar/mcp-sqlite';
 import { searchCaseLaw } from '../../src/tools/search-case-law.js';
-import { createTestDatabase, closeTestDatabase } from '../fixtures/test-db.js';
+import { addFullCaseLaw, createTestDatabase, closeTestDatabase } from '../fixtures/test-db.js';
 
 describe('search_case_law', () => {
   let db: Database;
@@ -99,3 +99,37 @@ describe('search_case_law', () => {
     expect(orphan?.title).toBeTruthy();
   });
 });
+
+describe('search_case_law by judgment section', () => {
+  let db: Database;
+
+  beforeAll(() => {
+    db = createTestDatabase();
+  });
+
+  afterAll(() => {
+    closeTestDatabase(db);
+  });
+
+  it('returns nothing with a note when the database has no full judgments', async () => {
+    const response = await searchCaseLaw(db, { query: 'skadestånd', section: 'reasoning' });
+    expect(response.results).toEqual([]);
+    expect((response._meta as { note?: string }).note).toContain('no full-text judgments');
+  });
+
+  it('searches only the requested part of the judgments', async () => {
+    addFullCaseLaw(db);
+
+    const reasoning = await searchCaseLaw(db, { query: 'rättslig grund', section: 'reasoning' });
+    expect(reasoning.results.map(r => r.document_id)).toEqual(['NJA 2020']);
+    expect(reasoning.results[0].summary_snippet).toContain('>>>');
+
+    // "ringa" only occurs in the dissent of NJA 2020
+    expect(await searchCaseLaw(db, { query: 'ringa', section: 'reasoning' })).toMatchObject({ results: [] });
+    const dissents = await searchCaseLaw(db, { query: 'ringa', section: 'dissents' });
+    expect(dissents.results.map(r => r.document_id)).toEqual(['NJA 2020']);
+
+    const filtered = await searchCaseLaw(db, { query: 'upphävts', section: 'dissents', court: 'HFD' });
+    expect(filtered.results.map(r => r.case_number)).toEqual(['5765-18']);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type { Database } from '@ansvar/mcp-sqlite';
+import { verifyDocumentCitations } from '../../src/tools/verify-document-citations.js';
+import { createTestDatabase, closeTestDatabase } from '../fixtures/test-db.js';
+
+describe('verify_document_citations', () => {
+  let db: Database;
+
+  beforeAll(() => {
+    db = createTestDatabase();
+  });
+
+  afterAll(() => {
+    closeTestDatabase(db);
+  });
+
+  const check = async (text: string) => (await verifyDocumentCitations(db, { text })).results.citations;
+
+  it('verifies existing documents and reports missing ones', async () => {
+    const response = await verifyDocumentCitations(db, {
+      text: 'Enligt prop. 2017/18:105 s. 45 och NJA 2020 s. 45, men inte 9 kap. 1 § lag (2018:218) eller SOU 1999:1.',
+    });
+    expect(response.results.citations.map(c => [c.normalized, c.verdict])).toEqual([
+      ['Prop. 2017/18:105 s. 45', 'verified'],
+      ['NJA 2020 s. 45', 'verified'],
+      ['SFS 2018:218 9 kap. 1 §', 'not_found'],
+      ['SOU 1999:1', 'not_found'],
+    ]);
+    expect(response.results.summary).toEqual({ total: 4, verified: 2, warning: 0, not_found: 2, unverifiable: 0 });
+  });
+
+  it('reports currency of statutes and provisions', async () => {
+    const [repealed, amended] = await check('Se 5 a § PUL och 3 kap. 1 § dataskyddslagen.');
+    expect(repealed).toMatchObject({ document_id: '1998:204', provision_ref: '5 a', currency: 'repealed', verdict: 'warning' });
+    expect(amended).toMatchObject({ provision_ref: '3:1', currency: 'amended' });
+    expect(amended.amendments).toEqual([{ amending_sfs: '2020:1010', in_force_date: '2021-01-01', change_type: 'ändr.' }]);
+    expect(amended.warnings.some(w => w.includes('SFS 2020:1010') && w.includes('get_transitional_provisions'))).toBe(true);
+  });
+
+  it('flags provisions cited in an earlier wording', async () => {
+    const [before, accordingTo] = await check(
+      'Se 3 kap. 1 § dataskyddslagen i dess lydelse före SFS 2020:1010 och 2 kap. 2 § lag (2018:218) i dess lydelse enligt SFS 2018:1248.'
+    );
+    expect(before.cites_earlier_wording).toBe(true);
+    expect(before.cited_wording).toBe('i dess lydelse före SFS 2020:1010');
+    expect(accordingTo.cites_earlier_wording).toBe(false);
+
+    const [titled] = await check(
+      '3 kap. 1 § lagen (2018:218) med kompletterande bestämmelser till EU:s dataskyddsförordning i dess lydelse före SFS 2020:1010'
+    );
+    expect(titled.cites_earlier_wording).toBe(true);
+    expect(titled.cited_wording).toBe('i dess lydelse före SFS 2020:1010');
+
+    db.exec(`
+      INSERT INTO sfs_amendments (document_id, amending_sfs, in_force_date, source) VALUES ('2018:218', '2022:500', '2022-07-01', 'register');
+      INSERT INTO sfs_amendment_provisions (amendment_id, provision_ref, change_type)
+      SELECT id, '2:2', 'ändr.' FROM sfs_amendments WHERE amending_sfs = '2022:500';
+    `);
+    try {
+      const [later] = await check('2 kap. 2 § lag (2018:218) i dess lydelse enligt SFS 2018:1248');
+      expect(later.cites_earlier_wording).toBe(true);
+      expect(later.warnings).toContain('Cited in its wording by SFS 2018:1248; amended since by SFS 2022:500');
+    } finally {
+      db.exec(`
+        DELETE FROM sfs_amendment_provisions WHERE amendment_id IN (SELECT id FROM sfs_amendments WHERE amending_sfs = '2022:500');
+        DELETE FROM sfs_amendments WHERE amending_sfs = '2022:500';
+      `);
+    }
+  });
+
+  it('marks provisions without a statute and directives as unverifiable', async () => {
+    const citations = await check('Enligt 7 § och 3 § XYZ samt Dir. 2021:45.');
+    expect(citations.map(c => [c.text, c.verdict])).toEqual([
+      ['7 §', 'unverifiable'],
+      ['3 § XYZ', 'unverifiable'],
+      ['Dir. 2021:45', 'unverifiable'],
+    ]);
+  });
+
+  it('finds amending acts in the amendment register', async () => {
+    const [act] = await check('Ändrad genom SFS 2020:1010.');
+    expect(act).toMatchObject({ document_exists: true, amends: '2018:218', verdict: 'verified' });
+  });
+
+  it('flags wording not yet in force', async () => {
+    db.exec(`
+      INSERT INTO legal_provision_versions (document_id, provision_ref, chapter, section, content, valid_from)
+      VALUES ('2018:218', '4:1', '4', '1', 'Ny lydelse.', '2099-01-01')
+    `);
+    try {
+      const [citation] = await check('SFS 2018:218 4:1');
+      expect(citation.warnings).toContain('A new wording of provision "4:1" enters into force on 2099-01-01');
+    } finally {
+      db.exec("DELETE FROM legal_provision_versions WHERE valid_from = '2099-01-01'");
+    }
+  });
+
+  it('requires text', async () => {
+    await expect(verifyDocumentCitations(db, { text: ' ' })).rejects.toThrow('text is required');
+  });
+});
@@ -148,6 +148,37 @@ describe('Version Tracking Tools (Premium)', () => {
       expect(diff.diff).toContain('Datainspektionen');
       expect(diff.diff).toContain('Integritetsskyddsmyndigheten');
       expect(diff.change_summary).toContain('changed');
+      expect(diff.change_summary).toContain('1 unit modified, 1 word deleted, 1 word inserted');
+    });
+
+    it('returns word-level JSON operations', async () => {
+      const result = await diffProvision(db, {
+        document_id: '2018:218',
+        provision_ref: '3:1',
+        from_date: '2019-01-01',
+        to_date: '2022-01-01',
+        format: 'json',
+      });
+      const diff = result as { diff: any[]; changes: { modified: number; words_inserted: number; words_deleted: number } };
+      expect(diff.diff).toHaveLength(1);
+      // Stored text has no stycke breaks, so the units are sentences
+      expect(diff.diff[0]).toMatchObject({ type: 'modified', unit: 'sentence', old_label: 'mening 1', new_label: 'mening 1' });
+      expect(diff.diff[0].words).toContainEqual({ op: 'delete', text: 'Datainspektionen' });
+      expect(diff.diff[0].words).toContainEqual({ op: 'insert', text: 'Integritetsskyddsmyndigheten' });
+      expect(diff.changes).toMatchObject({ modified: 1, words_inserted: 1, words_deleted: 1 });
+    });
+
+    it('returns HTML with <ins>/<del> markup', async () => {
+      const result = await diffProvision(db, {
+        document_id: '2018:218',
+        provision_ref: '3:1',
+        from_date: '2019-01-01',
+        to_date: '2022-01-01',
+        format: 'html',
+      });
+      const diff = result as { diff: string };
+      expect(diff.diff).toContain('<del>Datainspektionen</del>');
+      expect(diff.diff).toContain('<ins>Integritetsskyddsmyndigheten</ins>');
     });
 
     it('returns null diff when no changes in date range', async () => {
@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import Database from '@ansvar/mcp-sqlite';
+import { buildFtsQueryVariants } from '../../src/utils/fts-query.js';
+import { stemSwedish } from '../../src/utils/swedish-stemmer.js';
+import { splitCompound, compoundSearchTerms } from '../../src/utils/compound-splitter.js';
+
+/**
+ * Recall corpus: short passages of legal Swedish and queries phrased the way
+ * a user would, with the passages each query should find.
+ */
+const CORPUS: Record<string, string> = {
+  las7: 'Uppsägning från arbetsgivarens sida ska vara sakligt grundad.',
+  las18: 'Avskedande får ske om arbetstagaren grovt har åsidosatt sina åligganden mot arbetsgivaren.',
+  aml3: 'Arbetsgivaransvaret för arbetsmiljön omfattar även inhyrd personal.',
+  dsl31: 'Integritetsskyddsmyndigheten är tillsynsmyndighet enligt dataskyddsförordningen.',
+  dsl32: 'Tillsynsmyndigheten får besluta om sanktionsavgifter.',
+  brb1: 'Den som bryter mot förbudet döms till böter eller fängelse i högst sex månader.',
+  jb12: 'Hyresgästen ska betala hyran senast sista vardagen före varje kalendermånads början.',
+  jb12b: 'Hyresvärden får säga upp avtalet om hyresgästens betalning dröjer.',
+  osl21: 'Sekretess gäller för uppgift om en enskilds personliga förhållanden.',
+  pul3: 'Behandling av personuppgifter ska vara laglig, korrekt och öppen.',
+  fl15: 'Myndighetens beslut ska innehålla de skäl som har bestämt utgången.',
+};
+
+const RECALL_QUERIES: Array<{ query: string; relevant: string[] }> = [
+  { query: 'arbetsgivarens ansvar', relevant: ['aml3'] },
+  { query: 'arbetsgivaransvar', relevant: ['aml3'] },
+  { query: 'uppsägningar', relevant: ['las7'] },
+  { query: 'tillsynsmyndighetens beslut', relevant: ['dsl32'] },
+  { query: 'myndighet tillsyn', relevant: ['dsl31', 'dsl32'] },
+  { query: 'sanktionsavgift', relevant: ['dsl32'] },
+  { query: 'hyresgäster', relevant: ['jb12', 'jb12b'] },
+  { query: 'personuppgift behandlingar', relevant: ['pul3'] },
+  { query: 'böter fängelser', relevant: ['brb1'] },
+  { query: 'avskedad arbetstagare', relevant: ['las18'] },
+  { query: 'myndigheter', relevant: ['dsl31', 'dsl32', 'fl15'] },
+];
+
+/** The query builder this module replaced: drop two characters from long tokens. */
+function baselineQuery(query: string): string {
+  return (query.match(/[\p{L}\p{N}_]+/gu) ?? [])
+    .map(token => `${token.length > 6 ? token.slice(0, -2) : token}*`)
+    .join(' ');
+}
+
+function createCorpusDatabase(withSearchTerms: boolean): Database.Database {
+  const db = new Database(':memory:');
+  db.exec('CREATE VIRTUAL TABLE passages USING fts5(id UNINDEXED, content, search_terms, tokenize=\'unicode61\')');
+  const insert = db.prepare('INSERT INTO passages (id, content, search_terms) VALUES (?, ?, ?)');
+  for (const [id, content] of Object.entries(CORPUS)) {
+    insert.run(id, content, withSearchTerms ? compoundSearchTerms(content) : null);
+  }
+  return db;
+}
+
+function recall(db: Database.Database, toFtsQuery: (query: string) => string): number {
+  const search = db.prepare('SELECT id FROM passages WHERE passages MATCH ?');
+  let found = 0;
+  let total = 0;
+  for (const { query, relevant } of RECALL_QUERIES) {
+    const hits = new Set((search.all(toFtsQuery(query)) as { id: string }[]).map(r => r.id));
+    found += relevant.filter(id => hits.has(id)).length;
+    total += relevant.length;
+  }
+  return found / total;
+}
+
+describe('stemSwedish', () => {
+  it('strips inflectional suffixes', () => {
+    expect(stemSwedish('uppsägningen')).toBe('uppsägning');
+    expect(stemSwedish('barnen')).toBe('barn');
+    expect(stemSwedish('myndigheter')).toBe('mynd');
+    expect(stemSwedish('myndigheten')).toBe('mynd');
+  });
+
+  it('always returns a prefix of the lower-cased word', () => {
+    for (const word of ['Arbetsgivarens', 'hyresgästerna', 'personuppgifter', 'åklagaren']) {
+      expect(word.toLowerCase().startsWith(stemSwedish(word))).toBe(true);
+    }
+  });
+
+  it('leaves short words and numbers alone', () => {
+    expect(stemSwedish('av')).toBe('av');
+    expect(stemSwedish('2018')).toBe('2018');
+  });
+});
+
+describe('splitCompound', () => {
+  it('splits compounds across linking letters', () => {
+    expect(splitCompound('arbetsgivaransvar')).toEqual(['arbets', 'givar', 'ansvar']);
+    expect(splitCompound('tillsynsmyndigheten')).toEqual(['tillsyns', 'myndigheten']);
+    expect(splitCompound('personuppgifter')).toEqual(['person', 'uppgifter']);
+  });
+
+  it('returns simplex and unknown words whole', () => {
+    expect(splitCompound('myndighet')).toEqual(['myndighet']);
+    expect(splitCompound('sakligt')).toEqual(['sakligt']);
+    expect(splitCompound('lag')).toEqual(['lag']);
+  });
+
+  it('collects the stems of compound parts as index-time search terms', () => {
+    expect(compoundSearchTerms('Tillsynsmyndigheten beslutar.')).toBe('tillsyn mynd');
+    expect(compoundSearchTerms('Lagens syfte')).toBeNull();
+  });
+});
+
+describe('buildFtsQueryVariants', () => {
+  it('uses stemmed prefixes', () => {
+    expect(buildFtsQueryVariants('uppsägningen').primary).toBe('uppsägning*');
+  });
+
+  it('expands compounds into their parts', () => {
+    expect(buildFtsQueryVariants('tillsynsmyndigheten beslut')).toEqual({
+      primary: '(tillsynsmynd* OR (tillsyn* AND mynd*)) AND beslut*',
+      fallback: '(tillsynsmynd* OR (tillsyn* AND mynd*)) OR beslut*',
+    });
+  });
+
+  it('drops function words', () => {
+    expect(buildFtsQueryVariants('kan de läsa mina mejl')).toEqual({
+      primary: 'läs* AND mejl*',
+      fallback: 'läs* OR mejl*',
+    });
+    expect(buildFtsQueryVariants('vad är')).toEqual({ primary: 'vad* AND är*', fallback: 'vad* OR är*' });
+  });
+
+  it('preserves explicit FTS syntax', () => {
+    expect(buildFtsQueryVariants('"personuppgifter" OR dataskydd').primary).toBe('"personuppgifter" OR dataskydd');
+  });
+
+  describe('recall on legal Swedish', () => {
+    let baselineDb: Database.Database;
+    let stemmedDb: Database.Database;
+
+    beforeAll(() => {
+      baselineDb = createCorpusDatabase(false);
+      stemmedDb = createCorpusDatabase(true);
+    });
+
+    afterAll(() => {
+      baselineDb.close();
+      stemmedDb.close();
+    });
+
+    it('finds every relevant passage in the fixture corpus', () => {
+      expect(recall(stemmedDb, query => buildFtsQueryVariants(query).primary)).toBe(1);
+    });
+
+    it('improves on plain suffix trimming', () => {
+      const baseline = recall(baselineDb, baselineQuery);
+      const stemmed = recall(stemmedDb, query => buildFtsQueryVariants(query).primary);
+      expect(baseline).toBeLessThan(0.75);
+      expect(stemmed - baseline).toBeGreaterThanOrEqual(0.25);
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { diffProvisionText, diffWords, formatHtmlDiff, formatUnifiedDiff } from '../../src/utils/provision-diff.js';
+
+describe('diffWords', () => {
+  it('marks inserted and deleted words', () => {
+    expect(diffWords('Avgiften är 100 kronor.', 'Avgiften är 200 kronor.')).toEqual([
+      { op: 'equal', text: 'Avgiften är ' },
+      { op: 'delete', text: '100' },
+      { op: 'insert', text: '200' },
+      { op: 'equal', text: ' kronor.' },
+    ]);
+  });
+});
+
+describe('diffProvisionText', () => {
+  const list = 'Tillstånd krävs för 1. import av varor, 2. export av varor, 3. transit av varor.';
+
+  it('detects renumbered points', () => {
+    const diff = diffProvisionText(
+      `${list}\nAnsökan görs skriftligt.`,
+      'Tillstånd krävs för 1. export av varor, 2. transit av varor.\nAnsökan görs skriftligt.'
+    );
+    expect(diff.segmentation).toBe('lines');
+    expect(diff.operations.map(op => [op.type, op.old_label, op.new_label])).toEqual([
+      ['unchanged', 'första stycket', 'första stycket'],
+      ['deleted', 'första stycket 1', null],
+      ['renumbered', 'första stycket 2', 'första stycket 1'],
+      ['renumbered', 'första stycket 3', 'första stycket 2'],
+      ['unchanged', 'andra stycket', 'andra stycket'],
+    ]);
+  });
+
+  it('labels units as sentences when the text has no stycke breaks', () => {
+    const diff = diffProvisionText(list, 'Tillstånd krävs för 1. export av varor, 2. transit av varor.');
+    expect(diff.segmentation).toBe('sentences');
+    expect(diff.operations.map(op => [op.type, op.unit, op.old_label, op.new_label])).toEqual([
+      ['unchanged', 'sentence', 'mening 1', 'mening 1'],
+      ['deleted', 'punkt', 'mening 1 punkt 1', null],
+      ['renumbered', 'punkt', 'mening 1 punkt 2', 'mening 1 punkt 1'],
+      ['renumbered', 'punkt', 'mening 1 punkt 3', 'mening 1 punkt 2'],
+    ]);
+  });
+
+  it('diffs by sentence when only one version has stycke breaks', () => {
+    const diff = diffProvisionText(
+      'Lagen gäller i hela landet.\nRegeringen meddelar föreskrifter.',
+      'Lagen gäller i hela landet. Regeringen meddelar föreskrifter.'
+    );
+    expect(diff.segmentation).toBe('sentences');
+    expect(diff.changed).toBe(false);
+  });
+
+  it('detects moved stycken', () => {
+    const diff = diffProvisionText(
+      'Lagen gäller i hela landet. Regeringen meddelar föreskrifter. Kommunen ansvarar för tillsynen.',
+      'Kommunen ansvarar för tillsynen. Lagen gäller i hela landet. Regeringen meddelar föreskrifter.'
+    );
+    expect(diff.summary.moved).toBe(1);
+    expect(diff.summary.modified + diff.summary.inserted + diff.summary.deleted).toBe(0);
+  });
+
+  it('reports no change for identical text', () => {
+    const diff = diffProvisionText(list, list);
+    expect(diff.changed).toBe(false);
+  });
+
+  it('renders unified and escaped HTML output', () => {
+    const diff = diffProvisionText('Beloppet är < 100 kronor.', 'Beloppet är < 200 kronor.');
+    const unified = formatUnifiedDiff(diff, 'old', 'new');
+    expect(unified).toContain('--- old');
+    expect(unified).toContain('-Beloppet är < 100 kronor.');
+    expect(unified).toContain('+Beloppet är < 200 kronor.');
+    expect(formatHtmlDiff(diff)).toContain('&lt; <del>100</del><ins>200</ins> kronor.');
+  });
+});
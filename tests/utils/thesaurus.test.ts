@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type { Database } from '@ansvar/mcp-sqlite';
+import { expandQuery } from '../../src/utils/thesaurus.js';
+import { buildFtsQueryVariants } from '../../src/utils/fts-query.js';
+import { searchLegislation } from '../../src/tools/search-legislation.js';
+import { searchCaseLaw } from '../../src/tools/search-case-law.js';
+import { buildLegalStance } from '../../src/tools/build-legal-stance.js';
+import { createTestDatabase, closeTestDatabase } from '../fixtures/test-db.js';
+
+describe('thesaurus', () => {
+  let db: Database;
+
+  beforeAll(() => {
+    db = createTestDatabase();
+
+    db.prepare(`
+      INSERT INTO legal_documents (id, type, title, status)
+      VALUES ('1970:994', 'statute', 'Jordabalk (1970:994)', 'in_force')
+    `).run();
+    db.prepare(`
+      INSERT INTO legal_provisions (document_id, provision_ref, chapter, section, title, content)
+      VALUES ('1970:994', '12:46', '12', '46', NULL,
+        'Lägenhetsinnehavaren får säga upp avtalet att upphöra vid det månadsskifte som inträffar närmast efter tre månader.')
+    `).run();
+    db.prepare(`
+      INSERT INTO legal_documents (id, type, title, status)
+      VALUES ('AD 2021', 'case_law', 'AD 2021 nr 12', 'in_force')
+    `).run();
+    db.prepare(`
+      INSERT INTO case_law (document_id, court, case_number, decision_date, summary, keywords)
+      VALUES ('AD 2021', 'AD', 'B 12/21', '2021-02-10',
+        'Arbetsdomstolen fann att avskedandet av arbetstagaren saknade laga grund.', 'avskedande arbetsrätt')
+    `).run();
+  });
+
+  afterAll(() => {
+    closeTestDatabase(db);
+  });
+
+  describe('seeding', () => {
+    it('maps statute short names to the statute', () => {
+      const row = db.prepare(
+        "SELECT related_term, document_id, source FROM thesaurus WHERE term = 'PUL' AND relation = 'abbreviation'"
+      ).get();
+      expect(row).toEqual({ related_term: 'Personuppgiftslag', document_id: '1998:204', source: 'short_name' });
+    });
+
+    it('derives broader and narrower terms from definitions', () => {
+      const broader = db.prepare(
+        "SELECT related_term FROM thesaurus WHERE term = 'känsliga personuppgifter' AND relation = 'broader'"
+      ).all();
+      expect(broader).toEqual([{ related_term: 'personuppgift' }]);
+
+      const narrower = db.prepare(
+        "SELECT related_term FROM thesaurus WHERE term = 'personuppgift' AND relation = 'narrower'"
+      ).all();
+      expect(narrower).toEqual([{ related_term: 'känsliga personuppgifter' }]);
+    });
+
+    it('stores synonyms in both directions', () => {
+      const rows = db.prepare(
+        "SELECT term, related_term FROM thesaurus WHERE relation = 'synonym' AND term IN ('hyresgäst', 'lägenhetsinnehavare') ORDER BY term"
+      ).all();
+      expect(rows).toEqual([
+        { term: 'hyresgäst', related_term: 'lägenhetsinnehavare' },
+        { term: 'lägenhetsinnehavare', related_term: 'hyresgäst' },
+      ]);
+    });
+  });
+
+  describe('expandQuery', () => {
+    it('matches inflected and capitalised forms', () => {
+      expect(expandQuery(db, 'Uppsägningen')).toEqual([
+        { term: 'Uppsägningen', relation: 'synonym', expanded_to: ['avskedande'] },
+      ]);
+    });
+
+    it('resolves statute abbreviations', () => {
+      expect(expandQuery(db, 'PUL')).toEqual([
+        { term: 'PUL', relation: 'abbreviation', expanded_to: ['Personuppgiftslag'], document_id: '1998:204' },
+      ]);
+    });
+
+    it('prefers multi-word terms over their words', () => {
+      expect(expandQuery(db, 'offentlig handling')).toEqual([
+        { term: 'offentlig handling', relation: 'synonym', expanded_to: ['allmän handling'] },
+      ]);
+    });
+
+    it('expands to narrower terms but never to broader ones', () => {
+      expect(expandQuery(db, 'tillgreppsbrott')).toEqual([
+        { term: 'tillgreppsbrott', relation: 'narrower', expanded_to: ['stöld', 'snatteri', 'rån'] },
+      ]);
+      expect(expandQuery(db, 'stöld')).toEqual([]);
+    });
+  });
+
+  it('adds expansions as alternatives in the FTS query', () => {
+    const variants = buildFtsQueryVariants('PUL skadestånd', expandQuery(db, 'PUL skadestånd'));
+    expect(variants.primary).toBe(
+      '(pul* OR "1998 204" OR (personuppgiftslag* OR (person* AND uppgift* AND lag*))) AND skadestånd*'
+    );
+    expect(variants.expansions).toHaveLength(1);
+  });
+
+  it('leaves explicit FTS syntax unexpanded', async () => {
+    const response = await searchLegislation(db, { query: '"hyresgäst" OR lägenhetsinnehavaren' });
+    expect(response._meta.query_details).toBeUndefined();
+  });
+
+  describe('search tools', () => {
+    it('search_legislation finds the statute wording for an everyday term', async () => {
+      const response = await searchLegislation(db, { query: 'hyresgäst' });
+      expect(response.results.map(r => r.provision_ref)).toEqual(['12:46']);
+      expect(response._meta.query_strategy).toBeUndefined();
+      expect(response._meta.query_details).toEqual({
+        expansions: [{ term: 'hyresgäst', relation: 'synonym', expanded_to: ['lägenhetsinnehavare'] }],
+      });
+    });
+
+    it('search_case_law reports synonym expansions', async () => {
+      const response = await searchCaseLaw(db, { query: 'uppsägning' });
+      expect(response.results.map(r => r.document_id)).toEqual(['AD 2021']);
+      expect(response._meta.query_details?.expansions[0]).toMatchObject({
+        term: 'uppsägning',
+        relation: 'synonym',
+      });
+    });
+
+    it('build_legal_stance finds preparatory works that cite an abbreviated statute', async () => {
+      const response = await buildLegalStance(db, { query: 'PUL' });
+      expect(response.results.preparatory_works.map(pw => pw.prep_document_id)).toContain('2017/18:105');
+      expect(response._meta.query_details?.expansions).toEqual([
+        { term: 'PUL', relation: 'abbreviation', expanded_to: ['Personuppgiftslag'], document_id: '1998:204' },
+      ]);
+    });
+
+    it('omits query_strategy and query_details when nothing was expanded or broadened', async () => {
+      const response = await searchLegislation(db, { query: 'integritet' });
+      expect(response.results.length).toBeGreaterThan(0);
+      expect(response._meta.query_strategy).toBeUndefined();
+      expect(response._meta.query_details).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type { Database } from '@ansvar/mcp-sqlite';
+import { trainLsaModel, embedText, cosineSimilarity, decodeVector, encodeVector } from '../../src/utils/lsa.js';
+import { reciprocalRankFusion } from '../../src/utils/rank-fusion.js';
+import { buildVectorIndex, hasVectorIndex, NO_VECTOR_INDEX_NOTE } from '../../src/utils/vector-index.js';
+import { searchLegislation } from '../../src/tools/search-legislation.js';
+import { buildLegalStance } from '../../src/tools/build-legal-stance.js';
+import { createTestDatabase, closeTestDatabase } from '../fixtures/test-db.js';
+
+const EMAIL_QUESTION = 'kan arbetsgivaren läsa mina mejl';
+
+const MONITORING_PROVISIONS: [string, string][] = [
+  ['1', 'Arbetsgivaren får ta del av arbetstagarens e-post endast om det behövs för att kontrollera verksamheten.'],
+  ['2', 'Mejl och annan e-post som arbetstagaren skickar i tjänsten får läsas av arbetsgivaren vid misstanke om brott.'],
+  ['3', 'Med e-post avses även mejl och andra elektroniska meddelanden.'],
+  ['4', 'Arbetsgivaren ska informera arbetstagaren innan mejl i tjänstekontot läses.'],
+  ['5', 'Övervakning av e-post och elektroniska meddelanden ska vara proportionerlig.'],
+];
+
+describe('lsa', () => {
+  const corpus = [
+    'hyresgästen ska betala hyra varje månad',
+    'hyresvärden får säga upp hyresgästen vid obetald hyra',
+    'arbetsgivaren får säga upp arbetstagaren vid saklig grund',
+    'arbetstagaren har rätt till lön varje månad',
+    'domstolen dömer till böter eller fängelse',
+    'fängelse döms ut för grova brott av domstolen',
+  ];
+
+  it('is deterministic for a given seed', () => {
+    const a = trainLsaModel(corpus, { dimensions: 3, seed: 7 });
+    const b = trainLsaModel(corpus, { dimensions: 3, seed: 7 });
+    expect([...a.terms.keys()]).toEqual([...b.terms.keys()]);
+    expect(embedText(a, 'hyra')).toEqual(embedText(b, 'hyra'));
+  });
+
+  it('embeds related documents close together', () => {
+    const model = trainLsaModel(corpus, { dimensions: 3, seed: 7 });
+    const rent = embedText(model, 'hyresgästen hyra')!;
+    expect(cosineSimilarity(rent, embedText(model, corpus[1])!))
+      .toBeGreaterThan(cosineSimilarity(rent, embedText(model, corpus[4])!));
+  });
+
+  it('returns null for text without known terms', () => {
+    const model = trainLsaModel(corpus, { dimensions: 3 });
+    expect(embedText(model, 'okänt ord')).toBeNull();
+  });
+
+  it('round-trips vectors through their BLOB encoding', () => {
+    const vector = new Float32Array([0.5, -0.25, 1]);
+    expect(decodeVector(new Uint8Array(encodeVector(vector)))).toEqual(vector);
+  });
+});
+
+describe('reciprocalRankFusion', () => {
+  it('ranks items found by both rankings first', () => {
+    const fused = reciprocalRankFusion([['a', 'b', 'c'], ['c', 'd']], id => id);
+    expect(fused.map(f => f.item)).toEqual(['c', 'a', 'b', 'd']);
+    expect(fused[0].score).toBeCloseTo(1 / 63 + 1 / 61);
+  });
+});
+
+describe('semantic search', () => {
+  let db: Database;
+
+  beforeAll(() => {
+    db = createTestDatabase();
+    db.prepare(`
+      INSERT INTO legal_documents (id, type, title, status)
+      VALUES ('2099:1', 'statute', 'Lag (2099:1) om övervakning i arbetslivet', 'in_force')
+    `).run();
+    const insert = db.prepare(`
+      INSERT INTO legal_provisions (document_id, provision_ref, section, content)
+      VALUES ('2099:1', ?, ?, ?)
+    `);
+    for (const [section, content] of MONITORING_PROVISIONS) {
+      insert.run(section, section, content);
+    }
+    db.prepare(`
+      INSERT INTO legal_documents (id, type, title, status)
+      VALUES ('2099:2', 'statute', 'Lag (2099:2) om uppsägningstid', 'in_force')
+    `).run();
+    db.prepare(`
+      INSERT INTO legal_provisions (document_id, provision_ref, section, content)
+      VALUES ('2099:2', '1', '1', 'Uppsägningstiden är minst en månad och får inte vara mindre vid avtal.')
+    `).run();
+  });
+
+  afterAll(() => {
+    closeTestDatabase(db);
+  });
+
+  describe('without a vector index', () => {
+    it('falls back to lexical search with a note', async () => {
+      expect(hasVectorIndex(db)).toBe(false);
+      const response = await searchLegislation(db, { query: 'personuppgifter', mode: 'hybrid' });
+      expect(response.results.length).toBeGreaterThan(0);
+      expect(response._meta.note).toBe(NO_VECTOR_INDEX_NOTE);
+      expect(response._meta.query_details?.mode ?? 'lexical').toBe('lexical');
+    });
+  });
+
+  describe('with a vector index', () => {
+    beforeAll(() => {
+      expect(buildVectorIndex(db, { dimensions: 6 })).toBe(6);
+    });
+
+    it('matches an everyday question lexically without its function words', async () => {
+      const response = await searchLegislation(db, { query: EMAIL_QUESTION });
+      expect(response._meta.query_strategy).toBeUndefined();
+      expect(response.results.every(r => r.document_id === '2099:1')).toBe(true);
+      expect(response.results.map(r => r.provision_ref).sort()).toEqual(['2', '4']);
+    });
+
+    it('keeps "mina" from matching "minst" and "mindre" in hybrid mode', async () => {
+      const response = await searchLegislation(db, { query: EMAIL_QUESTION, mode: 'hybrid' });
+      expect(response.results.length).toBeGreaterThan(0);
+      expect(response.results.every(r => r.document_id === '2099:1')).toBe(true);
+    });
+
+    it('answers an everyday question semantically', async () => {
+      const response = await searchLegislation(db, { query: EMAIL_QUESTION, mode: 'semantic', limit: 3 });
+      expect(response.results.length).toBeGreaterThan(0);
+      expect(response.results.every(r => r.document_id === '2099:1')).toBe(true);
+      // Provision 1 never says "mejl" but is about reading employees' e-mail.
+      expect(response.results.map(r => r.provision_ref)).toContain('1');
+      expect(response._meta.query_details?.mode).toBe('semantic');
+    });
+
+    it('keeps every lexical match in hybrid mode', async () => {
+      const lexical = await searchLegislation(db, { query: 'personuppgifter', limit: 50 });
+      const hybrid = await searchLegislation(db, { query: 'personuppgifter', mode: 'hybrid', limit: 50 });
+      expect(hybrid.results.map(r => r.provision_ref)).toEqual(
+        expect.arrayContaining(lexical.results.map(r => r.provision_ref)),
+      );
+      expect(hybrid._meta.query_details?.mode).toBe('hybrid');
+    });
+
+    it('honours the document filter', async () => {
+      const response = await searchLegislation(db, {
+        query: EMAIL_QUESTION,
+        mode: 'semantic',
+        document_id: '2018:218',
+      });
+      expect(response.results.every(r => r.document_id === '2018:218')).toBe(true);
+    });
+
+    it('build_legal_stance ranks statute provisions semantically', async () => {
+      const response = await buildLegalStance(db, { query: EMAIL_QUESTION, mode: 'hybrid' });
+      expect(response.results.provisions[0]?.document_id).toBe('2099:1');
+      expect(response._meta.query_details?.mode).toBe('hybrid');
+    });
+  });
+
+  it('embeds thesaurus expansions of words the model has not seen', async () => {
+    const other = createTestDatabase();
+    other.prepare(`
+      INSERT INTO legal_documents (id, type, title, status)
+      VALUES ('2099:2', 'statute', 'Lag (2099:2) om elektronisk post', 'in_force')
+    `).run();
+    const insert = other.prepare(`
+      INSERT INTO legal_provisions (document_id, provision_ref, section, content)
+      VALUES ('2099:2', ?, ?, ?)
+    `);
+    insert.run('1', '1', 'Elektronisk post som skickas i tjänsten får bevaras av arbetsgivaren.');
+    insert.run('2', '2', 'Elektronisk post ska gallras när den inte längre behövs.');
+    buildVectorIndex(other, { dimensions: 6 });
+
+    const response = await searchLegislation(other, { query: 'mejl', mode: 'semantic', limit: 2 });
+    expect(response.results.map(r => r.document_id)).toEqual(['2099:2', '2099:2']);
+    closeTestDatabase(other);
+  });
+});